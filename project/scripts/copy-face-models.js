@@ -0,0 +1,24 @@
+// Copies the face-api.js model files the app uses into public/models so they are
+// served locally (no CDN). Runs after `npm install`.
+import { copyFileSync, existsSync, mkdirSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const root = join(dirname(fileURLToPath(import.meta.url)), '..');
+const source = join(root, 'node_modules', '@vladmandic', 'face-api', 'model');
+const target = join(root, 'public', 'models');
+
+const MODELS = ['ssd_mobilenetv1_model', 'face_landmark_68_model', 'face_recognition_model'];
+
+if (!existsSync(source)) {
+  console.warn('[copy-face-models] @vladmandic/face-api is not installed, skipping');
+  process.exit(0);
+}
+
+mkdirSync(target, { recursive: true });
+for (const model of MODELS) {
+  for (const file of [`${model}-weights_manifest.json`, `${model}.bin`]) {
+    copyFileSync(join(source, file), join(target, file));
+  }
+}
+console.log(`[copy-face-models] Copied ${MODELS.length} models to public/models`);
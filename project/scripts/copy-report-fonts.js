@@ -0,0 +1,22 @@
+// Copies the fonts embedded in PDF reports into public/fonts so they are served
+// locally (no CDN). Runs after `npm install`.
+import { copyFileSync, existsSync, mkdirSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const root = join(dirname(fileURLToPath(import.meta.url)), '..');
+const source = join(root, 'node_modules', 'dejavu-fonts-ttf', 'ttf');
+const target = join(root, 'public', 'fonts');
+
+const FONTS = ['DejaVuSans.ttf', 'DejaVuSans-Bold.ttf'];
+
+if (!existsSync(source)) {
+  console.warn('[copy-report-fonts] dejavu-fonts-ttf is not installed, skipping');
+  process.exit(0);
+}
+
+mkdirSync(target, { recursive: true });
+for (const font of FONTS) {
+  copyFileSync(join(source, font), join(target, font));
+}
+console.log(`[copy-report-fonts] Copied ${FONTS.length} fonts to public/fonts`);
@@ -0,0 +1,330 @@
+/**
+ * REST API over DatabaseService, so several devices share one database.
+ * Every request runs with the permissions of the account behind its bearer token;
+ * the DatabaseService rules (roles, department scope, audit log, liveness and geofence
+ * checks) apply exactly as they do in the browser.
+ */
+
+import express, { Request, Response, NextFunction } from 'express';
+import { DatabaseService, DuplicateAttendanceError } from '../src/utils/database';
+import { AuthService, AuthError } from '../src/utils/auth';
+import { Permission, PermissionError, ROLE_LABELS, can, isInScope } from '../src/utils/permissions';
+import { AttendanceQuery, matchesAttendanceQuery, reviveDates } from '../src/utils/storage/storageAdapter';
+import { ATTENDANCE_STATUSES } from '../src/utils/migrations';
+import { AttendanceRecord, AttendanceSource, AuthSession, Student } from '../src/types';
+import { ReportJob, loadReportJobs, saveReportJobs } from '../src/utils/scheduledReports';
+import { ReportScheduler } from './reportScheduler';
+
+export interface ApiOptions {
+  database: DatabaseService;
+  auth: AuthService;
+  corsOrigin?: string; // Origin allowed to call the API from a browser, '*' by default
+  reports?: ReportScheduler; // Runs report jobs on demand; without it POST /api/report-jobs/:id/run is a 503
+}
+
+/**
+ * Error carrying an HTTP status; anything else thrown by a handler is a 400 or 500
+ */
+export class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+// Route parameters are always single path segments here
+type ApiRequest = Request<Record<string, string>>;
+
+type Handler = (req: ApiRequest, session: AuthSession) => unknown;
+
+const statusFor = (error: unknown): number => {
+  if (error instanceof HttpError) return error.status;
+  if (error instanceof AuthError) return 401;
+  if (error instanceof PermissionError) return 403;
+  if (error instanceof DuplicateAttendanceError) return 409;
+  return error instanceof Error ? 400 : 500;
+};
+
+const optionalString = (value: unknown): string | undefined => (typeof value === 'string' && value ? value : undefined);
+
+const optionalDate = (value: unknown): Date | undefined => {
+  if (typeof value !== 'string' || !value) return undefined;
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) throw new HttpError(400, `Invalid date: ${value}`);
+  return date;
+};
+
+// The record in a POST or PUT /api/attendance body, checked field by field so the 400 names what is wrong
+const requireAttendanceRecord = (record: unknown): AttendanceRecord => {
+  if (!record || typeof record !== 'object' || Array.isArray(record)) throw new HttpError(400, 'record must be a JSON object');
+  const { studentId, timestamp, status } = record as Record<string, unknown>;
+  if (typeof studentId !== 'string' || !studentId) throw new HttpError(400, 'record.studentId is required');
+  if (typeof timestamp !== 'string' || Number.isNaN(new Date(timestamp).getTime())) {
+    throw new HttpError(400, 'record.timestamp must be an ISO date');
+  }
+  if (!ATTENDANCE_STATUSES.includes(status as AttendanceRecord['status'])) {
+    throw new HttpError(400, `record.status must be one of ${ATTENDANCE_STATUSES.join(', ')}`);
+  }
+  return reviveDates('attendance', record as AttendanceRecord);
+};
+
+// Sources that skip the check-in rules; only staff who may correct records can claim them, and they must say why
+const OVERRIDE_SOURCES: AttendanceSource[] = ['manual_override', 'leave_approval'];
+
+const checkOverride = (session: AuthSession, source: AttendanceSource, reason: unknown) => {
+  if (!OVERRIDE_SOURCES.includes(source)) return;
+  requirePermission(session, 'attendance.edit');
+  if (typeof reason !== 'string' || !reason.trim()) throw new HttpError(400, `A reason is required for ${source} changes`);
+};
+
+/**
+ * The record and source a request may write. A student's self check-in is always a face recognition
+ * check-in stamped with the server's clock, so it can be neither backdated nor marked Excused or Absent.
+ */
+const checkAttendanceWrite = (
+  session: AuthSession,
+  record: AttendanceRecord,
+  source: AttendanceSource | undefined,
+  reason: unknown
+): { record: AttendanceRecord; source: AttendanceSource } => {
+  if (can(session.role, 'attendance.markSelf') && !can(session.role, 'attendance.mark')) {
+    if (source && source !== 'face_recognition') {
+      throw new PermissionError(`${ROLE_LABELS[session.role]} accounts can only check in by face recognition`);
+    }
+    if (record.status !== 'Present' && record.status !== 'Late') {
+      throw new PermissionError(`${ROLE_LABELS[session.role]} accounts can only check in as Present or Late`);
+    }
+    return { record: { ...record, timestamp: new Date(), source: 'face_recognition' }, source: 'face_recognition' };
+  }
+  const claimed = source || 'face_recognition';
+  checkOverride(session, claimed, reason);
+  return { record, source: claimed };
+};
+
+const found = <T>(value: T | null | undefined, what: string): T => {
+  if (value === null || value === undefined) throw new HttpError(404, `${what} not found`);
+  return value;
+};
+
+const requirePermission = (session: AuthSession, permission: Permission) => {
+  if (!can(session.role, permission)) throw new PermissionError(`${ROLE_LABELS[session.role]} accounts cannot perform ${permission}`);
+};
+
+export const createApp = ({ database, auth, corsOrigin = '*', reports }: ApiOptions) => {
+  const app = express();
+  app.use(express.json({ limit: '10mb' })); // Student records carry their photo as a data URL
+
+  app.use((req, res, next) => {
+    res.setHeader('Access-Control-Allow-Origin', corsOrigin);
+    res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, PATCH, DELETE, OPTIONS');
+    if (req.method === 'OPTIONS') {
+      res.sendStatus(204);
+      return;
+    }
+    next();
+  });
+
+  const authenticate = async (req: Request): Promise<AuthSession> => {
+    const token = req.header('authorization')?.match(/^Bearer (.+)$/)?.[1];
+    const session = token ? await auth.validateSession(token) : null;
+    if (!session) throw new AuthError('Authentication required');
+    return session;
+  };
+
+  /**
+   * Authenticate, then run `handler` as that account. Handlers call DatabaseService synchronously
+   * right after the actor is set, so concurrent requests never see each other's actor.
+   */
+  const route = (handler: Handler, successStatus = 200) => async (req: ApiRequest, res: Response) => {
+    try {
+      const session = await authenticate(req);
+      database.setActor(session);
+      let tracked: { result: unknown; written: Promise<void> };
+      try {
+        tracked = database.trackWrites(() => handler(req, session));
+      } finally {
+        database.setActor(null);
+      }
+      // Wait for this request's own writes only, so another request's failed write is not reported here
+      const [result] = await Promise.all([tracked.result, tracked.written]);
+      if (result === undefined) {
+        res.sendStatus(204);
+      } else {
+        res.status(successStatus).json(result);
+      }
+    } catch (error) {
+      sendError(res, error);
+    }
+  };
+
+  const sendError = (res: Response, error: unknown) => {
+    const status = statusFor(error);
+    if (status === 500) console.error('[API] Unexpected error:', error);
+    res.status(status).json({ error: error instanceof Error ? error.message : 'Internal server error' });
+  };
+
+  app.get('/api/health', (_req, res) => {
+    res.json({ status: 'ok', storage: database.getStorageBackend() });
+  });
+
+  // Authentication
+  app.post('/api/auth/login', async (req, res) => {
+    try {
+      const { username, password } = req.body ?? {};
+      if (typeof username !== 'string' || typeof password !== 'string') {
+        throw new HttpError(400, 'Username and password are required');
+      }
+      const session = await auth.login(username, password);
+      res.json({ token: session.id, userId: session.userId, username: session.username, role: session.role, expiresAt: session.expiresAt });
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  app.post('/api/auth/logout', route((_req, session) => database.deleteAuthSession(session.id).then(() => undefined)));
+
+  // Creating a login for an existing student/staff record needs the same rights as creating the record
+  app.post('/api/auth/register', route((req, session) => {
+    const { username, password, role, userId } = req.body ?? {};
+    const student = found(database.getStudents().find(s => s.id === userId), 'Student');
+    if (student.role !== role) throw new HttpError(400, 'Role must match the student record');
+    const permission: Permission = role === 'student' ? 'students.create' : 'users.manageRoles';
+    const actor = database.getActor();
+    if (!actor || !can(session.role, permission) || !isInScope(actor, student)) {
+      throw new PermissionError(`${ROLE_LABELS[session.role]} accounts cannot create this login`);
+    }
+    return auth.register({ username, password, role, userId }).then(credential => ({
+      username: credential.username,
+      role: credential.role,
+      userId: credential.userId,
+    }));
+  }, 201));
+
+  // Students
+  app.get('/api/students', route(() => database.getStudents()));
+
+  app.get('/api/students/:id', route(req => found(database.getStudents().find(s => s.id === req.params.id), 'Student')));
+
+  app.post('/api/students', route(req => database.saveStudent(reviveDates('students', req.body as Student)), 201));
+
+  app.put('/api/students/:id', route(req => {
+    const existing = found(database.getStudents().find(s => s.id === req.params.id), 'Student');
+    const updated: Student = { ...reviveDates('students', req.body as Student), id: existing.id, createdAt: existing.createdAt };
+    database.updateStudent(updated);
+    return updated;
+  }));
+
+  app.delete('/api/students/:id', route(req => {
+    found(database.getStudents().find(s => s.id === req.params.id), 'Student');
+    database.deleteStudent(req.params.id);
+  }));
+
+  // Attendance
+  app.get('/api/attendance', route(req => {
+    const query: AttendanceQuery = {
+      studentId: optionalString(req.query.studentId),
+      sessionId: optionalString(req.query.sessionId),
+      subject: optionalString(req.query.subject),
+      from: optionalDate(req.query.from),
+      to: optionalDate(req.query.to),
+    };
+    return database.getAttendanceRecords().filter(record => matchesAttendanceQuery(record, query));
+  }));
+
+  app.get('/api/attendance/:id', route(req =>
+    found(database.getAttendanceRecords().find(r => r.id === req.params.id), 'Attendance record')
+  ));
+
+  // Check-in or manual mark; same body as DatabaseService.markAttendance
+  app.post('/api/attendance', route((req, session) => {
+    const { record, source, reason } = req.body ?? {};
+    const checked = checkAttendanceWrite(session, requireAttendanceRecord(record), source, reason);
+    return database.markAttendance(checked.record, { source: checked.source, reason });
+  }, 201));
+
+  // Status change; same semantics as DatabaseService.updateAttendanceStatus
+  app.patch('/api/attendance/:id', route((req, session) => {
+    const { status, source, reason } = req.body ?? {};
+    if (source) checkOverride(session, source, reason);
+    return found(database.updateAttendanceStatus(req.params.id, status, { source, reason }), 'Attendance record');
+  }));
+
+  /**
+   * Full record from a device's offline outbox. A new record keeps the id the device gave it;
+   * for an existing one only a status change is applied (and audited).
+   */
+  app.put('/api/attendance/:id', route((req, session) => {
+    const { reason } = req.body ?? {};
+    const sent = requireAttendanceRecord(req.body?.record);
+    const { record, source } = checkAttendanceWrite(session, sent, sent.source, reason);
+    const existing = database.getAttendanceRecords().find(r => r.id === req.params.id);
+    if (!existing) {
+      return database.markAttendance(record, { id: req.params.id, source, reason });
+    }
+    return database.updateAttendanceStatus(existing.id, record.status, { source, reason });
+  }));
+
+  // Class sessions
+  app.get('/api/sessions', route(req =>
+    database.getSessions({
+      sectionId: optionalString(req.query.sectionId),
+      from: optionalDate(req.query.from),
+      to: optionalDate(req.query.to),
+    })
+  ));
+
+  app.get('/api/sessions/:id', route(req => found(database.getSession(req.params.id), 'Session')));
+
+  app.post('/api/sessions/:id/cancel', route(req => {
+    found(database.getSession(req.params.id), 'Session');
+    database.cancelSession(req.params.id);
+    return database.getSession(req.params.id);
+  }));
+
+  // Settings
+  app.get('/api/settings', route((_req, session) => {
+    requirePermission(session, 'settings.write');
+    return database.getSettings();
+  }));
+
+  app.put('/api/settings', route(req => {
+    const settings = req.body;
+    if (!settings || typeof settings !== 'object' || Array.isArray(settings)) {
+      throw new HttpError(400, 'Settings must be a JSON object');
+    }
+    return database.saveSettings(settings).then(() => settings);
+  }));
+
+  // Scheduled report jobs (kept in the settings) and their run history
+  app.get('/api/report-jobs', route((_req, session) => {
+    requirePermission(session, 'reports.view');
+    return loadReportJobs(database);
+  }));
+
+  app.put('/api/report-jobs', route(req => {
+    const jobs = req.body;
+    if (!Array.isArray(jobs)) throw new HttpError(400, 'Report jobs must be a JSON array');
+    return saveReportJobs(jobs as ReportJob[], database).then(() => jobs);
+  }));
+
+  app.get('/api/report-jobs/runs', route(() => database.getReportRuns()));
+
+  app.post('/api/report-jobs/:id/run', route((req, session) => {
+    requirePermission(session, 'settings.write');
+    if (!reports) throw new HttpError(503, 'The report scheduler is not running');
+    return loadReportJobs(database).then(jobs => reports.runJob(found(jobs.find(job => job.id === req.params.id), 'Report job'), 'manual'));
+  }));
+
+  app.use((_req, res) => {
+    res.status(404).json({ error: 'Not found' });
+  });
+
+  // Malformed JSON bodies and other errors raised outside the route handlers
+  app.use((error: unknown, _req: Request, res: Response, next: NextFunction) => {
+    if (res.headersSent) return next(error);
+    sendError(res, error instanceof SyntaxError ? new HttpError(400, 'Malformed JSON body') : error);
+  });
+
+  return app;
+};
@@ -0,0 +1,55 @@
+/**
+ * API server entry point: `npm run server`. Also serves the live attendance feed (see live.ts).
+ *
+ *   PORT            Port to listen on (3001)
+ *   DATABASE_FILE   SQLite file (neoattend.sqlite)
+ *   CORS_ORIGIN     Origin of the web app allowed to call the API (*)
+ *   ADMIN_USERNAME  With ADMIN_PASSWORD, creates an administrator account on first start
+ *   REPORT_OUTPUT_DIR  Where scheduled reports delivered to a folder are written (reports)
+ *   SMTP_URL        SMTP server for emailed reports, e.g. smtp://localhost:1025 for a local mail sink
+ *   REPORT_MAIL_FROM   Sender address of emailed reports
+ */
+
+import { DatabaseService } from '../src/utils/database';
+import { AuthService } from '../src/utils/auth';
+import { SqliteAdapter } from './sqliteAdapter';
+import { createApp } from './app';
+import { attachLiveFeed } from './live';
+import { createReportScheduler } from './reportScheduler';
+
+const port = Number(process.env.PORT || 3001);
+const databaseFile = process.env.DATABASE_FILE || 'neoattend.sqlite';
+
+const database = new DatabaseService(new SqliteAdapter(databaseFile));
+await database.init();
+const auth = new AuthService(database);
+
+// Without at least one account nobody could log in to create the others
+const { ADMIN_USERNAME, ADMIN_PASSWORD } = process.env;
+if (ADMIN_USERNAME && ADMIN_PASSWORD && !(await auth.isRegistered(ADMIN_USERNAME))) {
+  const admin = database.runAsSystem(() =>
+    database.saveStudent({
+      employeeId: ADMIN_USERNAME,
+      name: 'Administrator',
+      email: '',
+      department: 'Administration',
+      role: 'admin',
+    })
+  );
+  await auth.register({ username: ADMIN_USERNAME, password: ADMIN_PASSWORD, role: 'admin', userId: admin.id });
+  await database.flush();
+  console.log(`[API] Created administrator account ${ADMIN_USERNAME}`);
+}
+
+const reports = createReportScheduler({
+  database,
+  outputDir: process.env.REPORT_OUTPUT_DIR || 'reports',
+  smtpUrl: process.env.SMTP_URL,
+  mailFrom: process.env.REPORT_MAIL_FROM,
+});
+reports.start();
+
+const server = createApp({ database, auth, corsOrigin: process.env.CORS_ORIGIN, reports }).listen(port, () => {
+  console.log(`[API] Listening on http://localhost:${port} (SQLite: ${databaseFile})`);
+});
+attachLiveFeed(server, { database, auth });
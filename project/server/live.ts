@@ -0,0 +1,115 @@
+/**
+ * Live attendance feed: a WebSocket at /api/live pushing every attendance change to the
+ * faculty boards subscribed to its class session.
+ *
+ *   connect    ws://host/api/live?token=<bearer token>
+ *   client ->  { "type": "subscribe", "sessionId": "..." }
+ *   server ->  { "type": "attendance", "record": AttendanceRecord }
+ */
+
+import { Server } from 'http';
+import { WebSocket, WebSocketServer } from 'ws';
+import { DatabaseService } from '../src/utils/database';
+import { AuthService } from '../src/utils/auth';
+import { Actor, can, isInScope } from '../src/utils/permissions';
+import { AttendanceRecord } from '../src/types';
+
+export const LIVE_PATH = '/api/live';
+
+const HEARTBEAT_INTERVAL_MS = 30000;
+
+// Close codes in the application range (4000-4999)
+export const LIVE_CLOSE_CODES = {
+  unauthorized: 4401,
+  forbidden: 4403,
+};
+
+export interface LiveMessage {
+  type: 'attendance';
+  record: AttendanceRecord;
+}
+
+interface Subscriber {
+  socket: WebSocket;
+  actor: Actor;
+  sessionId: string | null;
+  alive: boolean;
+}
+
+export const attachLiveFeed = (server: Server, { database, auth }: { database: DatabaseService; auth: AuthService }) => {
+  const wss = new WebSocketServer({ server, path: LIVE_PATH });
+  const subscribers = new Set<Subscriber>();
+
+  const canSee = (actor: Actor, record: AttendanceRecord): boolean => {
+    if (actor.role !== 'hod') return true;
+    const student = database.runAsSystem(() => database.getStudents().find(s => s.id === record.studentId));
+    return !!student && isInScope(actor, student);
+  };
+
+  wss.on('connection', async (socket, req) => {
+    const token = new URL(req.url || '', 'http://localhost').searchParams.get('token');
+    const session = token ? await auth.validateSession(token) : null;
+    if (!session) {
+      socket.close(LIVE_CLOSE_CODES.unauthorized, 'Authentication required');
+      return;
+    }
+    if (!can(session.role, 'attendance.view')) {
+      socket.close(LIVE_CLOSE_CODES.forbidden, 'Live attendance is for staff accounts');
+      return;
+    }
+
+    const department = database.runAsSystem(() => database.getStudents().find(s => s.id === session.userId)?.department);
+    const subscriber: Subscriber = {
+      socket,
+      actor: { userId: session.userId, role: session.role, department },
+      sessionId: null,
+      alive: true,
+    };
+    subscribers.add(subscriber);
+
+    socket.on('message', data => {
+      try {
+        const message = JSON.parse(data.toString());
+        if (message?.type === 'subscribe') {
+          subscriber.sessionId = typeof message.sessionId === 'string' ? message.sessionId : null;
+        }
+      } catch {
+        // Ignore malformed messages
+      }
+    });
+    socket.on('pong', () => {
+      subscriber.alive = true;
+    });
+    socket.on('close', () => {
+      subscribers.delete(subscriber);
+    });
+  });
+
+  const unsubscribe = database.onAttendanceChange(record => {
+    const payload = JSON.stringify({ type: 'attendance', record } satisfies LiveMessage);
+    subscribers.forEach(({ socket, actor, sessionId }) => {
+      if (sessionId && record.sessionId === sessionId && socket.readyState === WebSocket.OPEN && canSee(actor, record)) {
+        socket.send(payload);
+      }
+    });
+  });
+
+  // Drop connections that stopped answering pings (phones going to sleep, dropped Wi-Fi)
+  const heartbeat = setInterval(() => {
+    subscribers.forEach(subscriber => {
+      if (!subscriber.alive) {
+        subscriber.socket.terminate();
+        return;
+      }
+      subscriber.alive = false;
+      subscriber.socket.ping();
+    });
+  }, HEARTBEAT_INTERVAL_MS);
+
+  wss.on('close', () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  });
+
+  return wss;
+};
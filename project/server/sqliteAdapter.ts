@@ -0,0 +1,99 @@
+import Database from 'better-sqlite3';
+import { AttendanceRecord } from '../src/types';
+import {
+  StorageAdapter,
+  StoreName,
+  StoreRecordMap,
+  AttendanceQuery,
+  STORE_NAMES,
+  reviveDates,
+  matchesAttendanceQuery,
+} from '../src/utils/storage/storageAdapter';
+import { STORE_INDEXES } from '../src/utils/storage/indexedDBAdapter';
+
+// Fields narrowing an attendance query in SQL; the date range is applied to the result
+const ATTENDANCE_QUERY_COLUMNS = ['studentId', 'sessionId', 'subject'] as const;
+
+/**
+ * SQLite backend for the API server - one table per store holding each record as JSON,
+ * with generated columns and indexes for the fields IndexedDB indexes (STORE_INDEXES).
+ */
+export class SqliteAdapter implements StorageAdapter {
+  readonly name = 'sqlite';
+  private db: Database.Database | null = null;
+
+  constructor(private filename: string = ':memory:') {}
+
+  async open(): Promise<void> {
+    if (this.db) return;
+
+    const db = new Database(this.filename);
+    db.pragma('journal_mode = WAL');
+    STORE_NAMES.forEach(store => {
+      const columns = STORE_INDEXES[store].map(
+        field => `, "${field}" GENERATED ALWAYS AS (json_extract(data, '$.${field}')) VIRTUAL`
+      );
+      db.exec(`CREATE TABLE IF NOT EXISTS "${store}" (id TEXT PRIMARY KEY, data TEXT NOT NULL${columns.join('')})`);
+      STORE_INDEXES[store].forEach(field => {
+        db.exec(`CREATE INDEX IF NOT EXISTS "${store}_${field}" ON "${store}" ("${field}")`);
+      });
+    });
+    this.db = db;
+  }
+
+  async getAll<K extends StoreName>(store: K): Promise<StoreRecordMap[K][]> {
+    const rows = this.connection().prepare(`SELECT data FROM "${store}" ORDER BY rowid`).all() as Array<{ data: string }>;
+    return rows.map(row => this.parse(store, row.data));
+  }
+
+  async get<K extends StoreName>(store: K, id: string): Promise<StoreRecordMap[K] | null> {
+    const row = this.connection().prepare(`SELECT data FROM "${store}" WHERE id = ?`).get(id) as { data: string } | undefined;
+    return row ? this.parse(store, row.data) : null;
+  }
+
+  async put<K extends StoreName>(store: K, record: StoreRecordMap[K]): Promise<void> {
+    await this.putMany(store, [record]);
+  }
+
+  async putMany<K extends StoreName>(store: K, records: StoreRecordMap[K][]): Promise<void> {
+    const db = this.connection();
+    // Upsert in place so rowid (and with it getAll order) stays the insertion order
+    const upsert = db.prepare(`INSERT INTO "${store}" (id, data) VALUES (?, ?) ON CONFLICT(id) DO UPDATE SET data = excluded.data`);
+    db.transaction(() => {
+      records.forEach(record => upsert.run(record.id, JSON.stringify(record)));
+    })();
+  }
+
+  async delete(store: StoreName, id: string): Promise<void> {
+    this.connection().prepare(`DELETE FROM "${store}" WHERE id = ?`).run(id);
+  }
+
+  async clear(store: StoreName): Promise<void> {
+    this.connection().exec(`DELETE FROM "${store}"`);
+  }
+
+  async queryAttendance(query: AttendanceQuery): Promise<AttendanceRecord[]> {
+    const filters = ATTENDANCE_QUERY_COLUMNS.filter(field => query[field] !== undefined);
+    const where = filters.length ? `WHERE ${filters.map(field => `"${field}" = ?`).join(' AND ')}` : '';
+    const rows = this.connection()
+      .prepare(`SELECT data FROM attendance ${where} ORDER BY rowid`)
+      .all(...filters.map(field => query[field])) as Array<{ data: string }>;
+    return rows.map(row => this.parse('attendance', row.data)).filter(record => matchesAttendanceQuery(record, query));
+  }
+
+  close(): void {
+    this.db?.close();
+    this.db = null;
+  }
+
+  private connection(): Database.Database {
+    if (!this.db) {
+      throw new Error('SQLite adapter used before open()');
+    }
+    return this.db;
+  }
+
+  private parse<K extends StoreName>(store: K, data: string): StoreRecordMap[K] {
+    return reviveDates(store, JSON.parse(data) as StoreRecordMap[K]);
+  }
+}
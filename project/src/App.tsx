@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useMemo } from 'react';
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
 import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-dom';
 import Navigation from './components/Navigation';
 import Dashboard from './components/Dashboard';
@@ -11,10 +11,17 @@ import Analytics from './components/Analytics';
 import StudentAnalytics from './components/StudentAnalytics';
 import FacultyAnalytics from './components/FacultyAnalytics';
 import StudentMonitoring from './components/StudentMonitoring';
+import CourseManagement from './components/CourseManagement';
 import Settings from './components/Settings';
 import Home from './components/Home';
-import { database } from './utils/database';
+import { database, createApiAdapter } from './utils/database';
 import { initializeTestData } from './utils/initializeTestData';
+import { authService } from './utils/auth';
+import { settingsService } from './utils/settings';
+import { downloadPurgeArchive, startRetentionSchedule } from './utils/retention';
+import { facialRecognition } from './utils/facialRecognition';
+import { can, userTypeForRole, Permission } from './utils/permissions';
+import { AuthSession, Role } from './types';
 import Login from './components/auth/Login';
 import Signup from './components/auth/Signup';
 
@@ -22,19 +29,31 @@ import Signup from './components/auth/Signup';
 interface AuthContextType {
   isAuthenticated: boolean;
   userType: 'faculty' | 'student' | null;
-  login: (type: 'faculty' | 'student', userData: { username: string; password: string }) => void;
+  role: Role | null;
+  session: AuthSession | null;
+  can: (permission: Permission) => boolean;
+  login: (type: 'faculty' | 'student', userData: { username: string; password: string }) => Promise<void>;
   logout: () => void;
 }
 
 export const AuthContext = React.createContext<AuthContextType | null>(null);
 
 // Protected Route Component
-const ProtectedRoute = ({ children, requiredRole, isLoading }: { 
+const ProtectedRoute = ({ children, requiredPermission, isLoading }: { 
   children: React.ReactNode; 
-  requiredRole?: 'faculty' | 'student';
+  requiredPermission?: Permission;
   isLoading?: boolean;
 }) => {
   const auth = React.useContext(AuthContext);
+  const session = auth?.session || null;
+  const isExpired = !!session && new Date(session.expiresAt).getTime() <= Date.now();
+
+  // Sessions can run out while the app is open
+  useEffect(() => {
+    if (isExpired) {
+      auth?.logout();
+    }
+  }, [isExpired, auth]);
 
   // Show loading state while checking authentication
   if (isLoading) {
@@ -48,11 +67,11 @@ const ProtectedRoute = ({ children, requiredRole, isLoading }: {
     );
   }
 
-  if (!auth?.isAuthenticated) {
+  if (!session || isExpired) {
     return <Navigate to="/login" replace />;
   }
 
-  if (requiredRole && auth.userType !== requiredRole) {
+  if (requiredPermission && !can(session.role, requiredPermission)) {
     return <Navigate to="/dashboard" replace />;
   }
 
@@ -116,58 +135,129 @@ const AppLayout = ({ children }: { children: React.ReactNode }) => {
   );
 };
 
+// Profile of the logged-in user, read by screens that show the faculty name
+const storeUserProfile = (session: AuthSession) => {
+  const user = database.getStudents().find(s => s.id === session.userId);
+  localStorage.setItem('user', JSON.stringify({
+    id: session.userId,
+    username: session.username,
+    name: user?.name || session.username,
+    role: session.role,
+  }));
+};
+
+// Shared API server, when VITE_API_URL is set; the app keeps working offline without it
+const api = createApiAdapter();
+
 function App() {
-  const [isAuthenticated, setIsAuthenticated] = useState(false);
-  const [userType, setUserType] = useState<'faculty' | 'student' | null>(null);
+  const [session, setSession] = useState<AuthSession | null>(null);
   const [initialLoadComplete, setInitialLoadComplete] = useState(false);
+  const isAuthenticated = session !== null;
+  const role = session?.role || null;
+  const userType = role ? userTypeForRole(role) : null;
+
+  // Everything the database serves from here on is filtered and checked for this user
+  const startSession = useCallback((newSession: AuthSession) => {
+    database.setActor(newSession);
+    storeUserProfile(newSession);
+    // Institution settings plus this user's own preferences
+    settingsService.load().catch(error => console.error('Failed to load settings:', error));
+    setSession(newSession);
+  }, []);
 
   useEffect(() => {
-    // Initialize test data automatically if database is empty
+    // Load persisted data from the storage backend before anything reads it
     console.log('🔄 Checking database...');
-    const dataLoaded = initializeTestData();
-    
-    if (dataLoaded) {
-      console.log('✅ Test data loaded automatically!');
-      console.log('📊 You can now test Faculty Dashboard features');
-    }
+    database.init().then(async () => {
+      if (api) {
+        await database.useRemote(api);
+      }
+
+      // Initialize test data automatically if database is empty
+      const dataLoaded = database.runAsSystem(() => initializeTestData());
 
-    // Check for stored authentication
-    const storedAuth = localStorage.getItem('neoattend_auth');
+      if (dataLoaded) {
+        console.log('✅ Test data loaded automatically!');
+        console.log('📊 You can now test Faculty Dashboard features');
+      }
 
-    if (storedAuth) {
+      // Check for a stored session - only a token that matches a live session is trusted
       try {
-        const authData = JSON.parse(storedAuth);
-        console.log('Restoring authentication:', authData);
-        setIsAuthenticated(true);
-        setUserType(authData.userType);
+        await authService.importLegacyAccounts(username =>
+          database.runAsSystem(() => database.getStudentByRollNo(username)?.id || null)
+        );
+        const restored = await authService.restoreSession();
+        if (restored) {
+          console.log('Restoring session for', restored.username);
+          startSession(restored);
+          if (api?.isAuthenticated()) {
+            database.pullFromRemote().catch(error => console.warn('[API] Could not refresh from server:', error));
+          }
+        }
       } catch (error) {
         console.error('Error restoring auth:', error);
-        localStorage.removeItem('neoattend_auth');
         localStorage.removeItem('neoattend_current_route');
       }
-    }
 
-    // Mark initial load as complete
-    setInitialLoadComplete(true);
-  }, []);
-
-  const handleLogin = (type: 'faculty' | 'student', userData: { username: string; password: string }) => {
-    setIsAuthenticated(true);
-    setUserType(type);
-    // Store authentication data
-    localStorage.setItem('neoattend_auth', JSON.stringify({ userType: type, username: userData.username }));
+      // Mark initial load as complete
+      setInitialLoadComplete(true);
+    });
+  }, [startSession]);
+
+  const handleLogin = async (type: 'faculty' | 'student', userData: { username: string; password: string }) => {
+    const newSession = await authService.login(userData.username, userData.password, type);
+    startSession(newSession);
+
+    // The same account on the API server; failing here only means changes stay queued on this device
+    api
+      ?.login(userData.username, userData.password)
+      .then(() => database.syncOutbox())
+      .then(() => database.pullFromRemote())
+      .catch(error => console.warn('[API] Server login failed, working offline:', error));
   };
 
-  const handleLogout = () => {
-    setIsAuthenticated(false);
-    setUserType(null);
-    localStorage.removeItem('neoattend_auth');
+  // Scheduled retention purges run while an administrator is logged in, once the settings they follow are loaded
+  useEffect(() => {
+    if (!role || !can(role, 'data.manage')) return;
+    let stop: (() => void) | null = null;
+    let cancelled = false;
+    settingsService
+      .load()
+      .then(() => {
+        if (cancelled) return;
+        stop = startRetentionSchedule(database, {
+          dataRetention: () => settingsService.get().dataRetention,
+          archiver: downloadPurgeArchive,
+          onPurged: report => {
+            if (report.purged.faceDescriptors > 0) {
+              facialRecognition.loadFaceDescriptors().catch(error => console.error('Failed to reload face descriptors:', error));
+            }
+          },
+        });
+      })
+      .catch(error => console.error('Retention schedule not started:', error));
+    return () => {
+      cancelled = true;
+      stop?.();
+    };
+  }, [role]);
+
+  const handleLogout = useCallback(() => {
+    setSession(null);
+    database.setActor(null);
+    settingsService.load().catch(error => console.error('Failed to load settings:', error));
+    authService.logout().catch(error => console.error('Logout failed:', error));
+    api?.logout().catch(error => console.warn('[API] Logout failed:', error));
+    localStorage.removeItem('user');
     localStorage.removeItem('neoattend_current_route');
-  };
+  }, []);
 
   const authContextValue: AuthContextType = {
     isAuthenticated,
     userType,
+    role,
+    session,
+    can: (permission: Permission) => can(role, permission),
     login: handleLogin,
     logout: handleLogout,
   };
@@ -213,7 +303,7 @@ function App() {
           <Route
             path="/classroom-attendance"
             element={
-              <ProtectedRoute requiredRole="faculty" isLoading={!initialLoadComplete}>
+              <ProtectedRoute requiredPermission="attendance.mark" isLoading={!initialLoadComplete}>
                 <ClassroomAttendance />
               </ProtectedRoute>
             }
@@ -222,7 +312,7 @@ function App() {
           <Route
             path="/faculty-dashboard"
             element={
-              <ProtectedRoute requiredRole="faculty" isLoading={!initialLoadComplete}>
+              <ProtectedRoute requiredPermission="reports.view" isLoading={!initialLoadComplete}>
                 <FacultyDashboard />
               </ProtectedRoute>
             }
@@ -231,7 +321,7 @@ function App() {
           <Route
             path="/test-data"
             element={
-              <ProtectedRoute requiredRole="faculty" isLoading={!initialLoadComplete}>
+              <ProtectedRoute requiredPermission="data.manage" isLoading={!initialLoadComplete}>
                 <TestDataLoader />
               </ProtectedRoute>
             }
@@ -241,11 +331,25 @@ function App() {
           <Route
             path="/students"
             element={
-              <ProtectedRoute requiredRole="faculty" isLoading={!initialLoadComplete}>
+              <ProtectedRoute requiredPermission="students.view" isLoading={!initialLoadComplete}>
+                <AppLayout>
+                  <Navigation userType={userType} />
+                  <main className="relative z-10 max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+                    <StudentManagement />
+                  </main>
+                </AppLayout>
+              </ProtectedRoute>
+            }
+          />
+
+          <Route
+            path="/courses"
+            element={
+              <ProtectedRoute requiredPermission="courses.manage" isLoading={!initialLoadComplete}>
                 <AppLayout>
                   <Navigation userType={userType} />
                   <main className="relative z-10 max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-                    <StudentManagement userType={userType || 'faculty'} />
+                    <CourseManagement />
                   </main>
                 </AppLayout>
               </ProtectedRoute>
@@ -255,7 +359,7 @@ function App() {
           <Route
             path="/analytics"
             element={
-              <ProtectedRoute requiredRole="faculty" isLoading={!initialLoadComplete}>
+              <ProtectedRoute requiredPermission="reports.view" isLoading={!initialLoadComplete}>
                 <AppLayout>
                   <Navigation userType={userType} />
                   <main className="relative z-10 max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
@@ -269,7 +373,7 @@ function App() {
           <Route
             path="/faculty-analytics"
             element={
-              <ProtectedRoute requiredRole="faculty" isLoading={!initialLoadComplete}>
+              <ProtectedRoute requiredPermission="attendance.mark" isLoading={!initialLoadComplete}>
                 <AppLayout>
                   <Navigation userType={userType} />
                   <main className="relative z-10 max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
@@ -283,7 +387,7 @@ function App() {
             <Route
               path="/student-monitoring"
               element={
-                <ProtectedRoute requiredRole="faculty" isLoading={!initialLoadComplete}>
+                <ProtectedRoute requiredPermission="reports.view" isLoading={!initialLoadComplete}>
                   <AppLayout>
                     <Navigation userType={userType} />
                     <main className="relative z-10 max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
@@ -298,7 +402,7 @@ function App() {
           <Route
             path="/student-analytics"
             element={
-              <ProtectedRoute requiredRole="student" isLoading={!initialLoadComplete}>
+              <ProtectedRoute requiredPermission="attendance.viewOwn" isLoading={!initialLoadComplete}>
                 <AppLayout>
                   <Navigation userType={userType} />
                   <main className="relative z-10 max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
@@ -0,0 +1,212 @@
+// @vitest-environment node
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import request from 'supertest';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import { createApp } from '../../server/app';
+import { DatabaseService } from '../utils/database';
+import { AuthService } from '../utils/auth';
+import { memoryDatabase, person } from './helpers';
+import { HttpAdapter } from '../utils/storage/httpAdapter';
+import { LocalStorageAdapter } from '../utils/storage/localStorageAdapter';
+import { Student } from '../types';
+
+// Minimal Storage for the client side of the round-trip test (no DOM here)
+class MemoryStorage implements Storage {
+  private items = new Map<string, string>();
+  get length() {
+    return this.items.size;
+  }
+  clear() {
+    this.items.clear();
+  }
+  getItem(key: string) {
+    return this.items.get(key) ?? null;
+  }
+  key(index: number) {
+    return Array.from(this.items.keys())[index] ?? null;
+  }
+  removeItem(key: string) {
+    this.items.delete(key);
+  }
+  setItem(key: string, value: string) {
+    this.items.set(key, value);
+  }
+}
+
+describe('REST API', () => {
+  let database: DatabaseService;
+  let app: ReturnType<typeof createApp>;
+  let adminToken: string;
+
+  const login = async (username: string, password: string) =>
+    (await request(app).post('/api/auth/login').send({ username, password }).expect(200)).body.token as string;
+
+  beforeEach(async () => {
+    database = await memoryDatabase();
+    const auth = new AuthService(database, { iterations: 1000 });
+    app = createApp({ database, auth });
+
+    const admin = database.runAsSystem(() =>
+      database.saveStudent({ employeeId: 'ADMIN', name: 'Admin', email: '', department: 'Administration', role: 'admin' })
+    );
+    await auth.register({ username: 'admin', password: 'admin-password', role: 'admin', userId: admin.id });
+    adminToken = await login('admin', 'admin-password');
+  });
+
+  it('requires a valid bearer token', async () => {
+    await request(app).get('/api/health').expect(200, { status: 'ok', storage: 'sqlite' });
+    await request(app).get('/api/students').expect(401);
+    await request(app).get('/api/students').set('Authorization', 'Bearer nope').expect(401);
+    await request(app).post('/api/auth/login').send({ username: 'admin', password: 'wrong-password' }).expect(401);
+  });
+
+  it('applies the same permissions and scoping as DatabaseService', async () => {
+    const created = await request(app).post('/api/students').set('Authorization', `Bearer ${adminToken}`).send(person('CS001')).expect(201);
+    await request(app).post('/api/students').set('Authorization', `Bearer ${adminToken}`).send(person('CS002')).expect(201);
+    await request(app)
+      .post('/api/auth/register')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ username: 'CS001', password: 'student-password', role: 'student', userId: created.body.id })
+      .expect(201);
+
+    const studentToken = await login('CS001', 'student-password');
+    const visible = await request(app).get('/api/students').set('Authorization', `Bearer ${studentToken}`).expect(200);
+    expect(visible.body.map((s: Student) => s.rollNo)).toEqual(['CS001']);
+
+    const denied = await request(app).delete(`/api/students/${created.body.id}`).set('Authorization', `Bearer ${studentToken}`).expect(403);
+    expect(denied.body.error).toMatch(/cannot perform students.delete/);
+    await request(app).put('/api/settings').set('Authorization', `Bearer ${studentToken}`).send({ lateThreshold: 5 }).expect(403);
+    await request(app).get('/api/settings').set('Authorization', `Bearer ${studentToken}`).expect(403);
+  });
+
+  it('stamps self check-ins with server time and keeps overrides for staff', async () => {
+    const student = (await request(app).post('/api/students').set('Authorization', `Bearer ${adminToken}`).send(person('CS001')).expect(201)).body;
+    await request(app)
+      .post('/api/auth/register')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ username: 'CS001', password: 'student-password', role: 'student', userId: student.id })
+      .expect(201);
+    const studentToken = await login('CS001', 'student-password');
+    const lastWeek = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString();
+    const record = { studentId: student.id, timestamp: lastWeek, status: 'Present', livenessScore: 0.95 };
+    const post = (body: object, token = studentToken) =>
+      request(app).post('/api/attendance').set('Authorization', `Bearer ${token}`).send(body);
+
+    await post({ record: { ...record, status: 'Excused' } }).expect(403);
+    await post({ record: { ...record, status: 'Excused' }, source: 'leave_approval', reason: 'Sick' }).expect(403);
+    await post({ record, source: 'manual_override', reason: 'Was there' }).expect(403);
+    await request(app)
+      .put('/api/attendance/offline-1')
+      .set('Authorization', `Bearer ${studentToken}`)
+      .send({ record: { ...record, source: 'manual_override' }, reason: 'Was there' })
+      .expect(403);
+    await request(app)
+      .put('/api/attendance/offline-1')
+      .set('Authorization', `Bearer ${studentToken}`)
+      .send({ record: { ...record, timestamp: 'yesterday' } })
+      .expect(400, { error: 'record.timestamp must be an ISO date' });
+
+    const checkedIn = await post({ record, source: 'face_recognition' }).expect(201);
+    expect(checkedIn.body.source).toBe('face_recognition');
+    expect(Date.now() - new Date(checkedIn.body.timestamp).getTime()).toBeLessThan(60 * 1000);
+
+    // Staff may still excuse or backdate, with a reason
+    await post({ record: { ...record, status: 'Excused' }, source: 'leave_approval' }, adminToken).expect(400);
+    const excused = await post({ record: { ...record, status: 'Excused' }, source: 'leave_approval', reason: 'Medical leave' }, adminToken).expect(201);
+    expect(excused.body).toMatchObject({ timestamp: lastWeek, status: 'Excused', source: 'leave_approval' });
+  });
+
+  it('marks and updates attendance with audited, reasoned overrides', async () => {
+    const student = (await request(app).post('/api/students').set('Authorization', `Bearer ${adminToken}`).send(person('CS001')).expect(201)).body;
+    const record = { studentId: student.id, timestamp: new Date().toISOString(), status: 'Present' };
+
+    const missingReason = await request(app)
+      .post('/api/attendance')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ record, source: 'manual_override' })
+      .expect(400);
+    expect(missingReason.body.error).toMatch(/reason is required/);
+
+    const invalid: Array<[unknown, string]> = [
+      [undefined, 'record must be a JSON object'],
+      [[record], 'record must be a JSON object'],
+      [{ ...record, studentId: undefined }, 'record.studentId is required'],
+      [{ ...record, studentId: 42 }, 'record.studentId is required'],
+      [{ ...record, timestamp: undefined }, 'record.timestamp must be an ISO date'],
+      [{ ...record, timestamp: 'yesterday' }, 'record.timestamp must be an ISO date'],
+      [{ ...record, status: undefined }, 'record.status must be one of Present, Late, Absent, Excused'],
+      [{ ...record, status: 'Here' }, 'record.status must be one of Present, Late, Absent, Excused'],
+    ];
+    for (const [body, error] of invalid) {
+      const response = await request(app)
+        .post('/api/attendance')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ record: body, source: 'manual_override', reason: 'Camera offline' })
+        .expect(400);
+      expect(response.body.error).toBe(error);
+    }
+
+    const marked = await request(app)
+      .post('/api/attendance')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ record, source: 'manual_override', reason: 'Camera offline' })
+      .expect(201);
+    await request(app)
+      .patch(`/api/attendance/${marked.body.id}`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ status: 'Late', reason: 'Arrived after roll call' })
+      .expect(200);
+
+    const found = await request(app).get(`/api/attendance?studentId=${student.id}`).set('Authorization', `Bearer ${adminToken}`).expect(200);
+    expect(found.body).toHaveLength(1);
+    expect(found.body[0]).toMatchObject({ status: 'Late', source: 'manual_override' });
+    database.setActor({ userId: 'auditor', role: 'admin' });
+    expect((await database.getAuditLog()).map(entry => entry.after)).toEqual(['Present', 'Late']);
+  });
+
+  it('stores settings', async () => {
+    await request(app).put('/api/settings').set('Authorization', `Bearer ${adminToken}`).send({ lateThreshold: 10 }).expect(200);
+    const settings = await request(app).get('/api/settings').set('Authorization', `Bearer ${adminToken}`).expect(200);
+    expect(settings.body).toEqual({ lateThreshold: 10 });
+  });
+
+  describe('HTTP client adapter', () => {
+    let server: Server;
+    let api: HttpAdapter;
+
+    beforeEach(async () => {
+      server = app.listen(0);
+      await new Promise(resolve => server.once('listening', resolve));
+      api = new HttpAdapter(`http://127.0.0.1:${(server.address() as AddressInfo).port}`, { storage: new MemoryStorage() });
+    });
+
+    afterEach(async () => {
+      await new Promise(resolve => server.close(resolve));
+    });
+
+    it('replays an offline check-in to the server with its client-generated id', async () => {
+      const student = database.runAsSystem(() => database.saveStudent(person('CS001')));
+      await database.flush();
+
+      // A second device with its own local storage, using the server as its sync remote
+      const device = new DatabaseService(new LocalStorageAdapter(new MemoryStorage()));
+      await device.init();
+      device.runAsSystem(() => device.saveStudent(person('CS001')));
+      device.setActor({ userId: 'admin-device', role: 'admin' });
+      await api.login('admin', 'admin-password');
+      await device.useRemote(api);
+
+      const local = device.markAttendance({ studentId: student.id, timestamp: new Date(), status: 'Present' });
+      const report = await device.syncOutbox();
+
+      expect(report).toMatchObject({ pushed: 1, pending: 0, error: null });
+      const onServer = await api.get('attendance', local.id);
+      expect(onServer).toMatchObject({ id: local.id, studentId: student.id, status: 'Present' });
+      expect(onServer?.timestamp).toBeInstanceOf(Date);
+
+      await device.pullFromRemote();
+      expect(device.getStudents().some(s => s.id === student.id)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { database } from '../utils/database';
+import { LocalStorageAdapter } from '../utils/storage/localStorageAdapter';
+import { generateSessions } from '../utils/timetable';
+import {
+  DEFAULT_ATTENDANCE_POLICY,
+  classesNeeded,
+  evaluateStudent,
+  findDefaulters,
+  loadAttendancePolicy,
+  saveAttendancePolicy,
+  validateAttendancePolicy,
+} from '../utils/attendancePolicy';
+import { AttendanceRecord, Section, Student } from '../types';
+
+const student = (id: string): Student =>
+  ({ id, rollNo: id.toUpperCase(), name: id, email: '', department: 'CS', role: 'student', createdAt: new Date() }) as Student;
+
+const section: Section = {
+  id: 'sec1',
+  courseId: 'c1',
+  name: 'Section A',
+  studentIds: ['s1', 's2', 's3'],
+  timetable: [
+    { dayOfWeek: 1, startTime: '09:00', endTime: '10:00', room: 'R101' }, // Monday
+    { dayOfWeek: 3, startTime: '09:00', endTime: '10:00', room: 'R101' }, // Wednesday
+  ],
+  termStart: new Date(2025, 2, 3), // Monday 3 March 2025
+  termEnd: new Date(2025, 2, 30, 23, 59), // 8 sessions
+  createdAt: new Date(2025, 2, 1),
+};
+
+const sessions = generateSessions(section);
+const now = new Date(2025, 2, 13); // 4 sessions held, 4 to go
+
+const attended = (studentId: string, indexes: number[]): AttendanceRecord[] =>
+  indexes.map(index => ({
+    id: `${studentId}-${index}`,
+    studentId,
+    timestamp: sessions[index].scheduledStart,
+    status: 'Present',
+    sessionId: sessions[index].id,
+  }));
+
+const records = [...attended('s1', [0, 2]), ...attended('s2', [0]), ...attended('s3', [0, 1, 2, 3])];
+
+describe('attendance policy', () => {
+  beforeEach(async () => {
+    await database.flush();
+    window.localStorage.clear();
+    database.setActor(null);
+    await database.useAdapter(new LocalStorageAdapter(window.localStorage));
+  });
+
+  it('counts the classes needed to get back to the minimum', () => {
+    expect(classesNeeded(2, 4, 75)).toBe(4); // 6 of 8
+    expect(classesNeeded(3, 4, 75)).toBe(0);
+    expect(classesNeeded(7, 10, 80)).toBe(5); // 12 of 15
+    expect(classesNeeded(0, 4, 100)).toBe(Infinity);
+  });
+
+  it('projects each student against the sessions left this term', () => {
+    const policy = DEFAULT_ATTENDANCE_POLICY;
+    const [recovering, lost, fine] = ['s1', 's2', 's3'].map(id => evaluateStudent(student(id), sessions, records, policy, now));
+
+    expect(recovering.courses).toEqual([
+      expect.objectContaining({ courseId: 'c1', held: 4, attended: 2, percentage: 50, remaining: 4, shortage: true, classesNeeded: 4, canRecover: true }),
+    ]);
+    expect(lost.courses[0]).toMatchObject({ percentage: 25, classesNeeded: 8, canRecover: false, canMiss: 0 });
+    expect(lost).toMatchObject({ consecutiveAbsences: 3, absenceLimitReached: true, defaulter: true });
+    expect(fine.courses[0]).toMatchObject({ shortage: false, classesNeeded: 0, canMiss: 2 });
+    expect(fine.defaulter).toBe(false);
+
+    expect(findDefaulters([fine, recovering, lost]).map(s => s.student.id)).toEqual(['s2', 's1']);
+
+    // A lower minimum for the course clears the recovering student
+    const lenient = evaluateStudent(student('s1'), sessions, records, { ...policy, courseMinimums: { c1: 50 } }, now);
+    expect(lenient.courses[0]).toMatchObject({ minimumPercentage: 50, shortage: false, canMiss: 2 });
+  });
+
+  it('stores the policy in settings', async () => {
+    expect(await loadAttendancePolicy()).toEqual(DEFAULT_ATTENDANCE_POLICY);
+
+    database.setActor({ userId: 'staff', role: 'faculty' });
+    await expect(saveAttendancePolicy({ ...DEFAULT_ATTENDANCE_POLICY, minimumPercentage: 80 })).rejects.toThrow();
+
+    database.setActor({ userId: 'admin', role: 'admin' });
+    await expect(saveAttendancePolicy({ ...DEFAULT_ATTENDANCE_POLICY, consecutiveAbsenceLimit: 0 })).rejects.toThrow(
+      'Consecutive absence limit must be a whole number of at least 1'
+    );
+    const policy = DEFAULT_ATTENDANCE_POLICY;
+    expect(validateAttendancePolicy({ ...policy, minimumPercentage: 1 })).toEqual([]);
+    expect(validateAttendancePolicy({ ...policy, minimumPercentage: 100 })).toEqual([]);
+    expect(validateAttendancePolicy({ ...policy, minimumPercentage: 0.5 })).toEqual(['Minimum attendance must be between 1 and 100% inclusive']);
+    expect(validateAttendancePolicy({ ...policy, minimumPercentage: 100.5 })).toEqual(['Minimum attendance must be between 1 and 100% inclusive']);
+    expect(validateAttendancePolicy({ ...policy, courseMinimums: { c1: 1, c2: 100 } })).toEqual([]);
+    expect(validateAttendancePolicy({ ...policy, courseMinimums: { c1: 0, c2: 101 } })).toEqual([
+      'Minimum attendance for c1 must be between 1 and 100% inclusive',
+      'Minimum attendance for c2 must be between 1 and 100% inclusive',
+    ]);
+    const strict = { minimumPercentage: 80, consecutiveAbsenceLimit: 4, courseMinimums: { c1: 60 }, excludeExcused: false };
+    await saveAttendancePolicy(strict);
+    expect(await loadAttendancePolicy()).toEqual(strict);
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { database } from '../utils/database';
+import { LocalStorageAdapter, LOCAL_STORAGE_KEYS } from '../utils/storage/localStorageAdapter';
+import { auditLogToCsv, redactAuditEntry, verifyAuditChain, GENESIS_HASH } from '../utils/audit';
+import { Student } from '../types';
+
+describe('attendance audit log', () => {
+  let student: Student;
+  let faculty: Student;
+
+  beforeEach(async () => {
+    await database.flush(); // Don't let the previous test's queued writes land after the clear
+    window.localStorage.clear();
+    await database.useAdapter(new LocalStorageAdapter(window.localStorage));
+    [student, faculty] = database.runAsSystem(() => [
+      database.saveStudent({ rollNo: 'CS001', name: 'Rahul Kumar', email: 'r@college.edu', department: 'CS', role: 'student' }),
+      database.saveStudent({ rollNo: 'FAC01', name: 'Dr. Rao', email: 'rao@college.edu', department: 'CS', role: 'faculty' }),
+    ]);
+    database.setActor({ userId: faculty.id, role: 'faculty' });
+  });
+
+  it('records who changed what, when and why', async () => {
+    const record = database.markAttendance({ studentId: student.id, timestamp: new Date(), status: 'Absent' });
+    database.updateAttendanceStatus(record.id, 'Present', { reason: 'Medical certificate submitted' });
+
+    const log = await database.getAuditLog({ studentId: student.id });
+    expect(log.map(e => [e.sequence, e.action, e.before, e.after, e.source, e.actorName])).toEqual([
+      [1, 'attendance.create', null, 'Absent', 'face_recognition', 'Dr. Rao'],
+      [2, 'attendance.update', 'Absent', 'Present', 'manual_override', 'Dr. Rao'],
+    ]);
+    expect(log[1].reason).toBe('Medical certificate submitted');
+    expect(log[0].prevHash).toBe(GENESIS_HASH);
+    expect(log[1].prevHash).toBe(log[0].hash);
+    expect(database.getAttendanceRecords()[0].status).toBe('Present');
+  });
+
+  it('refuses manual overrides without a reason', () => {
+    const record = database.markAttendance({ studentId: student.id, timestamp: new Date(), status: 'Absent' });
+
+    expect(() => database.updateAttendanceStatus(record.id, 'Present', { reason: '  ' })).toThrow('reason');
+    expect(() =>
+      database.markAttendance({ studentId: student.id, timestamp: new Date(), status: 'Present' }, { source: 'manual_override' })
+    ).toThrow('reason');
+  });
+
+  it('detects edited or deleted entries', async () => {
+    const record = database.markAttendance({ studentId: student.id, timestamp: new Date(), status: 'Absent' });
+    database.updateAttendanceStatus(record.id, 'Late', { reason: 'Bus delay' });
+    database.updateAttendanceStatus(record.id, 'Present', { reason: 'Corrected' });
+    expect(await database.verifyAuditLog()).toMatchObject({ valid: true, checked: 3 });
+
+    const entries = await database.getAuditLog();
+    const tampered = entries.map(e => (e.sequence === 2 ? { ...e, reason: 'Approved by HOD' } : e));
+    expect(await verifyAuditChain(tampered)).toMatchObject({ valid: false, brokenAt: 2 });
+    expect(await verifyAuditChain(entries.filter(e => e.sequence !== 2))).toMatchObject({ valid: false, brokenAt: 3 });
+
+    // Tampering with the stored log is caught too
+    window.localStorage.setItem(LOCAL_STORAGE_KEYS.audit, JSON.stringify(tampered));
+    expect((await database.verifyAuditLog()).valid).toBe(false);
+  });
+
+  it('still verifies redacted entries and catches edits hidden behind a redaction', async () => {
+    const record = database.markAttendance({ studentId: student.id, timestamp: new Date(), status: 'Absent' });
+    database.updateAttendanceStatus(record.id, 'Late', { reason: 'Bus delay' });
+    database.updateAttendanceStatus(record.id, 'Present', { reason: 'Corrected' });
+    const entries = await database.getAuditLog();
+    const purgedAt = new Date();
+    const redacted = await Promise.all(entries.map(e => (e.sequence === 2 ? redactAuditEntry(e, purgedAt) : e)));
+    expect(redacted[1]).toMatchObject({ studentId: '', reason: '', purgedAt });
+    expect(await verifyAuditChain(redacted)).toMatchObject({ valid: true, checked: 3 });
+
+    // Changing what a redacted entry still shows
+    const edited = redacted.map(e => (e.sequence === 2 ? { ...e, after: 'Present' as const } : e));
+    expect(await verifyAuditChain(edited)).toMatchObject({ valid: false, brokenAt: 2 });
+
+    // Marking an entry purged does not stop its content being checked
+    const disguised = entries.map(e => (e.sequence === 2 ? { ...e, reason: 'Approved by HOD', purgedAt } : e));
+    expect(await verifyAuditChain(disguised)).toMatchObject({ valid: false, brokenAt: 2 });
+  });
+
+  it('continues the chain after a reload and survives clearing data', async () => {
+    database.markAttendance({ studentId: student.id, timestamp: new Date(), status: 'Present' });
+    await database.useAdapter(new LocalStorageAdapter(window.localStorage));
+    database.setActor({ userId: 'admin', role: 'admin' });
+
+    database.markAttendance({ studentId: student.id, timestamp: new Date(), status: 'Late' });
+    database.clearAllData();
+
+    expect(await database.verifyAuditLog()).toMatchObject({ valid: true, checked: 2 });
+  });
+
+  it('exports the log as CSV with roll numbers and hashes', async () => {
+    database.markAttendance({ studentId: student.id, timestamp: new Date(), status: 'Present' });
+    const csv = auditLogToCsv(await database.getAuditLog(), new Map([[student.id, 'CS001']]));
+    const [header, row] = csv.split('\n');
+
+    expect(header).toContain('Previous Hash');
+    expect(row).toContain('CS001');
+    expect(row).toContain('Face recognition');
+  });
+});
@@ -0,0 +1,173 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { AuthService, AuthError, AUTH_TOKEN_KEY, registerSelf, setupFirstAdmin, needsFirstAdmin, setLoginFor } from '../utils/auth';
+import { can, PermissionError } from '../utils/permissions';
+import { database } from '../utils/database';
+import { LocalStorageAdapter } from '../utils/storage/localStorageAdapter';
+
+// Low iteration count keeps the suite fast; the stored count is what verification uses
+const createService = (sessionTtlMs?: number) =>
+  new AuthService(database, { iterations: 1000, sessionTtlMs, storage: window.localStorage });
+
+describe('AuthService', () => {
+  beforeEach(async () => {
+    window.localStorage.clear();
+    await database.useAdapter(new LocalStorageAdapter(window.localStorage));
+  });
+
+  it('stores a salted hash instead of the password', async () => {
+    const auth = createService();
+    const credential = await auth.register({ username: 'CS001', password: 'correct horse', role: 'student', userId: 's1' });
+    const other = await auth.register({ username: 'CS002', password: 'correct horse', role: 'student', userId: 's2' });
+
+    expect(credential.id).toBe('cs001');
+    expect(JSON.stringify(await database.getCredential('cs001'))).not.toContain('correct horse');
+    expect(credential.hash).not.toBe(other.hash);
+    await expect(
+      auth.register({ username: ' cs001 ', password: 'something else', role: 'student', userId: 's3' })
+    ).rejects.toThrow(AuthError);
+    await expect(auth.register({ username: 'CS004', password: 'short', role: 'student', userId: 's4' })).rejects.toThrow(
+      'at least'
+    );
+  });
+
+  it('only logs in with the right password and account type', async () => {
+    const auth = createService();
+    await auth.register({ username: 'FAC01', password: 'faculty-pass', role: 'faculty', userId: 'f1' });
+
+    await expect(auth.login('FAC01', 'wrong-pass', 'faculty')).rejects.toThrow('Invalid username or password');
+    await expect(auth.login('nobody', 'faculty-pass', 'faculty')).rejects.toThrow('Invalid username or password');
+    await expect(auth.login('FAC01', 'faculty-pass', 'student')).rejects.toThrow('not a student account');
+
+    const session = await auth.login('fac01', 'faculty-pass', 'faculty');
+    expect(session).toMatchObject({ userId: 'f1', username: 'FAC01', role: 'faculty' });
+    expect(JSON.parse(window.localStorage.getItem(AUTH_TOKEN_KEY)!)).toEqual({ token: session.id });
+    expect((await auth.restoreSession())?.id).toBe(session.id);
+  });
+
+  it('rejects expired and logged-out sessions', async () => {
+    const auth = createService(60 * 1000);
+    await auth.register({ username: 'CS001', password: 'student-pass', role: 'student', userId: 's1' });
+    const session = await auth.login('CS001', 'student-pass');
+
+    expect(await auth.validateSession(session.id, new Date(session.createdAt.getTime() + 30 * 1000))).not.toBeNull();
+    expect(await auth.validateSession(session.id, new Date(session.createdAt.getTime() + 61 * 1000))).toBeNull();
+    // Expired sessions are removed, not just ignored
+    expect(await database.getAuthSession(session.id)).toBeNull();
+
+    const next = await auth.login('CS001', 'student-pass');
+    await auth.logout();
+    expect(await auth.validateSession(next.id)).toBeNull();
+    expect(await auth.restoreSession()).toBeNull();
+  });
+
+  it('does not trust the role-only auth entry written by older versions', async () => {
+    window.localStorage.setItem(AUTH_TOKEN_KEY, JSON.stringify({ userType: 'faculty', username: 'anyone' }));
+
+    expect(await createService().restoreSession()).toBeNull();
+    expect(window.localStorage.getItem(AUTH_TOKEN_KEY)).toBeNull();
+  });
+
+  it('hashes plaintext accounts left by the old signup form', async () => {
+    const auth = createService();
+    window.localStorage.setItem('user_CS001', JSON.stringify({ username: 'CS001', password: 'old', type: 'student' }));
+    window.localStorage.setItem('user_GHOST', JSON.stringify({ username: 'GHOST', password: 'old', type: 'student' }));
+
+    const imported = await auth.importLegacyAccounts(username => (username === 'CS001' ? 's1' : null));
+
+    expect(imported).toBe(1);
+    expect(window.localStorage.getItem('user_CS001')).toBeNull();
+    expect((await auth.login('CS001', 'old', 'student')).userId).toBe('s1');
+  });
+
+  it('keeps accounts when all data is cleared', async () => {
+    await createService().register({ username: 'CS001', password: 'student-pass', role: 'student', userId: 's1' });
+
+    database.runAsSystem(() => database.clearAllData());
+    await database.flush();
+
+    expect(await database.getCredential('cs001')).not.toBeNull();
+  });
+
+  it('gives self-registered staff no staff permissions until an administrator approves them', async () => {
+    const auth = createService();
+    const profile = (rollNo: string) => ({ rollNo, name: rollNo, email: `${rollNo.toLowerCase()}@college.edu`, department: 'CS' });
+
+    const student = await registerSelf(profile('CS001'), { password: 'student-pass', staff: false }, auth);
+    expect(student.role).toBe('student');
+
+    const staff = await registerSelf(profile('EMP001'), { password: 'staff-pass', staff: true }, auth);
+    expect(staff.role).toBe('pending');
+    expect((await database.getCredential('emp001'))?.role).toBe('pending');
+    expect(can(staff.role, 'attendance.mark')).toBe(false);
+    expect(can(staff.role, 'users.manageRoles')).toBe(false);
+    await expect(auth.login('EMP001', 'staff-pass', 'faculty')).rejects.toThrow('waiting for an administrator');
+
+    // Roll numbers already on a record are refused even without a login
+    database.runAsSystem(() => database.saveStudent({ ...profile('CS002'), role: 'student' }));
+    await expect(registerSelf(profile('cs002'), { password: 'student-pass', staff: false }, auth)).rejects.toThrow(AuthError);
+    expect(await database.getCredential('cs002')).toBeNull();
+
+    // Approval is a role change by an administrator
+    database.setActor({ userId: 'admin', role: 'admin' });
+    database.updateStudent({ ...staff, role: 'faculty' });
+    database.setActor(null);
+    expect((await auth.login('EMP001', 'staff-pass', 'faculty')).role).toBe('faculty');
+  });
+
+  it('takes the record back out when the login cannot be created', async () => {
+    const failing = createService();
+    failing.register = () => Promise.reject(new Error('Disk full'));
+    const profile = { rollNo: 'CS001', name: 'Alice', email: 'alice@college.edu', department: 'CS' };
+
+    await expect(registerSelf(profile, { password: 'student-pass', staff: false }, failing)).rejects.toThrow('Disk full');
+    expect(database.runAsSystem(() => database.getStudents())).toEqual([]);
+
+    // The roll number is free again
+    await registerSelf(profile, { password: 'student-pass', staff: false }, createService());
+    expect(await database.getCredential('cs001')).not.toBeNull();
+  });
+
+  it('lets the first administrator of a browser-only install sign up, once', async () => {
+    const auth = createService();
+    const profile = (rollNo: string) => ({ rollNo, name: rollNo, email: '', department: 'Administration' });
+    expect(needsFirstAdmin()).toBe(true);
+
+    const admin = await setupFirstAdmin(profile('ADMIN'), 'admin-password', auth);
+    expect(admin.role).toBe('admin');
+    expect((await auth.login('ADMIN', 'admin-password', 'faculty')).role).toBe('admin');
+
+    expect(needsFirstAdmin()).toBe(false);
+    await expect(setupFirstAdmin(profile('MALLORY'), 'admin-password', auth)).rejects.toThrow('already has an administrator');
+    expect(await database.getCredential('mallory')).toBeNull();
+  });
+
+  it('lets staff create logins for seeded records and reset passwords', async () => {
+    const auth = createService();
+    const [student, teacher] = database.runAsSystem(() => [
+      database.saveStudent({ rollNo: 'CS001', name: 'Alice', email: '', department: 'CS', role: 'student' }),
+      database.saveStudent({ employeeId: 'EMP001', name: 'Bob', email: '', department: 'CS', role: 'faculty' }),
+    ]);
+
+    database.setActor({ userId: 'faculty', role: 'faculty' });
+    await setLoginFor(student, 'first-password', auth);
+    await expect(setLoginFor(teacher, 'staff-password', auth)).rejects.toThrow(PermissionError);
+
+    database.setActor({ userId: 'admin', role: 'admin' });
+    await setLoginFor(teacher, 'staff-password', auth);
+    await setLoginFor(student, 'second-password', auth);
+    await expect(setLoginFor(student, 'short', auth)).rejects.toThrow(AuthError);
+    database.setActor(null);
+
+    await expect(auth.login('CS001', 'first-password')).rejects.toThrow('Invalid username or password');
+    expect((await auth.login('CS001', 'second-password', 'student')).userId).toBe(student.id);
+    expect((await auth.login('EMP001', 'staff-password', 'faculty')).role).toBe('faculty');
+
+    // A username already taken by someone else's login is not handed over
+    const impostor = database.runAsSystem(() =>
+      database.saveStudent({ rollNo: 'cs001', name: 'Mallory', email: '', department: 'CS', role: 'student' })
+    );
+    database.setActor({ userId: 'admin', role: 'admin' });
+    await expect(setLoginFor(impostor, 'mallory-password', auth)).rejects.toThrow("already another user's login");
+    database.setActor(null);
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { strToU8, zipSync } from 'fflate';
+import { database } from '../utils/database';
+import { LocalStorageAdapter } from '../utils/storage/localStorageAdapter';
+import { facialRecognition } from '../utils/facialRecognition';
+import { FixtureFaceEngine } from '../utils/face/fixtureFaceEngine';
+import { enrollFromZip, enrollmentReportToCsv, rollNoForPath } from '../utils/bulkEnrollment';
+
+// Photo bytes are plain text here; the fixture engine keys faces by the resulting data URL
+const photo = (content: string) => strToU8(content);
+const dataUrl = (content: string) => `data:image/jpeg;base64,${btoa(content)}`;
+
+describe('bulk face enrolment', () => {
+  let engine: FixtureFaceEngine;
+
+  beforeEach(async () => {
+    await database.flush();
+    window.localStorage.clear();
+    database.setActor(null);
+    await database.useAdapter(new LocalStorageAdapter(window.localStorage));
+    engine = new FixtureFaceEngine();
+    facialRecognition.useEngine(engine);
+    await facialRecognition.loadFaceDescriptors();
+
+    database.runAsSystem(() => {
+      ['CS001', 'CS002', 'CS003'].forEach(rollNo =>
+        database.saveStudent({ rollNo, name: `Student ${rollNo}`, email: `${rollNo}@college.edu`, department: 'CS', role: 'student' })
+      );
+    });
+    database.setActor({ userId: 'admin', role: 'admin' });
+  });
+
+  it('finds the roll number in folder or file names', () => {
+    const rollNos = new Set(['CS001', 'CS-7']);
+    expect(rollNoForPath('batch/CS001/front.jpg', rollNos)).toBe('CS001');
+    expect(rollNoForPath('cs001.jpg', rollNos)).toBe('cs001');
+    expect(rollNoForPath('photos/CS001_2.png', rollNos)).toBe('CS001');
+    expect(rollNoForPath('CS001 (3).jpeg', rollNos)).toBe('CS001');
+    expect(rollNoForPath('CS-7.jpg', rollNos)).toBe('CS-7');
+    expect(rollNoForPath('CS999.jpg', rollNos)).toBeNull();
+  });
+
+  it('enrolls every photo as a sample and reports the rejects with reasons', async () => {
+    engine.addFixture(dataUrl('group photo'), [{ identity: 'a' }, { identity: 'b' }]);
+    engine.addFixture(dataUrl('empty room'), []);
+    const zip = zipSync({
+      'CS001.jpg': photo('cs001 front'),
+      'CS001_2.jpg': photo('cs001 side'),
+      'CS002/one.jpg': photo('group photo'),
+      'CS002/two.jpg': photo('cs002 front'),
+      'CS003.jpg': photo('empty room'),
+      'CS999.jpg': photo('unknown'),
+      'notes.txt': photo('hello'),
+      '__MACOSX/._CS001.jpg': photo('resource fork'),
+    });
+
+    const progress: number[] = [];
+    const report = await enrollFromZip(zip, { onProgress: done => progress.push(done) });
+
+    expect(report).toMatchObject({ enrolled: 3, failed: 4, students: 2, warnings: [] });
+    expect(progress).toEqual([1, 2, 3, 4, 5, 6, 7]);
+    expect(report.results.filter(r => !r.success).map(r => [r.path, r.message])).toEqual([
+      ['CS002/one.jpg', '2 faces detected. The photo must show only Student CS002.'],
+      ['CS003.jpg', expect.stringMatching(/No face detected/)],
+      ['CS999.jpg', 'No student with this roll number'],
+      ['notes.txt', 'Not a JPEG, PNG or WebP image'],
+    ]);
+
+    expect(facialRecognition.getSampleCount('CS001')).toBe(2);
+    expect(facialRecognition.getSampleCount('CS002')).toBe(1);
+    expect(database.getStudents().filter(s => s.faceRegistered).map(s => s.rollNo)).toEqual(['CS001', 'CS002']);
+    expect(enrollmentReportToCsv(report).split('\n')[3]).toBe('CS002/one.jpg,CS002,Failed,2 faces detected. The photo must show only Student CS002.');
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { database } from '../utils/database';
+import { person, resetDatabase } from './helpers';
+import { PermissionError } from '../utils/permissions';
+import { ClassSession, Student } from '../types';
+
+const photo = { name: 'front-row.jpg', url: 'data:image/jpeg;base64,AAAA', type: 'image/jpeg' };
+
+describe('attendance disputes', () => {
+  let student: Student;
+  let eeHod: Student;
+  let sessions: ClassSession[];
+
+  beforeEach(async () => {
+    await resetDatabase();
+
+    database.runAsSystem(() => {
+      student = database.saveStudent(person('CS001', 'Computer Science'));
+      eeHod = database.saveStudent(person('HOD02', 'Electrical', 'hod'));
+      const course = database.addCourse({ code: 'CS101', name: 'Programming', department: 'Computer Science' });
+      database.addSection({
+        courseId: course.id,
+        name: 'Section A',
+        studentIds: [student.id],
+        timetable: [{ dayOfWeek: 1, startTime: '09:00', endTime: '10:00', room: 'R101' }], // Monday
+        termStart: new Date(2025, 2, 3),
+        termEnd: new Date(2025, 2, 23, 23, 59), // 3 sessions
+      });
+      sessions = database.getSessionsForStudent(student.id);
+      database.markAttendance({ studentId: student.id, timestamp: sessions[0].scheduledStart, status: 'Absent', sessionId: sessions[0].id });
+      database.markAttendance({ studentId: student.id, timestamp: sessions[1].scheduledStart, status: 'Present', sessionId: sessions[1].id });
+    });
+  });
+
+  it('only lets students dispute their own records that are not already counted', () => {
+    database.setActor({ userId: student.id, role: 'student' });
+    const claim = { studentId: student.id, date: new Date(2025, 2, 3), sessionId: sessions[0].id, claimedStatus: 'Present' as const, reason: 'Camera missed me' };
+
+    expect(() => database.submitAttendanceDispute({ ...claim, studentId: eeHod.id })).toThrow(PermissionError);
+    expect(() => database.submitAttendanceDispute({ ...claim, reason: ' ' })).toThrow('Explain what happened');
+    expect(() => database.submitAttendanceDispute({ ...claim, sessionId: sessions[1].id })).toThrow('already marked Present');
+    expect(() => database.submitAttendanceDispute({ ...claim, sessionId: undefined, date: new Date(Date.now() + 86400000) })).toThrow(
+      'Only past classes'
+    );
+
+    const dispute = database.submitAttendanceDispute({ ...claim, evidence: photo });
+    expect(dispute).toMatchObject({ status: 'pending', currentStatus: 'Absent', date: sessions[0].scheduledStart, evidence: photo });
+    expect(() => database.submitAttendanceDispute(claim)).toThrow('awaiting review');
+    expect(() => database.reviewAttendanceDispute(dispute.id, true)).toThrow(PermissionError);
+
+    database.setActor({ userId: eeHod.id, role: 'hod' });
+    expect(database.getAttendanceDisputes()).toEqual([]);
+  });
+
+  it('applies approved disputes as audited manual changes', async () => {
+    database.setActor({ userId: student.id, role: 'student' });
+    const absent = database.submitAttendanceDispute({
+      studentId: student.id, date: new Date(), sessionId: sessions[0].id, claimedStatus: 'Late', reason: 'Camera missed me',
+    });
+    const unmarked = database.submitAttendanceDispute({
+      studentId: student.id, date: new Date(), sessionId: sessions[2].id, claimedStatus: 'Present', reason: 'Signed the paper register',
+    });
+    expect(unmarked).toMatchObject({ currentStatus: null, recordId: undefined });
+
+    database.setActor({ userId: 'f1', role: 'faculty' });
+    expect(database.getAttendanceDisputes().map(d => d.id)).toEqual(expect.arrayContaining([absent.id, unmarked.id]));
+    expect(() => database.reviewAttendanceDispute(absent.id, false)).toThrow('A reason is required to reject');
+    expect(database.reviewAttendanceDispute(absent.id, true, 'Seen on CCTV')).toMatchObject({ status: 'approved', reviewedBy: 'f1' });
+    expect(() => database.reviewAttendanceDispute(absent.id, true)).toThrow('already approved');
+    const created = database.reviewAttendanceDispute(unmarked.id, true)!;
+
+    const records = database.getAttendanceRecords();
+    expect(records.find(r => r.sessionId === sessions[0].id)?.status).toBe('Late');
+    expect(records.find(r => r.id === created.recordId)).toMatchObject({ sessionId: sessions[2].id, status: 'Present' });
+
+    const audit = (await database.getAuditLog({ studentId: student.id })).filter(entry => entry.actorId === 'f1');
+    expect(audit).toEqual([
+      expect.objectContaining({ action: 'attendance.update', source: 'manual_override', before: 'Absent', after: 'Late', reason: 'Dispute approved: Camera missed me (Seen on CCTV)' }),
+      expect.objectContaining({ action: 'attendance.create', source: 'manual_override', after: 'Present', reason: 'Dispute approved: Signed the paper register' }),
+    ]);
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { database } from '../utils/database';
+import { LocalStorageAdapter } from '../utils/storage/localStorageAdapter';
+import { facialRecognition, DEFAULT_RECOGNITION_THRESHOLDS } from '../utils/facialRecognition';
+import { FixtureFaceEngine } from '../utils/face/fixtureFaceEngine';
+import { Student } from '../types';
+
+const image = (name: string) => `data:image/png;base64,${btoa(name)}`;
+
+const engine = new FixtureFaceEngine({
+  [image('asha-enrol')]: [{ identity: 'asha' }],
+  [image('ravi-enrol')]: [{ identity: 'ravi' }],
+  [image('empty-wall')]: [],
+  [image('asha-webcam')]: [{ identity: 'asha', variant: 3 }],
+  [image('stranger-webcam')]: [{ identity: 'stranger' }],
+  [image('classroom')]: [
+    { identity: 'ravi', variant: 1, box: { x: 400, y: 80, width: 120, height: 140 }, score: 0.97 },
+    { identity: 'asha', variant: 2, box: { x: 40, y: 60, width: 130, height: 150 }, score: 0.99 },
+    { identity: 'visitor', box: { x: 700, y: 90, width: 110, height: 130 }, score: 0.9 },
+  ],
+});
+
+const student = (rollNo: string): Student => ({
+  id: rollNo,
+  rollNo,
+  name: rollNo,
+  email: `${rollNo}@example.com`,
+  department: 'CSE',
+  role: 'student',
+  faceRegistered: true,
+  createdAt: new Date(),
+});
+
+describe('FacialRecognitionSystem with a face engine', () => {
+  beforeEach(async () => {
+    await database.flush();
+    window.localStorage.clear();
+    await database.useAdapter(new LocalStorageAdapter(window.localStorage));
+    facialRecognition.useEngine(engine);
+    facialRecognition.setThresholds(DEFAULT_RECOGNITION_THRESHOLDS);
+  });
+
+  it('gives the same image the same descriptor every time', async () => {
+    const [first] = await engine.detectFaces(image('unlisted-photo'));
+    const [second] = await engine.detectFaces(image('unlisted-photo'));
+    const [other] = await engine.detectFaces(image('another-photo'));
+
+    expect(first.descriptor).toEqual(second.descriptor);
+    expect(first.descriptor).not.toEqual(other.descriptor);
+  });
+
+  it('rejects registration photos without a face', async () => {
+    const result = await facialRecognition.registerStudentFace('CS001', image('empty-wall'), 'Asha');
+
+    expect(result.success).toBe(false);
+    expect(facialRecognition.isStudentRegistered('CS001')).toBe(false);
+  });
+
+  it('recognizes enrolled students in a classroom photo and leaves strangers unrecognized', async () => {
+    await facialRecognition.registerStudentFace('CS001', image('asha-enrol'), 'Asha');
+    await facialRecognition.registerStudentFace('CS002', image('ravi-enrol'), 'Ravi');
+
+    const result = await facialRecognition.detectClassroomFaces(image('classroom'), [student('CS001'), student('CS002')]);
+
+    expect(result.totalDetected).toBe(3);
+    expect(result.unrecognized).toBe(1);
+    expect(result.recognized.map(face => [face.student?.rollNo, face.boundingBox.x])).toEqual([
+      ['CS001', 40],
+      ['CS002', 400],
+    ]);
+  });
+
+  it('recognizes a single face against the same registry', async () => {
+    await facialRecognition.registerStudentFace('CS001', image('asha-enrol'), 'Asha');
+    const students = [student('CS001'), student('CS002')];
+
+    const match = await facialRecognition.recognizeFace(image('asha-webcam'), students);
+    expect(match.student?.rollNo).toBe('CS001');
+    expect(match.confidence).toBeGreaterThan(0.9);
+
+    const stranger = await facialRecognition.recognizeFace(image('stranger-webcam'), students);
+    expect(stranger).toMatchObject({ student: null, facesDetected: 1 });
+    expect((await facialRecognition.recognizeFace(image('empty-wall'), students)).facesDetected).toBe(0);
+  });
+
+  it('applies the configured thresholds to both modes', async () => {
+    await facialRecognition.registerStudentFace('CS001', image('asha-enrol'), 'Asha');
+    facialRecognition.setThresholds({ maxDistance: 0.01 });
+
+    expect((await facialRecognition.recognizeFace(image('asha-webcam'), [student('CS001')])).student).toBeNull();
+    expect((await facialRecognition.detectClassroomFaces(image('classroom'), [student('CS001')])).recognized).toEqual([]);
+
+    facialRecognition.setThresholds({ maxDistance: 0.6, minDetectionScore: 0.95 });
+    expect((await facialRecognition.detectClassroomFaces(image('classroom'), [student('CS001')])).totalDetected).toBe(2);
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { database } from '../utils/database';
+import { LocalStorageAdapter } from '../utils/storage/localStorageAdapter';
+import { facialRecognition, serializeDescriptor, deserializeDescriptor } from '../utils/facialRecognition';
+import { FixtureFaceEngine } from '../utils/face/fixtureFaceEngine';
+import { Student } from '../types';
+
+const PHOTO = 'data:image/jpeg;base64,AAAA';
+
+const addStudent = (rollNo: string, faceRegistered: boolean): Student =>
+  database.runAsSystem(() =>
+    database.saveStudent({ rollNo, name: rollNo, email: `${rollNo}@example.com`, department: 'CSE', role: 'student', faceRegistered })
+  );
+
+describe('face sample persistence', () => {
+  beforeEach(async () => {
+    await database.flush();
+    window.localStorage.clear();
+    database.setActor(null);
+    await database.useAdapter(new LocalStorageAdapter(window.localStorage));
+    facialRecognition.useEngine(new FixtureFaceEngine());
+    await facialRecognition.loadFaceDescriptors();
+  });
+
+  it('round-trips descriptors through JSON without losing precision', () => {
+    const descriptor = Float32Array.from([0.1, -0.333, 0.987654321, -1]);
+    const stored = JSON.parse(JSON.stringify(serializeDescriptor(descriptor)));
+
+    expect(deserializeDescriptor(stored)).toEqual(descriptor);
+  });
+
+  it('keeps every registration across a reload', async () => {
+    await facialRecognition.registerStudentFace('CS001', PHOTO, 'Asha');
+    await facialRecognition.registerStudentFace('CS001', PHOTO, 'Asha');
+    const stored = await database.getFaceSamples('CS001');
+
+    // Same storage, fresh service state - as after a page refresh
+    await database.useAdapter(new LocalStorageAdapter(window.localStorage));
+    await facialRecognition.loadFaceDescriptors();
+
+    expect(stored).toHaveLength(2);
+    expect(stored[0].descriptor).toHaveLength(128);
+    expect(facialRecognition.isStudentRegistered('CS001')).toBe(true);
+    expect(facialRecognition.getSampleCount('CS001')).toBe(2);
+  });
+
+  it('flags students whose registration flag and stored samples disagree', async () => {
+    addStudent('CS001', true);
+    addStudent('CS002', false);
+    addStudent('CS003', true);
+    const sample = (rollNo: string) => ({ id: `${rollNo}-1`, rollNo, descriptor: [0.5, -0.5], registeredAt: new Date() });
+    await database.saveFaceSample(sample('CS002'));
+    await database.saveFaceSample(sample('CS003'));
+    await database.saveFaceSample(sample('CS999'));
+    database.setActor({ userId: 'admin1', role: 'admin' });
+
+    const report = await database.checkFaceConsistency();
+    expect(report.missingSamples.map(s => s.rollNo)).toEqual(['CS001']);
+    expect(report.unflagged.map(s => s.rollNo)).toEqual(['CS002']);
+    expect(report.orphanedRollNos).toEqual(['CS999']);
+
+    expect(await database.reconcileFaceFlags()).toBe(2);
+    expect(database.getStudentByRollNo('CS001')?.faceRegistered).toBe(false);
+    expect(database.getStudentByRollNo('CS002')?.faceRegistered).toBe(true);
+  });
+
+  it('deletes face samples together with the student', async () => {
+    const student = addStudent('CS001', true);
+    await database.saveFaceSample({ id: 'CS001-1', rollNo: 'CS001', descriptor: [0.1], registeredAt: new Date() });
+
+    database.runAsSystem(() => database.deleteStudent(student.id));
+
+    expect(await database.getFaceSamples('CS001')).toEqual([]);
+  });
+});
@@ -0,0 +1,131 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { checkGeofence, distanceMeters, distanceToGeofence, needsLocationReview, validateGeofence } from '../utils/geofence';
+import { database } from '../utils/database';
+import { LocalStorageAdapter } from '../utils/storage/localStorageAdapter';
+import { PermissionError } from '../utils/permissions';
+import { AttendanceLocation, Geofence, Student } from '../types';
+
+const CENTRE = { latitude: 12.9716, longitude: 77.5946 };
+const METRES_PER_DEGREE_LAT = 111195;
+
+// `north` metres north of the centre
+const at = (north: number, accuracy?: number): AttendanceLocation => ({
+  latitude: CENTRE.latitude + north / METRES_PER_DEGREE_LAT,
+  longitude: CENTRE.longitude,
+  address: 'test',
+  accuracy,
+});
+
+const circle: Geofence = { type: 'circle', center: CENTRE, radiusMeters: 50 };
+
+// Roughly 100 m square with CENTRE at its south-west corner
+const square: Geofence = {
+  type: 'polygon',
+  points: [
+    CENTRE,
+    { latitude: CENTRE.latitude + 0.0009, longitude: CENTRE.longitude },
+    { latitude: CENTRE.latitude + 0.0009, longitude: CENTRE.longitude + 0.0009 },
+    { latitude: CENTRE.latitude, longitude: CENTRE.longitude + 0.0009 },
+  ],
+};
+
+describe('geofence checks', () => {
+  it('measures distances and circle edges in metres', () => {
+    expect(distanceMeters(CENTRE, at(1000))).toBeCloseTo(1000, 0);
+    expect(distanceToGeofence(at(30), circle)).toBe(0);
+    expect(distanceToGeofence(at(80), circle)).toBeCloseTo(30, 0);
+  });
+
+  it('measures polygons from their nearest edge', () => {
+    expect(distanceToGeofence({ ...at(50), longitude: CENTRE.longitude + 0.0004 }, square)).toBe(0);
+    expect(distanceToGeofence(at(-20), square)).toBeCloseTo(20, 0);
+    expect(distanceToGeofence(at(150), square)).toBeCloseTo(50, 0);
+  });
+
+  it('gives reported accuracy the benefit of the doubt, up to a limit', () => {
+    expect(checkGeofence(at(80), circle)).toEqual({ status: 'outside', distanceMeters: 30 });
+    expect(checkGeofence(at(80, 40), circle)).toEqual({ status: 'inside' });
+    expect(checkGeofence(at(500, 5000), circle).status).toBe('outside');
+    expect(checkGeofence(null, circle)).toEqual({ status: 'unavailable' });
+    expect(checkGeofence(at(0), null)).toEqual({ status: 'unchecked' });
+  });
+
+  it('validates geofences', () => {
+    expect(validateGeofence(circle)).toBeNull();
+    expect(validateGeofence({ ...circle, radiusMeters: 0 })).toMatch(/Radius/);
+    expect(validateGeofence({ type: 'polygon', points: square.points.slice(0, 2) })).toMatch(/three points/);
+    expect(validateGeofence({ type: 'polygon', points: [...square.points.slice(1), { latitude: 95, longitude: 0 }] })).toMatch(/valid/);
+  });
+});
+
+describe('geofenced check-ins', () => {
+  let student: Student;
+  let sessionId: string;
+  // A session running now in room R101
+  const start = new Date(Date.now() - 10 * 60 * 1000);
+
+  beforeEach(async () => {
+    await database.flush();
+    window.localStorage.clear();
+    database.setActor(null);
+    await database.useAdapter(new LocalStorageAdapter(window.localStorage));
+
+    database.runAsSystem(() => {
+      student = database.saveStudent({ rollNo: 'CS001', name: 'Asha', email: 'asha@college.edu', department: 'CS', role: 'student' });
+      const course = database.addCourse({ code: 'CS301', name: 'Data Structures', department: 'CS' });
+      const termEnd = new Date(start);
+      termEnd.setDate(termEnd.getDate() + 1);
+      const pad = (n: number) => String(n).padStart(2, '0');
+      const end = new Date(start.getTime() + 60 * 60 * 1000);
+      const section = database.addSection({
+        courseId: course.id,
+        name: 'Section A',
+        studentIds: [student.id],
+        timetable: [{
+          dayOfWeek: start.getDay(),
+          startTime: `${pad(start.getHours())}:${pad(start.getMinutes())}`,
+          endTime: end.getDate() === start.getDate() ? `${pad(end.getHours())}:${pad(end.getMinutes())}` : '23:59',
+          room: 'R101',
+        }],
+        termStart: new Date(start.getFullYear(), start.getMonth(), start.getDate()),
+        termEnd,
+      });
+      sessionId = database.getSessions({ sectionId: section.id })[0].id;
+      const building = database.addBuilding({ name: 'Main Block', geofence: circle });
+      database.addRoom({ name: 'R101', buildingId: building.id });
+    });
+    database.setActor({ userId: student.id, role: 'student' });
+  });
+
+  const checkIn = (location?: AttendanceLocation) =>
+    database.markAttendance({ studentId: student.id, timestamp: new Date(), status: 'Present', livenessScore: 0.9, sessionId, location });
+
+  it('rejects self check-ins from outside the room', () => {
+    expect(() => checkIn(at(500))).toThrow(PermissionError);
+    expect(() => checkIn(at(500))).toThrow(/450 m outside R101/);
+    expect(checkIn(at(10)).locationStatus).toBe('inside');
+  });
+
+  it('flags check-ins without a location for review', () => {
+    const record = checkIn();
+    expect(record.locationStatus).toBe('unavailable');
+    expect(needsLocationReview(record)).toBe(true);
+  });
+
+  it('marks the check-in absent when faculty reject it', async () => {
+    const record = checkIn();
+    database.setActor({ userId: 'admin1', role: 'admin' });
+
+    const reviewed = database.reviewLocation(record.id, false, 'Not seen in class');
+
+    expect(reviewed).toMatchObject({ status: 'Absent', locationReviewedBy: 'admin1' });
+    expect(needsLocationReview(reviewed!)).toBe(false);
+    const audit = await database.getAuditLog({ studentId: student.id });
+    expect(audit.map(entry => entry.after)).toEqual(['Present', 'Absent']);
+  });
+
+  it('rejects invalid geofences', () => {
+    database.setActor({ userId: 'admin1', role: 'admin' });
+    expect(() => database.addBuilding({ name: 'Annex', geofence: { ...circle, radiusMeters: -1 } })).toThrow(/Invalid geofence/);
+  });
+});
@@ -0,0 +1,29 @@
+import { database, DatabaseService } from '../utils/database';
+import { LocalStorageAdapter } from '../utils/storage/localStorageAdapter';
+import { SqliteAdapter } from '../../server/sqliteAdapter';
+import { Role, Student } from '../types';
+
+// Shared fixtures for the test suites; not a test file itself
+
+export const person = (rollNo: string, department = 'CS', role: Role = 'student'): Omit<Student, 'id' | 'createdAt'> => ({
+  rollNo,
+  name: `Person ${rollNo}`,
+  email: `${rollNo.toLowerCase()}@college.edu`,
+  department,
+  role,
+});
+
+// Start the shared browser database from empty storage with no one signed in
+export const resetDatabase = async () => {
+  await database.flush();
+  window.localStorage.clear();
+  database.setActor(null);
+  await database.useAdapter(new LocalStorageAdapter(window.localStorage));
+};
+
+// A fresh server-side database, kept in memory
+export const memoryDatabase = async () => {
+  const service = new DatabaseService(new SqliteAdapter(':memory:'));
+  await service.init();
+  return service;
+};
@@ -0,0 +1,143 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { database, DuplicateAttendanceError } from '../utils/database';
+import { LocalStorageAdapter } from '../utils/storage/localStorageAdapter';
+import { PermissionError } from '../utils/permissions';
+import { CheckInClosedError, DEFAULT_LATE_RULES, evaluateArrival, validateLateRules } from '../utils/lateRules';
+import { ClassSession, Course, Student } from '../types';
+
+const at = (minutes: number) => new Date(2025, 2, 3, 9, minutes);
+
+const session: ClassSession = {
+  id: 'sess1',
+  sectionId: 'sec1',
+  courseId: 'c1',
+  scheduledStart: at(0),
+  scheduledEnd: at(60),
+  room: 'R101',
+  status: 'scheduled',
+};
+
+describe('late-arrival rules', () => {
+  let student: Student;
+  let courses: Course[];
+  let sessions: ClassSession[];
+
+  beforeEach(async () => {
+    await database.flush();
+    window.localStorage.clear();
+    database.setActor(null);
+    await database.useAdapter(new LocalStorageAdapter(window.localStorage));
+
+    database.runAsSystem(() => {
+      student = database.saveStudent({ rollNo: 'CS001', name: 'Asha', email: 'asha@college.edu', department: 'CS', role: 'student' });
+      courses = ['CS101', 'CS102'].map(code => database.addCourse({ code, name: code, department: 'CS' }));
+      courses.forEach((course, index) =>
+        database.addSection({
+          courseId: course.id,
+          name: 'Section A',
+          studentIds: [student.id],
+          timetable: [{ dayOfWeek: 1 + index, startTime: '09:00', endTime: '10:30', room: 'R101' }],
+          termStart: new Date(2025, 2, 3), // Monday
+          termEnd: new Date(2025, 2, 4, 23, 59),
+        })
+      );
+      sessions = database.getSessionsForStudent(student.id);
+    });
+  });
+
+  it('grades arrivals against the session start', () => {
+    const windows = { graceMinutes: 10, lateMinutes: 30, cutoffMinutes: 45 };
+    expect(evaluateArrival(at(-5), session, windows)).toEqual({ status: 'Present', minutesLate: 0, refused: false });
+    expect(evaluateArrival(at(10), session, windows)).toMatchObject({ status: 'Present', refused: false });
+    expect(evaluateArrival(at(11), session, windows)).toMatchObject({ status: 'Late', minutesLate: 11 });
+    expect(evaluateArrival(at(40), session, windows)).toMatchObject({ status: 'Absent', refused: false });
+    expect(evaluateArrival(at(46), session, windows)).toMatchObject({ refused: true });
+
+    expect(validateLateRules(DEFAULT_LATE_RULES)).toEqual([]);
+    expect(validateLateRules({ ...DEFAULT_LATE_RULES, graceMinutes: 50 })).toHaveLength(1);
+    expect(
+      validateLateRules({ ...DEFAULT_LATE_RULES, courseOverrides: { c1: { graceMinutes: 5, lateMinutes: 2.5, cutoffMinutes: 10 } } }, () => 'CS101')
+    ).toEqual(['CS101: windows must be whole numbers of minutes']);
+  });
+
+  it('decides the status of every check-in, with per-course overrides', async () => {
+    const checkIn = (sessionIndex: number, minutes: number) => {
+      const start = new Date(sessions[sessionIndex].scheduledStart);
+      return database.runAsSystem(() =>
+        database.markAttendance({ studentId: student.id, timestamp: new Date(start.getTime() + minutes * 60000), status: 'Present' })
+      );
+    };
+
+    expect(checkIn(0, 20).status).toBe('Late'); // Default windows: 15 / 45 / 60
+    expect(() => checkIn(0, 61)).toThrow(CheckInClosedError);
+
+    database.setActor({ userId: 'f1', role: 'faculty' });
+    await expect(database.saveLateRules(DEFAULT_LATE_RULES)).rejects.toThrow(PermissionError);
+
+    database.setActor({ userId: 'admin', role: 'admin' });
+    await expect(database.saveLateRules({ ...DEFAULT_LATE_RULES, lateMinutes: 90 })).rejects.toThrow('before the cutoff');
+    const rules = { ...DEFAULT_LATE_RULES, courseOverrides: { [courses[1].id]: { graceMinutes: 25, lateMinutes: 30, cutoffMinutes: 35 } } };
+    await database.saveLateRules(rules);
+    database.setActor(null);
+
+    expect(checkIn(1, 20).status).toBe('Present');
+    expect(() => checkIn(1, 40)).toThrow('Check-in closed: CS102 started 40 minutes ago (limit 35)');
+
+    // Manual changes keep the status staff chose
+    const manual = database.runAsSystem(() => {
+      const classmate = database.saveStudent({ rollNo: 'CS002', name: 'Ravi', email: 'ravi@college.edu', department: 'CS', role: 'student' });
+      return database.markAttendance(
+        { studentId: classmate.id, timestamp: new Date(sessions[1].scheduledStart), status: 'Late', sessionId: sessions[1].id },
+        { source: 'manual_override', reason: 'Came in with the dean' }
+      );
+    });
+    expect(manual.status).toBe('Late');
+
+    // The rules survive a reload
+    await database.useAdapter(new LocalStorageAdapter(window.localStorage));
+    expect(database.getLateRules()).toEqual(rules);
+  });
+
+  it('takes one record per student and session, however many sessions a day', () => {
+    const afternoon = database.runAsSystem(() => {
+      const section = database.addSection({
+        courseId: courses[1].id,
+        name: 'Section B',
+        studentIds: [student.id],
+        timetable: [{ dayOfWeek: 1, startTime: '14:00', endTime: '15:00', room: 'R102' }],
+        termStart: new Date(2025, 2, 3),
+        termEnd: new Date(2025, 2, 3, 23, 59),
+      });
+      return database.getSessionsForStudent(student.id).find(s => s.sectionId === section.id)!;
+    });
+    const checkIn = (session: ClassSession, minutes: number) =>
+      database.runAsSystem(() =>
+        database.markAttendance({
+          studentId: student.id,
+          timestamp: new Date(new Date(session.scheduledStart).getTime() + minutes * 60000),
+          status: 'Present',
+        })
+      );
+
+    expect(checkIn(sessions[0], 5).sessionId).toBe(sessions[0].id);
+    expect(checkIn(afternoon, 5).sessionId).toBe(afternoon.id); // Same day, another class
+    expect(() => checkIn(sessions[0], 10)).toThrow(DuplicateAttendanceError);
+    expect(() =>
+      database.runAsSystem(() =>
+        database.markAttendance(
+          { studentId: student.id, timestamp: at(30), status: 'Late', sessionId: sessions[0].id },
+          { source: 'manual_override', reason: 'Marked twice' }
+        )
+      )
+    ).toThrow('Asha is already marked Present for CS101');
+    expect(database.runAsSystem(() => database.getAttendanceRecords())).toHaveLength(2);
+
+    // Manual marking finds the record of the class it lands in, not just any record that day
+    const [morning] = database.runAsSystem(() => database.getAttendanceRecords());
+    const found = (minutes: number, sessionId?: string) =>
+      database.runAsSystem(() => database.findAttendanceFor(student.id, new Date(new Date(afternoon.scheduledStart).getTime() + minutes * 60000), sessionId));
+    expect(found(10)?.sessionId).toBe(afternoon.id);
+    expect(found(10, sessions[0].id)).toBe(morning);
+    expect(found(180)).toBeNull(); // No class running and no record outside a class
+  });
+});
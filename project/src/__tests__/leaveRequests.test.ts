@@ -0,0 +1,93 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { database } from '../utils/database';
+import { person, resetDatabase } from './helpers';
+import { PermissionError } from '../utils/permissions';
+import { getSessionOutcomes, summarizeOutcomes } from '../utils/timetable';
+import { ClassSession, Student } from '../types';
+
+describe('leave requests', () => {
+  let student: Student;
+  let csHod: Student;
+  let eeHod: Student;
+  let sessions: ClassSession[];
+
+  beforeEach(async () => {
+    await resetDatabase();
+
+    database.runAsSystem(() => {
+      student = database.saveStudent(person('CS001', 'Computer Science'));
+      csHod = database.saveStudent(person('HOD01', 'Computer Science', 'hod'));
+      eeHod = database.saveStudent(person('HOD02', 'Electrical', 'hod'));
+      const course = database.addCourse({ code: 'CS101', name: 'Programming', department: 'Computer Science' });
+      database.addSection({
+        courseId: course.id,
+        name: 'Section A',
+        studentIds: [student.id],
+        timetable: [
+          { dayOfWeek: 1, startTime: '09:00', endTime: '10:00', room: 'R101' }, // Monday
+          { dayOfWeek: 3, startTime: '09:00', endTime: '10:00', room: 'R101' }, // Wednesday
+        ],
+        termStart: new Date(2025, 2, 3), // Monday 3 March 2025
+        termEnd: new Date(2025, 2, 16, 23, 59), // 4 sessions
+      });
+      sessions = database.getSessionsForStudent(student.id);
+      database.markAttendance({ studentId: student.id, timestamp: sessions[0].scheduledStart, status: 'Absent', sessionId: sessions[0].id });
+      database.markAttendance({ studentId: student.id, timestamp: sessions[1].scheduledStart, status: 'Present', sessionId: sessions[1].id });
+    });
+  });
+
+  it('validates requests from students', () => {
+    database.setActor({ userId: student.id, role: 'student' });
+    const request = { studentId: student.id, from: new Date(2025, 2, 3, 14), to: new Date(2025, 2, 10), reason: ' Fever ' };
+
+    expect(() => database.submitLeaveRequest({ ...request, reason: '  ' })).toThrow('A reason is required');
+    expect(() => database.submitLeaveRequest({ ...request, from: new Date(2025, 2, 11) })).toThrow('end on or after');
+    expect(() => database.submitLeaveRequest({ ...request, studentId: 'someone-else' })).toThrow(PermissionError);
+
+    const submitted = database.submitLeaveRequest(request);
+    expect(submitted).toMatchObject({ status: 'pending', reason: 'Fever', from: new Date(2025, 2, 3) });
+    expect(() => database.submitLeaveRequest({ ...request, from: new Date(2025, 2, 10), to: new Date(2025, 2, 12) })).toThrow(
+      'Overlaps the pending leave'
+    );
+
+    expect(database.getLeaveRequests()).toEqual([submitted]);
+    expect(() => database.reviewLeaveRequest(submitted.id, true)).toThrow(PermissionError);
+  });
+
+  it('marks the leave days Excused on approval without touching check-ins', async () => {
+    database.setActor({ userId: student.id, role: 'student' });
+    const request = database.submitLeaveRequest({ studentId: student.id, from: new Date(2025, 2, 3), to: new Date(2025, 2, 10), reason: 'Fever' });
+
+    // Heads of other departments neither see nor review it
+    database.setActor({ userId: eeHod.id, role: 'hod' });
+    expect(database.getLeaveRequests()).toEqual([]);
+    expect(() => database.reviewLeaveRequest(request.id, true)).toThrow(PermissionError);
+
+    database.setActor({ userId: csHod.id, role: 'hod' });
+    expect(() => database.reviewLeaveRequest(request.id, false)).toThrow('A reason is required to reject');
+    const approved = database.reviewLeaveRequest(request.id, true, 'Get well soon');
+    expect(approved).toMatchObject({ status: 'approved', reviewedBy: csHod.id, reviewerName: 'Person HOD01', reviewComment: 'Get well soon', excusedSessions: 2 });
+    expect(() => database.reviewLeaveRequest(request.id, false, 'Changed my mind')).toThrow('already approved');
+
+    const records = database.getAttendanceRecords();
+    const outcomes = getSessionOutcomes(student.id, sessions, records, new Date(2025, 2, 17));
+    expect(outcomes.map(o => o.status)).toEqual(['Absent', 'Excused', 'Present', 'Excused']); // Most recent first
+    const audit = await database.getAuditLog({ studentId: student.id });
+    expect(audit.filter(entry => entry.source === 'leave_approval')).toEqual([
+      expect.objectContaining({ action: 'attendance.update', before: 'Absent', after: 'Excused', reason: 'Approved leave: Fever', actorId: csHod.id }),
+      expect.objectContaining({ action: 'attendance.create', sessionId: sessions[2].id, after: 'Excused' }),
+    ]);
+
+    // Excused sessions leave the denominator by default, or count as absences when the policy says so
+    expect(summarizeOutcomes(outcomes)).toMatchObject({ held: 2, attended: 1, excused: 2, percentage: 50 });
+    expect(summarizeOutcomes(outcomes, false)).toMatchObject({ held: 4, attended: 1, percentage: 25 });
+
+    // A rejected request frees its dates for a new one
+    database.setActor({ userId: student.id, role: 'student' });
+    const retry = database.submitLeaveRequest({ studentId: student.id, from: new Date(2025, 2, 12), to: new Date(2025, 2, 12), reason: 'Trip' });
+    database.setActor({ userId: 'f1', role: 'faculty' });
+    expect(database.reviewLeaveRequest(retry.id, false, 'Not a valid reason')).toMatchObject({ status: 'rejected' });
+    database.setActor({ userId: student.id, role: 'student' });
+    expect(database.submitLeaveRequest({ studentId: student.id, from: retry.from, to: retry.to, reason: 'Family event' }).status).toBe('pending');
+  });
+});
@@ -0,0 +1,127 @@
+// @vitest-environment node
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import { WebSocket, WebSocketServer } from 'ws';
+import { createApp } from '../../server/app';
+import { attachLiveFeed, LIVE_CLOSE_CODES, LIVE_PATH } from '../../server/live';
+import { DatabaseService } from '../utils/database';
+import { AuthService } from '../utils/auth';
+import { memoryDatabase, person } from './helpers';
+import { AttendanceRecord, Student } from '../types';
+
+describe('live attendance feed', () => {
+  let database: DatabaseService;
+  let auth: AuthService;
+  let server: Server;
+  let wss: WebSocketServer;
+  let url: string;
+  let students: Student[];
+  let sessionId: string;
+
+  const tokenFor = async (username: string, role: Student['role'], userId: string) => {
+    await auth.register({ username, password: `${username}-password`, role, userId });
+    return (await auth.login(username, `${username}-password`)).id;
+  };
+
+  const connect = (token: string) =>
+    new Promise<WebSocket>((resolve, reject) => {
+      const socket = new WebSocket(`${url}${LIVE_PATH}?token=${token}`);
+      socket.once('open', () => resolve(socket));
+      socket.once('error', reject);
+    });
+
+  const nextMessage = (socket: WebSocket) =>
+    new Promise<{ type: string; record: AttendanceRecord }>(resolve => {
+      socket.once('message', data => resolve(JSON.parse(data.toString())));
+    });
+
+  const closeCode = (socket: WebSocket) => new Promise<number>(resolve => socket.once('close', resolve));
+
+  beforeEach(async () => {
+    database = await memoryDatabase();
+    auth = new AuthService(database, { iterations: 1000 });
+
+    database.runAsSystem(() => {
+      students = [database.saveStudent(person('CS001')), database.saveStudent(person('ME001', 'ME'))];
+      const course = database.addCourse({ code: 'CS301', name: 'Data Structures', department: 'CS' });
+      const today = new Date();
+      const section = database.addSection({
+        courseId: course.id,
+        name: 'Section A',
+        studentIds: students.map(s => s.id),
+        timetable: [{ dayOfWeek: today.getDay(), startTime: '00:00', endTime: '23:59', room: 'R101' }],
+        termStart: new Date(today.getFullYear(), today.getMonth(), today.getDate()),
+        termEnd: new Date(today.getFullYear(), today.getMonth(), today.getDate() + 1),
+      });
+      sessionId = database.getSessions({ sectionId: section.id })[0].id;
+    });
+    // The session spans the whole day, so check-ins at any time of day must be accepted on time
+    await database.runAsSystem(() =>
+      database.saveLateRules({ graceMinutes: 1440, lateMinutes: 1440, cutoffMinutes: 1440, courseOverrides: {} })
+    );
+
+    server = createApp({ database, auth }).listen(0);
+    await new Promise(resolve => server.once('listening', resolve));
+    wss = attachLiveFeed(server, { database, auth });
+    url = `ws://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    wss.clients.forEach(client => client.terminate());
+    await new Promise(resolve => wss.close(resolve));
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  const checkIn = (student: Student) =>
+    database.runAsSystem(() => database.markAttendance({ studentId: student.id, timestamp: new Date(), status: 'Present', sessionId }));
+
+  it('pushes check-ins to boards subscribed to the session', async () => {
+    const faculty = database.runAsSystem(() => database.saveStudent({ ...person('F001'), role: 'faculty' }));
+    const board = await connect(await tokenFor('faculty', 'faculty', faculty.id));
+    board.send(JSON.stringify({ type: 'subscribe', sessionId }));
+    await new Promise(resolve => setTimeout(resolve, 50));
+
+    const received = nextMessage(board);
+    const record = checkIn(students[0]);
+    const message = await received;
+
+    expect(message.type).toBe('attendance');
+    expect(message.record).toMatchObject({ id: record.id, studentId: students[0].id, sessionId });
+    board.close();
+  });
+
+  it('only sends a head of department their own students', async () => {
+    const hod = database.runAsSystem(() => database.saveStudent({ ...person('H001'), role: 'hod' }));
+    const board = await connect(await tokenFor('hod', 'hod', hod.id));
+    board.send(JSON.stringify({ type: 'subscribe', sessionId }));
+    await new Promise(resolve => setTimeout(resolve, 50));
+
+    const received = nextMessage(board);
+    checkIn(students[1]); // Mechanical, not the head's department
+    const record = checkIn(students[0]);
+    expect((await received).record.id).toBe(record.id);
+    board.close();
+  });
+
+  it('closes connections without a valid staff token', async () => {
+    const socket = new WebSocket(`${url}${LIVE_PATH}?token=nope`);
+    expect(await closeCode(socket)).toBe(LIVE_CLOSE_CODES.unauthorized);
+
+    const student = new WebSocket(`${url}${LIVE_PATH}?token=${await tokenFor('CS001', 'student', students[0].id)}`);
+    expect(await closeCode(student)).toBe(LIVE_CLOSE_CODES.forbidden);
+  });
+
+  it('keeps newer local changes when a pushed record is older', () => {
+    const record = checkIn(students[0]);
+    const updated = database.runAsSystem(() =>
+      database.updateAttendanceStatus(record.id, 'Late', { source: 'manual_override', reason: 'Arrived after roll call' })
+    );
+
+    database.applyRemoteAttendance({ ...record, status: 'Absent', updatedAt: new Date(0) });
+    expect(database.runAsSystem(() => database.getAttendanceRecords()).find(r => r.id === record.id)?.status).toBe('Late');
+
+    database.applyRemoteAttendance({ ...record, status: 'Absent', updatedAt: new Date(updated!.updatedAt!.getTime() + 1000) });
+    expect(database.runAsSystem(() => database.getAttendanceRecords()).find(r => r.id === record.id)?.status).toBe('Absent');
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { evaluateLiveness, frameDifference, pickChallenge, LivenessFrame, LIVENESS_PASS_SCORE } from '../utils/face/liveness';
+import { facialRecognition } from '../utils/facialRecognition';
+import { FixtureFaceEngine } from '../utils/face/fixtureFaceEngine';
+import { FacePose } from '../utils/face/faceEngine';
+
+const OPEN: FacePose = { eyeOpenness: 0.31, yaw: 0.02 };
+const CLOSED: FacePose = { eyeOpenness: 0.12, yaw: 0.01 };
+const TURNED: FacePose = { eyeOpenness: 0.3, yaw: 0.5 };
+
+// Greyscale thumbnails; `shift` changes every pixel by that many grey levels
+const pixels = (shift: number) => new Uint8ClampedArray(64).fill(100 + shift);
+
+// A live feed changes a little between every frame
+const liveFrames = (poses: Array<FacePose | null>): LivenessFrame[] =>
+  poses.map((pose, i) => ({ pose, pixels: pixels(i % 2 === 0 ? 0 : 3) }));
+
+describe('liveness check', () => {
+  it('passes a blink seen on a live feed', () => {
+    const result = evaluateLiveness(liveFrames([OPEN, OPEN, CLOSED, OPEN, OPEN]), 'blink');
+
+    expect(result).toMatchObject({ passed: true, challengeCompleted: true, motionScore: 1, reason: null });
+    expect(result.score).toBeGreaterThanOrEqual(LIVENESS_PASS_SCORE);
+  });
+
+  it('fails when the challenge is not performed', () => {
+    expect(evaluateLiveness(liveFrames([OPEN, OPEN, OPEN, OPEN]), 'blink').passed).toBe(false);
+    expect(evaluateLiveness(liveFrames([OPEN, OPEN, OPEN, OPEN]), 'turn_head').passed).toBe(false);
+    expect(evaluateLiveness(liveFrames([OPEN, OPEN, TURNED, OPEN]), 'turn_head').passed).toBe(true);
+  });
+
+  it('rejects a still picture even if the challenge appears completed', () => {
+    // Same pixels in every frame, like a photo on a stand or a frozen virtual camera
+    const frozen = [OPEN, CLOSED, OPEN].map(pose => ({ pose, pixels: pixels(0) }));
+    const result = evaluateLiveness(frozen, 'blink');
+
+    expect(frameDifference(frozen[0].pixels, frozen[1].pixels)).toBe(0);
+    expect(result.passed).toBe(false);
+    expect(result.motionScore).toBe(0);
+    expect(result.reason).toMatch(/photo/);
+  });
+
+  it('fails when the face leaves the frame', () => {
+    const result = evaluateLiveness(liveFrames([OPEN, null, null, null, CLOSED, OPEN]), 'blink');
+    expect(result.reason).toMatch(/face in the frame/);
+  });
+
+  it('picks either challenge', () => {
+    expect(pickChallenge(() => 0)).toBe('blink');
+    expect(pickChallenge(() => 0.99)).toBe('turn_head');
+  });
+
+  it('reads poses from the face engine', async () => {
+    const frame = (name: string) => `data:image/png;base64,${btoa(name)}`;
+    const engine = new FixtureFaceEngine();
+    const poses = [OPEN, CLOSED, OPEN];
+    const images = poses.map((_, i) => frame(`blink-${i}`));
+    images.forEach((image, i) => engine.addFixture(image, [{ identity: 'asha', pose: poses[i] }]));
+    facialRecognition.useEngine(engine);
+
+    const result = await facialRecognition.checkLiveness(
+      images.map((imageData, i) => ({ imageData, pixels: pixels(i * 2) })),
+      'blink'
+    );
+
+    expect(result.passed).toBe(true);
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { LocalStorageAdapter } from '../utils/storage/localStorageAdapter';
+import {
+  runMigrations,
+  getSchemaVersion,
+  getQuarantinedRecords,
+  CURRENT_SCHEMA_VERSION,
+  Migration,
+} from '../utils/migrations';
+
+const seed = (key: string, value: unknown) => window.localStorage.setItem(key, JSON.stringify(value));
+
+describe('runMigrations', () => {
+  let adapter: LocalStorageAdapter;
+
+  beforeEach(async () => {
+    window.localStorage.clear();
+    adapter = new LocalStorageAdapter(window.localStorage);
+    await adapter.open();
+  });
+
+  it('stamps a brand new database with the current version without migrating', async () => {
+    const report = await runMigrations(adapter);
+
+    expect(report.applied).toEqual([]);
+    expect(await getSchemaVersion(adapter)).toBe(CURRENT_SCHEMA_VERSION);
+  });
+
+  it('upgrades unversioned data and backfills rollNo/name from the student table', async () => {
+    seed('neoattend_students', [
+      { id: 's1', rollNo: 'CS001', name: 'Rahul Kumar', email: 'r@college.edu', department: 'CS', role: 'student', createdAt: '2025-01-01T00:00:00Z' },
+    ]);
+    seed('neoattend_attendance', [
+      // Old shape: no rollNo/name
+      { id: 'a1', studentId: 's1', timestamp: '2025-03-01T09:00:00Z', status: 'Present', confidence: 0.9 },
+      // Test-data shape with a placeholder roll number and lowercase status
+      { id: 'a2', studentId: 's1', rollNo: 'N/A', name: 'Rahul', timestamp: '2025-03-02T09:00:00Z', status: 'late', subject: 'General' },
+      // Only a roll number to go on
+      { id: 'a3', rollNo: 'CS001', timestamp: '2025-03-03T09:00:00Z', status: 'Present' },
+    ]);
+
+    const report = await runMigrations(adapter);
+    const attendance = await adapter.getAll('attendance');
+
+    expect(report.fromVersion).toBe(0);
+    expect(report.toVersion).toBe(CURRENT_SCHEMA_VERSION);
+    expect(report.failures).toEqual([]);
+    expect(attendance.map(r => [r.id, r.studentId, r.rollNo, r.name, r.status])).toEqual([
+      ['a1', 's1', 'CS001', 'Rahul Kumar', 'Present'],
+      ['a2', 's1', 'CS001', 'Rahul Kumar', 'Late'],
+      ['a3', 's1', 'CS001', 'Rahul Kumar', 'Present'],
+    ]);
+    expect(await getSchemaVersion(adapter)).toBe(CURRENT_SCHEMA_VERSION);
+  });
+
+  it('quarantines records it cannot migrate instead of dropping them', async () => {
+    seed('neoattend_students', [
+      { id: 's1', rollNo: 'CS001', name: 'Rahul Kumar', email: 'r@college.edu', department: 'CS', role: 'student', createdAt: '2025-01-01T00:00:00Z' },
+    ]);
+    seed('neoattend_attendance', [
+      { id: 'a1', studentId: 's1', timestamp: '2025-03-01T09:00:00Z', status: 'Present' },
+      { id: 'a2', studentId: 'ghost', timestamp: '2025-03-01T09:00:00Z', status: 'Present' },
+      { id: 'a3', studentId: 's1', timestamp: 'not a date', status: 'Present' },
+      { id: 'a4', studentId: 's1', timestamp: '2025-03-01T09:00:00Z', status: 'Maybe' },
+    ]);
+
+    const report = await runMigrations(adapter);
+
+    expect((await adapter.getAll('attendance')).map(r => r.id)).toEqual(['a1']);
+    expect(report.failures.map(f => f.recordId)).toEqual(['a2', 'a3', 'a4']);
+    expect(report.failures[0].reason).toContain('ghost');
+
+    const quarantined = await getQuarantinedRecords(adapter);
+    expect(quarantined).toHaveLength(3);
+    expect(quarantined[0].record).toMatchObject({ id: 'a2', studentId: 'ghost' });
+  });
+
+  it('only runs migrations newer than the stored version', async () => {
+    seed('neoattend_students', [{ id: 's1', name: 'A' }]);
+    seed('neoattend_meta', [{ id: 'schemaVersion', value: 1 }]);
+
+    const migrations: Migration[] = [
+      { version: 1, description: 'already applied', migrateStudent: () => { throw new Error('should not run'); } },
+      { version: 2, description: 'add nickname', migrateStudent: student => ({ ...student, nickname: 'x' }) },
+    ];
+    const report = await runMigrations(adapter, migrations);
+
+    expect(report.applied).toEqual(['v2: add nickname']);
+    expect(await adapter.getAll('students')).toMatchObject([{ id: 's1', nickname: 'x' }]);
+    expect(await getSchemaVersion(adapter)).toBe(2);
+  });
+});
@@ -0,0 +1,71 @@
+// @vitest-environment node
+import { describe, it, expect, beforeEach } from 'vitest';
+import { readFile } from 'fs/promises';
+import { join } from 'path';
+import { AttendanceReportData, AttendanceReportGenerator } from '../utils/pdfGenerator';
+import { Student } from '../types';
+
+const FONT_DIR = join(__dirname, '../../node_modules/dejavu-fonts-ttf/ttf');
+
+const loadFont = async (file: string) => {
+  const buffer = await readFile(join(FONT_DIR, file));
+  return buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength) as ArrayBuffer;
+};
+
+const report = (studentCount: number): AttendanceReportData => ({
+  date: new Date(2026, 9, 19),
+  className: 'Section A',
+  subject: 'Weekly Report',
+  faculty: 'Dr. Rao',
+  students: Array.from({ length: studentCount }, (_, i) => ({
+    student: { id: `s${i}`, rollNo: `CS${String(i + 1).padStart(3, '0')}`, name: `Śruti Nāyak ${i + 1}`, email: '', department: 'Computer Science', role: 'student', createdAt: new Date() } as Student,
+    status: i % 5 === 0 ? 'Absent' : i % 7 === 0 ? 'Late' : 'Present',
+    markedAt: i % 5 === 0 ? undefined : new Date(2026, 9, 19, 9, i % 60),
+    confidence: i % 5 === 0 ? undefined : 0.93,
+  })),
+  statistics: { totalStudents: studentCount, present: 0, absent: 0, late: 0, attendancePercentage: 0 },
+  breakdown: {
+    title: 'Day-wise Attendance',
+    rows: ['Sun', 'Mon', 'Tue'].map(label => ({ label, detail: 'Oct 19', present: 10, late: 2, percentage: 80 })),
+  },
+});
+
+const pdfText = async (blob: Blob) => Buffer.from(await blob.arrayBuffer()).toString('latin1');
+
+describe('PDF attendance reports', () => {
+  let generator: AttendanceReportGenerator;
+
+  beforeEach(() => {
+    generator = new AttendanceReportGenerator();
+    generator.useFontLoader(loadFont);
+  });
+
+  it('produces a real, paginated PDF with embedded fonts', async () => {
+    const blob = await generator.generatePDFReport(report(120));
+    const pdf = await pdfText(blob);
+
+    expect(blob.type).toBe('application/pdf');
+    expect(pdf.startsWith('%PDF-')).toBe(true);
+    expect(pdf.match(/\/Type \/Page\b(?!s)/g)?.length).toBeGreaterThanOrEqual(3);
+    // Regular and bold DejaVu Sans, embedded as TrueType font files
+    expect(pdf).toMatch(/\/BaseFont \/DejaVuSans\b/);
+    expect(pdf.match(/\/FontFile2/g)).toHaveLength(2);
+  });
+
+  it('fits a short class on one page', async () => {
+    const pdf = await pdfText(await generator.generatePDFReport({ ...report(10), breakdown: undefined }));
+    expect(pdf.match(/\/Type \/Page\b(?!s)/g)).toHaveLength(1);
+  });
+
+  it('reports missing fonts and retries on the next report', async () => {
+    let calls = 0;
+    generator.useFontLoader(async file => {
+      calls++;
+      if (calls <= 2) throw new Error(`${file} not found`);
+      return loadFont(file);
+    });
+
+    await expect(generator.generatePDFReport(report(1))).rejects.toThrow('not found');
+    await expect(generator.generatePDFReport(report(1))).resolves.toBeInstanceOf(Blob);
+  });
+});
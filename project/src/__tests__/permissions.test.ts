@@ -0,0 +1,82 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { database } from '../utils/database';
+import { person, resetDatabase } from './helpers';
+import { can, PermissionError, ROLE_PERMISSIONS } from '../utils/permissions';
+import { Student } from '../types';
+
+describe('role-based access control', () => {
+  let cs: Student;
+  let ee: Student;
+  let hod: Student;
+
+  beforeEach(async () => {
+    await resetDatabase();
+    [cs, ee, hod] = database.runAsSystem(() => [
+      database.saveStudent(person('CS001', 'Computer Science')),
+      database.saveStudent(person('EE001', 'Electrical')),
+      database.saveStudent(person('HOD01', 'Computer Science', 'hod')),
+    ]);
+  });
+
+  it('maps roles to capabilities', () => {
+    expect(can('admin', 'settings.write')).toBe(true);
+    expect(can('faculty', 'settings.write')).toBe(false);
+    expect(can('faculty', 'students.delete')).toBe(false);
+    expect(can('hod', 'students.delete')).toBe(true);
+    expect(can('ta', 'attendance.mark')).toBe(true);
+    expect(can('ta', 'attendance.edit')).toBe(false);
+    expect(can('student', 'attendance.markSelf')).toBe(true);
+    expect(can(null, 'attendance.view')).toBe(false);
+    expect(ROLE_PERMISSIONS.student).not.toContain('attendance.view');
+  });
+
+  it('shows and changes nothing without a logged-in user', () => {
+    expect(database.getStudents()).toEqual([]);
+    expect(() => database.deleteStudent(cs.id)).toThrow(PermissionError);
+    expect(() => database.markAttendance({ studentId: cs.id, timestamp: new Date(), status: 'Present' })).toThrow(
+      PermissionError
+    );
+  });
+
+  it('enforces the policy table in service methods', () => {
+    database.setActor({ userId: 'f1', role: 'faculty' });
+    expect(database.getStudents()).toHaveLength(3);
+    expect(() => database.deleteStudent(cs.id)).toThrow(PermissionError);
+    expect(() => database.clearAllData()).toThrow(PermissionError);
+    expect(() => database.updateStudent({ ...cs, role: 'admin' })).toThrow(PermissionError);
+    expect(database.markAttendance({ studentId: cs.id, timestamp: new Date(), status: 'Present' }).rollNo).toBe('CS001');
+
+    database.setActor({ userId: 'a1', role: 'admin' });
+    database.updateStudent({ ...ee, role: 'ta' });
+    database.deleteStudent(cs.id);
+    expect(database.getStudents().map(s => s.rollNo)).toEqual(['EE001', 'HOD01']);
+  });
+
+  it('limits department heads to their own department', () => {
+    database.setActor({ userId: hod.id, role: 'hod' });
+
+    expect(database.getStudents().map(s => s.rollNo)).toEqual(['CS001', 'HOD01']);
+    expect(() => database.markAttendance({ studentId: ee.id, timestamp: new Date(), status: 'Present' })).toThrow(
+      'Computer Science'
+    );
+    expect(() => database.updateStudent({ ...cs, department: 'Electrical' })).toThrow(PermissionError);
+    database.deleteStudent(cs.id);
+    expect(database.getStudents().map(s => s.rollNo)).toEqual(['HOD01']);
+  });
+
+  it('lets students see and mark only their own attendance', () => {
+    database.setActor({ userId: 'f1', role: 'faculty' });
+    database.markAttendance({ studentId: ee.id, timestamp: new Date(), status: 'Present' });
+
+    database.setActor({ userId: cs.id, role: 'student' });
+    expect(database.getStudents().map(s => s.id)).toEqual([cs.id]);
+    expect(() => database.markAttendance({ studentId: ee.id, timestamp: new Date(), status: 'Present' })).toThrow(
+      'own attendance'
+    );
+    expect(() => database.markAttendance({ studentId: cs.id, timestamp: new Date(), status: 'Present' })).toThrow(
+      'liveness'
+    );
+    database.markAttendance({ studentId: cs.id, timestamp: new Date(), status: 'Present', livenessScore: 0.9 });
+    expect(database.getAttendanceRecords().map(r => r.studentId)).toEqual([cs.id]);
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { database } from '../utils/database';
+import { LocalStorageAdapter } from '../utils/storage/localStorageAdapter';
+import { AttendanceReportData, reportGenerator } from '../utils/pdfGenerator';
+import {
+  DEFAULT_REPORT_TEMPLATE,
+  ReportTemplate,
+  fillPlaceholders,
+  findUnknownPlaceholders,
+  loadReportTemplates,
+  saveReportTemplates,
+  templateForDepartment,
+} from '../utils/reportTemplates';
+import { Student } from '../types';
+
+const student = (rollNo: string, name: string): Student =>
+  ({ id: rollNo, rollNo, name, email: '', department: 'Computer Science', role: 'student', createdAt: new Date() }) as Student;
+
+const data: AttendanceReportData = {
+  date: new Date(2026, 9, 19),
+  className: 'Section A',
+  faculty: 'Dr. Rao',
+  students: [
+    { student: student('CS001', 'Asha'), status: 'Present', markedAt: new Date(2026, 9, 19, 9, 2), confidence: 0.912 },
+    { student: student('CS002', 'Ravi, Jr.'), status: 'Late', markedAt: new Date(2026, 9, 19, 9, 20), remarks: 'Bus <delayed>' },
+    { student: student('CS003', 'Mina'), status: 'Absent' },
+  ],
+  statistics: { totalStudents: 3, present: 1, absent: 1, late: 1, attendancePercentage: 66.666 },
+};
+
+const compact: ReportTemplate = {
+  ...DEFAULT_REPORT_TEMPLATE,
+  id: 'compact',
+  name: 'Compact',
+  department: 'Computer Science',
+  title: '{{className}} register',
+  details: ['Faculty: {{faculty}}', 'Subject: {{subject}}', 'Attendance: {{attendancePercentage}} of {{totalStudents}}'],
+  columns: [
+    { key: 'rollNo', label: 'Roll' },
+    { key: 'status', label: 'Status' },
+    { key: 'remarks', label: 'Remarks' },
+  ],
+  signatories: ['Class teacher'],
+};
+
+describe('report templates', () => {
+  beforeEach(async () => {
+    await database.flush();
+    window.localStorage.clear();
+    database.setActor(null);
+    await database.useAdapter(new LocalStorageAdapter(window.localStorage));
+  });
+
+  it('fills placeholders from the report data and leaves unknown ones as typed', () => {
+    const context = { institution: 'City College', tagline: '', generatedAt: new Date() };
+    expect(fillPlaceholders('{{institution}}: {{ className }} by {{faculty}} ({{present}}/{{totalStudents}})', data, context)).toBe(
+      'City College: Section A by Dr. Rao (1/3)'
+    );
+    expect(fillPlaceholders('{{room}}', data, context)).toBe('{{room}}');
+    expect(findUnknownPlaceholders({ ...compact, footnotes: ['Room {{room}}', '{{date}}'] })).toEqual(['room']);
+  });
+
+  it('renders CSV and HTML from the same template columns', () => {
+    const csv = reportGenerator.generateCSV(data, compact).split('\n');
+    expect(csv).toEqual(['Roll,Status,Remarks', 'CS001,Present,', 'CS002,Late,Bus <delayed>', 'CS003,Absent,']);
+
+    const html = reportGenerator.generateHTMLReport(data, compact);
+    expect(html).toContain('<h2>Section A register</h2>');
+    expect(html).toContain('<b>Attendance:</b> 66.7% of 3');
+    expect(html).not.toContain('Subject:'); // Empty values drop the whole detail line
+    expect(html).toContain('<th>Roll</th><th>Status</th><th>Remarks</th>');
+    expect(html).toContain('Bus &lt;delayed&gt;');
+    expect(html).toContain('<b>Class teacher</b>');
+    expect(html).not.toContain('Student Name');
+
+    const standard = reportGenerator.generateCSV(data).split('\n');
+    expect(standard[0]).toBe('S.No,Roll Number,Student Name,Department,Status,Time,Confidence');
+    expect(standard[1]).toMatch(/^1,CS001,Asha,Computer Science,Present,.+,91\.2%$/);
+    expect(standard[2]).toContain('"Ravi, Jr."');
+  });
+
+  it('stores named templates in settings and picks one per department', async () => {
+    expect(await loadReportTemplates()).toEqual([DEFAULT_REPORT_TEMPLATE]);
+
+    database.setActor({ userId: 'staff', role: 'faculty' });
+    await expect(saveReportTemplates([DEFAULT_REPORT_TEMPLATE, compact])).rejects.toThrow();
+
+    database.setActor({ userId: 'admin', role: 'admin' });
+    await database.saveSettings({ lateThreshold: 10 });
+    await expect(saveReportTemplates([compact, { ...compact, id: 'other' }])).rejects.toThrow('Two templates are named Compact');
+    await expect(saveReportTemplates([{ ...compact, columns: [] }])).rejects.toThrow('Compact has no columns');
+    await saveReportTemplates([DEFAULT_REPORT_TEMPLATE, compact]);
+
+    const templates = await loadReportTemplates();
+    expect(templates.map(t => t.name)).toEqual(['Standard', 'Compact']);
+    expect((await database.getSettings()).lateThreshold).toBe(10);
+    expect(templateForDepartment(templates, 'Computer Science').id).toBe('compact');
+    expect(templateForDepartment(templates, 'Civil').id).toBe('standard');
+  });
+});
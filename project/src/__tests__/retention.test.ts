@@ -0,0 +1,157 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { database } from '../utils/database';
+import { LocalStorageAdapter } from '../utils/storage/localStorageAdapter';
+import {
+  DEFAULT_RETENTION_CONFIG,
+  PurgeArchiver,
+  isPurgeDue,
+  loadRetentionConfig,
+  retentionCutoffs,
+  runRetentionPurge,
+  saveRetentionConfig,
+  validateRetentionConfig,
+} from '../utils/retention';
+import { DEFAULT_ATTENDANCE_POLICY, evaluateStudent } from '../utils/attendancePolicy';
+import { summarizeSessions } from '../utils/timetable';
+import { PurgeArchive, Student } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const now = new Date(2025, 5, 1, 12);
+const daysAgo = (days: number) => new Date(now.getTime() - days * DAY_MS);
+
+describe('data retention', () => {
+  let kept: Student;
+  let held: Student;
+  let archived: PurgeArchive[];
+  const archiver: PurgeArchiver = async expired => {
+    archived.push(expired);
+    return 'archive.json';
+  };
+
+  beforeEach(async () => {
+    await database.flush();
+    window.localStorage.clear();
+    database.setActor(null);
+    await database.useAdapter(new LocalStorageAdapter(window.localStorage));
+    archived = [];
+
+    database.runAsSystem(() => {
+      [kept, held] = ['CS001', 'CS002'].map(rollNo => {
+        const student = database.saveStudent({
+          rollNo, name: rollNo, email: `${rollNo}@college.edu`, department: 'CS', role: 'student', imageUrl: 'data:image/jpeg;base64,AAAA', faceRegistered: true,
+        });
+        database.updateStudent({ ...student, createdAt: daysAgo(400) });
+        [400, 10].forEach(age => database.markAttendance({ studentId: student.id, timestamp: daysAgo(age), status: 'Present' }));
+        return student;
+      });
+    });
+    await database.saveFaceSample({ id: 'old', rollNo: 'CS001', descriptor: [0.1], registeredAt: daysAgo(400) });
+    await database.saveFaceSample({ id: 'held', rollNo: 'CS002', descriptor: [0.2], registeredAt: daysAgo(400) });
+    await database.recordReportRun({
+      id: 'run1', jobId: 'j1', jobName: 'Daily', trigger: 'schedule', startedAt: daysAgo(400), finishedAt: daysAgo(400), status: 'success', message: '',
+    });
+  });
+
+  it('keeps each class for its own period or the dataRetention setting', async () => {
+    const config = { ...DEFAULT_RETENTION_CONFIG, policies: { ...DEFAULT_RETENTION_CONFIG.policies, auditLog: 730, reports: -1 } };
+    expect(retentionCutoffs(config, 90, now)).toEqual({
+      faceImages: daysAgo(90),
+      faceDescriptors: daysAgo(90),
+      attendance: daysAgo(90),
+      auditLog: daysAgo(730),
+    });
+    expect(validateRetentionConfig({ ...config, policies: { ...config.policies, attendance: 0 } })).toEqual([
+      'Attendance records: keep data for a whole number of days, or forever',
+    ]);
+    expect(validateRetentionConfig({ ...config, legalHolds: [{ studentId: 's1', reason: ' ', placedAt: now, placedBy: 'admin' }] })).toEqual([
+      'Every legal hold needs a reason',
+    ]);
+
+    expect(isPurgeDue(config, [], now)).toBe(true);
+    const lastRun = { status: 'success', finishedAt: daysAgo(0.5) } as never;
+    expect(isPurgeDue(config, [lastRun], now)).toBe(false);
+    expect(isPurgeDue({ ...config, schedule: 'manual' }, [], now)).toBe(false);
+  });
+
+  it('archives, then purges expired data except for students under a legal hold', async () => {
+    database.setActor({ userId: 'admin', role: 'admin' });
+    await saveRetentionConfig({
+      ...DEFAULT_RETENTION_CONFIG,
+      legalHolds: [{ studentId: held.id, reason: 'Case 2025-17', placedAt: now, placedBy: 'admin' }],
+    });
+    // Audit entries are written with the real clock, so look at them from a year on
+    const later = new Date(Date.now() + 400 * DAY_MS);
+    const oldRecord = database.getAttendanceRecords().find(r => r.studentId === kept.id && r.timestamp < daysAgo(365))!;
+
+    // Nothing is deleted when the archive cannot be written
+    const failed = await runRetentionPurge(database, {
+      trigger: 'manual', dataRetention: 365, now: later, archiver: () => Promise.reject(new Error('Disk full')),
+    });
+    expect(failed).toMatchObject({ status: 'failed', message: 'Disk full' });
+    expect(database.getAttendanceRecords()).toHaveLength(4);
+
+    const report = await runRetentionPurge(database, { trigger: 'manual', dataRetention: 365, now: later, archiver });
+    expect(report).toMatchObject({
+      status: 'success',
+      archive: 'archive.json',
+      purged: { faceImages: 1, faceDescriptors: 1, attendance: 2, auditLog: 2, reports: 1 },
+      held: 6,
+    });
+    expect(archived[0].attendance.map(r => r.studentId)).toEqual([kept.id, kept.id]);
+
+    expect(database.getAttendanceRecords().map(r => r.studentId)).toEqual([held.id, held.id]);
+    expect(database.getStudents().find(s => s.id === kept.id)).toMatchObject({ imageUrl: undefined, faceRegistered: false });
+    expect(database.getStudents().find(s => s.id === held.id)).toMatchObject({ faceRegistered: true });
+    expect((await database.getFaceSamples()).map(s => s.id)).toEqual(['held']);
+    expect(await database.getReportRuns()).toEqual([]);
+
+    // Purged audit entries drop out of the log but the chain still verifies
+    expect((await database.getAuditLog()).every(entry => entry.studentId === held.id)).toBe(true);
+    expect(await database.verifyAuditLog()).toMatchObject({ valid: true, checked: 4 });
+    expect(archived[0].auditLog.map(entry => entry.recordId)).toContain(oldRecord.id);
+
+    expect((await database.getPurgeReports()).map(r => r.status)).toEqual(['success', 'failed']);
+    expect((await loadRetentionConfig()).legalHolds[0].placedAt).toEqual(now);
+  });
+
+  it('does not turn sessions whose attendance was purged into absences', async () => {
+    const everyDay = [0, 1, 2, 3, 4, 5, 6].map(dayOfWeek => ({ dayOfWeek, startTime: '09:00', endTime: '10:00', room: 'R101' }));
+    database.runAsSystem(() => {
+      const course = database.addCourse({ code: 'CS101', name: 'Programming', department: 'CS' });
+      [[daysAgo(402), daysAgo(400)], [daysAgo(8), daysAgo(6)]].forEach(([termStart, termEnd]) =>
+        database.addSection({ courseId: course.id, name: 'Section A', studentIds: [kept.id, held.id], timetable: everyDay, termStart, termEnd })
+      );
+      database.getSessionsForStudent(kept.id).forEach((session, i) => {
+        const marked = { timestamp: session.scheduledStart, sessionId: session.id };
+        database.markAttendance({ ...marked, studentId: kept.id, status: 'Present' });
+        database.markAttendance({ ...marked, studentId: held.id, status: i === 0 ? 'Absent' : 'Present' });
+      });
+    });
+    database.setActor({ userId: 'admin', role: 'admin' });
+    await saveRetentionConfig({
+      ...DEFAULT_RETENTION_CONFIG,
+      legalHolds: [{ studentId: held.id, reason: 'Case 2025-17', placedAt: now, placedBy: 'admin' }],
+    });
+    const percentages = () =>
+      [kept, held].map(student =>
+        evaluateStudent(student, database.getSessionsForStudent(student.id), database.getAttendanceRecords(), DEFAULT_ATTENDANCE_POLICY, now)
+          .courses[0].percentage
+      );
+    const before = percentages();
+    expect(before[0]).toBe(100);
+
+    const report = await runRetentionPurge(database, { trigger: 'manual', dataRetention: 365, now, archiver });
+    expect(report.status).toBe('success');
+    expect(database.getAttendanceRecords().some(r => r.studentId === kept.id && r.timestamp < daysAgo(365))).toBe(false);
+    expect(percentages()).toEqual(before);
+
+    // Class totals only expect the students whose records were kept
+    const sessions = database.getSessionsForStudent(kept.id);
+    const summary = summarizeSessions(sessions, database.getSections(), database.getAttendanceRecords(), now);
+    expect(summary.expected).toBe(sessions.length + sessions.filter(s => !s.attendancePurgedAt).length);
+
+    // The marks survive a reload
+    await database.useAdapter(new LocalStorageAdapter(window.localStorage));
+    expect(percentages()).toEqual(before);
+  });
+});
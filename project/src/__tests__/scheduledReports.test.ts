@@ -0,0 +1,255 @@
+// @vitest-environment node
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import request from 'supertest';
+import { createServer, AddressInfo, Server } from 'net';
+import { mkdtemp, readFile, readdir, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { createApp } from '../../server/app';
+import { createReportScheduler, ReportScheduler } from '../../server/reportScheduler';
+import { DatabaseService } from '../utils/database';
+import { AuthService } from '../utils/auth';
+import { memoryDatabase, person } from './helpers';
+import { matchesCron, nextCronRun, parseCron } from '../utils/cron';
+import { ReportJob, buildScheduledReport, saveReportJobs, validateReportJob } from '../utils/scheduledReports';
+import { DEFAULT_ATTENDANCE_POLICY } from '../utils/attendancePolicy';
+import { Student } from '../types';
+
+const job = (overrides: Partial<ReportJob>): ReportJob => ({
+  id: 'daily',
+  name: 'Daily CS summary',
+  reportType: 'daily-summary',
+  schedule: '0 18 * * *',
+  format: 'csv',
+  department: 'CS',
+  delivery: { type: 'folder', folder: 'daily' },
+  enabled: true,
+  ...overrides,
+});
+
+/**
+ * Just enough of an SMTP server to accept mail from nodemailer and keep the raw messages
+ */
+const startMailSink = async () => {
+  const messages: string[] = [];
+  const server: Server = createServer(socket => {
+    let buffer = '';
+    let inData = false;
+    socket.write('220 sink ESMTP\r\n');
+    socket.on('data', chunk => {
+      buffer += chunk.toString('latin1');
+      for (;;) {
+        if (inData) {
+          const end = buffer.indexOf('\r\n.\r\n');
+          if (end === -1) return;
+          messages.push(buffer.slice(0, end));
+          buffer = buffer.slice(end + 5);
+          inData = false;
+          socket.write('250 Queued\r\n');
+          continue;
+        }
+        const lineEnd = buffer.indexOf('\r\n');
+        if (lineEnd === -1) return;
+        const command = buffer.slice(0, lineEnd).slice(0, 4).toUpperCase();
+        buffer = buffer.slice(lineEnd + 2);
+        if (command === 'DATA') {
+          inData = true;
+          socket.write('354 End data with <CR><LF>.<CR><LF>\r\n');
+        } else if (command === 'QUIT') {
+          socket.end('221 Bye\r\n');
+          return;
+        } else {
+          socket.write('250 OK\r\n');
+        }
+      }
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  return { messages, url: `smtp://127.0.0.1:${(server.address() as AddressInfo).port}`, close: () => new Promise(resolve => server.close(resolve)) };
+};
+
+describe('cron schedules', () => {
+  it('matches and finds the next run', () => {
+    const fridays = parseCron('0 16 * * 5');
+    expect(matchesCron(fridays, new Date(2026, 9, 23, 16, 0))).toBe(true); // Friday
+    expect(matchesCron(fridays, new Date(2026, 9, 22, 16, 0))).toBe(false);
+    expect(nextCronRun(fridays, new Date(2026, 9, 23, 16, 0))).toEqual(new Date(2026, 9, 30, 16, 0));
+    expect(nextCronRun(parseCron('*/15 8-9 * * 1-5'), new Date(2026, 9, 24, 12, 0))).toEqual(new Date(2026, 9, 26, 8, 0));
+    expect(nextCronRun(parseCron('0 7 1 * *'), new Date(2026, 11, 15))).toEqual(new Date(2027, 0, 1, 7, 0));
+    expect(nextCronRun(parseCron('0 0 31 2 *'), new Date(2026, 0, 1))).toBeNull();
+
+    // Both day fields restricted: either one fires. A *-prefixed step leaves its field unrestricted, so both must match.
+    const firstOrMonday = parseCron('0 8 1 * 1');
+    expect(matchesCron(firstOrMonday, new Date(2026, 9, 1, 8, 0))).toBe(true); // Thursday the 1st
+    expect(matchesCron(firstOrMonday, new Date(2026, 9, 19, 8, 0))).toBe(true); // Monday
+    expect(matchesCron(firstOrMonday, new Date(2026, 9, 20, 8, 0))).toBe(false);
+    const oddMondays = parseCron('0 8 */2 * 1');
+    expect(matchesCron(oddMondays, new Date(2026, 9, 19, 8, 0))).toBe(true); // Monday the 19th
+    expect(matchesCron(oddMondays, new Date(2026, 9, 26, 8, 0))).toBe(false); // Monday the 26th
+    expect(matchesCron(oddMondays, new Date(2026, 9, 21, 8, 0))).toBe(false); // Wednesday the 21st
+    expect(nextCronRun(oddMondays, new Date(2026, 9, 20))).toEqual(new Date(2026, 10, 9, 8, 0));
+
+    expect(() => parseCron('0 18 * *')).toThrow('5 fields');
+    expect(() => parseCron('0 25 * * *')).toThrow('Invalid hour "25" (0-23)');
+  });
+
+  it('rejects jobs that would deliver outside the report directory', () => {
+    expect(validateReportJob(job({ delivery: { type: 'folder', folder: '../etc' } }))).toEqual([
+      'Folder must be a path inside the report output directory',
+    ]);
+    expect(validateReportJob(job({ schedule: 'daily', delivery: { type: 'email', to: ['hod@college', 'ok@college.edu'] } }))).toEqual([
+      'Schedule: A schedule needs 5 fields: minute hour day-of-month month day-of-week',
+      'Invalid email hod@college',
+    ]);
+  });
+});
+
+describe('scheduled reports', () => {
+  let database: DatabaseService;
+  let scheduler: ReportScheduler | null;
+  let outputDir: string;
+  let students: Student[];
+  const now = new Date();
+  now.setHours(18, 0, 0, 0);
+
+  beforeEach(async () => {
+    database = await memoryDatabase();
+    scheduler = null;
+    outputDir = await mkdtemp(join(tmpdir(), 'neoattend-reports-'));
+
+    const day = (offset: number, hour: number, minute: number) => {
+      const date = new Date(now);
+      date.setDate(date.getDate() + offset);
+      date.setHours(hour, minute, 0, 0);
+      return date;
+    };
+
+    database.runAsSystem(() => {
+      students = [database.saveStudent(person('CS001')), database.saveStudent(person('CS002')), database.saveStudent(person('ME001', 'ME'))];
+      const course = database.addCourse({ code: 'CS301', name: 'Data Structures', department: 'CS' });
+      database.addSection({
+        courseId: course.id,
+        name: 'Section A',
+        studentIds: students.map(s => s.id),
+        timetable: [0, 1, 2, 3, 4, 5, 6].map(dayOfWeek => ({ dayOfWeek, startTime: '09:00', endTime: '10:00', room: 'R101' })),
+        termStart: day(-10, 0, 0),
+        termEnd: day(1, 0, 0),
+      });
+      // CS001 attends every day of the week, CS002 three days (late today)
+      for (let offset = -6; offset <= 0; offset++) {
+        database.markAttendance({ studentId: students[0].id, timestamp: day(offset, 9, 2), status: 'Present' });
+      }
+      [-5, -2].forEach(offset => database.markAttendance({ studentId: students[1].id, timestamp: day(offset, 9, 5), status: 'Present' }));
+      database.markAttendance({ studentId: students[1].id, timestamp: day(0, 9, 20), status: 'Late' });
+    });
+    await database.flush();
+  });
+
+  afterEach(async () => {
+    scheduler?.stop();
+    await rm(outputDir, { recursive: true, force: true });
+  });
+
+  it('builds the daily summary and the weekly defaulter list', () => {
+    const policy = DEFAULT_ATTENDANCE_POLICY;
+    const daily = database.runAsSystem(() => buildScheduledReport(database, job({}), policy, now));
+    expect(daily.students.map(s => [s.student.rollNo, s.status])).toEqual([['CS001', 'Present'], ['CS002', 'Late']]);
+    expect(daily.statistics).toMatchObject({ totalStudents: 2, present: 1, late: 1, absent: 0, attendancePercentage: 100 });
+    expect(daily.breakdown?.rows).toMatchObject([{ label: 'Data Structures', present: 1, late: 1, percentage: expect.closeTo(66.7, 1) }]); // ME001 is enrolled too
+
+    const weeklyJob = job({ reportType: 'weekly-defaulters', department: undefined });
+    const weekly = database.runAsSystem(() => buildScheduledReport(database, weeklyJob, policy, now));
+    expect(weekly.students.map(s => [s.student.rollNo, s.remarks])).toEqual([
+      ['ME001', '0 of 7 sessions (0.0%)'],
+      ['CS002', '3 of 7 sessions (42.9%)'],
+    ]);
+    expect(weekly.className).toBe('All departments - 2 of 3 students are defaulters (minimum 75%)');
+
+    // The configured policy decides who is listed
+    const lenient = database.runAsSystem(() => buildScheduledReport(database, weeklyJob, { ...policy, minimumPercentage: 40 }, now));
+    expect(lenient.students.map(s => s.student.rollNo)).toEqual(['ME001']);
+  });
+
+  it('leaves excused sessions out of the percentages only when the policy says so', () => {
+    const excusedAt = new Date(now);
+    excusedAt.setHours(9, 0, 0, 0);
+    database.runAsSystem(() => database.markAttendance({ studentId: students[2].id, timestamp: excusedAt, status: 'Excused' }));
+    const report = (reportType: ReportJob['reportType'], excludeExcused: boolean) =>
+      database.runAsSystem(() =>
+        buildScheduledReport(database, job({ reportType, department: undefined }), { ...DEFAULT_ATTENDANCE_POLICY, excludeExcused }, now)
+      );
+
+    expect(report('daily-summary', true).breakdown?.rows[0].percentage).toBe(100);
+    expect(report('daily-summary', false).breakdown?.rows[0].percentage).toBeCloseTo(66.7, 1);
+    expect(report('daily-summary', true).statistics).toEqual({
+      totalStudents: 3, present: 1, late: 1, excused: 1, absent: 0, attendancePercentage: 100,
+    });
+    expect(report('daily-summary', false).statistics).toMatchObject({ excused: 1, absent: 1, attendancePercentage: expect.closeTo(66.7, 1) });
+    expect(report('weekly-defaulters', true).students.find(s => s.student.rollNo === 'ME001')?.remarks).toBe('0 of 6 sessions (0.0%)');
+    expect(report('weekly-defaulters', false).students.find(s => s.student.rollNo === 'ME001')?.remarks).toBe('0 of 7 sessions (0.0%)');
+  });
+
+  it('runs due jobs on the minute and keeps the history', async () => {
+    const sink = await startMailSink();
+    try {
+      scheduler = createReportScheduler({ database, outputDir, smtpUrl: sink.url });
+      database.setActor({ userId: 'admin', role: 'admin' });
+      await saveReportJobs(
+        [
+          job({}),
+          job({ id: 'mail', name: 'Weekly defaulters', reportType: 'weekly-defaulters', format: 'pdf', delivery: { type: 'email', to: ['hod@college.edu'] } }),
+          job({ id: 'later', name: 'Monthly', reportType: 'monthly-department', schedule: '0 7 1 * *' }),
+        ],
+        database
+      );
+
+      const runs = await scheduler.tick(now);
+      expect(runs.map(run => [run.jobName, run.status])).toEqual([
+        ['Daily CS summary', 'success'],
+        ['Weekly defaulters', 'success'],
+      ]);
+      expect(await scheduler.tick(now)).toEqual([]); // Same minute again
+
+      const [file] = await readdir(join(outputDir, 'daily'));
+      expect(file).toMatch(/^daily_cs_summary_\d{4}-\d{2}-\d{2}\.csv$/);
+      expect((await readFile(join(outputDir, 'daily', file), 'utf8')).split('\n')[2]).toMatch(/^2,CS002,Person CS002,CS,Late,/);
+
+      expect(sink.messages).toHaveLength(1);
+      expect(sink.messages[0]).toContain('To: hod@college.edu');
+      expect(sink.messages[0]).toMatch(/filename=weekly_defaulters_\d{4}-\d{2}-\d{2}\.pdf/);
+
+      const history = await database.getReportRuns();
+      expect(history.map(run => run.jobId)).toEqual(['mail', 'daily']);
+      expect(history[0].startedAt).toBeInstanceOf(Date);
+    } finally {
+      await sink.close();
+    }
+  });
+
+  it('lets administrators manage jobs and run them now over the API', async () => {
+    scheduler = createReportScheduler({ database, outputDir }); // No SMTP configured
+    const auth = new AuthService(database, { iterations: 1000 });
+    const app = createApp({ database, auth, reports: scheduler });
+    const tokenFor = async (rollNo: string, role: Student['role']) => {
+      const user = database.runAsSystem(() => database.saveStudent({ ...person(rollNo), role }));
+      await auth.register({ username: rollNo, password: `${rollNo}-password`, role, userId: user.id });
+      return `Bearer ${(await auth.login(rollNo, `${rollNo}-password`)).id}`;
+    };
+    const admin = await tokenFor('ADMIN', 'admin');
+    const faculty = await tokenFor('F001', 'faculty');
+
+    await request(app).put('/api/report-jobs').set('Authorization', admin).send([job({ schedule: '61 * * * *' })]).expect(400);
+    const mailJob = job({ id: 'mail', name: 'Mailed', delivery: { type: 'email', to: ['hod@college.edu'] } });
+    await request(app).put('/api/report-jobs').set('Authorization', faculty).send([mailJob]).expect(403);
+    await request(app).put('/api/report-jobs').set('Authorization', admin).send([mailJob]).expect(200);
+
+    await request(app).get('/api/report-jobs').set('Authorization', faculty).expect(200, [mailJob]);
+    await request(app).post('/api/report-jobs/mail/run').set('Authorization', faculty).expect(403);
+    await request(app).post('/api/report-jobs/nope/run').set('Authorization', admin).expect(404);
+    const run = (await request(app).post('/api/report-jobs/mail/run').set('Authorization', admin).expect(200)).body;
+    expect(run).toMatchObject({ jobId: 'mail', trigger: 'manual', status: 'failed', message: 'Email delivery needs SMTP_URL set on the API server' });
+
+    const history = (await request(app).get('/api/report-jobs/runs').set('Authorization', faculty).expect(200)).body;
+    expect(history).toHaveLength(1);
+  });
+});
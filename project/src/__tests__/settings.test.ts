@@ -0,0 +1,59 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { database } from '../utils/database';
+import { LocalStorageAdapter } from '../utils/storage/localStorageAdapter';
+import { PermissionError } from '../utils/permissions';
+import { facialRecognition } from '../utils/facialRecognition';
+import { getCurrentLocation } from '../utils/location';
+import { DEFAULT_SETTINGS, SettingsService, SystemSettings, settingsService, validateSettings } from '../utils/settings';
+
+describe('system settings', () => {
+  beforeEach(async () => {
+    await database.flush();
+    window.localStorage.clear();
+    database.setActor(null);
+    await database.useAdapter(new LocalStorageAdapter(window.localStorage));
+    await settingsService.load();
+  });
+
+  it('validates changes and keeps institution policy out of user scope', () => {
+    expect(validateSettings(DEFAULT_SETTINGS)).toEqual([]);
+    expect(validateSettings({ recognitionThreshold: 99, dataRetention: 0 })).toHaveLength(2);
+    expect(validateSettings({ cameraQuality: 'ultra' as SystemSettings['cameraQuality'] })).toEqual([
+      'Camera quality must be one of low, medium, high',
+    ]);
+    expect(validateSettings({ cameraQuality: 'low' }, 'user')).toEqual([]);
+    expect(validateSettings({ locationTracking: false }, 'user')).toEqual(['locationTracking can only be set for the whole institution']);
+  });
+
+  it('layers per-user preferences over institution values and notifies subscribers', async () => {
+    const seen: SystemSettings[] = [];
+    const unsubscribe = settingsService.subscribe(settings => seen.push(settings));
+    expect(seen).toEqual([DEFAULT_SETTINGS]);
+
+    database.setActor({ userId: 'f1', role: 'faculty' });
+    await expect(settingsService.update({ recognitionThreshold: 60 })).rejects.toThrow(PermissionError);
+    await settingsService.update({ cameraQuality: 'low' }, 'user');
+
+    database.setActor({ userId: 'admin', role: 'admin' });
+    await settingsService.load();
+    expect(settingsService.get().cameraQuality).toBe('high');
+    await settingsService.update({ recognitionThreshold: 60, locationTracking: false, cameraQuality: 'medium' });
+    expect(facialRecognition.getThresholds().maxDistance).toBe(0.4);
+    expect(await getCurrentLocation()).toEqual({ available: false, reason: 'Location tracking is turned off' });
+
+    // Another device reads the same values; the faculty member's own camera choice still wins
+    database.setActor({ userId: 'f1', role: 'faculty' });
+    const other = new SettingsService();
+    expect(await other.load()).toMatchObject({ recognitionThreshold: 60, locationTracking: false, cameraQuality: 'low' });
+    await other.resetUserSettings(['cameraQuality']);
+    expect(other.get().cameraQuality).toBe('medium');
+
+    unsubscribe();
+    await settingsService.load();
+    expect(seen[seen.length - 1]).toMatchObject({ recognitionThreshold: 60, cameraQuality: 'medium' });
+
+    database.setActor({ userId: 'admin', role: 'admin' });
+    await settingsService.update({ recognitionThreshold: DEFAULT_SETTINGS.recognitionThreshold, locationTracking: true });
+    expect(facialRecognition.getThresholds().maxDistance).toBe(0.6);
+  });
+});
@@ -0,0 +1,194 @@
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { StorageAdapter, StoreName, StoreRecordMap } from '../utils/storage/storageAdapter';
+import { LocalStorageAdapter } from '../utils/storage/localStorageAdapter';
+import { IndexedDBAdapter } from '../utils/storage/indexedDBAdapter';
+import { SqliteAdapter } from '../../server/sqliteAdapter';
+import { database } from '../utils/database';
+import { Student, AttendanceRecord } from '../types';
+
+const student = (id: string, rollNo: string): Student => ({
+  id,
+  rollNo,
+  name: `Student ${rollNo}`,
+  email: `${rollNo.toLowerCase()}@college.edu`,
+  department: 'Computer Science',
+  role: 'student',
+  createdAt: new Date('2025-01-10T08:00:00Z'),
+});
+
+const record = (id: string, studentId: string, timestamp: string, subject?: string): AttendanceRecord => ({
+  id,
+  studentId,
+  timestamp: new Date(timestamp),
+  status: 'Present',
+  confidence: 0.9,
+  subject,
+});
+
+const adapters: Array<[string, () => StorageAdapter]> = [
+  ['LocalStorageAdapter', () => new LocalStorageAdapter(window.localStorage)],
+  ['IndexedDBAdapter', () => new IndexedDBAdapter('neoattend-test', new IDBFactory())],
+  ['SqliteAdapter', () => new SqliteAdapter(':memory:')],
+];
+
+describe.each(adapters)('%s contract', (_name, createAdapter) => {
+  let adapter: StorageAdapter;
+
+  beforeEach(async () => {
+    window.localStorage.clear();
+    adapter = createAdapter();
+    await adapter.open();
+  });
+
+  afterEach(() => {
+    adapter.close();
+  });
+
+  it('starts empty', async () => {
+    expect(await adapter.getAll('students')).toEqual([]);
+    expect(await adapter.getAll('attendance')).toEqual([]);
+  });
+
+  it('stores and reads back records with dates intact', async () => {
+    await adapter.put('students', student('s1', 'CS001'));
+
+    const [stored] = await adapter.getAll('students');
+    expect(stored.rollNo).toBe('CS001');
+    expect(stored.createdAt).toBeInstanceOf(Date);
+    expect(stored.createdAt.toISOString()).toBe('2025-01-10T08:00:00.000Z');
+    expect(await adapter.get('students', 's1')).toEqual(stored);
+    expect(await adapter.get('students', 'missing')).toBeNull();
+  });
+
+  it('replaces a record with the same id on put', async () => {
+    await adapter.put('students', student('s1', 'CS001'));
+    await adapter.put('students', { ...student('s1', 'CS001'), name: 'Renamed' });
+
+    const students = await adapter.getAll('students');
+    expect(students).toHaveLength(1);
+    expect(students[0].name).toBe('Renamed');
+  });
+
+  it('writes many records at once', async () => {
+    await adapter.putMany('students', [student('s1', 'CS001'), student('s2', 'CS002')]);
+    expect((await adapter.getAll('students')).map(s => s.id).sort()).toEqual(['s1', 's2']);
+  });
+
+  it('deletes and clears', async () => {
+    await adapter.putMany('students', [student('s1', 'CS001'), student('s2', 'CS002')]);
+    await adapter.delete('students', 's1');
+    expect((await adapter.getAll('students')).map(s => s.id)).toEqual(['s2']);
+
+    await adapter.clear('students');
+    expect(await adapter.getAll('students')).toEqual([]);
+  });
+
+  it('keeps stores independent', async () => {
+    await adapter.put('students', student('s1', 'CS001'));
+    await adapter.put('attendance', record('a1', 's1', '2025-03-01T09:00:00Z'));
+    await adapter.clear('attendance');
+
+    expect(await adapter.getAll('students')).toHaveLength(1);
+    expect(await adapter.getAll('attendance')).toEqual([]);
+  });
+
+  describe('queryAttendance', () => {
+    beforeEach(async () => {
+      await adapter.putMany('attendance', [
+        record('a1', 's1', '2025-03-01T09:00:00Z', 'Maths'),
+        record('a2', 's1', '2025-03-02T09:00:00Z', 'Physics'),
+        record('a3', 's2', '2025-03-02T09:05:00Z', 'Maths'),
+        record('a4', 's2', '2025-03-03T09:00:00Z'),
+      ]);
+    });
+
+    const ids = (records: AttendanceRecord[]) => records.map(r => r.id).sort();
+
+    it('filters by student', async () => {
+      expect(ids(await adapter.queryAttendance({ studentId: 's1' }))).toEqual(['a1', 'a2']);
+    });
+
+    it('filters by subject', async () => {
+      expect(ids(await adapter.queryAttendance({ subject: 'Maths' }))).toEqual(['a1', 'a3']);
+    });
+
+    it('filters by a half-open date range', async () => {
+      const results = await adapter.queryAttendance({
+        from: new Date('2025-03-02T00:00:00Z'),
+        to: new Date('2025-03-03T09:00:00Z'),
+      });
+      expect(ids(results)).toEqual(['a2', 'a3']);
+    });
+
+    it('supports open-ended ranges', async () => {
+      expect(ids(await adapter.queryAttendance({ from: new Date('2025-03-03T00:00:00Z') }))).toEqual(['a4']);
+      expect(ids(await adapter.queryAttendance({ to: new Date('2025-03-02T00:00:00Z') }))).toEqual(['a1']);
+    });
+
+    it('combines filters', async () => {
+      const results = await adapter.queryAttendance({
+        studentId: 's2',
+        subject: 'Maths',
+        from: new Date('2025-03-02T00:00:00Z'),
+      });
+      expect(ids(results)).toEqual(['a3']);
+    });
+
+    it('returns revived Date timestamps', async () => {
+      const [result] = await adapter.queryAttendance({ studentId: 's2', subject: 'Maths' });
+      expect(result.timestamp).toBeInstanceOf(Date);
+    });
+  });
+});
+
+describe('database write queue', () => {
+  // Fails every write to the meta store until told otherwise
+  class FailingMetaAdapter extends LocalStorageAdapter {
+    failing = true;
+
+    async put<K extends StoreName>(store: K, record: StoreRecordMap[K]): Promise<void> {
+      if (store === 'meta' && this.failing) throw new Error('Disk full');
+      return super.put(store, record);
+    }
+  }
+
+  afterEach(async () => {
+    await database.flush().catch(() => undefined);
+    database.setActor(null);
+  });
+
+  it('rejects the caller of a failed write and carries on with later writes', async () => {
+    window.localStorage.clear();
+    const adapter = new FailingMetaAdapter(window.localStorage);
+    await database.useAdapter(adapter);
+    database.setActor({ userId: 'admin', role: 'admin' });
+
+    await expect(database.updateSettings({ theme: 'dark' })).rejects.toThrow('Disk full');
+    // Nobody else hears about it
+    await expect(database.flush()).resolves.toBeUndefined();
+
+    adapter.failing = false;
+    await database.updateSettings({ theme: 'light' });
+    expect(await database.getSettings()).toEqual({ theme: 'light' });
+  });
+
+  it('tracks only the writes queued inside trackWrites', async () => {
+    window.localStorage.clear();
+    const adapter = new FailingMetaAdapter(window.localStorage);
+    await database.useAdapter(adapter);
+    database.setActor({ userId: 'admin', role: 'admin' });
+
+    const failing = database.updateSettings({ theme: 'dark' }).catch(error => error);
+    const { result, written } = database.trackWrites(() =>
+      database.saveStudent({ rollNo: 'CS001', name: 'Alice', email: 'alice@college.edu', department: 'CS', role: 'student' })
+    );
+    await expect(written).resolves.toBeUndefined();
+    expect(await failing).toEqual(new Error('Disk full'));
+
+    const own = database.trackWrites(() => database.updateSettings({ theme: 'light' }).catch(() => undefined));
+    await expect(own.written).rejects.toThrow('Disk full');
+    expect(result.rollNo).toBe('CS001');
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Workbook } from 'exceljs';
+import { database } from '../utils/database';
+import { LocalStorageAdapter, LOCAL_STORAGE_KEYS } from '../utils/storage/localStorageAdapter';
+import { PermissionError } from '../utils/permissions';
+import { guessColumnMapping, parseCsv, parseWorkbook, validateImportRows } from '../utils/studentImport';
+import { Student } from '../types';
+
+const departments = ['Computer Science', 'Mechanical'];
+
+describe('roster parsing', () => {
+  it('parses quoted CSV fields', () => {
+    const csv = 'Roll No,Name,Email\r\nCS001,"Kumar, Rahul",r@college.edu\n\nCS002,"Priya ""P"" Sharma","p@college.edu"\n';
+    expect(parseCsv(csv)).toEqual([
+      ['Roll No', 'Name', 'Email'],
+      ['CS001', 'Kumar, Rahul', 'r@college.edu'],
+      ['CS002', 'Priya "P" Sharma', 'p@college.edu'],
+    ]);
+  });
+
+  it('reads the first sheet of a workbook', async () => {
+    const workbook = new Workbook();
+    workbook.addWorksheet('Roster').addRows([['Reg No', 'Student Name'], ['CS001', 'Rahul'], [], [2, 'Numeric roll']]);
+    workbook.addWorksheet('Other').addRow(['Ignored']);
+    const data = (await workbook.xlsx.writeBuffer()) as ArrayBuffer;
+
+    expect(await parseWorkbook(data)).toEqual([['Reg No', 'Student Name'], ['CS001', 'Rahul'], ['2', 'Numeric roll']]);
+  });
+
+  it('maps common header spellings to student fields', () => {
+    expect(guessColumnMapping(['S.No', 'Reg. No', 'Student Name', 'E-mail', 'Branch', 'Year of Study'])).toEqual({
+      rollNo: 1,
+      name: 2,
+      email: 3,
+      department: 4,
+      year: 5,
+    });
+  });
+});
+
+describe('import validation', () => {
+  const header = ['rollNo', 'name', 'email', 'department', 'year'];
+  const mapping = { rollNo: 0, name: 1, email: 2, department: 3, year: 4 };
+  const existing = [{ id: 'x', rollNo: 'CS001', name: 'Rahul', email: 'r@college.edu', department: 'Computer Science', role: 'student', createdAt: new Date() }] as Student[];
+
+  it('reports every problem per row, with file line numbers', () => {
+    const rows = validateImportRows(
+      [
+        header,
+        ['cs001', 'Duplicate of existing', 'a@college.edu', 'Computer Science', '1'],
+        ['CS002', 'Priya', 'not-an-email', 'computer science', 'II'],
+        ['CS002', 'Repeated', 'b@college.edu', 'Aeronautics', 'fifth'],
+        ['', '', '', '', ''],
+      ],
+      mapping,
+      { existing, departments }
+    );
+
+    expect(rows.map(r => [r.line, r.errors])).toEqual([
+      [2, ['Roll No cs001 already exists']],
+      [3, ['Invalid email: not-an-email']],
+      [4, ['Roll No CS002 is repeated (line 3)', 'Unknown department: Aeronautics', 'Unknown year: fifth']],
+      [5, ['Roll No is missing', 'Name is missing', 'Email is missing', 'Department is missing']],
+    ]);
+    // Department and year are normalized to the canonical spellings
+    expect(rows[1].student).toMatchObject({ department: 'Computer Science', year: '2nd Year', role: 'student' });
+  });
+});
+
+describe('importStudents', () => {
+  const student = (rollNo: string, department = 'Computer Science'): Omit<Student, 'id' | 'createdAt'> => ({
+    rollNo,
+    name: `Student ${rollNo}`,
+    email: `${rollNo.toLowerCase()}@college.edu`,
+    department,
+    role: 'student',
+  });
+
+  beforeEach(async () => {
+    await database.flush();
+    window.localStorage.clear();
+    database.setActor(null);
+    await database.useAdapter(new LocalStorageAdapter(window.localStorage));
+  });
+
+  it('adds the whole roster in one write', async () => {
+    database.setActor({ userId: 'admin', role: 'admin' });
+    database.importStudents([student('CS001'), student('CS002'), student('ME001', 'Mechanical')]);
+    await database.flush();
+
+    const stored = JSON.parse(window.localStorage.getItem(LOCAL_STORAGE_KEYS.students) || '[]');
+    expect(stored.map((s: Student) => s.rollNo)).toEqual(['CS001', 'CS002', 'ME001']);
+  });
+
+  it('saves nothing when any student is rejected', () => {
+    const hod = database.runAsSystem(() => database.saveStudent({ ...student('HOD1'), role: 'hod' }));
+    database.setActor({ userId: hod.id, role: 'hod' });
+
+    expect(() => database.importStudents([student('CS001'), student('ME001', 'Mechanical')])).toThrow(PermissionError);
+    expect(() => database.importStudents([student('CS001'), student('cs001')])).toThrow('Roll number cs001 already exists');
+    expect(database.getStudents().map(s => s.rollNo)).toEqual(['HOD1']);
+  });
+});
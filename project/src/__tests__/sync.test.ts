@@ -0,0 +1,184 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { database } from '../utils/database';
+import { resolveConflict } from '../utils/sync';
+import { LocalStorageAdapter } from '../utils/storage/localStorageAdapter';
+import { StorageAdapter } from '../utils/storage/storageAdapter';
+import { ApiError } from '../utils/storage/httpAdapter';
+import { AttendanceRecord, Student } from '../types';
+
+// Server stand-in backed by sessionStorage that fails every request while `online` is false
+let online = true;
+const createRemote = (): StorageAdapter => {
+  const target = new LocalStorageAdapter(window.sessionStorage);
+  return new Proxy(target, {
+    get(adapter, prop) {
+      const value = Reflect.get(adapter, prop);
+      if (typeof value !== 'function') return value;
+      return (...args: unknown[]) =>
+        online || prop === 'open' || prop === 'close'
+          ? value.apply(adapter, args)
+          : Promise.reject(new Error('Network unreachable'));
+    },
+  });
+};
+
+const record = (changes: Partial<AttendanceRecord>): AttendanceRecord => ({
+  id: 'r1',
+  studentId: 's1',
+  timestamp: new Date(2025, 2, 3, 9, 5),
+  status: 'Present',
+  source: 'face_recognition',
+  ...changes,
+});
+
+describe('sync conflict rules', () => {
+  it('lets a manual decision beat an automatic one regardless of order', () => {
+    const manualAbsent = record({ status: 'Absent', source: 'manual_override', updatedAt: new Date(2025, 2, 3, 9, 0) });
+    const facePresent = record({ updatedAt: new Date(2025, 2, 3, 9, 30) });
+
+    expect(resolveConflict(facePresent, manualAbsent).winner).toBe('remote');
+    expect(resolveConflict(manualAbsent, facePresent)).toEqual({ winner: 'local', rule: 'manual_override outranks face_recognition' });
+  });
+
+  it('keeps the latest change to a record and the earliest duplicate check-in', () => {
+    const earlier = record({ updatedAt: new Date(2025, 2, 3, 9, 5) });
+    const later = record({ status: 'Late', updatedAt: new Date(2025, 2, 3, 9, 40) });
+    expect(resolveConflict(earlier, later).winner).toBe('remote');
+
+    const otherDevice = record({ id: 'r2', timestamp: new Date(2025, 2, 3, 9, 20), status: 'Late' });
+    expect(resolveConflict(earlier, otherDevice)).toEqual({ winner: 'local', rule: 'earliest check-in wins' });
+  });
+});
+
+describe('offline outbox', () => {
+  let student: Student;
+  let sessionId: string;
+  let remote: StorageAdapter;
+  const checkInTime = new Date(2025, 2, 3, 9, 5);
+
+  beforeEach(async () => {
+    await database.flush();
+    online = true;
+    window.localStorage.clear();
+    window.sessionStorage.clear();
+    database.setActor(null);
+    await database.useAdapter(new LocalStorageAdapter(window.localStorage));
+    remote = createRemote();
+    await database.useRemote(remote);
+
+    database.runAsSystem(() => {
+      student = database.saveStudent({ rollNo: 'CS001', name: 'Asha', email: 'asha@college.edu', department: 'CS', role: 'student' });
+      const course = database.addCourse({ code: 'CS301', name: 'Data Structures', department: 'CS' });
+      const section = database.addSection({
+        courseId: course.id,
+        name: 'Section A',
+        studentIds: [student.id],
+        timetable: [{ dayOfWeek: 1, startTime: '09:00', endTime: '10:00', room: 'R101' }],
+        termStart: new Date(2025, 2, 3),
+        termEnd: new Date(2025, 2, 9),
+      });
+      sessionId = database.getSessions({ sectionId: section.id })[0].id;
+    });
+    database.setActor({ userId: 'admin1', role: 'admin' });
+  });
+
+  const checkIn = () => database.markAttendance({ studentId: student.id, timestamp: checkInTime, status: 'Present', sessionId });
+
+  it('queues check-ins while offline and replays them when back online', async () => {
+    online = false;
+    const first = checkIn();
+    database.updateAttendanceStatus(first.id, 'Late', { reason: 'Arrived after roll call' });
+
+    const failed = await database.syncOutbox();
+    expect(failed).toMatchObject({ pushed: 0, pending: 1, error: 'Network unreachable' });
+    expect(database.getSyncStatus()).toMatchObject({ pending: 1, lastError: 'Network unreachable' });
+
+    online = true;
+    const report = await database.syncOutbox();
+
+    expect(report).toMatchObject({ pushed: 1, pending: 0, error: null, conflicts: [] });
+    expect(await remote.get('attendance', first.id)).toMatchObject({ status: 'Late', source: 'manual_override' });
+  });
+
+  it('keeps a manual Absent on the server over an offline face check-in', async () => {
+    await remote.put('attendance', record({
+      id: 'server1',
+      studentId: student.id,
+      sessionId,
+      status: 'Absent',
+      source: 'manual_override',
+      updatedAt: new Date(2025, 2, 3, 9, 30),
+    }));
+    online = false;
+    const local = checkIn();
+
+    online = true;
+    const report = await database.syncOutbox();
+
+    expect(report.conflicts).toEqual([
+      { winner: 'remote', rule: 'manual_override outranks face_recognition', recordId: local.id, studentId: student.id },
+    ]);
+    expect(database.getAttendanceRecords().map(r => [r.id, r.status])).toEqual([['server1', 'Absent']]);
+    const audit = await database.getAuditLog({ studentId: student.id });
+    expect(audit[audit.length - 1]).toMatchObject({ before: 'Present', after: 'Absent', reason: expect.stringMatching(/^Sync conflict/) });
+  });
+
+  it('pushes an offline manual override over the automatic check-in on the server', async () => {
+    const local = checkIn();
+    await database.syncOutbox();
+
+    online = false;
+    database.updateAttendanceStatus(local.id, 'Absent', { reason: 'Left after five minutes' });
+    online = true;
+    const report = await database.syncOutbox();
+
+    expect(report.conflicts[0]).toMatchObject({ winner: 'local' });
+    expect(await remote.get('attendance', local.id)).toMatchObject({ status: 'Absent' });
+  });
+
+  it('survives a reload with changes still queued', async () => {
+    online = false;
+    checkIn();
+    await database.flush();
+
+    await database.useAdapter(new LocalStorageAdapter(window.localStorage));
+    expect(database.getSyncStatus().pending).toBe(1);
+  });
+
+  it('sets aside changes the server refuses and retries only server failures', async () => {
+    const other = database.runAsSystem(() =>
+      database.saveStudent({ rollNo: 'CS002', name: 'Ravi', email: 'ravi@college.edu', department: 'CS', role: 'student' })
+    );
+    const put = remote.put.bind(remote);
+    let refusal: ApiError | null = new ApiError(403, 'Student accounts can only check in by face recognition');
+    remote.put = async (store, value) => {
+      if (refusal && value.id === refused.id) throw refusal;
+      return put(store, value);
+    };
+    online = false;
+    const refused = checkIn();
+    const accepted = database.markAttendance({ studentId: other.id, timestamp: checkInTime, status: 'Present' });
+
+    online = true;
+    expect(await database.syncOutbox()).toMatchObject({ pushed: 1, rejected: 1, pending: 0, error: null });
+    expect(await remote.get('attendance', accepted.id)).not.toBeNull();
+    expect(database.getSyncStatus()).toMatchObject({ pending: 0, rejected: 1 });
+    expect(database.getRejectedChanges()).toMatchObject([
+      { recordId: refused.id, lastError: 'Student accounts can only check in by face recognition' },
+    ]);
+
+    // Still listed after a reload, until dismissed
+    await database.flush();
+    await database.useAdapter(new LocalStorageAdapter(window.localStorage));
+    expect(database.getSyncStatus()).toMatchObject({ pending: 0, rejected: 1 });
+    database.dismissRejectedChange(database.getRejectedChanges()[0].id);
+    expect(database.getSyncStatus().rejected).toBe(0);
+
+    // A server error is worth another try
+    refusal = new ApiError(503, 'Service unavailable');
+    database.updateAttendanceStatus(refused.id, 'Late', { reason: 'Arrived after roll call' });
+    expect(await database.syncOutbox()).toMatchObject({ rejected: 0, pending: 1, error: 'Service unavailable' });
+    refusal = null;
+    expect(await database.syncOutbox()).toMatchObject({ pushed: 1, pending: 0 });
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { generateSessions, findSessionAt, getSessionOutcomes, summarizeOutcomes } from '../utils/timetable';
+import { Section, AttendanceRecord } from '../types';
+
+const section: Section = {
+  id: 'sec1',
+  courseId: 'c1',
+  name: 'Section A',
+  studentIds: ['s1', 's2'],
+  timetable: [
+    { dayOfWeek: 1, startTime: '09:00', endTime: '10:00', room: 'R101' }, // Monday
+    { dayOfWeek: 3, startTime: '14:30', endTime: '15:30', room: 'Lab 2' }, // Wednesday
+  ],
+  termStart: new Date(2025, 2, 3), // Monday 3 March 2025
+  termEnd: new Date(2025, 2, 16, 23, 59), // Sunday 16 March 2025
+  createdAt: new Date(2025, 2, 1),
+};
+
+describe('timetable', () => {
+  it('expands the weekly timetable across the term', () => {
+    const sessions = generateSessions(section);
+
+    expect(sessions).toHaveLength(4);
+    expect(sessions.map(s => [s.scheduledStart.getDate(), s.scheduledStart.getHours(), s.room])).toEqual([
+      [3, 9, 'R101'],
+      [5, 14, 'Lab 2'],
+      [10, 9, 'R101'],
+      [12, 14, 'Lab 2'],
+    ]);
+    // Regenerating yields the same ids
+    expect(generateSessions(section).map(s => s.id)).toEqual(sessions.map(s => s.id));
+  });
+
+  it('matches check-ins to the session window, allowing early arrivals', () => {
+    const sessions = generateSessions(section);
+
+    expect(findSessionAt(sessions, new Date(2025, 2, 3, 8, 50))?.id).toBe(sessions[0].id);
+    expect(findSessionAt(sessions, new Date(2025, 2, 3, 9, 40))?.id).toBe(sessions[0].id);
+    expect(findSessionAt(sessions, new Date(2025, 2, 3, 11, 0))).toBeNull();
+    expect(findSessionAt([{ ...sessions[0], status: 'cancelled' }], new Date(2025, 2, 3, 9, 10))).toBeNull();
+  });
+
+  it('counts held sessions without a check-in as absences', () => {
+    const sessions = generateSessions(section);
+    sessions[1] = { ...sessions[1], status: 'cancelled' };
+    const records: AttendanceRecord[] = [
+      { id: 'a1', studentId: 's1', timestamp: new Date(2025, 2, 3, 9, 2), status: 'Present', sessionId: sessions[0].id },
+      { id: 'a2', studentId: 's1', timestamp: new Date(2025, 2, 10, 9, 20), status: 'Late', sessionId: sessions[2].id },
+      { id: 'a3', studentId: 's2', timestamp: new Date(2025, 2, 12, 14, 31), status: 'Present', sessionId: sessions[3].id },
+    ];
+
+    // As of 11 March: sessions on 3rd and 10th held, 5th cancelled, 12th not yet
+    const outcomes = getSessionOutcomes('s2', sessions, records, new Date(2025, 2, 11));
+    expect(outcomes.map(o => o.status)).toEqual(['Absent', 'Absent']);
+
+    const summary = summarizeOutcomes(getSessionOutcomes('s1', sessions, records, new Date(2025, 2, 11)));
+    expect(summary).toMatchObject({ held: 2, present: 1, late: 1, absent: 0, percentage: 100 });
+  });
+});
@@ -0,0 +1,146 @@
+import { useState } from 'react';
+import { AlertCircle, Upload, XCircle } from 'lucide-react';
+import { database } from '../utils/database';
+import { PHOTO_ATTACHMENT, readAttachment } from '../utils/attachments';
+import { AttendanceDispute, StudentFile } from '../types';
+
+const inputClass =
+  'w-full px-3 py-2 border border-white/30 rounded-lg bg-white/10 text-white text-sm focus:ring-2 focus:ring-purple-500 focus:border-transparent';
+
+interface AttendanceDisputeFormProps {
+  studentId: string;
+  date: Date;
+  onClose: () => void;
+  onSubmitted?: () => void;
+}
+
+// Lets a student dispute their attendance for one day of the calendar, class by class
+export default function AttendanceDisputeForm({ studentId, date, onClose, onSubmitted }: AttendanceDisputeFormProps) {
+  const now = new Date();
+  const sessions = database
+    .getSessionsForStudent(studentId)
+    .filter(
+      session =>
+        session.status !== 'cancelled' &&
+        new Date(session.scheduledStart).toDateString() === date.toDateString() &&
+        new Date(session.scheduledStart) <= now
+    )
+    .sort((a, b) => new Date(a.scheduledStart).getTime() - new Date(b.scheduledStart).getTime());
+
+  const [sessionId, setSessionId] = useState(sessions[0]?.id ?? '');
+  const [claimedStatus, setClaimedStatus] = useState<AttendanceDispute['claimedStatus']>('Present');
+  const [reason, setReason] = useState('');
+  const [evidence, setEvidence] = useState<StudentFile | undefined>();
+  const [error, setError] = useState<string | null>(null);
+
+  const statusOf = (id: string) => {
+    const records = database.getAttendanceRecords().filter(r => r.studentId === studentId && r.sessionId === id);
+    return records.length > 0 ? records[records.length - 1].status : 'Not marked';
+  };
+
+  const handleEvidence = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    setError(null);
+    if (!file) {
+      setEvidence(undefined);
+      return;
+    }
+    try {
+      setEvidence(await readAttachment(file, PHOTO_ATTACHMENT));
+    } catch (err) {
+      e.target.value = '';
+      setEvidence(undefined);
+      setError(err instanceof Error ? err.message : 'Could not read the photo');
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      database.submitAttendanceDispute({
+        studentId,
+        date,
+        sessionId: sessionId || undefined,
+        claimedStatus,
+        reason,
+        evidence,
+      });
+      onSubmitted?.();
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to submit the dispute');
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="mt-6 bg-white/5 rounded-xl p-4 border border-white/20 space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="text-white font-semibold flex items-center">
+          <AlertCircle className="h-5 w-5 mr-2 text-yellow-400" />
+          Dispute attendance for {date.toLocaleDateString()}
+        </h4>
+        <button type="button" onClick={onClose} className="text-gray-400 hover:text-white">
+          <XCircle className="h-5 w-5" />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        {sessions.length > 0 && (
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-1">Class</label>
+            <select value={sessionId} onChange={e => setSessionId(e.target.value)} className={inputClass}>
+              {sessions.map(session => (
+                <option key={session.id} value={session.id} className="bg-gray-800">
+                  {database.getCourse(session.courseId)?.code || 'Class'} at{' '}
+                  {new Date(session.scheduledStart).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })} -{' '}
+                  {statusOf(session.id)}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-1">I was</label>
+          <select
+            value={claimedStatus}
+            onChange={e => setClaimedStatus(e.target.value as AttendanceDispute['claimedStatus'])}
+            className={inputClass}
+          >
+            <option value="Present" className="bg-gray-800">Present</option>
+            <option value="Late" className="bg-gray-800">Late</option>
+          </select>
+        </div>
+        <div className="md:col-span-2">
+          <label className="block text-sm font-medium text-gray-300 mb-1">What happened</label>
+          <textarea
+            required
+            rows={2}
+            value={reason}
+            onChange={e => setReason(e.target.value)}
+            placeholder="e.g. The camera did not recognize me; I sat in the front row"
+            className={inputClass}
+          />
+        </div>
+        <div className="md:col-span-2">
+          <label className="block text-sm font-medium text-gray-300 mb-1">Evidence photo (optional)</label>
+          <input
+            type="file"
+            accept={PHOTO_ATTACHMENT.types.join(',')}
+            onChange={handleEvidence}
+            className={`${inputClass} file:mr-3 file:border-0 file:bg-transparent file:text-cyan-300`}
+          />
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-300">{error}</p>}
+
+      <button
+        type="submit"
+        className="flex items-center gap-2 bg-gradient-to-r from-yellow-600 to-orange-600 text-white px-4 py-2 rounded-lg font-medium text-sm"
+      >
+        <Upload className="h-4 w-4" />
+        Submit Dispute
+      </button>
+    </form>
+  );
+}
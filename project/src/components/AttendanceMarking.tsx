@@ -1,11 +1,24 @@
-import React, { useState, useRef, useCallback, useEffect } from 'react';
-import { Camera, Loader, CheckCircle, XCircle, MapPin, Clock, User, Users } from 'lucide-react';
-import { database } from '../utils/database';
+import React, { useState, useRef, useCallback, useEffect, useContext } from 'react';
+import { Camera, Loader, CheckCircle, XCircle, MapPin, Clock, User, Users, Shield } from 'lucide-react';
+import { database, DuplicateAttendanceError } from '../utils/database';
 import { facialRecognition } from '../utils/facialRecognition';
+import { pickChallenge, toGrayscale, LIVENESS_PROMPTS } from '../utils/face/liveness';
 import { getCurrentLocation } from '../utils/location';
+import { settingsService, cameraConstraints } from '../utils/settings';
+import { PermissionError } from '../utils/permissions';
+import { CheckInClosedError } from '../utils/lateRules';
 import { Student, AttendanceRecord } from '../types';
+import { AuthContext } from '../App';
+
+// Burst of webcam frames analysed by the liveness check (~2.4s)
+const LIVENESS_FRAME_COUNT = 8;
+const LIVENESS_FRAME_INTERVAL_MS = 300;
+// Size of the greyscale thumbnails compared between frames
+const THUMBNAIL_WIDTH = 64;
+const THUMBNAIL_HEIGHT = 48;
 
 export default function AttendanceMarking({ userType }: { userType: 'faculty' | 'student' }) {
+  const auth = useContext(AuthContext);
   const [isProcessing, setIsProcessing] = useState(false);
   const [isCameraActive, setIsCameraActive] = useState(false);
   const [uploadedImage, setUploadedImage] = useState<string>('');
@@ -13,14 +26,16 @@ export default function AttendanceMarking({ userType }: { userType: 'faculty' |
   const [multipleResults, setMultipleResults] = useState<Array<{
     student: Student;
     confidence: number;
-    status: 'Present' | 'Late';
+    status: AttendanceRecord['status'];
   }>>([]);
   const [result, setResult] = useState<{
     student: Student | null;
     confidence: number;
     status: 'success' | 'error' | null;
     message: string;
+    livenessScore?: number;
   }>({ student: null, confidence: 0, status: null, message: '' });
+  const [livenessPrompt, setLivenessPrompt] = useState('');
   const [currentLocation, setCurrentLocation] = useState<string>('Detecting location...');
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
@@ -50,8 +65,8 @@ export default function AttendanceMarking({ userType }: { userType: 'faculty' |
 
   const startCamera = useCallback(async () => {
     try {
-      const stream = await navigator.mediaDevices.getUserMedia({ 
-        video: { width: 640, height: 480 } 
+      const stream = await navigator.mediaDevices.getUserMedia({
+        video: cameraConstraints(settingsService.get().cameraQuality),
       });
       if (videoRef.current) {
         videoRef.current.srcObject = stream;
@@ -100,7 +115,7 @@ export default function AttendanceMarking({ userType }: { userType: 'faculty' |
       
       // Get current location
       const location = await getCurrentLocation();
-      setCurrentLocation(location.address);
+      setCurrentLocation(location.available ? location.location.address : `Location unavailable: ${location.reason}`);
     } catch (error) {
       console.error('Error accessing camera:', error);
       setResult({
@@ -120,6 +135,27 @@ export default function AttendanceMarking({ userType }: { userType: 'faculty' |
     }
   }, []);
 
+  // Full frame for recognition plus a greyscale thumbnail for the liveness frame-difference check
+  const captureFrame = (video: HTMLVideoElement, canvas: HTMLCanvasElement) => {
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('Cannot get canvas context');
+
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    context.drawImage(video, 0, 0);
+    const imageData = canvas.toDataURL('image/jpeg');
+
+    const thumbnail = document.createElement('canvas');
+    thumbnail.width = THUMBNAIL_WIDTH;
+    thumbnail.height = THUMBNAIL_HEIGHT;
+    const thumbnailContext = thumbnail.getContext('2d');
+    if (!thumbnailContext) throw new Error('Cannot get canvas context');
+    thumbnailContext.drawImage(video, 0, 0, THUMBNAIL_WIDTH, THUMBNAIL_HEIGHT);
+    const pixels = toGrayscale(thumbnailContext.getImageData(0, 0, THUMBNAIL_WIDTH, THUMBNAIL_HEIGHT).data);
+
+    return { imageData, pixels };
+  };
+
   const captureAndRecognize = async () => {
     if (!videoRef.current || !canvasRef.current) return;
 
@@ -127,55 +163,53 @@ export default function AttendanceMarking({ userType }: { userType: 'faculty' |
     setResult({ student: null, confidence: 0, status: null, message: 'Processing...' });
 
     try {
-      // Capture image from video
-      const canvas = canvasRef.current;
-      const context = canvas.getContext('2d');
-      if (!context) throw new Error('Cannot get canvas context');
-
-      canvas.width = videoRef.current.videoWidth;
-      canvas.height = videoRef.current.videoHeight;
-      context.drawImage(videoRef.current, 0, 0);
-      
-      const imageData = canvas.toDataURL('image/jpeg');
+      // Liveness challenge: capture a burst of frames while the student performs it
+      const challenge = pickChallenge();
+      setLivenessPrompt(LIVENESS_PROMPTS[challenge]);
+      const frames = [];
+      for (let i = 0; i < LIVENESS_FRAME_COUNT; i++) {
+        frames.push(captureFrame(videoRef.current, canvasRef.current));
+        await new Promise(resolve => setTimeout(resolve, LIVENESS_FRAME_INTERVAL_MS));
+      }
+      setLivenessPrompt('');
+
+      const liveness = await facialRecognition.checkLiveness(frames, challenge);
+      if (!liveness.passed) {
+        setResult({
+          student: null,
+          confidence: 0,
+          status: 'error',
+          message: `Liveness check failed: ${liveness.reason}`,
+          livenessScore: liveness.score,
+        });
+        return;
+      }
+
+      // Recognize from the first frame, taken before the challenge movement
+      const imageData = frames[0].imageData;
       
       // Get registered students
       const students = database.getStudents();
       
-      // Perform face recognition using the new system
-      // For single face detection, we use the classroom detection with single face
-      const result = await facialRecognition.detectClassroomFaces(imageData, students);
-      
-      const recognition = result.recognized.length > 0 
-        ? { student: result.recognized[0].student, confidence: result.recognized[0].confidence }
-        : { student: null, confidence: 0 };
+      // Single-face recognition against the shared face registry
+      const recognition = await facialRecognition.recognizeFace(imageData, students);
       
-      if (recognition.student && recognition.confidence > 0.75) {
-        // Get current location
+      if (recognition.student) {
+        // Get current location; without one the check-in is flagged for faculty review
         const location = await getCurrentLocation();
+        setCurrentLocation(location.available ? location.location.address : `Location unavailable: ${location.reason}`);
         
-        // Determine attendance status based on time
         const now = new Date();
-        const hour = now.getHours();
-        const minute = now.getMinutes();
-        const currentTime = hour * 60 + minute;
-        const lectureStart = 9 * 60; // 9:00 AM
-        const lateThreshold = lectureStart + 15; // 9:15 AM
-        
-        let status: 'Present' | 'Late' | 'Absent' = 'Present';
-        if (currentTime > lateThreshold) {
-          status = 'Late';
-        }
 
-        // Check if already marked today
-        const todayAttendance = database.getTodayAttendance();
-        const alreadyMarked = todayAttendance.find(r => r.studentId === recognition.student!.id);
-        
-        if (alreadyMarked) {
+        if (
+          !settingsService.get().autoMarkAttendance &&
+          !window.confirm(`Mark ${recognition.student.name} present? (${(recognition.confidence * 100).toFixed(1)}% match)`)
+        ) {
           setResult({
             student: recognition.student,
             confidence: recognition.confidence,
             status: 'error',
-            message: 'Attendance already marked for today',
+            message: 'Attendance not marked',
           });
         } else {
           // Mark attendance
@@ -183,16 +217,21 @@ export default function AttendanceMarking({ userType }: { userType: 'faculty' |
             studentId: recognition.student.id,
             timestamp: now,
             confidence: recognition.confidence,
-            status,
+            status: 'Present', // The session's late-arrival rules decide Present or Late
+            livenessScore: liveness.score,
+            location: location.available ? location.location : undefined,
           };
 
-          database.markAttendance(attendanceRecord);
+          const saved = database.markAttendance(attendanceRecord);
 
           setResult({
             student: recognition.student,
             confidence: recognition.confidence,
             status: 'success',
-            message: `Attendance marked successfully! Status: ${status}`,
+            message: saved.locationStatus === 'unavailable'
+              ? `Attendance marked (${saved.status}) - pending location review by faculty`
+              : `Attendance marked successfully! Status: ${saved.status}`,
+            livenessScore: liveness.score,
           });
         }
       } else {
@@ -200,9 +239,11 @@ export default function AttendanceMarking({ userType }: { userType: 'faculty' |
           student: null,
           confidence: recognition.confidence,
           status: 'error',
-          message: recognition.confidence > 0 
-            ? 'Face recognition confidence too low. Please try again.'
-            : 'No matching face found. Please ensure you are registered.',
+          message: recognition.facesDetected === 0
+            ? 'No face detected. Please face the camera and try again.'
+            : recognition.confidence > 0
+              ? 'Face recognition confidence too low. Please try again.'
+              : 'No matching face found. Please ensure you are registered.',
         });
       }
     } catch (error) {
@@ -211,9 +252,13 @@ export default function AttendanceMarking({ userType }: { userType: 'faculty' |
         student: null,
         confidence: 0,
         status: 'error',
-        message: 'Face recognition failed. Please try again.',
+        message:
+          error instanceof PermissionError || error instanceof CheckInClosedError || error instanceof DuplicateAttendanceError
+            ? error.message
+            : 'Face recognition failed. Please try again.',
       });
     } finally {
+      setLivenessPrompt('');
       setIsProcessing(false);
     }
   };
@@ -239,6 +284,17 @@ export default function AttendanceMarking({ userType }: { userType: 'faculty' |
       return;
     }
 
+    // A photo proves nothing about who is in the room - self check-in must use the live camera
+    if (!auth?.can('attendance.mark')) {
+      setResult({
+        student: null,
+        confidence: 0,
+        status: 'error',
+        message: 'Uploaded photos cannot be used for self check-in. Use the live camera instead.',
+      });
+      return;
+    }
+
     setIsProcessing(true);
     setMultipleResults([]);
     setResult({ student: null, confidence: 0, status: null, message: 'Processing multiple faces...' });
@@ -268,50 +324,42 @@ export default function AttendanceMarking({ userType }: { userType: 'faculty' |
         return;
       }
 
-      // Determine attendance status based on time
-      const now = new Date();
-      const hour = now.getHours();
-      const minute = now.getMinutes();
-      const currentTime = hour * 60 + minute;
-      const lectureStart = 9 * 60; // 9:00 AM
-      const lateThreshold = lectureStart + 15; // 9:15 AM
-
-      let status: 'Present' | 'Late' = 'Present';
-      if (currentTime > lateThreshold) {
-        status = 'Late';
+      const recognizedCount = detectionResult.recognized.filter(detected => detected.student).length;
+      if (
+        !settingsService.get().autoMarkAttendance &&
+        !window.confirm(`Mark attendance for the ${recognizedCount} recognized student(s)?`)
+      ) {
+        setResult({ student: null, confidence: 0, status: 'error', message: 'Attendance not marked' });
+        return;
       }
 
-      const markedStudents: Array<{ student: Student; confidence: number; status: 'Present' | 'Late' }> = [];
+      // The session's late-arrival rules decide each student's status
+      const now = new Date();
+      const markedStudents: Array<{ student: Student; confidence: number; status: AttendanceRecord['status'] }> = [];
 
       // Mark attendance for each recognized student
       for (const detected of detectionResult.recognized) {
-        if (detected.student && detected.confidence >= 0.75) {
-          // Check if already marked today
-          const todayAttendance = database.getTodayAttendance();
-          const alreadyMarked = todayAttendance.find(r => r.studentId === detected.student!.id);
-
-          if (!alreadyMarked) {
-            const attendanceRecord: Omit<AttendanceRecord, 'id'> = {
-              studentId: detected.student.id,
-              timestamp: now,
-              confidence: detected.confidence,
-              status,
-            };
-            database.markAttendance(attendanceRecord);
-
-            markedStudents.push({
-              student: detected.student,
-              confidence: detected.confidence,
-              status,
-            });
-          } else {
-            // Still show in results even if already marked
-            markedStudents.push({
-              student: detected.student,
-              confidence: detected.confidence,
-              status,
-            });
+        if (detected.student) {
+          const attendanceRecord: Omit<AttendanceRecord, 'id'> = {
+            studentId: detected.student.id,
+            timestamp: now,
+            confidence: detected.confidence,
+            status: 'Present',
+          };
+          let saved: AttendanceRecord;
+          try {
+            saved = database.markAttendance(attendanceRecord);
+          } catch (error) {
+            // Still show in results if already marked for this session
+            if (!(error instanceof DuplicateAttendanceError)) throw error;
+            saved = error.record;
           }
+
+          markedStudents.push({
+            student: detected.student,
+            confidence: detected.confidence,
+            status: saved.status,
+          });
         }
       }
 
@@ -329,7 +377,7 @@ export default function AttendanceMarking({ userType }: { userType: 'faculty' |
         student: null,
         confidence: 0,
         status: 'error',
-        message: 'Failed to process image. Please try again.',
+        message: error instanceof CheckInClosedError ? error.message : 'Failed to process image. Please try again.',
       });
     } finally {
       setIsProcessing(false);
@@ -410,7 +458,14 @@ export default function AttendanceMarking({ userType }: { userType: 'faculty' |
                 </div>
               )}
               
-              {isProcessing && (
+              {livenessPrompt && (
+                <div className="absolute top-3 left-3 right-3 bg-black/70 rounded-lg px-4 py-2 text-center text-white">
+                  <Shield className="h-4 w-4 inline mr-2 text-cyan-400" />
+                  <span className="text-sm font-medium">{livenessPrompt}</span>
+                </div>
+              )}
+
+              {isProcessing && !livenessPrompt && (
                 <div className="absolute inset-0 bg-black bg-opacity-50 flex items-center justify-center">
                   <div className="text-center text-white">
                     <Loader className="h-8 w-8 mx-auto mb-2 animate-spin" />
@@ -586,6 +641,14 @@ export default function AttendanceMarking({ userType }: { userType: 'faculty' |
                       {(result.confidence * 100).toFixed(1)}%
                     </span>
                   </div>
+                  {result.livenessScore !== undefined && (
+                    <div className="flex justify-between">
+                      <span className="text-gray-300">Liveness:</span>
+                      <span className="font-medium text-cyan-400">
+                        {(result.livenessScore * 100).toFixed(0)}%
+                      </span>
+                    </div>
+                  )}
                 </div>
               </div>
             )}
@@ -640,8 +703,8 @@ export default function AttendanceMarking({ userType }: { userType: 'faculty' |
                 <li>• Ensure good lighting on your face</li>
                 <li>• Look directly at the camera</li>
                 <li>• Remove any face coverings</li>
-                <li>• Stay still during recognition</li>
-                <li>• Minimum 75% confidence required</li>
+                <li>• Follow the on-screen prompt (blink or turn your head)</li>
+                <li>• Printed or on-screen photos are rejected</li>
               </ul>
             </div>
           </div>
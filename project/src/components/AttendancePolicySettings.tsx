@@ -0,0 +1,127 @@
+import { useEffect, useState } from 'react';
+import { Award, Save } from 'lucide-react';
+import { database } from '../utils/database';
+import { AttendancePolicy } from '../utils/attendancePolicy';
+import { useAttendancePolicy } from '../hooks/useAttendancePolicy';
+
+const inputClass =
+  'w-full px-3 py-2 border border-white/30 rounded-lg bg-white/10 text-white text-sm focus:ring-2 focus:ring-purple-500 focus:border-transparent';
+
+// Minimum attendance, per-course overrides and the consecutive-absence limit
+export default function AttendancePolicySettings({ canWrite }: { canWrite: boolean }) {
+  const { policy, savePolicy } = useAttendancePolicy();
+  const [draft, setDraft] = useState<AttendancePolicy>(policy);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const courses = database.getCourses();
+
+  useEffect(() => setDraft(policy), [policy]);
+
+  const update = (changes: Partial<AttendancePolicy>) => {
+    setMessage(null);
+    setDraft(prev => ({ ...prev, ...changes }));
+  };
+
+  const setCourseMinimum = (courseId: string, value: string) => {
+    const courseMinimums = { ...draft.courseMinimums };
+    if (value === '') delete courseMinimums[courseId];
+    else courseMinimums[courseId] = Number(value);
+    update({ courseMinimums });
+  };
+
+  const save = async () => {
+    try {
+      await savePolicy(draft);
+      setMessage({ type: 'success', text: 'Attendance policy saved' });
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Could not save the attendance policy' });
+    }
+  };
+
+  return (
+    <div className="bg-white/10 backdrop-blur-lg rounded-xl shadow-2xl p-6 border border-white/20">
+      <div className="flex items-center space-x-3 mb-4">
+        <div className="p-2 bg-red-500/20 rounded-lg backdrop-blur-sm">
+          <Award className="h-5 w-5 text-red-400" />
+        </div>
+        <div>
+          <h3 className="text-lg font-semibold text-white">Attendance Policy</h3>
+          <p className="text-sm text-gray-300">Students below the minimum in a course, or absent too often in a row, are listed as defaulters</p>
+        </div>
+      </div>
+
+      <fieldset disabled={!canWrite} className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-1">Minimum attendance (%)</label>
+            <input
+              type="number"
+              min={1}
+              max={100}
+              value={draft.minimumPercentage}
+              onChange={e => update({ minimumPercentage: Number(e.target.value) })}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-1">Consecutive absence limit</label>
+            <input
+              type="number"
+              min={1}
+              value={draft.consecutiveAbsenceLimit}
+              onChange={e => update({ consecutiveAbsenceLimit: Number(e.target.value) })}
+              className={inputClass}
+            />
+          </div>
+        </div>
+
+        <label className="flex items-center gap-2 text-sm text-gray-300">
+          <input
+            type="checkbox"
+            checked={draft.excludeExcused}
+            onChange={e => update({ excludeExcused: e.target.checked })}
+            className="rounded border-white/30 bg-white/10"
+          />
+          Leave classes excused by approved leave out of the percentage (otherwise they count as absences)
+        </label>
+
+        {courses.length > 0 && (
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">Course minimums (blank uses the default)</label>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+              {courses.map(course => (
+                <div key={course.id} className="flex items-center gap-2">
+                  <span className="flex-1 text-sm text-white truncate">
+                    {course.code} <span className="text-gray-400">{course.name}</span>
+                  </span>
+                  <input
+                    type="number"
+                    min={1}
+                    max={100}
+                    placeholder={String(draft.minimumPercentage)}
+                    value={draft.courseMinimums[course.id] ?? ''}
+                    onChange={e => setCourseMinimum(course.id, e.target.value)}
+                    className={`${inputClass} w-24`}
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div className="flex items-center gap-3">
+          <button
+            type="button"
+            onClick={save}
+            className="flex items-center gap-2 bg-gradient-to-r from-green-600 to-cyan-600 text-white px-4 py-2 rounded-lg font-medium text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Save className="h-4 w-4" />
+            Save Policy
+          </button>
+          {message && (
+            <span className={`text-sm ${message.type === 'success' ? 'text-green-300' : 'text-red-300'}`}>{message.text}</span>
+          )}
+        </div>
+      </fieldset>
+    </div>
+  );
+}
@@ -0,0 +1,132 @@
+import { useState } from 'react';
+import { Camera, CheckCircle, XCircle, Download } from 'lucide-react';
+import { EnrollmentReport, enrollFromZip, enrollmentReportToCsv } from '../utils/bulkEnrollment';
+
+// Face enrolment for a whole batch from a ZIP of photos named by roll number
+export default function BulkFaceEnrollment({ onEnrolled }: { onEnrolled?: () => void }) {
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [report, setReport] = useState<EnrollmentReport | null>(null);
+  const [error, setError] = useState('');
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setError('');
+    setReport(null);
+    setProgress({ done: 0, total: 0 });
+    try {
+      const result = await enrollFromZip(await file.arrayBuffer(), {
+        onProgress: (done, total) => setProgress({ done, total }),
+      });
+      setReport(result);
+      onEnrolled?.();
+    } catch (failure) {
+      console.error('Bulk face enrolment failed:', failure);
+      setError(failure instanceof Error ? `Could not read the ZIP file: ${failure.message}` : 'Could not read the ZIP file');
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const downloadReport = () => {
+    if (!report) return;
+    const blob = new Blob([enrollmentReportToCsv(report)], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `face_enrollment_report_${new Date().toISOString().split('T')[0]}.csv`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  const failures = report?.results.filter(r => !r.success) ?? [];
+
+  return (
+    <div className="bg-white/10 backdrop-blur-lg p-8 rounded-xl shadow-2xl border border-white/20">
+      <h3 className="text-xl font-bold mb-2 text-white flex items-center">
+        <Camera className="h-6 w-6 mr-2 text-cyan-400" />
+        Bulk Face Enrollment
+      </h3>
+      <p className="text-gray-400 text-sm mb-4">
+        Upload a ZIP of photos named by roll number (CS001.jpg, CS001_2.jpg) or in one folder per roll number
+        (CS001/front.jpg). Each photo must show exactly one face; every accepted photo is another sample.
+      </p>
+
+      <input
+        type="file"
+        accept=".zip"
+        disabled={progress !== null}
+        onChange={e => {
+          handleFile(e.target.files?.[0]);
+          e.target.value = '';
+        }}
+        className="block w-full text-sm text-gray-300 file:mr-4 file:py-2 file:px-4 file:rounded-lg file:border-0 file:bg-purple-600 file:text-white hover:file:bg-purple-700"
+      />
+      {error && <p className="mt-3 text-red-300 text-sm">{error}</p>}
+
+      {progress && (
+        <div className="mt-4">
+          <div className="h-2 bg-white/10 rounded-full overflow-hidden">
+            <div
+              className="h-full bg-gradient-to-r from-purple-500 to-cyan-500 transition-all duration-200"
+              style={{ width: `${progress.total ? (progress.done / progress.total) * 100 : 0}%` }}
+            />
+          </div>
+          <p className="text-gray-300 text-sm mt-2">
+            {progress.total ? `Processing photo ${progress.done} of ${progress.total}...` : 'Reading archive...'}
+          </p>
+        </div>
+      )}
+
+      {report && (
+        <div className="mt-6 space-y-4">
+          <div className="flex flex-wrap items-center gap-6 text-sm">
+            <span className="flex items-center text-green-300">
+              <CheckCircle className="h-4 w-4 mr-1" />
+              {report.enrolled} photos enrolled for {report.students} students
+            </span>
+            <span className="flex items-center text-red-300">
+              <XCircle className="h-4 w-4 mr-1" />
+              {report.failed} rejected
+            </span>
+            <button
+              onClick={downloadReport}
+              className="flex items-center gap-1 px-3 py-2 bg-white/10 hover:bg-white/20 text-white rounded-lg transition-colors duration-200"
+            >
+              <Download className="h-4 w-4" />
+              Download Report
+            </button>
+          </div>
+
+          {report.warnings.map(warning => (
+            <p key={warning} className="text-yellow-300 text-sm">⚠️ {warning}</p>
+          ))}
+
+          {failures.length > 0 && (
+            <div className="overflow-x-auto max-h-80 overflow-y-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-white/20 text-left text-gray-300">
+                    <th className="py-2 pr-4">File</th>
+                    <th className="py-2 pr-4">Roll No</th>
+                    <th className="py-2">Reason</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {failures.map(result => (
+                    <tr key={result.path} className="border-b border-white/10">
+                      <td className="py-2 pr-4 text-white">{result.path}</td>
+                      <td className="py-2 pr-4 text-gray-300">{result.rollNo ?? '-'}</td>
+                      <td className="py-2 text-red-300">{result.message}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,199 @@
+import React, { useState, useEffect } from 'react';
+import { MapPin, Trash2 } from 'lucide-react';
+import { database } from '../utils/database';
+import { Building, Geofence, GeoPoint, Room } from '../types';
+
+const inputClass = 'w-full px-3 py-2 border border-white/30 rounded-lg bg-white/10 text-white placeholder-gray-400 focus:ring-2 focus:ring-purple-500 focus:border-transparent';
+
+// "lat, lng" per line
+const parsePoints = (text: string): GeoPoint[] =>
+  text
+    .split('\n')
+    .map(line => line.trim())
+    .filter(Boolean)
+    .map(line => {
+      const [latitude, longitude] = line.split(',').map(part => Number(part.trim()));
+      return { latitude, longitude };
+    });
+
+const describeGeofence = (geofence: Geofence) =>
+  geofence.type === 'circle'
+    ? `${geofence.radiusMeters} m around ${geofence.center.latitude.toFixed(5)}, ${geofence.center.longitude.toFixed(5)}`
+    : `Polygon with ${geofence.points.length} points`;
+
+// Buildings and rooms with the geofences that self check-ins are validated against
+export default function CampusLocations() {
+  const [buildings, setBuildings] = useState<Building[]>([]);
+  const [rooms, setRooms] = useState<Room[]>([]);
+  const [buildingForm, setBuildingForm] = useState({
+    name: '',
+    shape: 'circle' as Geofence['type'],
+    latitude: '',
+    longitude: '',
+    radiusMeters: '100',
+    points: '',
+  });
+  const [roomForm, setRoomForm] = useState({ name: '', buildingId: '', latitude: '', longitude: '', radiusMeters: '' });
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  const loadData = () => {
+    setBuildings(database.getBuildings());
+    setRooms(database.getRooms());
+  };
+
+  const handleAddBuilding = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!buildingForm.name.trim()) {
+      alert('Building name is required');
+      return;
+    }
+    const geofence: Geofence = buildingForm.shape === 'circle'
+      ? {
+          type: 'circle',
+          center: { latitude: Number(buildingForm.latitude), longitude: Number(buildingForm.longitude) },
+          radiusMeters: Number(buildingForm.radiusMeters),
+        }
+      : { type: 'polygon', points: parsePoints(buildingForm.points) };
+
+    try {
+      database.addBuilding({ name: buildingForm.name.trim(), geofence });
+      setBuildingForm({ ...buildingForm, name: '', latitude: '', longitude: '', points: '' });
+      loadData();
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to add building');
+    }
+  };
+
+  const handleAddRoom = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!roomForm.name.trim() || !roomForm.buildingId) {
+      alert('Room name and building are required');
+      return;
+    }
+    // A room only needs its own circle when it is far from the building's centre
+    const geofence: Geofence | undefined = roomForm.latitude
+      ? {
+          type: 'circle',
+          center: { latitude: Number(roomForm.latitude), longitude: Number(roomForm.longitude) },
+          radiusMeters: Number(roomForm.radiusMeters || 30),
+        }
+      : undefined;
+
+    try {
+      database.addRoom({ name: roomForm.name.trim(), buildingId: roomForm.buildingId, geofence });
+      setRoomForm({ ...roomForm, name: '', latitude: '', longitude: '', radiusMeters: '' });
+      loadData();
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to add room');
+    }
+  };
+
+  const handleDeleteBuilding = (building: Building) => {
+    if (window.confirm(`Delete ${building.name} and its rooms? Check-ins in those rooms will no longer be location-checked.`)) {
+      database.deleteBuilding(building.id);
+      loadData();
+    }
+  };
+
+  const handleDeleteRoom = (room: Room) => {
+    database.deleteRoom(room.id);
+    loadData();
+  };
+
+  return (
+    <div className="bg-white/10 backdrop-blur-lg rounded-xl shadow-2xl p-6 border border-white/20 space-y-4">
+      <div>
+        <h3 className="text-lg font-semibold text-white flex items-center">
+          <MapPin className="h-5 w-5 mr-2" />
+          Campus Locations
+        </h3>
+        <p className="text-sm text-gray-400">
+          Rooms are matched to timetable slots by name. Self check-ins outside the room's geofence are rejected.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <form onSubmit={handleAddBuilding} className="space-y-3">
+          <h4 className="text-sm font-semibold text-gray-200">New Building</h4>
+          <input className={inputClass} placeholder="Name (e.g. Main Block)" value={buildingForm.name}
+            onChange={(e) => setBuildingForm({ ...buildingForm, name: e.target.value })} />
+          <select className={inputClass} value={buildingForm.shape}
+            onChange={(e) => setBuildingForm({ ...buildingForm, shape: e.target.value as Geofence['type'] })}>
+            <option value="circle" className="bg-gray-800 text-white">Radius around a point</option>
+            <option value="polygon" className="bg-gray-800 text-white">Polygon outline</option>
+          </select>
+          {buildingForm.shape === 'circle' ? (
+            <div className="grid grid-cols-3 gap-2">
+              <input className={inputClass} placeholder="Latitude" value={buildingForm.latitude}
+                onChange={(e) => setBuildingForm({ ...buildingForm, latitude: e.target.value })} />
+              <input className={inputClass} placeholder="Longitude" value={buildingForm.longitude}
+                onChange={(e) => setBuildingForm({ ...buildingForm, longitude: e.target.value })} />
+              <input className={inputClass} placeholder="Radius (m)" value={buildingForm.radiusMeters}
+                onChange={(e) => setBuildingForm({ ...buildingForm, radiusMeters: e.target.value })} />
+            </div>
+          ) : (
+            <textarea className={inputClass} rows={4} placeholder={'One corner per line: lat, lng'} value={buildingForm.points}
+              onChange={(e) => setBuildingForm({ ...buildingForm, points: e.target.value })} />
+          )}
+          <button type="submit" className="w-full bg-gradient-to-r from-purple-600 to-cyan-600 text-white px-4 py-2 rounded-lg font-medium hover:from-purple-700 hover:to-cyan-700 transition-all duration-200">
+            Add Building
+          </button>
+        </form>
+
+        <form onSubmit={handleAddRoom} className="space-y-3">
+          <h4 className="text-sm font-semibold text-gray-200">New Room</h4>
+          <div className="grid grid-cols-2 gap-2">
+            <input className={inputClass} placeholder="Room (as in the timetable)" value={roomForm.name}
+              onChange={(e) => setRoomForm({ ...roomForm, name: e.target.value })} />
+            <select className={inputClass} value={roomForm.buildingId}
+              onChange={(e) => setRoomForm({ ...roomForm, buildingId: e.target.value })}>
+              <option value="" className="bg-gray-800 text-white">Select building</option>
+              {buildings.map(building => (
+                <option key={building.id} value={building.id} className="bg-gray-800 text-white">{building.name}</option>
+              ))}
+            </select>
+          </div>
+          <p className="text-xs text-gray-400">Optional: the room's own geofence (otherwise the building's is used)</p>
+          <div className="grid grid-cols-3 gap-2">
+            <input className={inputClass} placeholder="Latitude" value={roomForm.latitude}
+              onChange={(e) => setRoomForm({ ...roomForm, latitude: e.target.value })} />
+            <input className={inputClass} placeholder="Longitude" value={roomForm.longitude}
+              onChange={(e) => setRoomForm({ ...roomForm, longitude: e.target.value })} />
+            <input className={inputClass} placeholder="Radius (m)" value={roomForm.radiusMeters}
+              onChange={(e) => setRoomForm({ ...roomForm, radiusMeters: e.target.value })} />
+          </div>
+          <button type="submit" className="w-full bg-gradient-to-r from-purple-600 to-cyan-600 text-white px-4 py-2 rounded-lg font-medium hover:from-purple-700 hover:to-cyan-700 transition-all duration-200">
+            Add Room
+          </button>
+        </form>
+      </div>
+
+      <div className="space-y-2">
+        {buildings.map(building => (
+          <div key={building.id} className="bg-white/5 rounded-lg px-3 py-2">
+            <div className="flex items-center justify-between">
+              <span className="text-sm text-gray-300">
+                <span className="font-semibold text-white">{building.name}</span> · {describeGeofence(building.geofence)}
+              </span>
+              <button onClick={() => handleDeleteBuilding(building)} className="text-red-400 hover:text-red-300">
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </div>
+            {rooms.filter(room => room.buildingId === building.id).map(room => (
+              <div key={room.id} className="flex items-center justify-between text-xs text-gray-400 pl-4 mt-1">
+                <span>{room.name}{room.geofence && ` · ${describeGeofence(room.geofence)}`}</span>
+                <button onClick={() => handleDeleteRoom(room)} className="text-red-400 hover:text-red-300">
+                  <Trash2 className="h-3 w-3" />
+                </button>
+              </div>
+            ))}
+          </div>
+        ))}
+        {buildings.length === 0 && <p className="text-sm text-gray-400">No buildings yet. Check-ins are not location-checked until rooms are mapped.</p>}
+      </div>
+    </div>
+  );
+}
@@ -3,6 +3,11 @@ import { useNavigate } from 'react-router-dom';
 import { database } from '../utils/database';
 import { facialRecognition } from '../utils/facialRecognition';
 import { reportGenerator, AttendanceReportData } from '../utils/pdfGenerator';
+import { formatSessionTime } from '../utils/timetable';
+import { CheckInClosedError } from '../utils/lateRules';
+import { settingsService, cameraConstraints } from '../utils/settings';
+import { useReportTemplates } from '../hooks/useReportTemplates';
+import ReportTemplateSelect from './ReportTemplateSelect';
 import { Student, AttendanceRecord } from '../types';
 import { Camera, Users, FileText, Download, CheckCircle, XCircle, Clock, Loader } from 'lucide-react';
 
@@ -14,6 +19,17 @@ const ClassroomAttendance = () => {
   const [attendanceResult, setAttendanceResult] = useState<any>(null);
   const [selectedClass, setSelectedClass] = useState('');
   const [selectedSubject, setSelectedSubject] = useState('');
+  const [selectedSessionId, setSelectedSessionId] = useState('');
+  const { templates: reportTemplates, template: reportTemplate, selectTemplate } = useReportTemplates();
+  const todaySessions = database.getTodaySessions().filter(s => s.status !== 'cancelled');
+  const selectedSession = todaySessions.find(s => s.id === selectedSessionId) || null;
+  const selectedSection = selectedSession ? database.getSection(selectedSession.sectionId) : null;
+  const selectedCourse = selectedSession ? database.getCourse(selectedSession.courseId) : null;
+
+  // A scheduled session limits the roster to its enrolled students
+  const getRosterStudents = () => database.getStudents().filter(s =>
+    !selectedSection || selectedSection.studentIds.includes(s.id)
+  );
   
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
@@ -23,11 +39,7 @@ const ClassroomAttendance = () => {
   const startCamera = async () => {
     try {
       const stream = await navigator.mediaDevices.getUserMedia({
-        video: { 
-          width: { ideal: 1920 },
-          height: { ideal: 1080 },
-          facingMode: 'environment' // Use back camera on mobile
-        }
+        video: cameraConstraints(settingsService.get().cameraQuality, 'environment'), // Back camera on mobile
       });
       
       if (videoRef.current) {
@@ -96,47 +108,46 @@ const ClassroomAttendance = () => {
       // Initialize face recognition models
       await facialRecognition.initializeModels();
 
-      // Get all registered students
-      const allStudents = database.getStudents();
+      // Get the students expected in this session (all registered students for ad-hoc sessions)
+      const allStudents = getRosterStudents();
       console.log(`Processing attendance for ${allStudents.length} registered students`);
 
       // Detect and recognize faces from classroom photo
       const result = await facialRecognition.detectClassroomFaces(classPhoto, allStudents);
 
-      // Mark attendance for recognized students
-      const now = new Date();
-      const hour = now.getHours();
-      const minute = now.getMinutes();
-      const currentTime = hour * 60 + minute;
-      const lectureStart = 9 * 60; // 9:00 AM
-      const lateThreshold = lectureStart + 15; // 9:15 AM
-
-      let status: 'Present' | 'Late' = 'Present';
-      if (currentTime > lateThreshold) {
-        status = 'Late';
+      const recognizedCount = result.recognized.filter(detected => detected.student).length;
+      if (
+        !settingsService.get().autoMarkAttendance &&
+        !window.confirm(`Recognized ${recognizedCount} student(s) in the photo. Mark their attendance?`)
+      ) {
+        return;
       }
 
-      const markedStudents: Array<{ student: Student; status: 'Present' | 'Late'; confidence: number }> = [];
+      // Mark attendance for recognized students; the session's late-arrival rules decide Present or Late
+      const now = new Date();
+      const markedStudents: Array<{ student: Student; status: AttendanceRecord['status']; confidence: number }> = [];
       
       for (const detected of result.recognized) {
         if (detected.student) {
-          // Check if already marked today
-          const todayAttendance = database.getTodayAttendance();
+          // Check if already marked for this session (or today, for ad-hoc sessions)
+          const todayAttendance = selectedSession
+            ? database.getAttendanceRecords().filter(r => r.sessionId === selectedSession.id)
+            : database.getTodayAttendance();
           const alreadyMarked = todayAttendance.find(r => r.studentId === detected.student!.id);
 
-          if (!alreadyMarked) {
-            const attendanceRecord: Omit<AttendanceRecord, 'id'> = {
-              studentId: detected.student.id,
-              timestamp: now,
-              confidence: detected.confidence,
-              status,
-            };
-            database.markAttendance(attendanceRecord);
-          }
+          const attendanceRecord: Omit<AttendanceRecord, 'id'> = {
+            studentId: detected.student.id,
+            timestamp: now,
+            confidence: detected.confidence,
+            status: 'Present',
+            sessionId: selectedSession?.id,
+            subject: selectedSubject || undefined,
+          };
+          const saved = alreadyMarked || database.markAttendance(attendanceRecord);
 
           markedStudents.push({
             student: detected.student,
-            status,
+            status: saved.status,
             confidence: detected.confidence,
           });
         }
@@ -151,7 +162,7 @@ const ClassroomAttendance = () => {
 
     } catch (error) {
       console.error('Attendance processing error:', error);
-      alert('Failed to process attendance. Please try again.');
+      alert(error instanceof CheckInClosedError ? error.message : 'Failed to process attendance. Please try again.');
     } finally {
       setIsProcessing(false);
     }
@@ -162,13 +173,13 @@ const ClassroomAttendance = () => {
     if (!attendanceResult) return;
 
     const faculty = JSON.parse(localStorage.getItem('user') || '{}');
-    const allStudents = database.getStudents();
+    const allStudents = getRosterStudents();
     
     // Create attendance report data
     const reportData: AttendanceReportData = {
       date: new Date(),
-      className: selectedClass || 'All Classes',
-      subject: selectedSubject,
+      className: selectedSection?.name || selectedClass || 'All Classes',
+      subject: selectedCourse?.name || selectedSubject,
       faculty: faculty.name || 'Faculty',
       students: allStudents.map(student => {
         const marked = attendanceResult.markedStudents.find((m: any) => m.student.id === student.id);
@@ -188,7 +199,7 @@ const ClassroomAttendance = () => {
       },
     };
 
-    await reportGenerator.downloadReport(reportData);
+    await reportGenerator.downloadReport(reportData, undefined, reportTemplate);
   };
 
   // Export as CSV
@@ -196,12 +207,12 @@ const ClassroomAttendance = () => {
     if (!attendanceResult) return;
 
     const faculty = JSON.parse(localStorage.getItem('user') || '{}');
-    const allStudents = database.getStudents();
+    const allStudents = getRosterStudents();
     
     const reportData: AttendanceReportData = {
       date: new Date(),
-      className: selectedClass || 'All Classes',
-      subject: selectedSubject,
+      className: selectedSection?.name || selectedClass || 'All Classes',
+      subject: selectedCourse?.name || selectedSubject,
       faculty: faculty.name || 'Faculty',
       students: allStudents.map(student => {
         const marked = attendanceResult.markedStudents.find((m: any) => m.student.id === student.id);
@@ -221,7 +232,7 @@ const ClassroomAttendance = () => {
       },
     };
 
-    reportGenerator.downloadCSV(reportData);
+    reportGenerator.downloadCSV(reportData, undefined, reportTemplate);
   };
 
   return (
@@ -256,25 +267,49 @@ const ClassroomAttendance = () => {
               <h2 className="text-xl font-semibold text-white mb-4">Session Information</h2>
               <div className="space-y-4">
                 <div>
-                  <label className="block text-sm font-medium text-gray-300 mb-2">Class/Section</label>
-                  <input
-                    type="text"
-                    value={selectedClass}
-                    onChange={(e) => setSelectedClass(e.target.value)}
-                    placeholder="e.g., CS 3rd Year - Section A"
-                    className="w-full px-4 py-3 bg-white/5 border border-white/20 rounded-xl text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-purple-500"
-                  />
-                </div>
-                <div>
-                  <label className="block text-sm font-medium text-gray-300 mb-2">Subject (Optional)</label>
-                  <input
-                    type="text"
-                    value={selectedSubject}
-                    onChange={(e) => setSelectedSubject(e.target.value)}
-                    placeholder="e.g., Data Structures"
-                    className="w-full px-4 py-3 bg-white/5 border border-white/20 rounded-xl text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-purple-500"
-                  />
+                  <label className="block text-sm font-medium text-gray-300 mb-2">Scheduled Session</label>
+                  <select
+                    value={selectedSessionId}
+                    onChange={(e) => setSelectedSessionId(e.target.value)}
+                    className="w-full px-4 py-3 bg-white/5 border border-white/20 rounded-xl text-white focus:outline-none focus:ring-2 focus:ring-purple-500"
+                  >
+                    <option value="" className="bg-gray-800 text-white">Ad-hoc session (not on the timetable)</option>
+                    {todaySessions.map(session => (
+                      <option key={session.id} value={session.id} className="bg-gray-800 text-white">
+                        {database.getCourse(session.courseId)?.code} · {database.getSection(session.sectionId)?.name} · {formatSessionTime(session)} · {session.room}
+                      </option>
+                    ))}
+                  </select>
+                  {selectedSection && (
+                    <p className="text-xs text-gray-400 mt-2">
+                      {selectedCourse?.name} · {selectedSection.studentIds.length} enrolled students
+                    </p>
+                  )}
                 </div>
+                {!selectedSession && (
+                  <>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-300 mb-2">Class/Section</label>
+                      <input
+                        type="text"
+                        value={selectedClass}
+                        onChange={(e) => setSelectedClass(e.target.value)}
+                        placeholder="e.g., CS 3rd Year - Section A"
+                        className="w-full px-4 py-3 bg-white/5 border border-white/20 rounded-xl text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-purple-500"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-300 mb-2">Subject (Optional)</label>
+                      <input
+                        type="text"
+                        value={selectedSubject}
+                        onChange={(e) => setSelectedSubject(e.target.value)}
+                        placeholder="e.g., Data Structures"
+                        className="w-full px-4 py-3 bg-white/5 border border-white/20 rounded-xl text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-purple-500"
+                      />
+                    </div>
+                  </>
+                )}
               </div>
             </div>
 
@@ -439,7 +474,10 @@ const ClassroomAttendance = () => {
 
                 {/* Report Actions */}
                 <div className="bg-white/10 backdrop-blur-lg rounded-2xl p-6 border border-white/20">
-                  <h2 className="text-xl font-semibold text-white mb-4">Generate Reports</h2>
+                  <div className="flex items-center justify-between mb-4">
+                    <h2 className="text-xl font-semibold text-white">Generate Reports</h2>
+                    <ReportTemplateSelect templates={reportTemplates} value={reportTemplate} onChange={selectTemplate} />
+                  </div>
                   <div className="grid grid-cols-2 gap-4">
                     <button
                       onClick={generateReport}
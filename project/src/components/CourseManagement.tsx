@@ -0,0 +1,325 @@
+import React, { useState, useEffect } from 'react';
+import { BookOpen, Calendar, Users, Trash2, Save } from 'lucide-react';
+import { database } from '../utils/database';
+import CampusLocations from './CampusLocations';
+import { DAY_NAMES, formatSessionTime, isSessionHeld } from '../utils/timetable';
+import { Course, Section, Student, TimetableSlot } from '../types';
+
+const inputClass = 'w-full px-3 py-2 border border-white/30 rounded-lg bg-white/10 text-white placeholder-gray-400 focus:ring-2 focus:ring-purple-500 focus:border-transparent';
+
+const toDateInput = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const emptySlot = (): TimetableSlot => ({ dayOfWeek: 1, startTime: '09:00', endTime: '10:00', room: '' });
+
+export default function CourseManagement() {
+  const [courses, setCourses] = useState<Course[]>([]);
+  const [sections, setSections] = useState<Section[]>([]);
+  const [students, setStudents] = useState<Student[]>([]);
+  const [courseForm, setCourseForm] = useState({ code: '', name: '', department: '' });
+  const [sectionForm, setSectionForm] = useState(() => {
+    const termEnd = new Date();
+    termEnd.setMonth(termEnd.getMonth() + 4);
+    return {
+      courseId: '',
+      name: '',
+      facultyId: '',
+      termStart: toDateInput(new Date()),
+      termEnd: toDateInput(termEnd),
+      timetable: [emptySlot()],
+      studentIds: [] as string[],
+    };
+  });
+  const [departmentFilter, setDepartmentFilter] = useState('All');
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  const loadData = () => {
+    setCourses(database.getCourses());
+    setSections(database.getSections());
+    setStudents(database.getStudents());
+  };
+
+  const faculty = students.filter(s => s.role !== 'student');
+  const enrollable = students.filter(s => s.role === 'student');
+  const departments = ['All', ...Array.from(new Set(enrollable.map(s => s.department)))];
+  const visibleStudents = enrollable.filter(s => departmentFilter === 'All' || s.department === departmentFilter);
+
+  const handleAddCourse = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!courseForm.code.trim() || !courseForm.name.trim()) {
+      alert('Course code and name are required');
+      return;
+    }
+    if (courses.some(c => c.code.toLowerCase() === courseForm.code.trim().toLowerCase())) {
+      alert(`Course ${courseForm.code} already exists`);
+      return;
+    }
+
+    database.addCourse({
+      code: courseForm.code.trim().toUpperCase(),
+      name: courseForm.name.trim(),
+      department: courseForm.department.trim(),
+    });
+    setCourseForm({ code: '', name: '', department: '' });
+    loadData();
+  };
+
+  const updateSlot = (index: number, changes: Partial<TimetableSlot>) => {
+    setSectionForm(prev => ({
+      ...prev,
+      timetable: prev.timetable.map((slot, i) => (i === index ? { ...slot, ...changes } : slot)),
+    }));
+  };
+
+  const toggleStudent = (studentId: string) => {
+    setSectionForm(prev => ({
+      ...prev,
+      studentIds: prev.studentIds.includes(studentId)
+        ? prev.studentIds.filter(id => id !== studentId)
+        : [...prev.studentIds, studentId],
+    }));
+  };
+
+  const selectVisibleStudents = () => {
+    setSectionForm(prev => ({
+      ...prev,
+      studentIds: Array.from(new Set([...prev.studentIds, ...visibleStudents.map(s => s.id)])),
+    }));
+  };
+
+  const handleAddSection = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!sectionForm.courseId || !sectionForm.name.trim()) {
+      alert('Select a course and enter a section name');
+      return;
+    }
+    if (sectionForm.timetable.some(slot => slot.endTime <= slot.startTime || !slot.room.trim())) {
+      alert('Every timetable slot needs a room and an end time after its start time');
+      return;
+    }
+    if (sectionForm.termEnd < sectionForm.termStart) {
+      alert('Term end must be after term start');
+      return;
+    }
+
+    const owner = faculty.find(f => f.id === sectionForm.facultyId);
+    const termEnd = new Date(`${sectionForm.termEnd}T23:59:59`);
+    database.addSection({
+      courseId: sectionForm.courseId,
+      name: sectionForm.name.trim(),
+      facultyId: owner?.id,
+      facultyName: owner?.name,
+      studentIds: sectionForm.studentIds,
+      timetable: sectionForm.timetable.map(slot => ({ ...slot, room: slot.room.trim() })),
+      termStart: new Date(`${sectionForm.termStart}T00:00:00`),
+      termEnd,
+    });
+
+    setSectionForm(prev => ({ ...prev, name: '', timetable: [emptySlot()], studentIds: [] }));
+    loadData();
+  };
+
+  const handleDeleteSection = (section: Section) => {
+    if (window.confirm(`Delete ${section.name}? Upcoming sessions are removed; past attendance is kept.`)) {
+      database.deleteSection(section.id);
+      loadData();
+    }
+  };
+
+  const handleCancelSession = (sessionId: string) => {
+    if (window.confirm('Cancel this class session? It will not count towards attendance percentages.')) {
+      database.cancelSession(sessionId);
+      loadData();
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="bg-gradient-to-r from-purple-600 via-pink-600 to-cyan-600 rounded-xl p-6 text-white shadow-2xl">
+        <h2 className="text-2xl font-bold mb-2 flex items-center">
+          <BookOpen className="h-7 w-7 mr-3" />
+          Courses & Timetable
+        </h2>
+        <p className="text-purple-100">Define courses, sections and weekly schedules. Attendance is tracked per class session.</p>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* New Course */}
+        <form onSubmit={handleAddCourse} className="bg-white/10 backdrop-blur-lg rounded-xl shadow-2xl p-6 border border-white/20 space-y-4">
+          <h3 className="text-lg font-semibold text-white">New Course</h3>
+          <input className={inputClass} placeholder="Code (e.g. CS301)" value={courseForm.code}
+            onChange={(e) => setCourseForm({ ...courseForm, code: e.target.value })} />
+          <input className={inputClass} placeholder="Name (e.g. Data Structures)" value={courseForm.name}
+            onChange={(e) => setCourseForm({ ...courseForm, name: e.target.value })} />
+          <input className={inputClass} placeholder="Department" value={courseForm.department}
+            onChange={(e) => setCourseForm({ ...courseForm, department: e.target.value })} />
+          <button type="submit" className="w-full bg-gradient-to-r from-purple-600 to-cyan-600 text-white px-4 py-2 rounded-lg font-medium hover:from-purple-700 hover:to-cyan-700 transition-all duration-200">
+            Add Course
+          </button>
+
+          <div className="space-y-2 pt-2">
+            {courses.map(course => (
+              <div key={course.id} className="text-sm text-gray-300 bg-white/5 rounded-lg px-3 py-2">
+                <span className="font-semibold text-white">{course.code}</span> · {course.name}
+                {course.department && <span className="text-gray-400"> · {course.department}</span>}
+              </div>
+            ))}
+            {courses.length === 0 && <p className="text-sm text-gray-400">No courses yet.</p>}
+          </div>
+        </form>
+
+        {/* New Section */}
+        <form onSubmit={handleAddSection} className="lg:col-span-2 bg-white/10 backdrop-blur-lg rounded-xl shadow-2xl p-6 border border-white/20 space-y-4">
+          <h3 className="text-lg font-semibold text-white">New Section</h3>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <select className={inputClass} value={sectionForm.courseId}
+              onChange={(e) => setSectionForm({ ...sectionForm, courseId: e.target.value })}>
+              <option value="" className="bg-gray-800 text-white">Select course</option>
+              {courses.map(course => (
+                <option key={course.id} value={course.id} className="bg-gray-800 text-white">{course.code} - {course.name}</option>
+              ))}
+            </select>
+            <input className={inputClass} placeholder="Section name (e.g. Section A)" value={sectionForm.name}
+              onChange={(e) => setSectionForm({ ...sectionForm, name: e.target.value })} />
+            <select className={inputClass} value={sectionForm.facultyId}
+              onChange={(e) => setSectionForm({ ...sectionForm, facultyId: e.target.value })}>
+              <option value="" className="bg-gray-800 text-white">Faculty owner</option>
+              {faculty.map(f => (
+                <option key={f.id} value={f.id} className="bg-gray-800 text-white">{f.name}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <label className="text-sm text-gray-300">
+              Term start
+              <input type="date" className={`${inputClass} mt-1`} value={sectionForm.termStart}
+                onChange={(e) => setSectionForm({ ...sectionForm, termStart: e.target.value })} />
+            </label>
+            <label className="text-sm text-gray-300">
+              Term end
+              <input type="date" className={`${inputClass} mt-1`} value={sectionForm.termEnd}
+                onChange={(e) => setSectionForm({ ...sectionForm, termEnd: e.target.value })} />
+            </label>
+          </div>
+
+          {/* Weekly Timetable */}
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <span className="text-sm font-medium text-gray-300 flex items-center"><Calendar className="h-4 w-4 mr-2" />Weekly timetable</span>
+              <button type="button" onClick={() => setSectionForm({ ...sectionForm, timetable: [...sectionForm.timetable, emptySlot()] })}
+                className="text-xs text-cyan-300 hover:text-cyan-200">+ Add slot</button>
+            </div>
+            {sectionForm.timetable.map((slot, index) => (
+              <div key={index} className="grid grid-cols-12 gap-2 items-center">
+                <select className={`${inputClass} col-span-3`} value={slot.dayOfWeek}
+                  onChange={(e) => updateSlot(index, { dayOfWeek: parseInt(e.target.value) })}>
+                  {DAY_NAMES.map((day, dayIndex) => (
+                    <option key={day} value={dayIndex} className="bg-gray-800 text-white">{day}</option>
+                  ))}
+                </select>
+                <input type="time" className={`${inputClass} col-span-3`} value={slot.startTime}
+                  onChange={(e) => updateSlot(index, { startTime: e.target.value })} />
+                <input type="time" className={`${inputClass} col-span-3`} value={slot.endTime}
+                  onChange={(e) => updateSlot(index, { endTime: e.target.value })} />
+                <input className={`${inputClass} col-span-2`} placeholder="Room" value={slot.room}
+                  onChange={(e) => updateSlot(index, { room: e.target.value })} />
+                <button type="button" disabled={sectionForm.timetable.length === 1}
+                  onClick={() => setSectionForm({ ...sectionForm, timetable: sectionForm.timetable.filter((_, i) => i !== index) })}
+                  className="col-span-1 text-red-400 hover:text-red-300 disabled:opacity-30">
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+
+          {/* Enrolment */}
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <span className="text-sm font-medium text-gray-300 flex items-center">
+                <Users className="h-4 w-4 mr-2" />Enrolled students ({sectionForm.studentIds.length})
+              </span>
+              <div className="flex items-center space-x-2">
+                <select className="px-2 py-1 text-xs border border-white/30 rounded bg-white/10 text-white" value={departmentFilter}
+                  onChange={(e) => setDepartmentFilter(e.target.value)}>
+                  {departments.map(d => <option key={d} value={d} className="bg-gray-800 text-white">{d}</option>)}
+                </select>
+                <button type="button" onClick={selectVisibleStudents} className="text-xs text-cyan-300 hover:text-cyan-200">Select all shown</button>
+              </div>
+            </div>
+            <div className="max-h-48 overflow-y-auto grid grid-cols-1 md:grid-cols-2 gap-1 bg-white/5 rounded-lg p-2">
+              {visibleStudents.map(student => (
+                <label key={student.id} className="flex items-center space-x-2 text-sm text-gray-300">
+                  <input type="checkbox" checked={sectionForm.studentIds.includes(student.id)}
+                    onChange={() => toggleStudent(student.id)} className="rounded bg-white/20 border-white/30" />
+                  <span>{student.rollNo} · {student.name}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <button type="submit" className="inline-flex items-center bg-gradient-to-r from-green-600 to-cyan-600 text-white px-4 py-2 rounded-lg font-medium hover:from-green-700 hover:to-cyan-700 transition-all duration-200">
+            <Save className="h-4 w-4 mr-2" />
+            Create Section & Schedule Sessions
+          </button>
+        </form>
+      </div>
+
+      <CampusLocations />
+
+      {/* Existing Sections */}
+      <div className="space-y-4">
+        {sections.map(section => {
+          const course = database.getCourse(section.courseId);
+          const sessions = database.getSessions({ sectionId: section.id });
+          const held = sessions.filter(s => isSessionHeld(s)).length;
+          const upcoming = sessions.filter(s => new Date(s.scheduledStart) > new Date()).slice(0, 5);
+
+          return (
+            <div key={section.id} className="bg-white/10 backdrop-blur-lg rounded-xl shadow-2xl p-6 border border-white/20">
+              <div className="flex items-start justify-between mb-3">
+                <div>
+                  <h3 className="text-lg font-semibold text-white">{course?.code} · {course?.name} — {section.name}</h3>
+                  <p className="text-sm text-gray-300">
+                    {section.facultyName || 'No faculty assigned'} · {section.studentIds.length} students · {held} of {sessions.length} sessions held
+                  </p>
+                  <p className="text-xs text-gray-400 mt-1">
+                    {section.timetable.map(slot => `${DAY_NAMES[slot.dayOfWeek].slice(0, 3)} ${slot.startTime}-${slot.endTime} (${slot.room})`).join(' · ')}
+                  </p>
+                </div>
+                <button onClick={() => handleDeleteSection(section)} className="text-red-400 hover:text-red-300">
+                  <Trash2 className="h-5 w-5" />
+                </button>
+              </div>
+
+              {upcoming.length > 0 && (
+                <div className="space-y-1">
+                  <p className="text-xs uppercase tracking-wide text-gray-400">Upcoming sessions</p>
+                  {upcoming.map(session => (
+                    <div key={session.id} className="flex items-center justify-between text-sm bg-white/5 rounded-lg px-3 py-2">
+                      <span className={session.status === 'cancelled' ? 'text-gray-500 line-through' : 'text-gray-200'}>
+                        {new Date(session.scheduledStart).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' })} · {formatSessionTime(session)} · {session.room}
+                      </span>
+                      {session.status !== 'cancelled' && (
+                        <button onClick={() => handleCancelSession(session.id)} className="text-xs text-orange-300 hover:text-orange-200">
+                          Cancel
+                        </button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          );
+        })}
+        {sections.length === 0 && (
+          <p className="text-center text-gray-400">No sections yet. Create a course, then a section with its weekly timetable.</p>
+        )}
+      </div>
+    </div>
+  );
+}
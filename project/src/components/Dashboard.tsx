@@ -48,11 +48,7 @@ const Dashboard = () => {
     } else if (userType === 'student') {
       // Student sees their own attendance data
       const allAttendance = database.getAttendanceRecords();
-      const studentAttendance = allAttendance.filter(record => {
-        // In a real app, this would filter by the logged-in student's ID
-        // For now, we'll show a sample
-        return true; // Placeholder
-      });
+      const studentAttendance = allAttendance.filter(record => record.studentId === auth?.session?.userId);
 
       setUserAttendance(studentAttendance.slice(-10).reverse());
 
@@ -269,27 +265,29 @@ const Dashboard = () => {
                 Quick Actions
               </h3>
               <div className="space-y-2">
-                {userType !== 'student' && (
-                  <>
-                    <Link
-                      to="/test-data"
-                      className="w-full bg-gradient-to-r from-yellow-600 to-orange-600 hover:from-yellow-700 hover:to-orange-700 text-white font-medium py-2 px-4 rounded-lg transition-all duration-300 transform hover:scale-105 inline-block text-center"
-                    >
-                      🧪 Load Test Data (10 Students)
-                    </Link>
-                    <Link
-                      to="/faculty-dashboard"
-                      className="w-full bg-gradient-to-r from-emerald-600 to-teal-600 hover:from-emerald-700 hover:to-teal-700 text-white font-medium py-2 px-4 rounded-lg transition-all duration-300 transform hover:scale-105 inline-block text-center"
-                    >
-                      📊 Faculty Dashboard (All Features)
-                    </Link>
-                    <Link
-                      to="/classroom-attendance"
-                      className="w-full bg-gradient-to-r from-cyan-600 to-blue-600 hover:from-cyan-700 hover:to-blue-700 text-white font-medium py-2 px-4 rounded-lg transition-all duration-300 transform hover:scale-105 inline-block text-center"
-                    >
-                      🎯 Classroom Attendance (Bulk)
-                    </Link>
-                  </>
+                {auth?.can('data.manage') && (
+                  <Link
+                    to="/test-data"
+                    className="w-full bg-gradient-to-r from-yellow-600 to-orange-600 hover:from-yellow-700 hover:to-orange-700 text-white font-medium py-2 px-4 rounded-lg transition-all duration-300 transform hover:scale-105 inline-block text-center"
+                  >
+                    🧪 Load Test Data (10 Students)
+                  </Link>
+                )}
+                {auth?.can('reports.view') && (
+                  <Link
+                    to="/faculty-dashboard"
+                    className="w-full bg-gradient-to-r from-emerald-600 to-teal-600 hover:from-emerald-700 hover:to-teal-700 text-white font-medium py-2 px-4 rounded-lg transition-all duration-300 transform hover:scale-105 inline-block text-center"
+                  >
+                    📊 Faculty Dashboard (All Features)
+                  </Link>
+                )}
+                {auth?.can('attendance.mark') && (
+                  <Link
+                    to="/classroom-attendance"
+                    className="w-full bg-gradient-to-r from-cyan-600 to-blue-600 hover:from-cyan-700 hover:to-blue-700 text-white font-medium py-2 px-4 rounded-lg transition-all duration-300 transform hover:scale-105 inline-block text-center"
+                  >
+                    🎯 Classroom Attendance (Bulk)
+                  </Link>
                 )}
                 <Link
                   to="/attendance"
@@ -0,0 +1,97 @@
+import { useState, useEffect } from 'react';
+import { AlertCircle, CheckCircle, XCircle } from 'lucide-react';
+import { database } from '../utils/database';
+import { AttendanceDispute } from '../types';
+
+// Pending attendance disputes; approving applies the claimed status as an audited manual change
+export default function DisputeReviewQueue({ onReviewed }: { onReviewed?: () => void }) {
+  const [pending, setPending] = useState<AttendanceDispute[]>([]);
+
+  useEffect(() => {
+    loadPending();
+  }, []);
+
+  const loadPending = () => {
+    setPending(database.getAttendanceDisputes().filter(dispute => dispute.status === 'pending'));
+  };
+
+  const studentName = (dispute: AttendanceDispute) => {
+    const student = database.getStudents().find(s => s.id === dispute.studentId);
+    return student ? `${student.name} (${student.rollNo})` : dispute.studentId;
+  };
+
+  const describeClass = (dispute: AttendanceDispute) => {
+    const session = dispute.sessionId
+      ? database.getSessionsForStudent(dispute.studentId).find(s => s.id === dispute.sessionId)
+      : undefined;
+    const date = new Date(dispute.date);
+    const code = session && database.getCourse(session.courseId)?.code;
+    return code
+      ? `${code} on ${date.toLocaleDateString()} at ${date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`
+      : date.toLocaleDateString();
+  };
+
+  const handleReview = (dispute: AttendanceDispute, approved: boolean) => {
+    const comment = window.prompt(
+      approved
+        ? `Comment for marking ${studentName(dispute)} ${dispute.claimedStatus} (optional, recorded in the audit log):`
+        : `Reason for rejecting ${studentName(dispute)}'s dispute:`
+    );
+    if (comment === null) return;
+
+    try {
+      database.reviewAttendanceDispute(dispute.id, approved, comment);
+      loadPending();
+      onReviewed?.();
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to review the dispute');
+    }
+  };
+
+  if (pending.length === 0) return null;
+
+  return (
+    <div className="bg-yellow-500/10 backdrop-blur-lg rounded-xl p-6 border border-yellow-500/30">
+      <h2 className="text-xl font-bold text-white mb-4 flex items-center">
+        <AlertCircle className="h-6 w-6 mr-2 text-yellow-400" />
+        Attendance Disputes ({pending.length})
+      </h2>
+      <div className="space-y-2">
+        {pending.map(dispute => (
+          <div key={dispute.id} className="flex flex-col md:flex-row md:items-center justify-between gap-3 bg-white/5 rounded-lg px-4 py-3">
+            <div className="flex items-start gap-3">
+              {dispute.evidence && (
+                <a href={dispute.evidence.url} target="_blank" rel="noreferrer" title={dispute.evidence.name}>
+                  <img src={dispute.evidence.url} alt="Evidence" className="w-14 h-14 rounded-lg object-cover border border-white/20" />
+                </a>
+              )}
+              <div>
+                <p className="text-white font-medium">{studentName(dispute)}</p>
+                <p className="text-sm text-gray-300">
+                  {describeClass(dispute)} · {dispute.currentStatus || 'Not marked'} → {dispute.claimedStatus}
+                </p>
+                <p className="text-sm text-gray-400">{dispute.reason}</p>
+              </div>
+            </div>
+            <div className="flex gap-2">
+              <button
+                onClick={() => handleReview(dispute, true)}
+                className="flex items-center gap-1 px-3 py-2 bg-green-600/80 hover:bg-green-600 text-white text-sm rounded-lg transition-all duration-200"
+              >
+                <CheckCircle className="h-4 w-4" />
+                Approve
+              </button>
+              <button
+                onClick={() => handleReview(dispute, false)}
+                className="flex items-center gap-1 px-3 py-2 bg-red-600/80 hover:bg-red-600 text-white text-sm rounded-lg transition-all duration-200"
+              >
+                <XCircle className="h-4 w-4" />
+                Reject
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -12,9 +12,14 @@ import {
   AlertCircle,
   UserCheck
 } from 'lucide-react';
-import { database } from '../utils/database';
+import { database, DuplicateAttendanceError } from '../utils/database';
 import { reportGenerator } from '../utils/pdfGenerator';
-import { Student, AttendanceRecord } from '../types';
+import { useReportTemplates } from '../hooks/useReportTemplates';
+import ReportTemplateSelect from './ReportTemplateSelect';
+import { formatSessionTime } from '../utils/timetable';
+import LocationReview from './LocationReview';
+import LiveSessionBoard from './LiveSessionBoard';
+import { Student, AttendanceRecord, ClassSession } from '../types';
 
 interface TodaySessionStudent {
   student: Student;
@@ -26,6 +31,8 @@ interface TodaySessionStudent {
 
 const FacultyAnalytics = () => {
   const [students, setStudents] = useState<Student[]>([]);
+  const [todaySessions, setTodaySessions] = useState<ClassSession[]>([]);
+  const [selectedSessionId, setSelectedSessionId] = useState('');
   const [sessionData, setSessionData] = useState<TodaySessionStudent[]>([]);
   const [isEditMode, setIsEditMode] = useState(false);
   const [editedStatuses, setEditedStatuses] = useState<Map<string, 'Present' | 'Late' | 'Absent'>>(new Map());
@@ -39,14 +46,27 @@ const FacultyAnalytics = () => {
     recognitionRate: 0,
     attendanceRate: 0,
   });
+  const { templates: reportTemplates, template: reportTemplate, selectTemplate } = useReportTemplates();
 
   useEffect(() => {
     loadTodaySession();
-  }, []);
+  }, [selectedSessionId]);
 
+  const selectedSession = todaySessions.find(s => s.id === selectedSessionId) || null;
+
+  // With a session selected, the roster is its section and only check-ins for that session count
   const loadTodaySession = () => {
-    const allStudents = database.getStudents().filter(s => s.role === 'student');
-    const todayAttendance = database.getTodayAttendance();
+    const sessions = database.getTodaySessions().filter(s => s.status !== 'cancelled');
+    const session = sessions.find(s => s.id === selectedSessionId) || null;
+    const section = session ? database.getSection(session.sectionId) : null;
+
+    const allStudents = database.getStudents().filter(s =>
+      s.role === 'student' && (!section || section.studentIds.includes(s.id))
+    );
+    const todayAttendance = session
+      ? database.getAttendanceRecords().filter(r => r.sessionId === session.id)
+      : database.getTodayAttendance();
+    setTodaySessions(sessions);
     
     // Create attendance map
     const attendanceMap = new Map<string, AttendanceRecord>();
@@ -111,36 +131,73 @@ const FacultyAnalytics = () => {
   const saveManualAttendance = () => {
     const now = new Date();
     let updatedCount = 0;
+    const failures: string[] = [];
 
+    // Manual changes are written to the audit log and need a reason
+    const reason = window.prompt('Reason for these attendance changes (recorded in the audit log):');
+    if (reason === null) return;
+    if (!reason.trim()) {
+      alert('A reason is required for manual attendance changes');
+      return;
+    }
+
+    // One student's failure doesn't stop the others
     editedStatuses.forEach((status, studentId) => {
-      const existing = database.getTodayAttendance().find(r => r.studentId === studentId);
-      
-      if (!existing && status !== 'Absent') {
-        const student = students.find(s => s.id === studentId);
-        if (student) {
-          database.markAttendance({
-            studentId,
-            rollNo: student.rollNo || 'N/A',
-            name: student.name,
-            timestamp: now,
-            location: {
-              latitude: 12.9716,
-              longitude: 77.5946,
-              address: 'College Campus',
-            },
-            status,
-            confidence: 1.0, // Manual marking
-            subject: 'Today\'s Session',
-          } as any);
+      const student = students.find(s => s.id === studentId);
+      const update = (existing: AttendanceRecord) => {
+        if (existing.status !== status) {
+          database.updateAttendanceStatus(existing.id, status, { reason });
           updatedCount++;
         }
+      };
+      try {
+        const existing = database.findAttendanceFor(studentId, now, selectedSessionId || undefined);
+        if (existing) {
+          update(existing);
+        } else if (status !== 'Absent' && student) {
+          try {
+            database.markAttendance({
+              studentId,
+              rollNo: student.rollNo || 'N/A',
+              name: student.name,
+              timestamp: now,
+              status,
+              confidence: 1.0, // Manual marking
+              subject: 'Today\'s Session',
+              sessionId: selectedSessionId || undefined,
+            }, { source: 'manual_override', reason });
+            updatedCount++;
+          } catch (error) {
+            // Checked in since the list was loaded
+            if (!(error instanceof DuplicateAttendanceError)) throw error;
+            update(error.record);
+          }
+        }
+      } catch (error) {
+        console.error('Manual attendance update failed:', error);
+        failures.push(`${student?.name || studentId}: ${error instanceof Error ? error.message : 'Failed to update attendance'}`);
       }
     });
 
     setIsEditMode(false);
     setEditedStatuses(new Map());
     loadTodaySession();
-    alert(`✅ Successfully marked attendance for ${updatedCount} student(s)`);
+    alert(
+      failures.length > 0
+        ? `Updated attendance for ${updatedCount} student(s); ${failures.length} failed:\n${failures.join('\n')}`
+        : `✅ Successfully updated attendance for ${updatedCount} student(s)`
+    );
+  };
+
+  const getReportLabels = () => {
+    const session = todaySessions.find(s => s.id === selectedSessionId);
+    if (!session) {
+      return { className: 'All Students', subject: 'Today\'s Attendance Session' };
+    }
+    return {
+      className: database.getSection(session.sectionId)?.name || 'Section',
+      subject: `${database.getCourse(session.courseId)?.name || 'Class'} (${formatSessionTime(session)})`,
+    };
   };
 
   const downloadPDF = async () => {
@@ -153,8 +210,7 @@ const FacultyAnalytics = () => {
 
     const reportData = {
       date: today,
-      className: 'All Students',
-      subject: 'Today\'s Attendance Session',
+      ...getReportLabels(),
       faculty: faculty.name || 'Faculty',
       students: presentStudents.map(item => ({
         student: item.student,
@@ -173,7 +229,8 @@ const FacultyAnalytics = () => {
 
     await reportGenerator.downloadReport(
       reportData,
-      `today_session_${today.toISOString().split('T')[0]}.html`
+      `today_session_${today.toISOString().split('T')[0]}.pdf`,
+      reportTemplate
     );
   };
 
@@ -187,8 +244,7 @@ const FacultyAnalytics = () => {
 
     const reportData = {
       date: today,
-      className: 'All Students',
-      subject: 'Today\'s Attendance Session',
+      ...getReportLabels(),
       faculty: faculty.name || 'Faculty',
       students: presentStudents.map(item => ({
         student: item.student,
@@ -207,7 +263,8 @@ const FacultyAnalytics = () => {
 
     reportGenerator.downloadCSV(
       reportData,
-      `today_session_${today.toISOString().split('T')[0]}.csv`
+      `today_session_${today.toISOString().split('T')[0]}.csv`,
+      reportTemplate
     );
   };
 
@@ -232,6 +289,28 @@ const FacultyAnalytics = () => {
         </p>
       </div>
 
+      {/* Session Picker */}
+      <div className="bg-white/10 backdrop-blur-lg rounded-xl p-4 border border-white/20">
+        <label className="block text-sm font-medium text-gray-300 mb-2">Class Session</label>
+        <select
+          value={selectedSessionId}
+          onChange={(e) => setSelectedSessionId(e.target.value)}
+          className="w-full px-3 py-2 border border-white/30 rounded-lg bg-white/10 text-white focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+        >
+          <option value="" className="bg-gray-800 text-white">All students (any check-in today)</option>
+          {todaySessions.map(session => (
+            <option key={session.id} value={session.id} className="bg-gray-800 text-white">
+              {database.getCourse(session.courseId)?.code} · {database.getSection(session.sectionId)?.name} · {formatSessionTime(session)} · {session.room}
+            </option>
+          ))}
+        </select>
+        {todaySessions.length === 0 && (
+          <p className="text-xs text-gray-400 mt-2">No classes are scheduled today. Set up timetables under Courses.</p>
+        )}
+      </div>
+
+      {selectedSession && <LiveSessionBoard session={selectedSession} onChange={loadTodaySession} />}
+
       {/* Statistics Cards */}
       <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-6 gap-4">
         <div className="bg-gradient-to-br from-blue-500/20 to-cyan-500/20 backdrop-blur-lg rounded-xl p-4 border-2 border-blue-400">
@@ -344,6 +423,8 @@ const FacultyAnalytics = () => {
           </button>
         )}
 
+        <ReportTemplateSelect templates={reportTemplates} value={reportTemplate} onChange={selectTemplate} />
+
         <button
           onClick={downloadPDF}
           className="flex items-center gap-2 px-6 py-3 bg-gradient-to-r from-red-600 to-pink-600 hover:from-red-700 hover:to-pink-700 text-white font-semibold rounded-lg transition-all duration-300 shadow-lg transform hover:scale-105"
@@ -368,6 +449,8 @@ const FacultyAnalytics = () => {
         </button>
       </div>
 
+      <LocationReview onReviewed={loadTodaySession} />
+
       {/* Students Table */}
       <div className="bg-white/10 backdrop-blur-lg rounded-xl p-6 border border-white/20">
         <h2 className="text-2xl font-bold text-white mb-6 flex items-center">
@@ -16,12 +16,18 @@ import {
   UserCheck,
   AlertCircle
 } from 'lucide-react';
-import { database } from '../utils/database';
+import { database, DuplicateAttendanceError } from '../utils/database';
 import { reportGenerator, AttendanceReportData } from '../utils/pdfGenerator';
+import { summarizeSessions } from '../utils/timetable';
+import { useReportTemplates } from '../hooks/useReportTemplates';
+import { useAttendancePolicy } from '../hooks/useAttendancePolicy';
+import ReportTemplateSelect from './ReportTemplateSelect';
+import LeaveApprovals from './LeaveApprovals';
+import DisputeReviewQueue from './DisputeReviewQueue';
 import { Student, AttendanceRecord } from '../types';
 
 type ViewMode = 'daily' | 'weekly' | 'monthly';
-type AttendanceStatus = 'Present' | 'Late' | 'Absent';
+type AttendanceStatus = AttendanceRecord['status'];
 
 interface StudentAttendanceStatus {
   student: Student;
@@ -44,12 +50,15 @@ const FacultyDashboard = () => {
     present: 0,
     absent: 0,
     late: 0,
+    excused: 0,
     percentage: 0
   });
+  const { templates: reportTemplates, template: reportTemplate, selectTemplate } = useReportTemplates();
+  const { policy } = useAttendancePolicy();
 
   useEffect(() => {
     loadData();
-  }, [selectedDate, viewMode]);
+  }, [selectedDate, viewMode, policy]);
 
   const loadData = () => {
     const allStudents = database.getStudents();
@@ -96,9 +105,12 @@ const FacultyDashboard = () => {
     const present = data.filter(d => d.status === 'Present').length;
     const late = data.filter(d => d.status === 'Late').length;
     const absent = data.filter(d => d.status === 'Absent').length;
-    const percentage = total > 0 ? ((present + late) / total) * 100 : 0;
+    const excused = data.filter(d => d.status === 'Excused').length;
+    // Students on approved leave leave the percentage, or count as absent, per the attendance policy
+    const expected = policy.excludeExcused ? total - excused : total;
+    const percentage = expected > 0 ? ((present + late) / expected) * 100 : 0;
 
-    setStats({ total, present, absent, late, percentage });
+    setStats({ total, present, absent, late, excused, percentage });
   };
 
   const handleManualEdit = (studentId: string, status: AttendanceStatus) => {
@@ -110,33 +122,65 @@ const FacultyDashboard = () => {
   const saveManualAttendance = () => {
     const now = new Date();
     let updatedCount = 0;
+    const failures: string[] = [];
+
+    // Manual changes are written to the audit log and need a reason
+    const reason = window.prompt('Reason for these attendance changes (recorded in the audit log):');
+    if (reason === null) return;
+    if (!reason.trim()) {
+      alert('A reason is required for manual attendance changes');
+      return;
+    }
 
+    // One student's failure doesn't stop the others
     editedAttendance.forEach((status, studentId) => {
-      // Check if already marked
-      const todayAttendance = database.getTodayAttendance();
-      const existing = todayAttendance.find(r => r.studentId === studentId);
-
-      if (!existing && status !== 'Absent') {
-        // Mark new attendance
-        const record: Omit<AttendanceRecord, 'id'> = {
-          studentId,
-          timestamp: now,
-          status,
-          confidence: 1.0, // Manual marking has 100% confidence
-        };
-        database.markAttendance(record);
-        updatedCount++;
+      const update = (existing: AttendanceRecord) => {
+        if (existing.status !== status) {
+          database.updateAttendanceStatus(existing.id, status, { reason });
+          updatedCount++;
+        }
+      };
+      try {
+        // The record for the class running now, if there is one
+        const existing = database.findAttendanceFor(studentId, now);
+        if (existing) {
+          update(existing);
+        } else if (status !== 'Absent') {
+          const record: Omit<AttendanceRecord, 'id'> = {
+            studentId,
+            timestamp: now,
+            status,
+            confidence: 1.0, // Manual marking has 100% confidence
+          };
+          try {
+            database.markAttendance(record, { source: 'manual_override', reason });
+            updatedCount++;
+          } catch (error) {
+            // Checked in since the list was loaded
+            if (!(error instanceof DuplicateAttendanceError)) throw error;
+            update(error.record);
+          }
+        }
+      } catch (error) {
+        console.error('Manual attendance update failed:', error);
+        const name = students.find(s => s.id === studentId)?.name || studentId;
+        failures.push(`${name}: ${error instanceof Error ? error.message : 'Failed to update attendance'}`);
       }
     });
 
     setIsEditing(false);
     setEditedAttendance(new Map());
     loadData();
-    alert(`✅ Successfully updated attendance for ${updatedCount} student(s)`);
+    alert(
+      failures.length > 0
+        ? `Updated attendance for ${updatedCount} student(s); ${failures.length} failed:\n${failures.join('\n')}`
+        : `✅ Successfully updated attendance for ${updatedCount} student(s)`
+    );
   };
 
   const getWeeklyStats = () => {
     const students = database.getStudents();
+    const sections = database.getSections();
     const allRecords = database.getAttendanceRecords();
     
     const today = new Date();
@@ -159,8 +203,19 @@ const FacultyDashboard = () => {
         return rDate.toDateString() === date.toDateString();
       });
 
-      const present = dayRecords.filter(r => r.status === 'Present').length;
-      const late = dayRecords.filter(r => r.status === 'Late').length;
+      let present = dayRecords.filter(r => r.status === 'Present').length;
+      let late = dayRecords.filter(r => r.status === 'Late').length;
+      let percentage = students.length > 0 ? ((present + late) / students.length) * 100 : 0;
+
+      // With a timetable, measure against the sessions that were actually held that day
+      if (sections.length > 0) {
+        const nextDay = new Date(date);
+        nextDay.setDate(date.getDate() + 1);
+        const summary = summarizeSessions(database.getSessions({ from: date, to: nextDay }), sections, weekRecords, new Date(), policy.excludeExcused);
+        present = summary.present;
+        late = summary.late;
+        percentage = summary.percentage;
+      }
 
       dayWiseData.push({
         day: date.toLocaleDateString('en-US', { weekday: 'short' }),
@@ -168,7 +223,7 @@ const FacultyDashboard = () => {
         present,
         late,
         total: present + late,
-        percentage: students.length > 0 ? ((present + late) / students.length) * 100 : 0
+        percentage
       });
     }
 
@@ -177,6 +232,7 @@ const FacultyDashboard = () => {
 
   const getMonthlyStats = () => {
     const students = database.getStudents();
+    const sections = database.getSections();
     const allRecords = database.getAttendanceRecords();
     
     const today = new Date();
@@ -200,8 +256,26 @@ const FacultyDashboard = () => {
         return day >= weekStart && day <= weekEnd;
       });
 
-      const present = weekRecords.filter(r => r.status === 'Present').length;
-      const late = weekRecords.filter(r => r.status === 'Late').length;
+      let present = weekRecords.filter(r => r.status === 'Present').length;
+      let late = weekRecords.filter(r => r.status === 'Late').length;
+      let percentage = students.length > 0 ? ((present + late) / (students.length * 7)) * 100 : 0;
+
+      // With a timetable, measure against the sessions that were actually held that week
+      if (sections.length > 0) {
+        const summary = summarizeSessions(
+          database.getSessions({
+            from: new Date(today.getFullYear(), today.getMonth(), weekStart),
+            to: new Date(today.getFullYear(), today.getMonth(), weekEnd + 1),
+          }),
+          sections,
+          weekRecords,
+          new Date(),
+          policy.excludeExcused
+        );
+        present = summary.present;
+        late = summary.late;
+        percentage = summary.percentage;
+      }
 
       weeklyData.push({
         week: `Week ${currentWeek}`,
@@ -209,7 +283,7 @@ const FacultyDashboard = () => {
         present,
         late,
         total: present + late,
-        percentage: students.length > 0 ? ((present + late) / (students.length * 7)) * 100 : 0
+        percentage
       });
 
       weekStart = weekEnd + 1;
@@ -219,10 +293,10 @@ const FacultyDashboard = () => {
     return weeklyData;
   };
 
-  const downloadReport = async () => {
+  const buildReportData = (): AttendanceReportData => {
     const faculty = JSON.parse(localStorage.getItem('user') || '{}');
-    
-    const reportData: AttendanceReportData = {
+
+    return {
       date: selectedDate,
       className: 'All Students',
       subject: viewMode === 'daily' ? 'Daily Report' : viewMode === 'weekly' ? 'Weekly Report' : 'Monthly Report',
@@ -231,7 +305,8 @@ const FacultyDashboard = () => {
         student: item.student,
         status: item.status,
         markedAt: item.timestamp,
-        confidence: item.confidence
+        confidence: item.confidence,
+        remarks: item.isManual ? 'Marked manually' : undefined
       })),
       statistics: {
         totalStudents: stats.total,
@@ -239,36 +314,33 @@ const FacultyDashboard = () => {
         absent: stats.absent,
         late: stats.late,
         attendancePercentage: stats.percentage
-      }
+      },
+      breakdown: viewMode === 'weekly'
+        ? {
+            title: 'Day-wise Attendance',
+            rows: weeklyData.map(day => ({ label: day.day, detail: day.date, present: day.present, late: day.late, percentage: day.percentage })),
+          }
+        : viewMode === 'monthly'
+          ? {
+              title: 'Week-wise Attendance',
+              rows: monthlyData.map(week => ({ label: week.week, detail: `Days ${week.range}`, present: week.present, late: week.late, percentage: week.percentage })),
+            }
+          : undefined
     };
+  };
+
+  const reportFilename = (extension: string) => `attendance_${viewMode}_${selectedDate.toISOString().split('T')[0]}.${extension}`;
 
-    await reportGenerator.downloadReport(reportData, `attendance_${viewMode}_${selectedDate.toISOString().split('T')[0]}.html`);
+  const downloadReport = async () => {
+    await reportGenerator.downloadReport(buildReportData(), reportFilename('pdf'), reportTemplate);
   };
 
   const downloadCSV = () => {
-    const faculty = JSON.parse(localStorage.getItem('user') || '{}');
-    
-    const reportData: AttendanceReportData = {
-      date: selectedDate,
-      className: 'All Students',
-      subject: viewMode === 'daily' ? 'Daily Report' : viewMode === 'weekly' ? 'Weekly Report' : 'Monthly Report',
-      faculty: faculty.name || 'Faculty',
-      students: attendanceData.map(item => ({
-        student: item.student,
-        status: item.status,
-        markedAt: item.timestamp,
-        confidence: item.confidence
-      })),
-      statistics: {
-        totalStudents: stats.total,
-        present: stats.present,
-        absent: stats.absent,
-        late: stats.late,
-        attendancePercentage: stats.percentage
-      }
-    };
+    reportGenerator.downloadCSV(buildReportData(), reportFilename('csv'), reportTemplate);
+  };
 
-    reportGenerator.downloadCSV(reportData, `attendance_${viewMode}_${selectedDate.toISOString().split('T')[0]}.csv`);
+  const downloadHTML = () => {
+    reportGenerator.downloadHTML(buildReportData(), reportFilename('html'), reportTemplate);
   };
 
   const weeklyData = viewMode === 'weekly' ? getWeeklyStats() : [];
@@ -334,6 +406,8 @@ const FacultyDashboard = () => {
           </button>
         </div>
 
+        <LeaveApprovals onReviewed={loadData} />
+
         {/* Statistics Cards */}
         <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
           <div className="bg-gradient-to-br from-blue-500/20 to-cyan-500/20 backdrop-blur-lg rounded-xl p-6 border-2 border-blue-400">
@@ -369,7 +443,10 @@ const FacultyDashboard = () => {
               <span className="text-xs text-red-200">Absent</span>
             </div>
             <div className="text-4xl font-bold text-white">{stats.absent}</div>
-            <div className="text-red-200 text-sm">{((stats.absent / stats.total) * 100).toFixed(1)}%</div>
+            <div className="text-red-200 text-sm">
+              {((stats.absent / stats.total) * 100).toFixed(1)}%
+              {stats.excused > 0 && ` · ${stats.excused} on leave`}
+            </div>
           </div>
         </div>
 
@@ -420,6 +497,7 @@ const FacultyDashboard = () => {
             </div>
 
             <div className="flex gap-2">
+              <ReportTemplateSelect templates={reportTemplates} value={reportTemplate} onChange={selectTemplate} />
               <button
                 onClick={downloadReport}
                 className="flex items-center gap-2 px-6 py-3 bg-gradient-to-r from-red-600 to-pink-600 hover:from-red-700 hover:to-pink-700 text-white rounded-lg font-medium transition-all duration-300 shadow-lg"
@@ -434,10 +512,20 @@ const FacultyDashboard = () => {
                 <Download className="w-5 h-5" />
                 CSV
               </button>
+              <button
+                onClick={downloadHTML}
+                className="flex items-center gap-2 px-6 py-3 bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 text-white rounded-lg font-medium transition-all duration-300 shadow-lg"
+              >
+                <Download className="w-5 h-5" />
+                HTML
+              </button>
             </div>
           </div>
         </div>
 
+        {/* Student disputes sit beside the manual edit table */}
+        <DisputeReviewQueue onReviewed={loadData} />
+
         {/* Daily View - Student List */}
         {viewMode === 'daily' && (
           <div className="bg-white/10 backdrop-blur-lg rounded-xl p-6 border border-white/20">
@@ -490,6 +578,8 @@ const FacultyDashboard = () => {
                               ? 'bg-green-500/20 text-green-300 border border-green-500/30' 
                               : currentStatus === 'Late'
                               ? 'bg-yellow-500/20 text-yellow-300 border border-yellow-500/30'
+                              : currentStatus === 'Excused'
+                              ? 'bg-blue-500/20 text-blue-300 border border-blue-500/30'
                               : 'bg-red-500/20 text-red-300 border border-red-500/30'
                           }`}>
                             {currentStatus}
@@ -511,6 +601,7 @@ const FacultyDashboard = () => {
                               <option value="Present" className="bg-gray-800">Present</option>
                               <option value="Late" className="bg-gray-800">Late</option>
                               <option value="Absent" className="bg-gray-800">Absent</option>
+                              <option value="Excused" className="bg-gray-800">Excused</option>
                             </select>
                           </td>
                         )}
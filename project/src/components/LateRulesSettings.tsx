@@ -0,0 +1,118 @@
+import { useState } from 'react';
+import { Clock, Save } from 'lucide-react';
+import { database } from '../utils/database';
+import { LateRules, LateWindows, windowsFor } from '../utils/lateRules';
+
+const inputClass =
+  'w-full px-3 py-2 border border-white/30 rounded-lg bg-white/10 text-white text-sm focus:ring-2 focus:ring-purple-500 focus:border-transparent';
+
+const WINDOW_FIELDS: { key: keyof LateWindows; label: string }[] = [
+  { key: 'graceMinutes', label: 'Present until (min)' },
+  { key: 'lateMinutes', label: 'Late until (min)' },
+  { key: 'cutoffMinutes', label: 'Check-in closes (min)' },
+];
+
+// Grace window, late window and check-in cutoff, counted from each session's scheduled start
+export default function LateRulesSettings({ canWrite }: { canWrite: boolean }) {
+  const [draft, setDraft] = useState<LateRules>(database.getLateRules());
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const courses = database.getCourses();
+
+  const update = (changes: Partial<LateRules>) => {
+    setMessage(null);
+    setDraft(prev => ({ ...prev, ...changes }));
+  };
+
+  const setCourseOverride = (courseId: string, windows: LateWindows | null) => {
+    const courseOverrides = { ...draft.courseOverrides };
+    if (windows) courseOverrides[courseId] = windows;
+    else delete courseOverrides[courseId];
+    update({ courseOverrides });
+  };
+
+  const save = async () => {
+    try {
+      await database.saveLateRules(draft);
+      setMessage({ type: 'success', text: 'Late-arrival rules saved' });
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Could not save the late-arrival rules' });
+    }
+  };
+
+  const windowInputs = (windows: LateWindows, onChange: (windows: LateWindows) => void) =>
+    WINDOW_FIELDS.map(({ key, label }) => (
+      <div key={key}>
+        <label className="block text-xs font-medium text-gray-400 mb-1">{label}</label>
+        <input
+          type="number"
+          min={0}
+          value={windows[key]}
+          onChange={e => onChange({ ...windows, [key]: Number(e.target.value) })}
+          className={inputClass}
+        />
+      </div>
+    ));
+
+  return (
+    <div className="bg-white/10 backdrop-blur-lg rounded-xl shadow-2xl p-6 border border-white/20">
+      <div className="flex items-center space-x-3 mb-4">
+        <div className="p-2 bg-yellow-500/20 rounded-lg backdrop-blur-sm">
+          <Clock className="h-5 w-5 text-yellow-400" />
+        </div>
+        <div>
+          <h3 className="text-lg font-semibold text-white">Late Arrivals</h3>
+          <p className="text-sm text-gray-300">
+            Minutes after a class starts: check-ins are Present, then Late, then Absent, and refused after the cutoff
+          </p>
+        </div>
+      </div>
+
+      <fieldset disabled={!canWrite} className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          {windowInputs(draft, windows => update(windows))}
+        </div>
+
+        {courses.length > 0 && (
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">Course overrides</label>
+            <div className="space-y-2">
+              {courses.map(course => {
+                const override = draft.courseOverrides[course.id];
+                return (
+                  <div key={course.id} className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end">
+                    <label className="flex items-center gap-2 text-sm text-white">
+                      <input
+                        type="checkbox"
+                        checked={!!override}
+                        onChange={e => setCourseOverride(course.id, e.target.checked ? windowsFor(draft, course.id) : null)}
+                        className="rounded border-white/30 bg-white/10"
+                      />
+                      <span className="truncate">
+                        {course.code} <span className="text-gray-400">{course.name}</span>
+                      </span>
+                    </label>
+                    {override && windowInputs(override, windows => setCourseOverride(course.id, windows))}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
+        <div className="flex items-center gap-3">
+          <button
+            type="button"
+            onClick={save}
+            className="flex items-center gap-2 bg-gradient-to-r from-green-600 to-cyan-600 text-white px-4 py-2 rounded-lg font-medium text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Save className="h-4 w-4" />
+            Save Rules
+          </button>
+          {message && (
+            <span className={`text-sm ${message.type === 'success' ? 'text-green-300' : 'text-red-300'}`}>{message.text}</span>
+          )}
+        </div>
+      </fieldset>
+    </div>
+  );
+}
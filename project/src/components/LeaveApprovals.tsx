@@ -0,0 +1,92 @@
+import { useState, useEffect } from 'react';
+import { Calendar, CheckCircle, XCircle, FileText } from 'lucide-react';
+import { database } from '../utils/database';
+import { formatLeaveDates } from '../utils/leave';
+import { LeaveRequest } from '../types';
+
+// Pending leave requests for faculty and department heads to approve or reject
+export default function LeaveApprovals({ onReviewed }: { onReviewed?: () => void }) {
+  const [pending, setPending] = useState<LeaveRequest[]>([]);
+
+  useEffect(() => {
+    loadPending();
+  }, []);
+
+  const loadPending = () => {
+    setPending(database.getLeaveRequests().filter(request => request.status === 'pending'));
+  };
+
+  const studentName = (request: LeaveRequest) => {
+    const student = database.getStudents().find(s => s.id === request.studentId);
+    return student ? `${student.name} (${student.rollNo})` : request.studentId;
+  };
+
+  const handleReview = (request: LeaveRequest, approved: boolean) => {
+    const comment = window.prompt(
+      approved
+        ? `Comment for approving ${studentName(request)}'s leave (optional):`
+        : `Reason for rejecting ${studentName(request)}'s leave:`
+    );
+    if (comment === null) return;
+
+    try {
+      const reviewed = database.reviewLeaveRequest(request.id, approved, comment);
+      if (reviewed?.status === 'approved') {
+        alert(`Leave approved - ${reviewed.excusedSessions} class(es) marked Excused`);
+      }
+      loadPending();
+      onReviewed?.();
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to review leave request');
+    }
+  };
+
+  if (pending.length === 0) return null;
+
+  return (
+    <div className="bg-blue-500/10 backdrop-blur-lg rounded-xl p-6 border border-blue-500/30">
+      <h2 className="text-xl font-bold text-white mb-4 flex items-center">
+        <Calendar className="h-6 w-6 mr-2 text-blue-400" />
+        Leave Requests ({pending.length})
+      </h2>
+      <div className="space-y-2">
+        {pending.map(request => (
+          <div key={request.id} className="flex flex-col md:flex-row md:items-center justify-between gap-3 bg-white/5 rounded-lg px-4 py-3">
+            <div>
+              <p className="text-white font-medium">{studentName(request)}</p>
+              <p className="text-sm text-gray-300">
+                {formatLeaveDates(request)} · {request.reason}
+              </p>
+              {request.document && (
+                <a
+                  href={request.document.url}
+                  download={request.document.name}
+                  className="inline-flex items-center gap-1 mt-1 text-xs text-cyan-300 hover:text-cyan-200"
+                >
+                  <FileText className="h-3 w-3" />
+                  {request.document.name}
+                </a>
+              )}
+            </div>
+            <div className="flex gap-2">
+              <button
+                onClick={() => handleReview(request, true)}
+                className="flex items-center gap-1 px-3 py-2 bg-green-600/80 hover:bg-green-600 text-white text-sm rounded-lg transition-all duration-200"
+              >
+                <CheckCircle className="h-4 w-4" />
+                Approve
+              </button>
+              <button
+                onClick={() => handleReview(request, false)}
+                className="flex items-center gap-1 px-3 py-2 bg-red-600/80 hover:bg-red-600 text-white text-sm rounded-lg transition-all duration-200"
+              >
+                <XCircle className="h-4 w-4" />
+                Reject
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
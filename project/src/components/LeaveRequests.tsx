@@ -0,0 +1,156 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Calendar, FileText, Upload } from 'lucide-react';
+import { database } from '../utils/database';
+import { formatLeaveDates, readLeaveDocument } from '../utils/leave';
+import { LeaveRequest, StudentFile } from '../types';
+
+const inputClass =
+  'w-full px-3 py-2 border border-white/30 rounded-lg bg-white/10 text-white text-sm focus:ring-2 focus:ring-purple-500 focus:border-transparent';
+
+const STATUS_BADGES: Record<LeaveRequest['status'], string> = {
+  pending: 'bg-yellow-500/20 text-yellow-400',
+  approved: 'bg-green-500/20 text-green-400',
+  rejected: 'bg-red-500/20 text-red-400',
+};
+
+const toDateInput = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+// Parse a yyyy-mm-dd input as a local date (new Date('yyyy-mm-dd') would be UTC midnight)
+const fromDateInput = (value: string) => {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+// A student's own leave requests and the form to submit a new one
+export default function LeaveRequests({ studentId, onChange }: { studentId: string; onChange?: () => void }) {
+  const [requests, setRequests] = useState<LeaveRequest[]>([]);
+  const [from, setFrom] = useState(toDateInput(new Date()));
+  const [to, setTo] = useState(toDateInput(new Date()));
+  const [reason, setReason] = useState('');
+  const [attachment, setAttachment] = useState<StudentFile | undefined>();
+  const [submitting, setSubmitting] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const loadRequests = useCallback(() => {
+    setRequests(database.getLeaveRequests().filter(request => request.studentId === studentId));
+  }, [studentId]);
+
+  useEffect(() => {
+    loadRequests();
+  }, [loadRequests]);
+
+  const handleDocument = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    setMessage(null);
+    if (!file) {
+      setAttachment(undefined);
+      return;
+    }
+    try {
+      setAttachment(await readLeaveDocument(file));
+    } catch (error) {
+      e.target.value = '';
+      setAttachment(undefined);
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Could not read the document' });
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    try {
+      database.submitLeaveRequest({ studentId, from: fromDateInput(from), to: fromDateInput(to), reason, document: attachment });
+      setReason('');
+      setAttachment(undefined);
+      (e.target as HTMLFormElement).reset();
+      setMessage({ type: 'success', text: 'Leave request submitted for approval' });
+      loadRequests();
+      onChange?.();
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to submit leave request' });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="bg-white/10 backdrop-blur-lg rounded-xl p-6 border border-white/20">
+      <h3 className="text-xl font-bold text-white mb-4 flex items-center">
+        <Calendar className="h-6 w-6 mr-2 text-blue-400" />
+        Leave Requests
+      </h3>
+
+      <form onSubmit={handleSubmit} className="grid grid-cols-1 md:grid-cols-4 gap-3">
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-1">From</label>
+          <input type="date" required value={from} onChange={e => setFrom(e.target.value)} className={inputClass} />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-1">To</label>
+          <input type="date" required value={to} min={from} onChange={e => setTo(e.target.value)} className={inputClass} />
+        </div>
+        <div className="md:col-span-2">
+          <label className="block text-sm font-medium text-gray-300 mb-1">Reason</label>
+          <input
+            type="text"
+            required
+            value={reason}
+            onChange={e => setReason(e.target.value)}
+            placeholder="e.g. Medical leave"
+            className={inputClass}
+          />
+        </div>
+        <div className="md:col-span-3">
+          <label className="block text-sm font-medium text-gray-300 mb-1">Supporting document (PDF or image, optional)</label>
+          <input type="file" accept="application/pdf,image/jpeg,image/png" onChange={handleDocument} className={`${inputClass} file:mr-3 file:border-0 file:bg-transparent file:text-cyan-300`} />
+        </div>
+        <div className="flex items-end">
+          <button
+            type="submit"
+            disabled={submitting}
+            className="w-full flex items-center justify-center gap-2 bg-gradient-to-r from-blue-600 to-cyan-600 text-white px-4 py-2 rounded-lg font-medium text-sm disabled:opacity-50"
+          >
+            <Upload className="h-4 w-4" />
+            Request Leave
+          </button>
+        </div>
+      </form>
+
+      {message && (
+        <p className={`mt-3 text-sm ${message.type === 'success' ? 'text-green-300' : 'text-red-300'}`}>{message.text}</p>
+      )}
+
+      {requests.length > 0 && (
+        <div className="mt-4 space-y-2">
+          {requests.map(request => (
+            <div key={request.id} className="flex flex-col md:flex-row md:items-center justify-between gap-2 bg-white/5 rounded-lg px-4 py-3">
+              <div>
+                <p className="text-white text-sm">
+                  {formatLeaveDates(request)} · {request.reason}
+                </p>
+                {request.document && (
+                  <p className="flex items-center gap-1 text-xs text-gray-400">
+                    <FileText className="h-3 w-3" />
+                    {request.document.name}
+                  </p>
+                )}
+                {request.reviewedAt && (
+                  <p className="text-xs text-gray-400">
+                    {request.status === 'approved' ? 'Approved' : 'Rejected'} by {request.reviewerName || 'staff'} on{' '}
+                    {new Date(request.reviewedAt).toLocaleDateString()}
+                    {request.reviewComment && ` - "${request.reviewComment}"`}
+                    {request.status === 'approved' && ` · ${request.excusedSessions ?? 0} class(es) excused`}
+                  </p>
+                )}
+              </div>
+              <span className={`self-start md:self-center px-3 py-1 rounded-full text-xs font-medium capitalize ${STATUS_BADGES[request.status]}`}>
+                {request.status}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Activity, Clock } from 'lucide-react';
+import { database } from '../utils/database';
+import { useLiveAttendance, LiveStatus } from '../hooks/useLiveAttendance';
+import { isAttended } from '../utils/timetable';
+import { AttendanceRecord, ClassSession } from '../types';
+
+const STATUS_LABELS: Record<LiveStatus, { label: string; className: string }> = {
+  live: { label: 'Live', className: 'bg-green-500/20 text-green-300 border-green-500/40' },
+  polling: { label: 'Reconnecting · refreshing every few seconds', className: 'bg-yellow-500/20 text-yellow-300 border-yellow-500/40' },
+  local: { label: 'This device only', className: 'bg-white/10 text-gray-300 border-white/20' },
+};
+
+// Check-ins for one class session in arrival order, updated as they happen
+export default function LiveSessionBoard({ session, onChange }: { session: ClassSession; onChange?: () => void }) {
+  const [arrivals, setArrivals] = useState<AttendanceRecord[]>([]);
+  const rosterSize = database.getSection(session.sectionId)?.studentIds.length ?? 0;
+
+  const loadArrivals = useCallback(() => {
+    setArrivals(
+      database
+        .getAttendanceRecords()
+        .filter(r => r.sessionId === session.id && isAttended(r.status))
+        .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())
+    );
+  }, [session.id]);
+
+  useEffect(() => {
+    loadArrivals();
+  }, [loadArrivals]);
+
+  const status = useLiveAttendance(session.id, () => {
+    loadArrivals();
+    onChange?.();
+  });
+
+  const late = arrivals.filter(r => r.status === 'Late').length;
+
+  return (
+    <div className="bg-white/10 backdrop-blur-lg rounded-xl p-6 border border-white/20">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-bold text-white flex items-center">
+          <Activity className="h-6 w-6 mr-2 text-cyan-400" />
+          Live Arrivals
+        </h2>
+        <span className={`text-xs px-3 py-1 rounded-full border ${STATUS_LABELS[status].className}`}>
+          {STATUS_LABELS[status].label}
+        </span>
+      </div>
+
+      <div className="flex items-baseline gap-3 mb-4">
+        <span className="text-4xl font-bold text-white">{arrivals.length}</span>
+        <span className="text-gray-300">of {rosterSize} present</span>
+        {late > 0 && <span className="text-sm text-yellow-300">({late} late)</span>}
+      </div>
+
+      {arrivals.length === 0 ? (
+        <p className="text-gray-400 text-sm">No check-ins yet.</p>
+      ) : (
+        <ol className="space-y-2 max-h-80 overflow-y-auto">
+          {arrivals.map((record, index) => (
+            <li key={record.id} className="flex items-center justify-between bg-white/5 rounded-lg px-4 py-2">
+              <div className="flex items-center gap-3">
+                <span className="w-8 text-right text-gray-400 font-mono">#{index + 1}</span>
+                <span className="text-white font-medium">
+                  {record.name || record.studentId} {record.rollNo && <span className="text-gray-400">({record.rollNo})</span>}
+                </span>
+                {record.status === 'Late' && (
+                  <span className="text-xs px-2 py-0.5 rounded-full bg-yellow-500/20 text-yellow-300 border border-yellow-500/40">
+                    Late
+                  </span>
+                )}
+              </div>
+              <span className="flex items-center text-sm text-gray-300">
+                <Clock className="h-4 w-4 mr-1" />
+                {new Date(record.timestamp).toLocaleTimeString()}
+              </span>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
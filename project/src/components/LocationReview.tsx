@@ -0,0 +1,86 @@
+import { useState, useEffect } from 'react';
+import { MapPin, CheckCircle, XCircle } from 'lucide-react';
+import { database } from '../utils/database';
+import { needsLocationReview } from '../utils/geofence';
+import { AttendanceRecord } from '../types';
+
+// Check-ins made outside the room geofence or without a location, waiting for faculty to accept or reject
+export default function LocationReview({ onReviewed }: { onReviewed?: () => void }) {
+  const [flagged, setFlagged] = useState<AttendanceRecord[]>([]);
+
+  useEffect(() => {
+    loadFlagged();
+  }, []);
+
+  const loadFlagged = () => {
+    setFlagged(
+      database
+        .getAttendanceRecords()
+        .filter(needsLocationReview)
+        .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
+    );
+  };
+
+  const handleReview = (record: AttendanceRecord, accepted: boolean) => {
+    const reason = window.prompt(
+      accepted
+        ? `Why is ${record.name || 'this student'}'s check-in location acceptable?`
+        : `Reason for marking ${record.name || 'this student'} absent:`
+    );
+    if (reason === null) return;
+    if (!reason.trim()) {
+      alert('A reason is required');
+      return;
+    }
+
+    try {
+      database.reviewLocation(record.id, accepted, reason.trim());
+      loadFlagged();
+      onReviewed?.();
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to review check-in');
+    }
+  };
+
+  if (flagged.length === 0) return null;
+
+  return (
+    <div className="bg-yellow-500/10 backdrop-blur-lg rounded-xl p-6 border border-yellow-500/30">
+      <h2 className="text-xl font-bold text-white mb-4 flex items-center">
+        <MapPin className="h-6 w-6 mr-2 text-yellow-400" />
+        Location Review ({flagged.length})
+      </h2>
+      <div className="space-y-2">
+        {flagged.map(record => (
+          <div key={record.id} className="flex items-center justify-between bg-white/5 rounded-lg px-4 py-3">
+            <div>
+              <p className="text-white font-medium">{record.name || record.studentId} {record.rollNo && `(${record.rollNo})`}</p>
+              <p className="text-sm text-gray-300">
+                {new Date(record.timestamp).toLocaleString()} · {record.subject || 'No session'} ·{' '}
+                {record.locationStatus === 'outside'
+                  ? `${record.distanceMeters} m outside the room`
+                  : 'No location from device'}
+              </p>
+            </div>
+            <div className="flex gap-2">
+              <button
+                onClick={() => handleReview(record, true)}
+                className="flex items-center gap-1 px-3 py-2 bg-green-600/80 hover:bg-green-600 text-white text-sm rounded-lg transition-all duration-200"
+              >
+                <CheckCircle className="h-4 w-4" />
+                Accept
+              </button>
+              <button
+                onClick={() => handleReview(record, false)}
+                className="flex items-center gap-1 px-3 py-2 bg-red-600/80 hover:bg-red-600 text-white text-sm rounded-lg transition-all duration-200"
+              >
+                <XCircle className="h-4 w-4" />
+                Mark Absent
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
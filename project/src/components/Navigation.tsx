@@ -1,7 +1,9 @@
-import React, { useContext } from 'react';
+import React, { useContext, useEffect, useState } from 'react';
 import { Link, useNavigate, useLocation } from 'react-router-dom';
-import { ArrowLeft } from 'lucide-react';
+import { AlertTriangle, ArrowLeft, CloudOff, RefreshCw } from 'lucide-react';
 import { AuthContext } from '../App';
+import { Permission, ROLE_LABELS } from '../utils/permissions';
+import { database } from '../utils/database';
 
 interface NavigationProps {
   userType: 'faculty' | 'student' | null;
@@ -11,6 +13,10 @@ const Navigation: React.FC<NavigationProps> = ({ userType }) => {
   const auth = useContext(AuthContext);
   const navigate = useNavigate();
   const location = useLocation();
+  const [syncStatus, setSyncStatus] = useState(database.getSyncStatus());
+  const [showRejected, setShowRejected] = useState(false);
+
+  useEffect(() => database.onSyncStatusChange(setSyncStatus), []);
 
   const handleLogout = () => {
     if (auth) {
@@ -23,17 +29,19 @@ const Navigation: React.FC<NavigationProps> = ({ userType }) => {
     navigate('/');
   };
 
-  const tabs = [
+  // Each tab requires the same permission as its route in App.tsx
+  const tabs: { id: string; label: string; path: string; permission?: Permission }[] = [
     { id: 'dashboard', label: 'Dashboard', path: '/dashboard' },
     { id: 'attendance', label: 'Attendance', path: '/attendance' },
-    { id: 'students', label: 'Students', path: '/students', facultyOnly: true },
-    { id: 'analytics', label: 'Analytics', path: '/analytics', facultyOnly: true },
-    { id: 'faculty-analytics', label: "Today's Session", path: '/faculty-analytics', facultyOnly: true },
-      { id: 'student-monitoring', label: 'Student Monitoring', path: '/student-monitoring', facultyOnly: true },
+    { id: 'students', label: 'Students', path: '/students', permission: 'students.view' },
+    { id: 'courses', label: 'Courses', path: '/courses', permission: 'courses.manage' },
+    { id: 'analytics', label: 'Analytics', path: '/analytics', permission: 'reports.view' },
+    { id: 'faculty-analytics', label: "Today's Session", path: '/faculty-analytics', permission: 'attendance.mark' },
+      { id: 'student-monitoring', label: 'Student Monitoring', path: '/student-monitoring', permission: 'reports.view' },
     { id: 'settings', label: 'Settings', path: '/settings' },
   ];
 
-  const filteredTabs = tabs.filter(tab => !tab.facultyOnly || userType === 'faculty');
+  const filteredTabs = tabs.filter(tab => !tab.permission || auth?.can(tab.permission));
 
   return (
     <nav className="bg-black/50 backdrop-blur-sm border-b border-white/10 relative z-20">
@@ -61,9 +69,53 @@ const Navigation: React.FC<NavigationProps> = ({ userType }) => {
             ))}
           </div>
           <div className="flex items-center space-x-4">
+            {syncStatus.pending > 0 && (
+              <button
+                onClick={() => database.syncOutbox()}
+                title={syncStatus.lastError ? `Last sync failed: ${syncStatus.lastError}` : 'Check-ins saved on this device, waiting to sync'}
+                className="inline-flex items-center px-3 py-1 bg-yellow-500/20 rounded-lg border border-yellow-500/30 text-sm text-yellow-300 font-medium"
+              >
+                {syncStatus.syncing
+                  ? <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
+                  : <CloudOff className="h-4 w-4 mr-2" />}
+                {syncStatus.pending} pending sync
+              </button>
+            )}
+            {syncStatus.rejected > 0 && (
+              <div className="relative">
+                <button
+                  onClick={() => setShowRejected(shown => !shown)}
+                  title="Changes the server refused; they will not be sent again"
+                  className="inline-flex items-center px-3 py-1 bg-red-500/20 rounded-lg border border-red-500/30 text-sm text-red-300 font-medium"
+                >
+                  <AlertTriangle className="h-4 w-4 mr-2" />
+                  {syncStatus.rejected} rejected
+                </button>
+                {showRejected && (
+                  <div className="absolute right-0 mt-2 w-80 bg-gray-900 border border-white/10 rounded-lg shadow-xl p-3 space-y-2 z-30">
+                    {database.getRejectedChanges().map(entry => (
+                      <div key={entry.id} className="flex items-start justify-between text-sm">
+                        <div>
+                          <div className="text-white">
+                            {entry.record.name || entry.record.rollNo || entry.record.studentId}: {entry.record.status}
+                          </div>
+                          <div className="text-red-300 text-xs">{entry.lastError}</div>
+                        </div>
+                        <button
+                          onClick={() => database.dismissRejectedChange(entry.id)}
+                          className="text-xs text-gray-400 hover:text-white ml-2"
+                        >
+                          Dismiss
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
             <div className="px-3 py-1 bg-gradient-to-r from-purple-500/20 to-cyan-500/20 rounded-lg border border-purple-500/30">
               <span className="text-sm text-purple-300 capitalize font-medium">
-                {userType} Mode
+                {auth?.role ? ROLE_LABELS[auth.role] : userType} Mode
               </span>
             </div>
             <button
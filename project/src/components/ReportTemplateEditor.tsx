@@ -0,0 +1,245 @@
+import { useEffect, useMemo, useState } from 'react';
+import { FileText, Save, Trash2 } from 'lucide-react';
+import { reportGenerator, AttendanceReportData } from '../utils/pdfGenerator';
+import {
+  DEFAULT_REPORT_TEMPLATE,
+  REPORT_COLUMNS,
+  REPORT_PLACEHOLDERS,
+  ReportColumnKey,
+  ReportTemplate,
+  findUnknownPlaceholders,
+  loadReportTemplates,
+  saveReportTemplates,
+} from '../utils/reportTemplates';
+import { DEPARTMENTS } from '../utils/studentImport';
+
+// Made-up class the preview pane renders with
+const SAMPLE_REPORT: AttendanceReportData = {
+  date: new Date(),
+  className: 'CSE - Section A',
+  subject: 'Data Structures (09:00 - 10:00)',
+  faculty: 'Dr. A. Kumar',
+  students: [
+    ['CS001', 'Aarav Sharma', 'Present', 0.94, ''],
+    ['CS002', 'Diya Patel', 'Late', 0.89, 'Arrived 12 min late'],
+    ['CS003', 'Kabir Singh', 'Absent', undefined, ''],
+    ['CS004', 'Meera Iyer', 'Present', 0.97, 'Marked manually'],
+  ].map(([rollNo, name, status, confidence, remarks], index) => ({
+    student: { id: `sample-${index}`, rollNo, name, email: '', department: 'Computer Science', role: 'student', createdAt: new Date() },
+    status: status as 'Present' | 'Late' | 'Absent',
+    markedAt: status === 'Absent' ? undefined : new Date(new Date().setHours(9, index * 4, 0, 0)),
+    confidence: confidence as number | undefined,
+    remarks: remarks as string,
+  })) as AttendanceReportData['students'],
+  statistics: { totalStudents: 4, present: 2, absent: 1, late: 1, attendancePercentage: 75 },
+};
+
+const inputClass =
+  'w-full px-3 py-2 border border-white/30 rounded-lg bg-white/10 text-white text-sm focus:ring-2 focus:ring-purple-500 focus:border-transparent';
+const lines = (text: string) => text.split('\n');
+
+// Named report layouts: edit on the left, see the rendered report on the right
+export default function ReportTemplateEditor({ canWrite }: { canWrite: boolean }) {
+  const [templates, setTemplates] = useState<ReportTemplate[]>([DEFAULT_REPORT_TEMPLATE]);
+  const [selectedId, setSelectedId] = useState(DEFAULT_REPORT_TEMPLATE.id);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  useEffect(() => {
+    loadReportTemplates()
+      .then(loaded => {
+        setTemplates(loaded);
+        setSelectedId(loaded[0].id);
+      })
+      .catch(error => console.error('Failed to load report templates:', error));
+  }, []);
+
+  const draft = templates.find(t => t.id === selectedId) ?? templates[0];
+  const preview = useMemo(() => reportGenerator.generateHTMLReport(SAMPLE_REPORT, draft), [draft]);
+  const unknownPlaceholders = findUnknownPlaceholders(draft);
+
+  const update = (changes: Partial<ReportTemplate>) => {
+    setMessage(null);
+    setTemplates(prev => prev.map(t => (t.id === draft.id ? { ...t, ...changes } : t)));
+  };
+
+  const toggleColumn = (key: ReportColumnKey) => {
+    const included = draft.columns.some(c => c.key === key);
+    update({
+      columns: included ? draft.columns.filter(c => c.key !== key) : [...draft.columns, { key, label: REPORT_COLUMNS[key].label }],
+    });
+  };
+
+  const moveColumn = (index: number, offset: number) => {
+    const columns = [...draft.columns];
+    const [column] = columns.splice(index, 1);
+    columns.splice(index + offset, 0, column);
+    update({ columns });
+  };
+
+  const addTemplate = () => {
+    const copy = { ...draft, id: `template-${Date.now()}`, name: `${draft.name} (copy)`, department: undefined };
+    setTemplates(prev => [...prev, copy]);
+    setSelectedId(copy.id);
+  };
+
+  const removeTemplate = () => {
+    const remaining = templates.filter(t => t.id !== draft.id);
+    setTemplates(remaining);
+    setSelectedId(remaining[0].id);
+  };
+
+  const save = async () => {
+    try {
+      await saveReportTemplates(templates);
+      setMessage({ type: 'success', text: 'Report templates saved' });
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Could not save report templates' });
+    }
+  };
+
+  return (
+    <div className="bg-white/10 backdrop-blur-lg rounded-xl shadow-2xl p-6 border border-white/20">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-3">
+          <div className="p-2 bg-cyan-500/20 rounded-lg backdrop-blur-sm">
+            <FileText className="h-5 w-5 text-cyan-400" />
+          </div>
+          <div>
+            <h3 className="text-lg font-semibold text-white">Report Templates</h3>
+            <p className="text-sm text-gray-300">Layouts used by the PDF, HTML and CSV exports</p>
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <select value={draft.id} onChange={e => setSelectedId(e.target.value)} className={`${inputClass} w-48`}>
+            {templates.map(t => (
+              <option key={t.id} value={t.id} className="bg-gray-800 text-white">{t.name}</option>
+            ))}
+          </select>
+          {canWrite && (
+            <button onClick={addTemplate} className="px-3 py-2 bg-white/10 hover:bg-white/20 text-white text-sm rounded-lg">
+              Duplicate
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+        <fieldset disabled={!canWrite} className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-1">Name</label>
+              <input value={draft.name} onChange={e => update({ name: e.target.value })} className={inputClass} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-1">Default for</label>
+              <select
+                value={draft.department || ''}
+                onChange={e => update({ department: e.target.value || undefined })}
+                className={inputClass}
+              >
+                <option value="" className="bg-gray-800 text-white">All departments</option>
+                {DEPARTMENTS.map(department => (
+                  <option key={department} value={department} className="bg-gray-800 text-white">{department}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-1">Header</label>
+              <input value={draft.header} onChange={e => update({ header: e.target.value })} className={inputClass} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-1">Tagline</label>
+              <input value={draft.tagline} onChange={e => update({ tagline: e.target.value })} className={inputClass} />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-1">Title</label>
+            <input value={draft.title} onChange={e => update({ title: e.target.value })} className={inputClass} />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-1">Details (one "Label: value" per line)</label>
+            <textarea rows={4} value={draft.details.join('\n')} onChange={e => update({ details: lines(e.target.value) })} className={inputClass} />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">Columns</label>
+            <div className="space-y-2">
+              {draft.columns.map((column, index) => (
+                <div key={column.key} className="flex items-center gap-2">
+                  <input type="checkbox" checked onChange={() => toggleColumn(column.key)} className="rounded bg-white/20 border-white/30" />
+                  <input
+                    value={column.label}
+                    onChange={e => update({ columns: draft.columns.map(c => (c.key === column.key ? { ...c, label: e.target.value } : c)) })}
+                    className={`${inputClass} py-1`}
+                  />
+                  <button type="button" disabled={index === 0} onClick={() => moveColumn(index, -1)} className="px-2 text-gray-300 disabled:opacity-30">↑</button>
+                  <button type="button" disabled={index === draft.columns.length - 1} onClick={() => moveColumn(index, 1)} className="px-2 text-gray-300 disabled:opacity-30">↓</button>
+                </div>
+              ))}
+              <div className="flex flex-wrap gap-3 text-xs text-gray-400">
+                {(Object.keys(REPORT_COLUMNS) as ReportColumnKey[])
+                  .filter(key => !draft.columns.some(c => c.key === key))
+                  .map(key => (
+                    <label key={key} className="flex items-center gap-1">
+                      <input type="checkbox" checked={false} onChange={() => toggleColumn(key)} className="rounded bg-white/20 border-white/30" />
+                      {REPORT_COLUMNS[key].label}
+                    </label>
+                  ))}
+              </div>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-1">Footnotes (one per line)</label>
+              <textarea rows={3} value={draft.footnotes.join('\n')} onChange={e => update({ footnotes: lines(e.target.value) })} className={inputClass} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-1">Signature lines (one per line)</label>
+              <textarea rows={3} value={draft.signatories.join('\n')} onChange={e => update({ signatories: lines(e.target.value) })} className={inputClass} />
+            </div>
+          </div>
+
+          <p className="text-xs text-gray-400">
+            Placeholders: {Object.keys(REPORT_PLACEHOLDERS).map(name => `{{${name}}}`).join(', ')}
+          </p>
+          {unknownPlaceholders.length > 0 && (
+            <p className="text-xs text-yellow-300">
+              Unknown placeholders are printed as typed: {unknownPlaceholders.map(name => `{{${name}}}`).join(', ')}
+            </p>
+          )}
+
+          <div className="flex items-center gap-3">
+            <button
+              type="button"
+              onClick={save}
+              className="flex items-center gap-2 bg-gradient-to-r from-green-600 to-cyan-600 text-white px-4 py-2 rounded-lg font-medium text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Save className="h-4 w-4" />
+              Save Templates
+            </button>
+            <button
+              type="button"
+              onClick={removeTemplate}
+              disabled={templates.length < 2}
+              className="flex items-center gap-2 bg-white/10 hover:bg-white/20 text-white px-4 py-2 rounded-lg text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Trash2 className="h-4 w-4" />
+              Delete
+            </button>
+            {message && (
+              <span className={`text-sm ${message.type === 'success' ? 'text-green-300' : 'text-red-300'}`}>{message.text}</span>
+            )}
+          </div>
+        </fieldset>
+
+        <div>
+          <p className="text-sm font-medium text-gray-300 mb-1">Preview (sample class)</p>
+          <iframe title="Report preview" srcDoc={preview} sandbox="" className="w-full h-[640px] rounded-lg bg-white" />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,25 @@
+import { ReportTemplate } from '../utils/reportTemplates';
+
+// Picker shown next to report download buttons; hidden while there is only one template
+export default function ReportTemplateSelect({ templates, value, onChange }: {
+  templates: ReportTemplate[];
+  value: ReportTemplate;
+  onChange: (id: string) => void;
+}) {
+  if (templates.length < 2) return null;
+
+  return (
+    <select
+      value={value.id}
+      onChange={e => onChange(e.target.value)}
+      title="Report template"
+      className="px-3 py-2 border border-white/30 rounded-lg bg-white/10 text-white text-sm focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+    >
+      {templates.map(template => (
+        <option key={template.id} value={template.id} className="bg-gray-800 text-white">
+          {template.name}
+        </option>
+      ))}
+    </select>
+  );
+}
@@ -0,0 +1,284 @@
+import { useEffect, useState } from 'react';
+import { Archive, CheckCircle, Save, Trash2, XCircle } from 'lucide-react';
+import { database } from '../utils/database';
+import { facialRecognition } from '../utils/facialRecognition';
+import {
+  DEFAULT_RETENTION_CONFIG,
+  PurgeSchedule,
+  RETENTION_DATA_CLASSES,
+  RetentionConfig,
+  countExpired,
+  downloadPurgeArchive,
+  loadRetentionConfig,
+  planPurge,
+  runRetentionPurge,
+  saveRetentionConfig,
+} from '../utils/retention';
+import { useSettings } from '../hooks/useSettings';
+import { PurgeReport, RetentionDataClass } from '../types';
+
+const inputClass =
+  'w-full px-3 py-2 border border-white/30 rounded-lg bg-white/10 text-white text-sm focus:ring-2 focus:ring-purple-500 focus:border-transparent';
+
+const RETENTION_OPTIONS: { value: number; label: string }[] = [
+  { value: 30, label: '1 month' },
+  { value: 90, label: '3 months' },
+  { value: 180, label: '6 months' },
+  { value: 365, label: '1 year' },
+  { value: 730, label: '2 years' },
+  { value: 1825, label: '5 years' },
+  { value: -1, label: 'Keep forever' },
+];
+
+const SCHEDULE_LABELS: Record<PurgeSchedule, string> = {
+  daily: 'Daily',
+  weekly: 'Weekly',
+  monthly: 'Monthly',
+  manual: 'Only when run by hand',
+};
+
+const daysLabel = (days: number) => RETENTION_OPTIONS.find(option => option.value === days)?.label || `${days} days`;
+
+// Per-class retention, legal holds and the purge that archives and then deletes expired data
+export default function RetentionSettings({ canWrite, canPurge }: { canWrite: boolean; canPurge: boolean }) {
+  const { dataRetention } = useSettings();
+  const [draft, setDraft] = useState<RetentionConfig>(DEFAULT_RETENTION_CONFIG);
+  const [reports, setReports] = useState<PurgeReport[]>([]);
+  const [preview, setPreview] = useState<{ counts: Record<RetentionDataClass, number>; held: number } | null>(null);
+  const [holdStudentId, setHoldStudentId] = useState('');
+  const [holdReason, setHoldReason] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const students = database.getStudents().filter(s => s.role === 'student');
+
+  useEffect(() => {
+    loadRetentionConfig()
+      .then(setDraft)
+      .catch(error => console.error('Failed to load the retention settings:', error));
+    if (canPurge) loadReports();
+  }, [canPurge]);
+
+  const loadReports = () => {
+    database
+      .getPurgeReports()
+      .then(setReports)
+      .catch(error => console.error('Failed to load purge reports:', error));
+  };
+
+  const update = (changes: Partial<RetentionConfig>) => {
+    setMessage(null);
+    setPreview(null);
+    setDraft(prev => ({ ...prev, ...changes }));
+  };
+
+  const setPolicy = (dataClass: RetentionDataClass, value: string) =>
+    update({ policies: { ...draft.policies, [dataClass]: value === '' ? null : Number(value) } });
+
+  const studentLabel = (studentId: string) => {
+    const student = students.find(s => s.id === studentId);
+    return student ? `${student.name} (${student.rollNo})` : studentId;
+  };
+
+  const addHold = () => {
+    if (!holdStudentId) return;
+    update({
+      legalHolds: [
+        ...draft.legalHolds,
+        { studentId: holdStudentId, reason: holdReason.trim(), placedAt: new Date(), placedBy: database.getActor()?.userId || 'system' },
+      ],
+    });
+    setHoldStudentId('');
+    setHoldReason('');
+  };
+
+  const save = async () => {
+    try {
+      await saveRetentionConfig(draft);
+      setMessage({ type: 'success', text: 'Retention settings saved' });
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Could not save the retention settings' });
+    }
+  };
+
+  const showPreview = async () => {
+    setMessage(null);
+    try {
+      // What the saved settings would purge right now
+      const { expired, held } = await planPurge(database, await loadRetentionConfig(), dataRetention);
+      setPreview({ counts: countExpired(expired), held });
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Could not preview the purge' });
+    }
+  };
+
+  const purgeNow = async () => {
+    if (!window.confirm('Archive and then permanently delete all expired data? The archive is downloaded as a JSON file.')) return;
+    setBusy(true);
+    setMessage(null);
+    try {
+      const report = await runRetentionPurge(database, { trigger: 'manual', dataRetention, archiver: downloadPurgeArchive });
+      if (report.purged.faceDescriptors > 0) await facialRecognition.loadFaceDescriptors();
+      setMessage({ type: report.status === 'success' ? 'success' : 'error', text: report.message });
+      setPreview(null);
+      loadReports();
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="bg-white/10 backdrop-blur-lg rounded-xl shadow-2xl p-6 border border-white/20">
+      <div className="flex items-center space-x-3 mb-4">
+        <div className="p-2 bg-pink-500/20 rounded-lg backdrop-blur-sm">
+          <Archive className="h-5 w-5 text-pink-400" />
+        </div>
+        <div>
+          <h3 className="text-lg font-semibold text-white">Data Retention</h3>
+          <p className="text-sm text-gray-300">
+            Expired data is archived and then deleted; students under a legal hold are never purged
+          </p>
+        </div>
+      </div>
+
+      <fieldset disabled={!canWrite} className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
+          {(Object.keys(RETENTION_DATA_CLASSES) as RetentionDataClass[]).map(dataClass => (
+            <div key={dataClass}>
+              <label className="block text-sm font-medium text-gray-300 mb-1">{RETENTION_DATA_CLASSES[dataClass].label}</label>
+              <select
+                value={draft.policies[dataClass] ?? ''}
+                onChange={e => setPolicy(dataClass, e.target.value)}
+                className={inputClass}
+              >
+                <option value="" className="bg-gray-800 text-white">Default ({daysLabel(dataRetention)})</option>
+                {RETENTION_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value} className="bg-gray-800 text-white">{option.label}</option>
+                ))}
+              </select>
+              <p className="text-xs text-gray-400 mt-1">{RETENTION_DATA_CLASSES[dataClass].description}</p>
+            </div>
+          ))}
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-1">Purge schedule</label>
+            <select
+              value={draft.schedule}
+              onChange={e => update({ schedule: e.target.value as PurgeSchedule })}
+              className={inputClass}
+            >
+              {Object.entries(SCHEDULE_LABELS).map(([value, label]) => (
+                <option key={value} value={value} className="bg-gray-800 text-white">{label}</option>
+              ))}
+            </select>
+            <p className="text-xs text-gray-400 mt-1">Runs while an administrator is logged in</p>
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-2">Legal holds</label>
+          <div className="space-y-2">
+            {draft.legalHolds.map(hold => (
+              <div key={hold.studentId} className="flex items-center justify-between gap-3 bg-white/5 rounded-lg px-3 py-2 text-sm">
+                <span className="text-white">
+                  {studentLabel(hold.studentId)} <span className="text-gray-400">{hold.reason} · since {hold.placedAt.toLocaleDateString()}</span>
+                </span>
+                <button
+                  type="button"
+                  onClick={() => update({ legalHolds: draft.legalHolds.filter(h => h.studentId !== hold.studentId) })}
+                  className="text-red-300 hover:text-red-200"
+                  title="Release hold"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+            ))}
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+              <select value={holdStudentId} onChange={e => setHoldStudentId(e.target.value)} className={inputClass}>
+                <option value="" className="bg-gray-800 text-white">Select a student</option>
+                {students
+                  .filter(s => !draft.legalHolds.some(hold => hold.studentId === s.id))
+                  .map(s => (
+                    <option key={s.id} value={s.id} className="bg-gray-800 text-white">{s.name} ({s.rollNo})</option>
+                  ))}
+              </select>
+              <input
+                value={holdReason}
+                onChange={e => setHoldReason(e.target.value)}
+                placeholder="Reason, e.g. case number"
+                className={inputClass}
+              />
+              <button
+                type="button"
+                onClick={addHold}
+                disabled={!holdStudentId || !holdReason.trim()}
+                className="px-4 py-2 bg-white/10 hover:bg-white/20 text-white text-sm rounded-lg disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Place hold
+              </button>
+            </div>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3">
+          <button
+            type="button"
+            onClick={save}
+            className="flex items-center gap-2 bg-gradient-to-r from-green-600 to-cyan-600 text-white px-4 py-2 rounded-lg font-medium text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Save className="h-4 w-4" />
+            Save Retention
+          </button>
+          {message && (
+            <span className={`text-sm ${message.type === 'success' ? 'text-green-300' : 'text-red-300'}`}>{message.text}</span>
+          )}
+        </div>
+      </fieldset>
+
+      {canPurge && (
+        <div className="mt-6 pt-4 border-t border-white/10 space-y-3">
+          <div className="flex flex-wrap gap-3">
+            <button
+              onClick={showPreview}
+              className="px-4 py-2 bg-white/10 hover:bg-white/20 text-white text-sm rounded-lg"
+            >
+              Preview purge
+            </button>
+            <button
+              onClick={purgeNow}
+              disabled={busy}
+              className="px-4 py-2 bg-gradient-to-r from-red-600 to-pink-600 text-white text-sm rounded-lg font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {busy ? 'Purging...' : 'Archive & purge now'}
+            </button>
+          </div>
+
+          {preview && (
+            <p className="text-sm text-gray-300">
+              Would purge{' '}
+              {(Object.keys(preview.counts) as RetentionDataClass[])
+                .map(dataClass => `${preview.counts[dataClass]} ${RETENTION_DATA_CLASSES[dataClass].label.toLowerCase()}`)
+                .join(', ')}
+              {preview.held > 0 && `; ${preview.held} item(s) kept under legal hold`}
+            </p>
+          )}
+
+          {reports.length > 0 && (
+            <div className="max-h-60 overflow-y-auto space-y-1">
+              {reports.slice(0, 20).map(report => (
+                <div key={report.id} className="flex items-start gap-2 text-sm">
+                  {report.status === 'success' ? (
+                    <CheckCircle className="h-4 w-4 mt-0.5 text-green-400 flex-shrink-0" />
+                  ) : (
+                    <XCircle className="h-4 w-4 mt-0.5 text-red-400 flex-shrink-0" />
+                  )}
+                  <span className="text-gray-400 whitespace-nowrap">{report.startedAt.toLocaleString()}</span>
+                  {report.trigger === 'manual' && <span className="text-xs text-gray-400">(manual)</span>}
+                  <span className={report.status === 'success' ? 'text-gray-300' : 'text-red-300'}>{report.message}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
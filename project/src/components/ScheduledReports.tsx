@@ -0,0 +1,347 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Clock, Mail, RefreshCw, Save, Trash2, CheckCircle, XCircle } from 'lucide-react';
+import { database } from '../utils/database';
+import { HttpAdapter } from '../utils/storage/httpAdapter';
+import { ReportJobRun } from '../types';
+import { ReportJob, REPORT_TYPES, ScheduledReportType, validateReportJob } from '../utils/scheduledReports';
+import { nextCronRun, parseCron } from '../utils/cron';
+import { DEPARTMENTS } from '../utils/studentImport';
+import { useReportTemplates } from '../hooks/useReportTemplates';
+
+const SCHEDULE_PRESETS = [
+  { label: 'Every day at 6 pm', schedule: '0 18 * * *' },
+  { label: 'Weekdays at 6 pm', schedule: '0 18 * * 1-5' },
+  { label: 'Fridays at 4 pm', schedule: '0 16 * * 5' },
+  { label: '1st of the month at 7 am', schedule: '0 7 1 * *' },
+];
+
+const inputClass =
+  'w-full px-3 py-2 border border-white/30 rounded-lg bg-white/10 text-white text-sm focus:ring-2 focus:ring-purple-500 focus:border-transparent';
+const optionClass = 'bg-gray-800 text-white';
+
+const newJob = (): ReportJob => ({
+  id: `job-${Date.now()}`,
+  name: '',
+  reportType: 'daily-summary',
+  schedule: REPORT_TYPES['daily-summary'].schedule,
+  format: 'pdf',
+  delivery: { type: 'folder', folder: 'daily' },
+  enabled: true,
+});
+
+const describeSchedule = (schedule: string): string => {
+  try {
+    const next = nextCronRun(parseCron(schedule), new Date());
+    return next ? `Next run ${next.toLocaleString()}` : 'Never runs';
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid schedule';
+  }
+};
+
+const describeDelivery = (job: ReportJob) =>
+  job.delivery.type === 'folder' ? `Folder ${job.delivery.folder || '.'}` : `Email ${job.delivery.to.join(', ')}`;
+
+// Report jobs run by the API server's scheduler, with their run history
+export default function ScheduledReports({ canWrite }: { canWrite: boolean }) {
+  const remote = database.getRemote();
+  const api = remote instanceof HttpAdapter ? remote : null;
+  const { templates } = useReportTemplates();
+  const [jobs, setJobs] = useState<ReportJob[]>([]);
+  const [runs, setRuns] = useState<ReportJobRun[]>([]);
+  const [editing, setEditing] = useState<ReportJob | null>(null);
+  const [error, setError] = useState('');
+  const [busyJobId, setBusyJobId] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    if (!api) return;
+    try {
+      const [loadedJobs, loadedRuns] = await Promise.all([api.getReportJobs(), api.getReportRuns()]);
+      setJobs(loadedJobs);
+      setRuns(loadedRuns);
+      setError('');
+    } catch (failure) {
+      setError(failure instanceof Error ? `Could not load scheduled reports: ${failure.message}` : 'Could not load scheduled reports');
+    }
+  }, [api]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const saveJobs = async (updated: ReportJob[]) => {
+    if (!api) return false;
+    try {
+      await api.saveReportJobs(updated);
+      setJobs(updated);
+      setError('');
+      return true;
+    } catch (failure) {
+      setError(failure instanceof Error ? failure.message : 'Could not save report jobs');
+      return false;
+    }
+  };
+
+  const saveEditing = async () => {
+    if (!editing) return;
+    const errors = validateReportJob(editing);
+    if (errors.length > 0) {
+      setError(errors.join('; '));
+      return;
+    }
+    const exists = jobs.some(job => job.id === editing.id);
+    if (await saveJobs(exists ? jobs.map(job => (job.id === editing.id ? editing : job)) : [...jobs, editing])) {
+      setEditing(null);
+    }
+  };
+
+  const runNow = async (job: ReportJob) => {
+    if (!api) return;
+    setBusyJobId(job.id);
+    try {
+      const run = await api.runReportJob(job.id);
+      setRuns(prev => [run, ...prev]);
+    } catch (failure) {
+      setError(failure instanceof Error ? failure.message : 'Could not run the report');
+    } finally {
+      setBusyJobId(null);
+    }
+  };
+
+  const update = (changes: Partial<ReportJob>) => setEditing(prev => (prev ? { ...prev, ...changes } : prev));
+
+  return (
+    <div className="bg-white/10 backdrop-blur-lg rounded-xl shadow-2xl p-6 border border-white/20">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-3">
+          <div className="p-2 bg-cyan-500/20 rounded-lg backdrop-blur-sm">
+            <Clock className="h-5 w-5 text-cyan-400" />
+          </div>
+          <div>
+            <h3 className="text-lg font-semibold text-white">Scheduled Reports</h3>
+            <p className="text-sm text-gray-300">Reports the server generates and delivers on a schedule</p>
+          </div>
+        </div>
+        {api && (
+          <div className="flex gap-2">
+            <button onClick={load} className="flex items-center gap-1 px-3 py-2 bg-white/10 hover:bg-white/20 text-white text-sm rounded-lg">
+              <RefreshCw className="h-4 w-4" />
+              Refresh
+            </button>
+            {canWrite && !editing && (
+              <button onClick={() => setEditing(newJob())} className="px-3 py-2 bg-purple-600 hover:bg-purple-700 text-white text-sm rounded-lg">
+                New Job
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+
+      {!api ? (
+        <p className="text-sm text-gray-300">
+          Scheduled reports are generated by the API server, so they keep running when nobody has the app open. Start
+          the server and set <code>VITE_API_URL</code> to configure them here.
+        </p>
+      ) : (
+        <div className="space-y-6">
+          {error && <p className="text-sm text-red-300">{error}</p>}
+
+          {editing && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3 p-4 bg-white/5 rounded-lg border border-white/10">
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-1">Name</label>
+                <input value={editing.name} onChange={e => update({ name: e.target.value })} className={inputClass} />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-1">Report</label>
+                <select
+                  value={editing.reportType}
+                  onChange={e => {
+                    const reportType = e.target.value as ScheduledReportType;
+                    // Keep a custom schedule, follow the report's usual one otherwise
+                    const usual = editing.schedule === REPORT_TYPES[editing.reportType].schedule;
+                    update({ reportType, schedule: usual ? REPORT_TYPES[reportType].schedule : editing.schedule });
+                  }}
+                  className={inputClass}
+                >
+                  {(Object.keys(REPORT_TYPES) as ScheduledReportType[]).map(type => (
+                    <option key={type} value={type} className={optionClass}>{REPORT_TYPES[type].label}</option>
+                  ))}
+                </select>
+                <p className="text-xs text-gray-400 mt-1">{REPORT_TYPES[editing.reportType].description}</p>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-1">Schedule (cron: minute hour day month weekday)</label>
+                <div className="flex gap-2">
+                  <input value={editing.schedule} onChange={e => update({ schedule: e.target.value })} className={`${inputClass} font-mono`} />
+                  <select value="" onChange={e => e.target.value && update({ schedule: e.target.value })} className={`${inputClass} w-40`}>
+                    <option value="" className={optionClass}>Presets...</option>
+                    {SCHEDULE_PRESETS.map(preset => (
+                      <option key={preset.schedule} value={preset.schedule} className={optionClass}>{preset.label}</option>
+                    ))}
+                  </select>
+                </div>
+                <p className="text-xs text-gray-400 mt-1">{describeSchedule(editing.schedule)} (server time)</p>
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-1">Format</label>
+                  <select value={editing.format} onChange={e => update({ format: e.target.value as ReportJob['format'] })} className={inputClass}>
+                    <option value="pdf" className={optionClass}>PDF</option>
+                    <option value="html" className={optionClass}>HTML</option>
+                    <option value="csv" className={optionClass}>CSV</option>
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-1">Department</label>
+                  <select value={editing.department || ''} onChange={e => update({ department: e.target.value || undefined })} className={inputClass}>
+                    <option value="" className={optionClass}>All</option>
+                    {DEPARTMENTS.map(department => (
+                      <option key={department} value={department} className={optionClass}>{department}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-1">Template</label>
+                <select
+                  value={editing.template?.id || ''}
+                  onChange={e => update({ template: templates.find(t => t.id === e.target.value) })}
+                  className={inputClass}
+                >
+                  <option value="" className={optionClass}>Built-in layout for this report</option>
+                  {templates.map(template => (
+                    <option key={template.id} value={template.id} className={optionClass}>{template.name}</option>
+                  ))}
+                </select>
+                <p className="text-xs text-gray-400 mt-1">A copy is saved with the job; later template edits need the job saved again.</p>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-1">Deliver to</label>
+                <div className="flex gap-2">
+                  <select
+                    value={editing.delivery.type}
+                    onChange={e => update({ delivery: e.target.value === 'email' ? { type: 'email', to: [] } : { type: 'folder', folder: '' } })}
+                    className={`${inputClass} w-32`}
+                  >
+                    <option value="folder" className={optionClass}>Folder</option>
+                    <option value="email" className={optionClass}>Email</option>
+                  </select>
+                  {editing.delivery.type === 'folder' ? (
+                    <input
+                      value={editing.delivery.folder}
+                      placeholder="e.g. daily/cse"
+                      onChange={e => update({ delivery: { type: 'folder', folder: e.target.value } })}
+                      className={inputClass}
+                    />
+                  ) : (
+                    <input
+                      value={editing.delivery.to.join(', ')}
+                      placeholder="hod@college.edu, office@college.edu"
+                      onChange={e => update({ delivery: { type: 'email', to: e.target.value.split(',').map(a => a.trim()).filter(Boolean) } })}
+                      className={inputClass}
+                    />
+                  )}
+                </div>
+                <p className="text-xs text-gray-400 mt-1">
+                  Folders are inside the server's report directory (REPORT_OUTPUT_DIR); email goes through SMTP_URL.
+                </p>
+              </div>
+              <div className="md:col-span-2 flex items-center gap-3">
+                <label className="flex items-center gap-2 text-sm text-gray-300">
+                  <input type="checkbox" checked={editing.enabled} onChange={e => update({ enabled: e.target.checked })} className="rounded bg-white/20 border-white/30" />
+                  Enabled
+                </label>
+                <button onClick={saveEditing} className="flex items-center gap-1 px-4 py-2 bg-gradient-to-r from-green-600 to-cyan-600 text-white text-sm rounded-lg">
+                  <Save className="h-4 w-4" />
+                  Save Job
+                </button>
+                <button onClick={() => setEditing(null)} className="px-4 py-2 bg-white/10 hover:bg-white/20 text-white text-sm rounded-lg">
+                  Cancel
+                </button>
+              </div>
+            </div>
+          )}
+
+          {jobs.length === 0 ? (
+            <p className="text-sm text-gray-400">No scheduled reports yet.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-white/20 text-left text-gray-300">
+                    <th className="py-2 pr-4">Job</th>
+                    <th className="py-2 pr-4">Schedule</th>
+                    <th className="py-2 pr-4">Delivery</th>
+                    <th className="py-2" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {jobs.map(job => (
+                    <tr key={job.id} className="border-b border-white/10">
+                      <td className="py-2 pr-4">
+                        <p className={job.enabled ? 'text-white' : 'text-gray-500'}>{job.name}{!job.enabled && ' (disabled)'}</p>
+                        <p className="text-xs text-gray-400">
+                          {REPORT_TYPES[job.reportType].label}, {job.format.toUpperCase()}, {job.department || 'all departments'}
+                        </p>
+                      </td>
+                      <td className="py-2 pr-4">
+                        <p className="font-mono text-gray-200">{job.schedule}</p>
+                        <p className="text-xs text-gray-400">{job.enabled ? describeSchedule(job.schedule) : 'Paused'}</p>
+                      </td>
+                      <td className="py-2 pr-4 text-gray-300">
+                        {job.delivery.type === 'email' && <Mail className="inline h-4 w-4 mr-1" />}
+                        {describeDelivery(job)}
+                      </td>
+                      <td className="py-2 text-right whitespace-nowrap">
+                        {canWrite && (
+                          <>
+                            <button
+                              onClick={() => runNow(job)}
+                              disabled={busyJobId !== null}
+                              className="px-3 py-1 bg-purple-600 hover:bg-purple-700 text-white rounded-lg mr-2 disabled:opacity-50"
+                            >
+                              {busyJobId === job.id ? 'Running...' : 'Run now'}
+                            </button>
+                            <button onClick={() => setEditing(job)} className="px-3 py-1 bg-white/10 hover:bg-white/20 text-white rounded-lg mr-2">
+                              Edit
+                            </button>
+                            <button onClick={() => saveJobs(jobs.filter(j => j.id !== job.id))} className="p-1 text-red-300 hover:text-red-200" title="Delete job">
+                              <Trash2 className="h-4 w-4" />
+                            </button>
+                          </>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          <div>
+            <h4 className="text-sm font-semibold text-white mb-2">Run history</h4>
+            {runs.length === 0 ? (
+              <p className="text-sm text-gray-400">No reports have run yet.</p>
+            ) : (
+              <div className="max-h-72 overflow-y-auto space-y-1">
+                {runs.slice(0, 50).map(run => (
+                  <div key={run.id} className="flex items-start gap-2 text-sm">
+                    {run.status === 'success' ? (
+                      <CheckCircle className="h-4 w-4 mt-0.5 text-green-400 flex-shrink-0" />
+                    ) : (
+                      <XCircle className="h-4 w-4 mt-0.5 text-red-400 flex-shrink-0" />
+                    )}
+                    <span className="text-gray-400 whitespace-nowrap">{run.startedAt.toLocaleString()}</span>
+                    <span className="text-white">{run.jobName}</span>
+                    {run.trigger === 'manual' && <span className="text-xs text-gray-400">(manual)</span>}
+                    <span className={run.status === 'success' ? 'text-gray-300' : 'text-red-300'}>{run.message}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
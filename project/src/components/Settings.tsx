@@ -1,40 +1,82 @@
-import React, { useState } from 'react';
-import { Settings as SettingsIcon, Database, Camera, Clock, Shield, Bell } from 'lucide-react';
+import React, { useState, useEffect, useContext } from 'react';
+import { Settings as SettingsIcon, Database, Camera, MapPin, Shield, Bell, User } from 'lucide-react';
+import { database } from '../utils/database';
+import { QuarantinedRecord } from '../utils/migrations';
+import {
+  settingsService,
+  DEFAULT_SETTINGS,
+  RECOGNITION_THRESHOLD_RANGE,
+  USER_SCOPED_SETTINGS,
+  SettingsScope,
+  SystemSettings,
+} from '../utils/settings';
+import { useSettings } from '../hooks/useSettings';
+import { AuthContext } from '../App';
+import AttendancePolicySettings from './AttendancePolicySettings';
+import LateRulesSettings from './LateRulesSettings';
+import RetentionSettings from './RetentionSettings';
+import ReportTemplateEditor from './ReportTemplateEditor';
+import ScheduledReports from './ScheduledReports';
+
+const CAMERA_QUALITY_LABELS: Record<SystemSettings['cameraQuality'], string> = {
+  low: 'Low (480p)',
+  medium: 'Medium (720p)',
+  high: 'High (1080p)',
+};
 
 export default function Settings() {
-  const [settings, setSettings] = useState({
-    recognitionThreshold: 75,
-    autoMarkAttendance: true,
-    locationTracking: true,
-    lateThreshold: 15,
-    notificationsEnabled: true,
-    cameraQuality: 'high',
-    dataRetention: 365,
-    backupFrequency: 'daily',
-  });
-
-  const handleSettingChange = (key: string, value: string | number | boolean) => {
-    setSettings(prev => ({ ...prev, [key]: value }));
-    // In a real application, this would save to backend
-    localStorage.setItem('neoattend_settings', JSON.stringify({ ...settings, [key]: value }));
+  const auth = useContext(AuthContext);
+  const canWrite = !!auth?.can('settings.write');
+  const effective = useSettings();
+  // Institution-wide values, edited by administrators; the user's own preferences are applied on top of these
+  const settings: SystemSettings = { ...DEFAULT_SETTINGS, ...settingsService.getScope('institution') };
+  const ownPreferences = settingsService.getScope('user');
+  const [saveError, setSaveError] = useState('');
+
+  const [quarantinedRecords, setQuarantinedRecords] = useState<QuarantinedRecord[]>([]);
+  const migrationReport = database.getMigrationReport();
+
+  useEffect(() => {
+    database.getQuarantinedRecords().then(setQuarantinedRecords);
+  }, []);
+
+  const handleSettingChange = async <K extends keyof SystemSettings>(
+    key: K,
+    value: SystemSettings[K],
+    scope: SettingsScope = 'institution'
+  ) => {
+    if (scope === 'institution' && !canWrite) return;
+    setSaveError('');
+    try {
+      await settingsService.update({ [key]: value }, scope);
+    } catch (error) {
+      setSaveError(error instanceof Error ? error.message : 'Could not save the setting');
+    }
   };
 
-  const resetDatabase = () => {
+  const resetPreferences = async () => {
+    setSaveError('');
+    try {
+      await settingsService.resetUserSettings(USER_SCOPED_SETTINGS);
+    } catch (error) {
+      setSaveError(error instanceof Error ? error.message : 'Could not reset your preferences');
+    }
+  };
+
+  const resetDatabase = async () => {
     if (window.confirm('Are you sure you want to reset all data? This action cannot be undone.')) {
-      localStorage.removeItem('neoattend_students');
-      localStorage.removeItem('neoattend_attendance');
-      localStorage.removeItem('neoattend_settings');
+      database.clearAllData();
+      await database.flush();
       window.location.reload();
     }
   };
 
   const exportData = () => {
-    const students = localStorage.getItem('neoattend_students');
-    const attendance = localStorage.getItem('neoattend_attendance');
-    
     const exportData = {
-      students: students ? JSON.parse(students) : [],
-      attendance: attendance ? JSON.parse(attendance) : [],
+      storageBackend: database.getStorageBackend(),
+      students: database.getStudents(),
+      attendance: database.getAttendanceRecords(),
+      quarantinedRecords,
       exportedAt: new Date().toISOString(),
     };
 
@@ -78,6 +120,16 @@ export default function Settings() {
         <p className="text-purple-100">Configure NEOATTEND system preferences and parameters</p>
       </div>
 
+      {!canWrite && (
+        <div className="p-4 bg-yellow-500/20 rounded-lg border border-yellow-500/30 text-sm text-yellow-200">
+          Settings are read-only for your account. Only administrators can change system settings.
+        </div>
+      )}
+
+      {saveError && (
+        <div className="p-4 bg-red-500/20 rounded-lg border border-red-500/30 text-sm text-red-200">{saveError}</div>
+      )}
+
       {/* Settings Grid */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         {/* Face Recognition Settings */}
@@ -86,40 +138,43 @@ export default function Settings() {
           title="Face Recognition"
           description="Configure facial recognition parameters"
         >
-          <div className="space-y-4">
+          <fieldset disabled={!canWrite} className="space-y-4">
             <div>
               <label className="block text-sm font-medium text-gray-300 mb-2">
                 Recognition Threshold: {settings.recognitionThreshold}%
               </label>
               <input
                 type="range"
-                min="50"
-                max="95"
+                min={RECOGNITION_THRESHOLD_RANGE.min}
+                max={RECOGNITION_THRESHOLD_RANGE.max}
                 value={settings.recognitionThreshold}
                 onChange={(e) => handleSettingChange('recognitionThreshold', parseInt(e.target.value))}
                 className="w-full h-2 bg-white/20 rounded-lg appearance-none cursor-pointer"
               />
               <div className="flex justify-between text-xs text-gray-400 mt-1">
-                <span>Less Strict (50%)</span>
-                <span>More Strict (95%)</span>
+                <span>Less Strict ({RECOGNITION_THRESHOLD_RANGE.min}%)</span>
+                <span>More Strict ({RECOGNITION_THRESHOLD_RANGE.max}%)</span>
               </div>
             </div>
 
             <div>
-              <label className="block text-sm font-medium text-gray-300 mb-2">Camera Quality</label>
+              <label className="block text-sm font-medium text-gray-300 mb-2">Default Camera Quality</label>
               <select
                 value={settings.cameraQuality}
-                onChange={(e) => handleSettingChange('cameraQuality', e.target.value)}
+                onChange={(e) => handleSettingChange('cameraQuality', e.target.value as SystemSettings['cameraQuality'])}
                 className="w-full px-3 py-2 border border-white/30 rounded-lg bg-white/10 text-white focus:ring-2 focus:ring-purple-500 focus:border-transparent"
               >
-                <option value="low" className="bg-gray-800 text-white">Low (480p)</option>
-                <option value="medium" className="bg-gray-800 text-white">Medium (720p)</option>
-                <option value="high" className="bg-gray-800 text-white">High (1080p)</option>
+                {Object.entries(CAMERA_QUALITY_LABELS).map(([value, label]) => (
+                  <option key={value} value={value} className="bg-gray-800 text-white">{label}</option>
+                ))}
               </select>
             </div>
 
             <div className="flex items-center justify-between">
-              <span className="text-sm font-medium text-gray-300">Auto-mark attendance</span>
+              <div>
+                <span className="text-sm font-medium text-gray-300">Auto-mark attendance</span>
+                <p className="text-xs text-gray-400">When off, each recognition must be confirmed before it is marked</p>
+              </div>
               <button
                 onClick={() => handleSettingChange('autoMarkAttendance', !settings.autoMarkAttendance)}
                 className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
@@ -133,37 +188,20 @@ export default function Settings() {
                 />
               </button>
             </div>
-          </div>
+          </fieldset>
         </SettingCard>
 
-        {/* Time & Location Settings */}
+        {/* Location Settings */}
         <SettingCard
-          icon={Clock}
-          title="Time & Location"
-          description="Configure time and location tracking"
+          icon={MapPin}
+          title="Location"
+          description="Configure location tracking"
         >
-          <div className="space-y-4">
-            <div>
-              <label className="block text-sm font-medium text-gray-300 mb-2">
-                Late Threshold: {settings.lateThreshold} minutes
-              </label>
-              <input
-                type="range"
-                min="5"
-                max="30"
-                value={settings.lateThreshold}
-                onChange={(e) => handleSettingChange('lateThreshold', parseInt(e.target.value))}
-                className="w-full h-2 bg-white/20 rounded-lg appearance-none cursor-pointer"
-              />
-              <p className="text-xs text-gray-400 mt-1">
-                Students arriving after this time will be marked as late
-              </p>
-            </div>
-
+          <fieldset disabled={!canWrite} className="space-y-4">
             <div className="flex items-center justify-between">
               <div>
                 <span className="text-sm font-medium text-gray-300">Location Tracking</span>
-                <p className="text-xs text-gray-400">Track attendance location for verification</p>
+                <p className="text-xs text-gray-400">Record where students check in; when off, self check-ins go to location review</p>
               </div>
               <button
                 onClick={() => handleSettingChange('locationTracking', !settings.locationTracking)}
@@ -178,7 +216,7 @@ export default function Settings() {
                 />
               </button>
             </div>
-          </div>
+          </fieldset>
         </SettingCard>
 
         {/* Notification Settings */}
@@ -187,11 +225,11 @@ export default function Settings() {
           title="Notifications"
           description="Configure system notifications and alerts"
         >
-          <div className="space-y-4">
+          <fieldset disabled={!canWrite} className="space-y-4">
             <div className="flex items-center justify-between">
               <div>
                 <span className="text-sm font-medium text-gray-300">Enable Notifications</span>
-                <p className="text-xs text-gray-400">Get alerts for attendance events</p>
+                <p className="text-xs text-gray-400">Default for everyone; users can change it in My Preferences</p>
               </div>
               <button
                 onClick={() => handleSettingChange('notificationsEnabled', !settings.notificationsEnabled)}
@@ -224,7 +262,7 @@ export default function Settings() {
                 </div>
               </div>
             </div>
-          </div>
+          </fieldset>
         </SettingCard>
 
         {/* Database Settings */}
@@ -234,53 +272,130 @@ export default function Settings() {
           description="Manage system data and backups"
         >
           <div className="space-y-4">
-            <div>
-              <label className="block text-sm font-medium text-gray-300 mb-2">Data Retention (days)</label>
-              <select
-                value={settings.dataRetention}
-                onChange={(e) => handleSettingChange('dataRetention', parseInt(e.target.value))}
-                className="w-full px-3 py-2 border border-white/30 rounded-lg bg-white/10 text-white focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+            <fieldset disabled={!canWrite} className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-2">Data Retention</label>
+                <select
+                  value={settings.dataRetention}
+                  onChange={(e) => handleSettingChange('dataRetention', parseInt(e.target.value))}
+                  className="w-full px-3 py-2 border border-white/30 rounded-lg bg-white/10 text-white focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                >
+                  <option value={90} className="bg-gray-800 text-white">3 months</option>
+                  <option value={180} className="bg-gray-800 text-white">6 months</option>
+                  <option value={365} className="bg-gray-800 text-white">1 year</option>
+                  <option value={730} className="bg-gray-800 text-white">2 years</option>
+                  <option value={-1} className="bg-gray-800 text-white">Never delete</option>
+                </select>
+                <p className="text-xs text-gray-400 mt-1">Default for each data class under Data Retention below</p>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-2">Backup Frequency</label>
+                <select
+                  value={settings.backupFrequency}
+                  onChange={(e) => handleSettingChange('backupFrequency', e.target.value as SystemSettings['backupFrequency'])}
+                  className="w-full px-3 py-2 border border-white/30 rounded-lg bg-white/10 text-white focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                >
+                  <option value="hourly" className="bg-gray-800 text-white">Hourly</option>
+                  <option value="daily" className="bg-gray-800 text-white">Daily</option>
+                  <option value="weekly" className="bg-gray-800 text-white">Weekly</option>
+                  <option value="monthly" className="bg-gray-800 text-white">Monthly</option>
+                </select>
+              </div>
+            </fieldset>
+
+            {migrationReport && (
+              <div className={`p-3 rounded-lg border text-xs ${
+                quarantinedRecords.length > 0
+                  ? 'bg-yellow-500/20 border-yellow-500/30 text-yellow-200'
+                  : 'bg-cyan-500/20 border-cyan-500/30 text-cyan-200'
+              }`}>
+                <p>Data schema v{migrationReport.toVersion}{migrationReport.applied.length > 0 && ` (upgraded from v${migrationReport.fromVersion})`}</p>
+                {quarantinedRecords.length > 0 && (
+                  <p className="mt-1">
+                    {quarantinedRecords.length} record(s) could not be migrated and were set aside. They are included in Export Data for review.
+                  </p>
+                )}
+              </div>
+            )}
+
+            <div className="flex space-x-3">
+              <button
+                onClick={exportData}
+                disabled={!auth?.can('reports.export')}
+                className="flex-1 bg-gradient-to-r from-green-600 to-cyan-600 text-white px-4 py-2 rounded-lg font-medium hover:from-green-700 hover:to-cyan-700 transform hover:scale-105 transition-all duration-200 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
               >
-                <option value={90} className="bg-gray-800 text-white">3 months</option>
-                <option value={180} className="bg-gray-800 text-white">6 months</option>
-                <option value={365} className="bg-gray-800 text-white">1 year</option>
-                <option value={730} className="bg-gray-800 text-white">2 years</option>
-                <option value={-1} className="bg-gray-800 text-white">Never delete</option>
-              </select>
+                Export Data
+              </button>
+              <button
+                onClick={resetDatabase}
+                disabled={!auth?.can('data.manage')}
+                className="flex-1 bg-gradient-to-r from-red-600 to-pink-600 text-white px-4 py-2 rounded-lg font-medium hover:from-red-700 hover:to-pink-700 transform hover:scale-105 transition-all duration-200 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Reset Database
+              </button>
             </div>
+          </div>
+        </SettingCard>
 
+        {/* Per-user preferences */}
+        <SettingCard
+          icon={User}
+          title="My Preferences"
+          description="Apply to your account only, on top of the institution settings"
+        >
+          <div className="space-y-4">
             <div>
-              <label className="block text-sm font-medium text-gray-300 mb-2">Backup Frequency</label>
+              <label className="block text-sm font-medium text-gray-300 mb-2">Camera Quality</label>
               <select
-                value={settings.backupFrequency}
-                onChange={(e) => handleSettingChange('backupFrequency', e.target.value)}
+                value={effective.cameraQuality}
+                onChange={(e) => handleSettingChange('cameraQuality', e.target.value as SystemSettings['cameraQuality'], 'user')}
                 className="w-full px-3 py-2 border border-white/30 rounded-lg bg-white/10 text-white focus:ring-2 focus:ring-purple-500 focus:border-transparent"
               >
-                <option value="hourly" className="bg-gray-800 text-white">Hourly</option>
-                <option value="daily" className="bg-gray-800 text-white">Daily</option>
-                <option value="weekly" className="bg-gray-800 text-white">Weekly</option>
-                <option value="monthly" className="bg-gray-800 text-white">Monthly</option>
+                {Object.entries(CAMERA_QUALITY_LABELS).map(([value, label]) => (
+                  <option key={value} value={value} className="bg-gray-800 text-white">{label}</option>
+                ))}
               </select>
             </div>
 
-            <div className="flex space-x-3">
+            <div className="flex items-center justify-between">
+              <span className="text-sm font-medium text-gray-300">Notifications</span>
               <button
-                onClick={exportData}
-                className="flex-1 bg-gradient-to-r from-green-600 to-cyan-600 text-white px-4 py-2 rounded-lg font-medium hover:from-green-700 hover:to-cyan-700 transform hover:scale-105 transition-all duration-200 text-sm"
+                onClick={() => handleSettingChange('notificationsEnabled', !effective.notificationsEnabled, 'user')}
+                className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
+                  effective.notificationsEnabled ? 'bg-cyan-600' : 'bg-white/20'
+                }`}
               >
-                Export Data
+                <span
+                  className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+                    effective.notificationsEnabled ? 'translate-x-6' : 'translate-x-1'
+                  }`}
+                />
               </button>
+            </div>
+
+            {Object.keys(ownPreferences).length > 0 && (
               <button
-                onClick={resetDatabase}
-                className="flex-1 bg-gradient-to-r from-red-600 to-pink-600 text-white px-4 py-2 rounded-lg font-medium hover:from-red-700 hover:to-pink-700 transform hover:scale-105 transition-all duration-200 text-sm"
+                onClick={resetPreferences}
+                className="text-sm text-cyan-300 hover:text-cyan-200 underline"
               >
-                Reset Database
+                Use the institution defaults
               </button>
-            </div>
+            )}
           </div>
         </SettingCard>
       </div>
 
+      <LateRulesSettings canWrite={canWrite} />
+
+      <AttendancePolicySettings canWrite={canWrite} />
+
+      <RetentionSettings canWrite={canWrite} canPurge={!!auth?.can('data.manage')} />
+
+      <ReportTemplateEditor canWrite={canWrite} />
+
+      <ScheduledReports canWrite={canWrite} />
+
       {/* System Information */}
       <div className="bg-white/10 backdrop-blur-lg rounded-xl shadow-2xl p-6 border border-white/20">
         <h3 className="text-lg font-semibold text-white mb-4 flex items-center">
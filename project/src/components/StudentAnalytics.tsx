@@ -1,12 +1,16 @@
-import React, { useState, useEffect, useContext } from 'react';
+import React, { useState, useEffect, useContext, useMemo } from 'react';
 import { 
   Calendar, TrendingUp, Award, Clock, CheckCircle, XCircle, AlertCircle, 
   User, Mail, BookOpen, GraduationCap, BarChart3, PieChart, ArrowLeft 
 } from 'lucide-react';
 import { Link } from 'react-router-dom';
 import { database } from '../utils/database';
-import { AttendanceRecord, Student } from '../types';
+import { AttendanceDispute, AttendanceRecord, Student } from '../types';
 import { AuthContext } from '../App';
+import { evaluateStudent } from '../utils/attendancePolicy';
+import { useAttendancePolicy } from '../hooks/useAttendancePolicy';
+import LeaveRequests from './LeaveRequests';
+import AttendanceDisputeForm from './AttendanceDisputeForm';
 
 type ViewType = 'daily' | 'weekly' | 'monthly';
 
@@ -51,15 +55,26 @@ const StudentAnalytics: React.FC = () => {
   const [monthlyData, setMonthlyData] = useState<MonthlyData[]>([]);
   const [selectedMonth, setSelectedMonth] = useState<number>(new Date().getMonth());
   const [selectedYear, setSelectedYear] = useState<number>(new Date().getFullYear());
+  const [disputes, setDisputes] = useState<AttendanceDispute[]>([]);
+  const [disputeDate, setDisputeDate] = useState<Date | null>(null);
+  const { policy } = useAttendancePolicy();
+
+  const standing = useMemo(
+    () =>
+      studentData
+        ? evaluateStudent(studentData, database.getSessionsForStudent(studentData.id), database.getAttendanceRecords(), policy)
+        : null,
+    [studentData, policy]
+  );
 
   useEffect(() => {
     loadStudentData();
   }, [selectedMonth, selectedYear]);
 
   const loadStudentData = () => {
-    // Get student data (in real app, would use logged-in student's ID)
+    // Get the logged-in student's record
     const students = database.getStudents();
-    const student = students[0]; // For demo, using first student
+    const student = students.find(s => s.id === auth?.session?.userId);
     
     if (student) {
       setStudentData(student);
@@ -68,6 +83,7 @@ const StudentAnalytics: React.FC = () => {
       const allRecords = database.getAttendanceRecords();
       const studentRecords = allRecords.filter(r => r.studentId === student.id);
       setAttendanceRecords(studentRecords);
+      setDisputes(database.getAttendanceDisputes().filter(d => d.studentId === student.id));
       
       // Calculate daily stats
       calculateDailyStats(studentRecords);
@@ -85,7 +101,8 @@ const StudentAnalytics: React.FC = () => {
     const totalDays = uniqueDays.size;
     const present = records.filter(r => r.status === 'Present').length;
     const late = records.filter(r => r.status === 'Late').length;
-    const absent = Math.max(0, totalDays - present - late);
+    const excused = records.filter(r => r.status === 'Excused').length;
+    const absent = Math.max(0, totalDays - present - late - excused);
     
     setDailyStats({
       totalDays,
@@ -99,7 +116,8 @@ const StudentAnalytics: React.FC = () => {
   const calculateWeeklyStats = (records: AttendanceRecord[]) => {
     const weekMap = new Map<string, { present: number; late: number; absent: number; total: number }>();
     
-    records.forEach(record => {
+    // Excused days (approved leave) are neither attended nor missed
+    records.filter(record => record.status !== 'Excused').forEach(record => {
       const date = new Date(record.timestamp);
       const weekStart = new Date(date);
       weekStart.setDate(date.getDate() - date.getDay());
@@ -131,7 +149,7 @@ const StudentAnalytics: React.FC = () => {
   const calculateMonthlyStats = (records: AttendanceRecord[]) => {
     const monthMap = new Map<string, { present: number; late: number; absent: number; total: number }>();
     
-    records.forEach(record => {
+    records.filter(record => record.status !== 'Excused').forEach(record => {
       const date = new Date(record.timestamp);
       const monthKey = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
       
@@ -162,7 +180,7 @@ const StudentAnalytics: React.FC = () => {
     setMonthlyData(monthlyArray);
   };
 
-  const getDayAttendance = (date: Date): 'Present' | 'Late' | 'Absent' | null => {
+  const getDayAttendance = (date: Date): AttendanceRecord['status'] | null => {
     const dayRecords = attendanceRecords.filter(r => {
       const recordDate = new Date(r.timestamp);
       return recordDate.toDateString() === date.toDateString();
@@ -172,9 +190,23 @@ const StudentAnalytics: React.FC = () => {
     
     // Return the last status of the day
     const lastRecord = dayRecords[dayRecords.length - 1];
-    return lastRecord.status as 'Present' | 'Late' | 'Absent';
+    return lastRecord.status;
   };
 
+  // Days with classes scheduled for the student, which can be disputed even without a record
+  const classDays = useMemo(
+    () =>
+      new Set(
+        studentData
+          ? database
+              .getSessionsForStudent(studentData.id)
+              .filter(session => session.status !== 'cancelled')
+              .map(session => new Date(session.scheduledStart).toDateString())
+          : []
+      ),
+    [studentData]
+  );
+
   const generateCalendar = () => {
     const year = selectedYear;
     const month = selectedMonth;
@@ -219,6 +251,35 @@ const StudentAnalytics: React.FC = () => {
         <h1 className="text-3xl font-bold text-white">Student Analytics</h1>
       </div>
 
+      {/* Attendance policy warning */}
+      {standing?.defaulter && (
+        <div className="bg-red-500/20 border-2 border-red-500/40 rounded-xl p-5 text-red-100">
+          <div className="flex items-center font-semibold text-lg mb-2">
+            <AlertCircle className="h-6 w-6 mr-2 text-red-400" />
+            Attendance shortage warning
+          </div>
+          <ul className="space-y-1 text-sm">
+            {standing.courses.filter(course => course.shortage).map(course => {
+              const code = database.getCourse(course.courseId)?.code || 'A course';
+              return (
+                <li key={course.courseId}>
+                  <span className="font-semibold">{code}</span>: {course.percentage.toFixed(1)}% attended, {course.minimumPercentage}% required.{' '}
+                  {course.canRecover
+                    ? `Attend the next ${course.classesNeeded} ${course.classesNeeded === 1 ? 'class' : 'classes'} to get back above the minimum.`
+                    : `Even attending all ${course.remaining} remaining classes will not reach ${course.minimumPercentage}% this term - please talk to your faculty advisor.`}
+                </li>
+              );
+            })}
+            {standing.absenceLimitReached && (
+              <li>You have missed your last {standing.consecutiveAbsences} classes in a row.</li>
+            )}
+          </ul>
+        </div>
+      )}
+
+      {/* Leave requests */}
+      <LeaveRequests studentId={studentData.id} onChange={loadStudentData} />
+
       {/* Student Profile Card */}
       <div className="bg-gradient-to-r from-purple-600 via-pink-600 to-cyan-600 rounded-xl p-6 shadow-2xl">
         <div className="flex flex-col md:flex-row items-center md:items-start space-y-4 md:space-y-0 md:space-x-6">
@@ -398,15 +459,20 @@ const StudentAnalytics: React.FC = () => {
               const attendance = getDayAttendance(date);
               const isToday = date.toDateString() === new Date().toDateString();
               const isFuture = date > new Date();
+              const disputable =
+                !isFuture &&
+                (attendance === 'Absent' || attendance === 'Late' || (!attendance && classDays.has(date.toDateString())));
               
               return (
                 <div
                   key={index}
+                  onClick={disputable ? () => setDisputeDate(date) : undefined}
+                  title={disputable ? 'Dispute this record' : undefined}
                   className={`aspect-square rounded-lg border-2 p-2 flex flex-col items-center justify-center ${
                     isToday
                       ? 'border-purple-500 bg-purple-500/20'
                       : 'border-white/20 bg-white/5'
-                  } ${isFuture ? 'opacity-50' : ''}`}
+                  } ${isFuture ? 'opacity-50' : ''} ${disputable ? 'cursor-pointer hover:border-yellow-400' : ''}`}
                 >
                   <span className="text-sm text-white mb-1">{date.getDate()}</span>
                   {attendance && !isFuture && (
@@ -416,6 +482,8 @@ const StudentAnalytics: React.FC = () => {
                           ? 'bg-green-500'
                           : attendance === 'Late'
                           ? 'bg-yellow-500'
+                          : attendance === 'Excused'
+                          ? 'bg-blue-500'
                           : 'bg-red-500'
                       }`}
                       title={attendance}
@@ -440,7 +508,55 @@ const StudentAnalytics: React.FC = () => {
               <div className="w-4 h-4 rounded-full bg-red-500" />
               <span className="text-sm text-gray-300">Absent</span>
             </div>
+            <div className="flex items-center space-x-2">
+              <div className="w-4 h-4 rounded-full bg-blue-500" />
+              <span className="text-sm text-gray-300">Excused</span>
+            </div>
           </div>
+          <p className="text-center text-xs text-gray-400 mt-2">Marked absent or late by mistake? Click the day to dispute it.</p>
+
+          {disputeDate && (
+            <AttendanceDisputeForm
+              key={disputeDate.toDateString()}
+              studentId={studentData.id}
+              date={disputeDate}
+              onClose={() => setDisputeDate(null)}
+              onSubmitted={loadStudentData}
+            />
+          )}
+
+          {disputes.length > 0 && (
+            <div className="mt-6 space-y-2">
+              <h4 className="text-white font-semibold">My Disputes</h4>
+              {disputes.map(dispute => (
+                <div key={dispute.id} className="flex flex-col md:flex-row md:items-center justify-between gap-2 bg-white/5 rounded-lg px-4 py-3">
+                  <div>
+                    <p className="text-white text-sm">
+                      {new Date(dispute.date).toLocaleDateString()} · {dispute.currentStatus || 'Not marked'} → {dispute.claimedStatus}
+                    </p>
+                    <p className="text-xs text-gray-400">{dispute.reason}</p>
+                    {dispute.reviewedAt && (
+                      <p className="text-xs text-gray-400">
+                        Reviewed by {dispute.reviewerName || 'staff'} on {new Date(dispute.reviewedAt).toLocaleDateString()}
+                        {dispute.reviewComment && ` - "${dispute.reviewComment}"`}
+                      </p>
+                    )}
+                  </div>
+                  <span
+                    className={`self-start md:self-center px-3 py-1 rounded-full text-xs font-medium capitalize ${
+                      dispute.status === 'approved'
+                        ? 'bg-green-500/20 text-green-400'
+                        : dispute.status === 'rejected'
+                        ? 'bg-red-500/20 text-red-400'
+                        : 'bg-yellow-500/20 text-yellow-400'
+                    }`}
+                  >
+                    {dispute.status}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
         </div>
       )}
 
@@ -589,6 +705,8 @@ const StudentAnalytics: React.FC = () => {
                         ? 'bg-green-500/20 text-green-400'
                         : record.status === 'Late'
                         ? 'bg-yellow-500/20 text-yellow-400'
+                        : record.status === 'Excused'
+                        ? 'bg-blue-500/20 text-blue-400'
                         : 'bg-red-500/20 text-red-400'
                     }`}>
                       {record.status}
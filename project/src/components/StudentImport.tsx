@@ -0,0 +1,177 @@
+import { useState, useMemo } from 'react';
+import { Upload, CheckCircle, XCircle } from 'lucide-react';
+import { database } from '../utils/database';
+import { isInScope } from '../utils/permissions';
+import {
+  ColumnMapping,
+  DEPARTMENTS,
+  IMPORT_FIELDS,
+  ImportField,
+  guessColumnMapping,
+  readRosterFile,
+  validateImportRows,
+} from '../utils/studentImport';
+
+// Rows shown in the preview table; the counts always cover the whole file
+const PREVIEW_LIMIT = 100;
+
+// Roster upload: map the sheet's columns, review every row's problems, then add all students at once
+export default function StudentImport({ onImported }: { onImported?: () => void }) {
+  const [fileName, setFileName] = useState('');
+  const [rows, setRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [error, setError] = useState('');
+
+  const headers = rows[0] || [];
+
+  const preview = useMemo(() => {
+    if (rows.length === 0) return [];
+    const existing = database.getStudents();
+    const departments = Array.from(new Set([...DEPARTMENTS, ...existing.map(s => s.department)]));
+    const actor = database.getActor();
+    return validateImportRows(rows, mapping, { existing, departments }).map(row =>
+      actor && row.student.department && !isInScope(actor, row.student)
+        ? { ...row, errors: [...row.errors, `Outside your department (${actor.department})`] }
+        : row
+    );
+  }, [rows, mapping]);
+
+  const unmapped = IMPORT_FIELDS.filter(f => f.required && mapping[f.field] === undefined);
+  const invalid = preview.filter(row => row.errors.length > 0);
+  const canImport = preview.length > 0 && unmapped.length === 0 && invalid.length === 0;
+
+  const handleFile = async (file: File | undefined) => {
+    setError('');
+    setRows([]);
+    if (!file) return;
+    try {
+      const parsed = await readRosterFile(file);
+      if (parsed.length < 2) throw new Error('The file has no data rows below the header');
+      setFileName(file.name);
+      setRows(parsed);
+      setMapping(guessColumnMapping(parsed[0]));
+    } catch (failure) {
+      setError(failure instanceof Error ? failure.message : 'Could not read the file');
+    }
+  };
+
+  const handleMappingChange = (field: ImportField, value: string) => {
+    setMapping(prev => {
+      const next = { ...prev };
+      if (value === '') delete next[field];
+      else next[field] = Number(value);
+      return next;
+    });
+  };
+
+  const handleImport = async () => {
+    try {
+      const created = database.importStudents(preview.map(row => row.student));
+      await database.flush();
+      alert(`Imported ${created.length} students from ${fileName}`);
+      setRows([]);
+      setFileName('');
+      onImported?.();
+    } catch (failure) {
+      console.error('Student import failed:', failure);
+      setError(failure instanceof Error ? failure.message : 'Import failed');
+    }
+  };
+
+  return (
+    <div className="bg-white/10 backdrop-blur-lg p-8 rounded-xl shadow-2xl border border-white/20">
+      <h3 className="text-xl font-bold mb-2 text-white flex items-center">
+        <Upload className="h-6 w-6 mr-2 text-cyan-400" />
+        Import Students
+      </h3>
+      <p className="text-gray-400 text-sm mb-4">
+        Upload a CSV or Excel roster with a header row. Nothing is saved until every row is valid.
+      </p>
+
+      <input
+        type="file"
+        accept=".csv,.xlsx"
+        onChange={e => handleFile(e.target.files?.[0])}
+        className="block w-full text-sm text-gray-300 file:mr-4 file:py-2 file:px-4 file:rounded-lg file:border-0 file:bg-purple-600 file:text-white hover:file:bg-purple-700"
+      />
+      {error && <p className="mt-3 text-red-300 text-sm">{error}</p>}
+
+      {rows.length > 0 && (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mt-6">
+            {IMPORT_FIELDS.map(({ field, label, required }) => (
+              <div key={field}>
+                <label className="block text-sm font-medium text-gray-300 mb-1">
+                  {label} {required && '*'}
+                </label>
+                <select
+                  value={mapping[field] ?? ''}
+                  onChange={e => handleMappingChange(field, e.target.value)}
+                  className="w-full px-3 py-2 bg-white/10 border border-white/20 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+                >
+                  <option value="" className="bg-slate-800">Not in file</option>
+                  {headers.map((header, index) => (
+                    <option key={index} value={index} className="bg-slate-800">
+                      {header || `Column ${index + 1}`}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex items-center gap-6 mt-6 text-sm">
+            <span className="text-white">{preview.length} rows</span>
+            <span className="flex items-center text-green-300">
+              <CheckCircle className="h-4 w-4 mr-1" />
+              {preview.length - invalid.length} ready
+            </span>
+            <span className="flex items-center text-red-300">
+              <XCircle className="h-4 w-4 mr-1" />
+              {invalid.length} with errors
+            </span>
+            {unmapped.length > 0 && (
+              <span className="text-yellow-300">Map a column for: {unmapped.map(f => f.label).join(', ')}</span>
+            )}
+          </div>
+
+          <div className="overflow-x-auto mt-4 max-h-96 overflow-y-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-white/20 text-left text-gray-300">
+                  <th className="py-2 pr-4">Line</th>
+                  {IMPORT_FIELDS.map(({ field, label }) => (
+                    <th key={field} className="py-2 pr-4">{label}</th>
+                  ))}
+                  <th className="py-2">Problems</th>
+                </tr>
+              </thead>
+              <tbody>
+                {[...invalid, ...preview.filter(row => row.errors.length === 0)].slice(0, PREVIEW_LIMIT).map(row => (
+                  <tr key={row.line} className={`border-b border-white/10 ${row.errors.length > 0 ? 'bg-red-500/10' : ''}`}>
+                    <td className="py-2 pr-4 text-gray-400">{row.line}</td>
+                    {IMPORT_FIELDS.map(({ field }) => (
+                      <td key={field} className="py-2 pr-4 text-white">{row.student[field]}</td>
+                    ))}
+                    <td className="py-2 text-red-300">{row.errors.join('; ')}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {preview.length > PREVIEW_LIMIT && (
+              <p className="text-gray-400 text-xs mt-2">Showing {PREVIEW_LIMIT} of {preview.length} rows, rows with errors first.</p>
+            )}
+          </div>
+
+          <button
+            onClick={handleImport}
+            disabled={!canImport}
+            className="mt-6 w-full px-6 py-3 bg-gradient-to-r from-purple-600 to-cyan-600 hover:from-purple-700 hover:to-cyan-700 disabled:from-gray-600 disabled:to-gray-600 text-white rounded-lg font-semibold disabled:cursor-not-allowed transition-all duration-200"
+          >
+            {canImport ? `Import ${preview.length} Students` : 'Fix the errors above to import'}
+          </button>
+        </>
+      )}
+    </div>
+  );
+}
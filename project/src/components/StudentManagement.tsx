@@ -1,11 +1,19 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { database } from '../utils/database';
-import { FaceRecognitionService } from '../utils/faceRecognition';
-import { Student } from '../types';
+import React, { useState, useEffect, useRef, useContext } from 'react';
+import { database, FaceConsistencyReport } from '../utils/database';
+import { facialRecognition } from '../utils/facialRecognition';
+import { PermissionError, ROLES, ROLE_LABELS } from '../utils/permissions';
+import { Student, Role } from '../types';
+import { AuthContext } from '../App';
+import { AuthError, MIN_PASSWORD_LENGTH, setLoginFor, usernameFor } from '../utils/auth';
+import { DEPARTMENTS, YEARS } from '../utils/studentImport';
+import StudentImport from './StudentImport';
+import BulkFaceEnrollment from './BulkFaceEnrollment';
 // import { Video, Check, User, Trash } from 'lucide-react';
 
-const StudentManagement: React.FC<{ userType: 'faculty' | 'student' }> = ({ userType }) => {
+const StudentManagement: React.FC = () => {
+  const auth = useContext(AuthContext);
   const [students, setStudents] = useState<Student[]>([]);
+  const [faceReport, setFaceReport] = useState<FaceConsistencyReport | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [faceRegistered, setFaceRegistered] = useState(false);
   const [isCameraActive, setIsCameraActive] = useState(false);
@@ -51,6 +59,7 @@ const StudentManagement: React.FC<{ userType: 'faculty' | 'student' }> = ({ user
   const loadStudents = () => {
     const loadedStudents = database.getStudents();
     setStudents(loadedStudents);
+    database.checkFaceConsistency().then(setFaceReport);
   };
 
   const checkAvailableCameras = async () => {
@@ -433,13 +442,12 @@ const StudentManagement: React.FC<{ userType: 'faculty' | 'student' }> = ({ user
 
     setIsLoading(true);
     try {
-      const faceService = FaceRecognitionService.getInstance();
-      const success = await faceService.registerFace(formData.rollNo, formData.imageUrl);
-      if (success) {
+      const result = await facialRecognition.registerStudentFace(formData.rollNo, formData.imageUrl, formData.name);
+      if (result.success) {
         setFaceRegistered(true);
         alert('Face registered successfully! The student will be recognized for attendance.');
       } else {
-        alert('Face registration failed. Please ensure the face is clearly visible and try again.');
+        alert(result.message);
       }
     } catch (error) {
       console.error('Face registration failed:', error);
@@ -507,7 +515,7 @@ const StudentManagement: React.FC<{ userType: 'faculty' | 'student' }> = ({ user
       alert('Student added successfully!');
     } catch (error) {
       console.error('Error adding student:', error);
-      alert('Failed to add student. Please try again.');
+      alert(error instanceof PermissionError ? error.message : 'Failed to add student. Please try again.');
     } finally {
       setIsLoading(false);
     }
@@ -515,16 +523,59 @@ const StudentManagement: React.FC<{ userType: 'faculty' | 'student' }> = ({ user
 
   const deleteStudent = async (id: string) => {
     if (window.confirm('Are you sure you want to delete this student?')) {
-      await database.deleteStudent(id);
+      try {
+        await database.deleteStudent(id);
+      } catch (error) {
+        console.error('Error deleting student:', error);
+        alert(error instanceof PermissionError ? error.message : 'Failed to delete student.');
+      }
       loadStudents();
     }
   };
 
-  if (userType !== 'faculty') {
+  const changeRole = (student: Student, role: Role) => {
+    try {
+      database.updateStudent({ ...student, role });
+    } catch (error) {
+      console.error('Error changing role:', error);
+      alert(error instanceof PermissionError ? error.message : 'Failed to change role.');
+    }
+    loadStudents();
+  };
+
+  // Seeded and imported records have no login until someone gives them a password
+  const setPassword = async (student: Student) => {
+    const password = window.prompt(
+      `New password for ${student.name} (username ${usernameFor(student)}), at least ${MIN_PASSWORD_LENGTH} characters:`
+    );
+    if (password === null) return;
+    try {
+      await setLoginFor(student, password);
+      alert(`${student.name} can now log in as ${usernameFor(student)}.`);
+    } catch (error) {
+      console.error('Error setting password:', error);
+      alert(error instanceof AuthError || error instanceof PermissionError ? error.message : 'Failed to set password.');
+    }
+  };
+
+  const reconcileFaceFlags = async () => {
+    try {
+      const fixed = await database.reconcileFaceFlags();
+      alert(`Updated ${fixed} student record(s). Students without stored face data must register their face again.`);
+    } catch (error) {
+      console.error('Error reconciling face registrations:', error);
+      alert(error instanceof PermissionError ? error.message : 'Failed to update face registrations.');
+    }
+    loadStudents();
+  };
+
+  const faceMismatches = faceReport ? faceReport.missingSamples.length + faceReport.unflagged.length : 0;
+
+  if (!auth?.can('students.view')) {
     return (
       <div className='text-center py-12'>
         <div className='text-red-400 text-lg font-medium'>Access Denied</div>
-        <p className='text-gray-400 mt-2'>Only faculty members can manage students.</p>
+        <p className='text-gray-400 mt-2'>Your account cannot view student records.</p>
       </div>
     );
   }
@@ -532,399 +583,426 @@ const StudentManagement: React.FC<{ userType: 'faculty' | 'student' }> = ({ user
   return (
     <div className='space-y-8'>
       {/* Add Student Form */}
-      <div className='bg-white/10 backdrop-blur-lg p-8 rounded-xl shadow-2xl border border-white/20'>
-        <h2 className='text-2xl font-bold mb-8 text-white text-center'>Add New Student</h2>
-
-        <form onSubmit={handleSubmit} className='space-y-6'>
-          {/* Student Photo Section */}
-          <div className='space-y-4'>
-            <label className='block text-lg font-medium text-gray-300 text-center'>
-              Student Photo
-            </label>
-
-            {/* Camera Interface */}
-            <div className='max-w-md mx-auto space-y-4'>
-              {/* Camera Feed */}
-              <div className='relative bg-gray-900 rounded-lg overflow-hidden aspect-video'>
-                {/* Video element - always rendered and ready to display */}
-                <video
-                  ref={videoRef}
-                  autoPlay
-                  playsInline
-                  muted
-                  className='w-full h-full object-cover'
-                  onClick={() => {
-                    // Allow manual play if autoplay was blocked
-                    if (videoRef.current && videoRef.current.paused && isCameraActive) {
-                      console.log('User clicked video - attempting manual play');
-                      videoRef.current.play().then(() => {
-                        console.log('✅ Manual play successful!');
-                      }).catch(err => {
-                        console.error('❌ Manual play failed:', err);
+      {auth.can('students.create') && (
+        <div className='bg-white/10 backdrop-blur-lg p-8 rounded-xl shadow-2xl border border-white/20'>
+          <h2 className='text-2xl font-bold mb-8 text-white text-center'>Add New Student</h2>
+
+          <form onSubmit={handleSubmit} className='space-y-6'>
+            {/* Student Photo Section */}
+            <div className='space-y-4'>
+              <label className='block text-lg font-medium text-gray-300 text-center'>
+                Student Photo
+              </label>
+
+              {/* Camera Interface */}
+              <div className='max-w-md mx-auto space-y-4'>
+                {/* Camera Feed */}
+                <div className='relative bg-gray-900 rounded-lg overflow-hidden aspect-video'>
+                  {/* Video element - always rendered and ready to display */}
+                  <video
+                    ref={videoRef}
+                    autoPlay
+                    playsInline
+                    muted
+                    className='w-full h-full object-cover'
+                    onClick={() => {
+                      // Allow manual play if autoplay was blocked
+                      if (videoRef.current && videoRef.current.paused && isCameraActive) {
+                        console.log('User clicked video - attempting manual play');
+                        videoRef.current.play().then(() => {
+                          console.log('✅ Manual play successful!');
+                        }).catch(err => {
+                          console.error('❌ Manual play failed:', err);
+                        });
+                      }
+                    }}
+                    style={{
+                      minHeight: '200px',
+                      backgroundColor: '#1a1a1a',
+                      display: 'block',
+                      position: 'absolute',
+                      top: 0,
+                      left: 0,
+                      width: '100%',
+                      height: '100%',
+                      objectFit: 'cover',
+                      zIndex: isCameraActive ? 10 : 1,
+                      opacity: isCameraActive ? 1 : 0,
+                      visibility: isCameraActive ? 'visible' : 'hidden',
+                      transition: 'opacity 0.3s ease'
+                    }}
+                    onError={(e) => {
+                      console.error('Video element error event:', e);
+                      const video = e.target as HTMLVideoElement;
+                      console.error('Video error details:', {
+                        error: video.error,
+                        networkState: video.networkState,
+                        readyState: video.readyState
                       });
-                    }
-                  }}
-                  style={{
-                    minHeight: '200px',
-                    backgroundColor: '#1a1a1a',
-                    display: 'block',
-                    position: 'absolute',
-                    top: 0,
-                    left: 0,
-                    width: '100%',
-                    height: '100%',
-                    objectFit: 'cover',
-                    zIndex: isCameraActive ? 10 : 1,
-                    opacity: isCameraActive ? 1 : 0,
-                    visibility: isCameraActive ? 'visible' : 'hidden',
-                    transition: 'opacity 0.3s ease'
-                  }}
-                  onError={(e) => {
-                    console.error('Video element error event:', e);
-                    const video = e.target as HTMLVideoElement;
-                    console.error('Video error details:', {
-                      error: video.error,
-                      networkState: video.networkState,
-                      readyState: video.readyState
-                    });
-                    setVideoLoadingStatus('Video error occurred');
-                  }}
-                  onLoadStart={() => {
-                    console.log('Video load started');
-                  }}
-                  onLoadedMetadata={(e) => {
-                    const video = e.target as HTMLVideoElement;
-                    console.log('Video metadata loaded:', {
-                      width: video.videoWidth,
-                      height: video.videoHeight
-                    });
-                  }}
-                  onLoadedData={() => {
-                    console.log('Video data loaded');
-                  }}
-                  onCanPlay={() => {
-                    console.log('Video can play');
-                  }}
-                  onPlay={() => {
-                    console.log('Video play event fired');
-                  }}
-                  onPlaying={() => {
-                    console.log('Video is playing');
-                  }}
-                  onPause={() => {
-                    console.log('Video paused');
-                  }}
-                  onWaiting={() => {
-                    console.log('Video waiting/buffering');
-                  }}
-                />
+                      setVideoLoadingStatus('Video error occurred');
+                    }}
+                    onLoadStart={() => {
+                      console.log('Video load started');
+                    }}
+                    onLoadedMetadata={(e) => {
+                      const video = e.target as HTMLVideoElement;
+                      console.log('Video metadata loaded:', {
+                        width: video.videoWidth,
+                        height: video.videoHeight
+                      });
+                    }}
+                    onLoadedData={() => {
+                      console.log('Video data loaded');
+                    }}
+                    onCanPlay={() => {
+                      console.log('Video can play');
+                    }}
+                    onPlay={() => {
+                      console.log('Video play event fired');
+                    }}
+                    onPlaying={() => {
+                      console.log('Video is playing');
+                    }}
+                    onPause={() => {
+                      console.log('Video paused');
+                    }}
+                    onWaiting={() => {
+                      console.log('Video waiting/buffering');
+                    }}
+                  />
                 
-                {/* Debug overlay - shows when camera is active but helps see video */}
-                {isCameraActive && (
-                  <div 
-                    className='absolute top-2 left-2 px-2 py-1 bg-red-600 text-white text-xs font-bold rounded flex items-center space-x-1'
-                    style={{ zIndex: 20 }}
-                  >
-                    <span className='w-2 h-2 bg-white rounded-full animate-pulse'></span>
-                    <span>LIVE</span>
-                  </div>
-                )}
+                  {/* Debug overlay - shows when camera is active but helps see video */}
+                  {isCameraActive && (
+                    <div 
+                      className='absolute top-2 left-2 px-2 py-1 bg-red-600 text-white text-xs font-bold rounded flex items-center space-x-1'
+                      style={{ zIndex: 20 }}
+                    >
+                      <span className='w-2 h-2 bg-white rounded-full animate-pulse'></span>
+                      <span>LIVE</span>
+                    </div>
+                  )}
                 
-                {/* Placeholder when camera is not active and no photo captured */}
-                {!isCameraActive && !formData.imageUrl && !isCameraLoading && (
-                  <div className='absolute inset-0 flex items-center justify-center bg-gray-800' style={{ zIndex: 5 }}>
-                    <div className='text-center text-white'>
-                      <div className='h-12 w-12 mx-auto mb-2 opacity-50 text-4xl'>📹</div>
-                      <p className='text-sm font-medium'>Camera not active</p>
-                      <p className='text-xs opacity-75'>Click 'Start Camera' to begin</p>
+                  {/* Placeholder when camera is not active and no photo captured */}
+                  {!isCameraActive && !formData.imageUrl && !isCameraLoading && (
+                    <div className='absolute inset-0 flex items-center justify-center bg-gray-800' style={{ zIndex: 5 }}>
+                      <div className='text-center text-white'>
+                        <div className='h-12 w-12 mx-auto mb-2 opacity-50 text-4xl'>📹</div>
+                        <p className='text-sm font-medium'>Camera not active</p>
+                        <p className='text-xs opacity-75'>Click 'Start Camera' to begin</p>
+                      </div>
                     </div>
-                  </div>
-                )}
+                  )}
                 
-                {/* Captured photo preview when camera is stopped */}
-                {formData.imageUrl && !isCameraActive && !isCameraLoading && (
-                  <div className='absolute inset-0' style={{ zIndex: 8 }}>
-                    <img
-                      src={formData.imageUrl}
-                      alt='Captured student photo'
-                      className='w-full h-full object-cover'
-                    />
+                  {/* Captured photo preview when camera is stopped */}
+                  {formData.imageUrl && !isCameraActive && !isCameraLoading && (
+                    <div className='absolute inset-0' style={{ zIndex: 8 }}>
+                      <img
+                        src={formData.imageUrl}
+                        alt='Captured student photo'
+                        className='w-full h-full object-cover'
+                      />
+                    </div>
+                  )}
+                
+                  {/* Loading overlay when camera is starting */}
+                  {isCameraLoading && (
+                    <div className='absolute inset-0 flex items-center justify-center bg-gray-900/90' style={{ zIndex: 15 }}>
+                      <div className='text-center text-white'>
+                        <div className='animate-spin rounded-full h-12 w-12 border-4 border-purple-500 border-t-transparent mx-auto mb-3'></div>
+                        <p className='text-sm font-medium'>Starting camera...</p>
+                        <p className='text-xs opacity-75 mt-1'>Please allow camera access</p>
+                      </div>
+                    </div>
+                  )}
+                </div>
+
+                {/* Video Status */}
+                {videoLoadingStatus && (
+                  <div className='text-center text-sm text-gray-300 bg-gray-800/50 rounded-lg p-2'>
+                    Status: {videoLoadingStatus}
                   </div>
                 )}
-                
-                {/* Loading overlay when camera is starting */}
-                {isCameraLoading && (
-                  <div className='absolute inset-0 flex items-center justify-center bg-gray-900/90' style={{ zIndex: 15 }}>
-                    <div className='text-center text-white'>
-                      <div className='animate-spin rounded-full h-12 w-12 border-4 border-purple-500 border-t-transparent mx-auto mb-3'></div>
-                      <p className='text-sm font-medium'>Starting camera...</p>
-                      <p className='text-xs opacity-75 mt-1'>Please allow camera access</p>
+
+                {/* Camera Controls */}
+                {!isCameraActive && !formData.imageUrl && (
+                  <div className='space-y-3'>
+                    <button
+                      type='button'
+                      onClick={startCamera}
+                      disabled={isCameraLoading}
+                      className='w-full flex items-center justify-center px-4 py-3 bg-purple-600 hover:bg-purple-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white rounded-lg transition-colors duration-200 font-medium'
+                    >
+                      {isCameraLoading ? (
+                        <>
+                          <div className='animate-spin rounded-full h-5 w-5 border-2 border-white border-t-transparent mr-2'></div>
+                          Starting...
+                        </>
+                      ) : (
+                        <>
+                          📹 Start Camera
+                        </>
+                      )}
+                    </button>
+                    <div className='flex space-x-2'>
+                      <button
+                        type='button'
+                        onClick={testCameraAccess}
+                        className='flex-1 flex items-center justify-center px-3 py-2 bg-gray-600 hover:bg-gray-700 text-white rounded-lg transition-colors duration-200 font-medium text-sm'
+                      >
+                        🔍 Test Access
+                      </button>
+                      <button
+                        type='button'
+                        onClick={checkAvailableCameras}
+                        className='flex-1 flex items-center justify-center px-3 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors duration-200 font-medium text-sm'
+                      >
+                        📷 Check Cameras
+                      </button>
                     </div>
                   </div>
                 )}
-              </div>
 
-              {/* Video Status */}
-              {videoLoadingStatus && (
-                <div className='text-center text-sm text-gray-300 bg-gray-800/50 rounded-lg p-2'>
-                  Status: {videoLoadingStatus}
-                </div>
-              )}
-
-              {/* Camera Controls */}
-              {!isCameraActive && !formData.imageUrl && (
-                <div className='space-y-3'>
-                  <button
-                    type='button'
-                    onClick={startCamera}
-                    disabled={isCameraLoading}
-                    className='w-full flex items-center justify-center px-4 py-3 bg-purple-600 hover:bg-purple-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white rounded-lg transition-colors duration-200 font-medium'
-                  >
-                    {isCameraLoading ? (
-                      <>
-                        <div className='animate-spin rounded-full h-5 w-5 border-2 border-white border-t-transparent mr-2'></div>
-                        Starting...
-                      </>
-                    ) : (
-                      <>
-                        📹 Start Camera
-                      </>
-                    )}
-                  </button>
-                  <div className='flex space-x-2'>
+                {isCameraActive && (
+                  <div className='flex justify-center space-x-3'>
                     <button
                       type='button'
-                      onClick={testCameraAccess}
-                      className='flex-1 flex items-center justify-center px-3 py-2 bg-gray-600 hover:bg-gray-700 text-white rounded-lg transition-colors duration-200 font-medium text-sm'
+                      onClick={capturePhoto}
+                      className='flex items-center px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors duration-200 font-medium text-sm'
                     >
-                      🔍 Test Access
+                      📸 Capture Photo
                     </button>
                     <button
                       type='button'
-                      onClick={checkAvailableCameras}
-                      className='flex-1 flex items-center justify-center px-3 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors duration-200 font-medium text-sm'
+                      onClick={stopCamera}
+                      className='flex items-center px-4 py-2 bg-red-600 hover:bg-red-700 text-white rounded-lg transition-colors duration-200 font-medium text-sm'
                     >
-                      📷 Check Cameras
+                      ❌ Stop Camera
                     </button>
                   </div>
-                </div>
-              )}
-
-              {isCameraActive && (
-                <div className='flex justify-center space-x-3'>
-                  <button
-                    type='button'
-                    onClick={capturePhoto}
-                    className='flex items-center px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors duration-200 font-medium text-sm'
-                  >
-                    📸 Capture Photo
-                  </button>
-                  <button
-                    type='button'
-                    onClick={stopCamera}
-                    className='flex items-center px-4 py-2 bg-red-600 hover:bg-red-700 text-white rounded-lg transition-colors duration-200 font-medium text-sm'
-                  >
-                    ❌ Stop Camera
-                  </button>
-                </div>
-              )}
+                )}
 
-              {/* Retake Photo Button */}
-              {formData.imageUrl && !isCameraActive && !isCameraLoading && (
-                <div className='flex justify-center'>
-                  <button
-                    type='button'
-                    onClick={() => {
-                      // Clear the captured photo and restart camera
-                      setFormData(prev => ({ ...prev, imageUrl: '' }));
-                      setPhotoCapturedFromCamera(false);
-                      setFaceRegistered(false);
-                      startCamera();
-                    }}
-                    className='flex items-center px-4 py-2 bg-orange-600 hover:bg-orange-700 text-white rounded-lg transition-colors duration-200 font-medium text-sm'
-                  >
-                    🔄 Retake Photo
-                  </button>
-                </div>
-              )}
-
-              {/* Photo Preview Warning */}
-              {!formData.imageUrl && (
-                <div className='bg-yellow-500/20 border border-yellow-500/30 rounded-lg p-3'>
-                  <div className='flex'>
-                    <div className='flex-shrink-0'>
-                      <svg className='h-5 w-5 text-yellow-400' viewBox='0 0 20 20' fill='currentColor'>
-                        <path fillRule='evenodd' d='M8.257 3.099c.765-1.36 2.722-1.36 3.486 0l5.58 9.92c.75 1.334-.213 2.98-1.742 2.98H4.42c-1.53 0-2.493-1.646-1.743-2.98l5.58-9.92zM11 13a1 1 0 11-2 0 1 1 0 012 0zm-1-8a1 1 0 00-1 1v3a1 1 0 002 0V6a1 1 0 00-1-1z' clipRule='evenodd' />
-                      </svg>
-                    </div>
-                    <div className='ml-3'>
-                      <p className='text-sm font-medium text-yellow-300'>
-                        ⚠️ Photo capture is mandatory for face recognition
-                      </p>
-                    </div>
+                {/* Retake Photo Button */}
+                {formData.imageUrl && !isCameraActive && !isCameraLoading && (
+                  <div className='flex justify-center'>
+                    <button
+                      type='button'
+                      onClick={() => {
+                        // Clear the captured photo and restart camera
+                        setFormData(prev => ({ ...prev, imageUrl: '' }));
+                        setPhotoCapturedFromCamera(false);
+                        setFaceRegistered(false);
+                        startCamera();
+                      }}
+                      className='flex items-center px-4 py-2 bg-orange-600 hover:bg-orange-700 text-white rounded-lg transition-colors duration-200 font-medium text-sm'
+                    >
+                      🔄 Retake Photo
+                    </button>
                   </div>
-                </div>
-              )}
+                )}
 
-              {/* Face Registration */}
-              {formData.imageUrl && photoCapturedFromCamera && !faceRegistered && (
-                <div className='space-y-3'>
-                  <div className='bg-red-500/20 border border-red-500/30 rounded-lg p-3'>
+                {/* Photo Preview Warning */}
+                {!formData.imageUrl && (
+                  <div className='bg-yellow-500/20 border border-yellow-500/30 rounded-lg p-3'>
                     <div className='flex'>
                       <div className='flex-shrink-0'>
-                        <svg className='h-5 w-5 text-red-400' viewBox='0 0 20 20' fill='currentColor'>
-                          <path fillRule='evenodd' d='M10 18a8 8 0 100-16 8 8 0 000 16zM8.707 7.293a1 1 0 00-1.414 1.414L8.586 10l-1.293 1.293a1 1 0 101.414 1.414L10 11.414l1.293 1.293a1 1 0 001.414-1.414L11.414 10l1.293-1.293a1 1 0 00-1.414-1.414L10 8.586 8.707 7.293z' clipRule='evenodd' />
+                        <svg className='h-5 w-5 text-yellow-400' viewBox='0 0 20 20' fill='currentColor'>
+                          <path fillRule='evenodd' d='M8.257 3.099c.765-1.36 2.722-1.36 3.486 0l5.58 9.92c.75 1.334-.213 2.98-1.742 2.98H4.42c-1.53 0-2.493-1.646-1.743-2.98l5.58-9.92zM11 13a1 1 0 11-2 0 1 1 0 012 0zm-1-8a1 1 0 00-1 1v3a1 1 0 002 0V6a1 1 0 00-1-1z' clipRule='evenodd' />
                         </svg>
                       </div>
                       <div className='ml-3'>
-                        <p className='text-sm font-medium text-red-300'>
-                          ⚠️ Face registration required for attendance recognition
+                        <p className='text-sm font-medium text-yellow-300'>
+                          ⚠️ Photo capture is mandatory for face recognition
                         </p>
                       </div>
                     </div>
                   </div>
-                  <button
-                    type='button'
-                    onClick={handleFaceRegistration}
-                    disabled={isLoading}
-                    className='w-full flex items-center justify-center px-4 py-3 bg-green-600 hover:bg-green-700 disabled:bg-gray-600 text-white rounded-lg transition-colors duration-200 font-medium'
-                  >
-                    {isLoading ? (
-                      <>
-                        <div className='animate-spin rounded-full h-5 w-5 border-b-2 border-white mr-2'></div>
-                        Registering Face...
-                      </>
-                    ) : (
-                      <>
-                        ✅ Register Face for Recognition
-                      </>
-                    )}
-                  </button>
-                </div>
-              )}
-
-              {faceRegistered && (
-                <div className='bg-green-500/20 border border-green-500/30 rounded-lg p-3'>
-                  <div className='flex items-center'>
-                    <span className='text-green-400 mr-3'>✅</span>
-                    <p className='text-sm font-medium text-green-300'>
-                      Face registered successfully!
-                    </p>
+                )}
+
+                {/* Face Registration */}
+                {formData.imageUrl && photoCapturedFromCamera && !faceRegistered && (
+                  <div className='space-y-3'>
+                    <div className='bg-red-500/20 border border-red-500/30 rounded-lg p-3'>
+                      <div className='flex'>
+                        <div className='flex-shrink-0'>
+                          <svg className='h-5 w-5 text-red-400' viewBox='0 0 20 20' fill='currentColor'>
+                            <path fillRule='evenodd' d='M10 18a8 8 0 100-16 8 8 0 000 16zM8.707 7.293a1 1 0 00-1.414 1.414L8.586 10l-1.293 1.293a1 1 0 101.414 1.414L10 11.414l1.293 1.293a1 1 0 001.414-1.414L11.414 10l1.293-1.293a1 1 0 00-1.414-1.414L10 8.586 8.707 7.293z' clipRule='evenodd' />
+                          </svg>
+                        </div>
+                        <div className='ml-3'>
+                          <p className='text-sm font-medium text-red-300'>
+                            ⚠️ Face registration required for attendance recognition
+                          </p>
+                        </div>
+                      </div>
+                    </div>
+                    <button
+                      type='button'
+                      onClick={handleFaceRegistration}
+                      disabled={isLoading}
+                      className='w-full flex items-center justify-center px-4 py-3 bg-green-600 hover:bg-green-700 disabled:bg-gray-600 text-white rounded-lg transition-colors duration-200 font-medium'
+                    >
+                      {isLoading ? (
+                        <>
+                          <div className='animate-spin rounded-full h-5 w-5 border-b-2 border-white mr-2'></div>
+                          Registering Face...
+                        </>
+                      ) : (
+                        <>
+                          ✅ Register Face for Recognition
+                        </>
+                      )}
+                    </button>
                   </div>
-                </div>
-              )}
-            </div>
-          </div>
+                )}
 
-          {/* Form Fields */}
-          <div className='grid grid-cols-1 md:grid-cols-2 gap-6'>
-            <div>
-              <label className='block text-sm font-medium text-gray-300 mb-2'>
-                Full Name *
-              </label>
-              <input
-                type='text'
-                value={formData.name}
-                onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
-                className='w-full px-4 py-3 bg-white/10 border border-white/20 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent'
-                placeholder="Enter student's full name"
-                required
-              />
+                {faceRegistered && (
+                  <div className='bg-green-500/20 border border-green-500/30 rounded-lg p-3'>
+                    <div className='flex items-center'>
+                      <span className='text-green-400 mr-3'>✅</span>
+                      <p className='text-sm font-medium text-green-300'>
+                        Face registered successfully!
+                      </p>
+                    </div>
+                  </div>
+                )}
+              </div>
             </div>
 
-            <div>
-              <label className='block text-sm font-medium text-gray-300 mb-2'>
-                Roll Number *
-              </label>
-              <input
-                type='text'
-                value={formData.rollNo}
-                onChange={(e) => setFormData(prev => ({ ...prev, rollNo: e.target.value }))}
-                className='w-full px-4 py-3 bg-white/10 border border-white/20 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent'
-                placeholder='Enter roll number'
-                required
-              />
-            </div>
+            {/* Form Fields */}
+            <div className='grid grid-cols-1 md:grid-cols-2 gap-6'>
+              <div>
+                <label className='block text-sm font-medium text-gray-300 mb-2'>
+                  Full Name *
+                </label>
+                <input
+                  type='text'
+                  value={formData.name}
+                  onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                  className='w-full px-4 py-3 bg-white/10 border border-white/20 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent'
+                  placeholder="Enter student's full name"
+                  required
+                />
+              </div>
 
-            <div>
-              <label className='block text-sm font-medium text-gray-300 mb-2'>
-                Email *
-              </label>
-              <input
-                type='email'
-                value={formData.email}
-                onChange={(e) => setFormData(prev => ({ ...prev, email: e.target.value }))}
-                className='w-full px-4 py-3 bg-white/10 border border-white/20 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent'
-                placeholder='Enter email address'
-                required
-              />
-            </div>
+              <div>
+                <label className='block text-sm font-medium text-gray-300 mb-2'>
+                  Roll Number *
+                </label>
+                <input
+                  type='text'
+                  value={formData.rollNo}
+                  onChange={(e) => setFormData(prev => ({ ...prev, rollNo: e.target.value }))}
+                  className='w-full px-4 py-3 bg-white/10 border border-white/20 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent'
+                  placeholder='Enter roll number'
+                  required
+                />
+              </div>
 
-            <div>
-              <label className='block text-sm font-medium text-gray-300 mb-2'>
-                Department *
-              </label>
-              <select
-                value={formData.department}
-                onChange={(e) => setFormData(prev => ({ ...prev, department: e.target.value }))}
-                className='w-full px-4 py-3 bg-white/10 border border-white/20 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent'
-                required
-              >
-                <option value='' className='bg-slate-800'>Select Department</option>
-                <option value='Computer Science' className='bg-slate-800'>Computer Science</option>
-                <option value='Information Technology' className='bg-slate-800'>Information Technology</option>
-                <option value='Electronics' className='bg-slate-800'>Electronics</option>
-                <option value='Mechanical' className='bg-slate-800'>Mechanical</option>
-                <option value='Civil' className='bg-slate-800'>Civil</option>
-                <option value='Electrical' className='bg-slate-800'>Electrical</option>
-              </select>
+              <div>
+                <label className='block text-sm font-medium text-gray-300 mb-2'>
+                  Email *
+                </label>
+                <input
+                  type='email'
+                  value={formData.email}
+                  onChange={(e) => setFormData(prev => ({ ...prev, email: e.target.value }))}
+                  className='w-full px-4 py-3 bg-white/10 border border-white/20 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent'
+                  placeholder='Enter email address'
+                  required
+                />
+              </div>
+
+              <div>
+                <label className='block text-sm font-medium text-gray-300 mb-2'>
+                  Department *
+                </label>
+                <select
+                  value={formData.department}
+                  onChange={(e) => setFormData(prev => ({ ...prev, department: e.target.value }))}
+                  className='w-full px-4 py-3 bg-white/10 border border-white/20 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent'
+                  required
+                >
+                  <option value='' className='bg-slate-800'>Select Department</option>
+                  {DEPARTMENTS.map(department => (
+                    <option key={department} value={department} className='bg-slate-800'>{department}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div className='md:col-span-2'>
+                <label className='block text-sm font-medium text-gray-300 mb-2'>
+                  Year *
+                </label>
+                <select
+                  value={formData.year}
+                  onChange={(e) => setFormData(prev => ({ ...prev, year: e.target.value }))}
+                  className='w-full px-4 py-3 bg-white/10 border border-white/20 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent'
+                  required
+                >
+                  <option value='' className='bg-slate-800'>Select Year</option>
+                  {YEARS.map(year => (
+                    <option key={year} value={year} className='bg-slate-800'>{year}</option>
+                  ))}
+                </select>
+              </div>
             </div>
 
-            <div className='md:col-span-2'>
-              <label className='block text-sm font-medium text-gray-300 mb-2'>
-                Year *
-              </label>
-              <select
-                value={formData.year}
-                onChange={(e) => setFormData(prev => ({ ...prev, year: e.target.value }))}
-                className='w-full px-4 py-3 bg-white/10 border border-white/20 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent'
-                required
+            {/* Submit Button */}
+            <div className='pt-4'>
+              <button
+                type='submit'
+                disabled={isLoading || !faceRegistered}
+                className='w-full flex items-center justify-center px-6 py-4 bg-gradient-to-r from-purple-600 to-cyan-600 hover:from-purple-700 hover:to-cyan-700 disabled:from-gray-600 disabled:to-gray-600 text-white rounded-lg transition-all duration-200 font-semibold text-lg shadow-lg disabled:cursor-not-allowed'
               >
-                <option value='' className='bg-slate-800'>Select Year</option>
-                <option value='1st Year' className='bg-slate-800'>1st Year</option>
-                <option value='2nd Year' className='bg-slate-800'>2nd Year</option>
-                <option value='3rd Year' className='bg-slate-800'>3rd Year</option>
-                <option value='4th Year' className='bg-slate-800'>4th Year</option>
-              </select>
+                {isLoading ? (
+                  <>
+                    <div className='animate-spin rounded-full h-6 w-6 border-b-2 border-white mr-3'></div>
+                    Adding Student...
+                  </>
+                ) : (
+                  <>
+                    👤 Add Student
+                  </>
+                )}
+              </button>
             </div>
-          </div>
+          </form>
+        </div>
+      )}
 
-          {/* Submit Button */}
-          <div className='pt-4'>
-            <button
-              type='submit'
-              disabled={isLoading || !faceRegistered}
-              className='w-full flex items-center justify-center px-6 py-4 bg-gradient-to-r from-purple-600 to-cyan-600 hover:from-purple-700 hover:to-cyan-700 disabled:from-gray-600 disabled:to-gray-600 text-white rounded-lg transition-all duration-200 font-semibold text-lg shadow-lg disabled:cursor-not-allowed'
-            >
-              {isLoading ? (
-                <>
-                  <div className='animate-spin rounded-full h-6 w-6 border-b-2 border-white mr-3'></div>
-                  Adding Student...
-                </>
-              ) : (
-                <>
-                  👤 Add Student
-                </>
-              )}
-            </button>
-          </div>
-        </form>
-      </div>
+      {auth.can('students.create') && <StudentImport onImported={loadStudents} />}
+
+      {auth.can('students.edit') && <BulkFaceEnrollment onEnrolled={loadStudents} />}
 
       {/* Students List */}
       <div className='bg-white/10 backdrop-blur-lg p-8 rounded-xl shadow-2xl border border-white/20'>
         <h3 className='text-xl font-bold mb-6 text-white'>Registered Students ({students.length})</h3>
 
+        {faceReport && faceMismatches > 0 && (
+          <div className='mb-6 p-4 bg-yellow-500/20 border border-yellow-500/30 rounded-lg'>
+            <p className='text-yellow-300 font-medium'>⚠️ Face registration mismatch for {faceMismatches} student(s)</p>
+            {faceReport.missingSamples.length > 0 && (
+              <p className='text-yellow-200 text-sm mt-1'>
+                Marked as registered but no face data stored (cannot be recognized):{' '}
+                {faceReport.missingSamples.map(s => s.rollNo).join(', ')}
+              </p>
+            )}
+            {faceReport.unflagged.length > 0 && (
+              <p className='text-yellow-200 text-sm mt-1'>
+                Face data stored but not marked as registered: {faceReport.unflagged.map(s => s.rollNo).join(', ')}
+              </p>
+            )}
+            {auth.can('students.edit') && (
+              <button
+                onClick={reconcileFaceFlags}
+                className='mt-3 px-4 py-2 text-sm bg-yellow-600 hover:bg-yellow-700 text-white rounded-lg transition-colors duration-200'
+              >
+                Fix Registration Flags
+              </button>
+            )}
+          </div>
+        )}
+
         {students.length === 0 ? (
           <div className='text-center py-12'>
             <div className='text-6xl mb-4 text-gray-400'>👥</div>
@@ -960,14 +1038,38 @@ const StudentManagement: React.FC<{ userType: 'faculty' | 'student' }> = ({ user
                         </div>
                       )}
                     </div>
+                    {auth.can('users.manageRoles') && (
+                      <select
+                        value={student.role}
+                        onChange={(e) => changeRole(student, e.target.value as Role)}
+                        disabled={student.id === auth.session?.userId} // Admins cannot demote themselves
+                        className='mt-2 w-full px-2 py-1 text-xs border border-white/30 rounded bg-white/10 text-white disabled:opacity-50'
+                        title='Account role'
+                      >
+                        {ROLES.map(role => (
+                          <option key={role} value={role} className='bg-gray-800 text-white'>{ROLE_LABELS[role]}</option>
+                        ))}
+                      </select>
+                    )}
+                    {auth.can(student.role === 'student' ? 'students.create' : 'users.manageRoles') && (
+                      <button
+                        onClick={() => setPassword(student)}
+                        className='mt-2 w-full px-2 py-1 text-xs border border-white/30 rounded bg-white/10 text-white hover:bg-white/20'
+                        title='Create a login or reset the password'
+                      >
+                        🔑 Set Password
+                      </button>
+                    )}
                   </div>
-                  <button
-                    onClick={() => deleteStudent(student.id)}
-                    className='text-red-400 hover:text-red-300 transition-colors duration-200 p-1'
-                    title='Delete student'
-                  >
-                    🗑️
-                  </button>
+                  {auth.can('students.delete') && (
+                    <button
+                      onClick={() => deleteStudent(student.id)}
+                      className='text-red-400 hover:text-red-300 transition-colors duration-200 p-1'
+                      title='Delete student'
+                    >
+                      🗑️
+                    </button>
+                  )}
                 </div>
               </div>
             ))}
@@ -1,6 +1,6 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { database } from '../utils/database';
-import { FaceRecognitionService } from '../utils/faceRecognition';
+import { facialRecognition } from '../utils/facialRecognition';
 import { Student } from '../types';
 import { Camera, CheckCircle, User, Trash2 } from 'lucide-react';
 
@@ -107,13 +107,12 @@ const StudentManagement: React.FC<{ userType: 'faculty' | 'student' }> = ({ user
 
     setIsLoading(true);
     try {
-      const faceService = FaceRecognitionService.getInstance();
-      const success = await faceService.registerFace(formData.rollNo, formData.imageUrl);
-      if (success) {
+      const result = await facialRecognition.registerStudentFace(formData.rollNo, formData.imageUrl, formData.name);
+      if (result.success) {
         setFaceRegistered(true);
         alert('Face registered successfully! The student will be recognized for attendance.');
       } else {
-        alert('Face registration failed. Please ensure the face is clearly visible and try again.');
+        alert(result.message);
       }
     } catch (error) {
       console.error('Face registration failed:', error);
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useContext, useMemo } from 'react';
 import {
   Users,
   TrendingUp,
@@ -16,9 +16,16 @@ import {
   Download,
   Zap,
   ArrowLeft,
+  Shield,
+  FileText,
 } from 'lucide-react';
 import { database } from '../utils/database';
-import { Student, AttendanceRecord } from '../types';
+import { getSessionOutcomes, isAttended } from '../utils/timetable';
+import { CourseStanding, StudentStanding, evaluateStudent, findDefaulters } from '../utils/attendancePolicy';
+import { useAttendancePolicy } from '../hooks/useAttendancePolicy';
+import { auditLogToCsv, AuditChainStatus, AUDIT_SOURCE_LABELS } from '../utils/audit';
+import { Student, AttendanceRecord, AuditEntry } from '../types';
+import { AuthContext } from '../App';
 
 interface StudentAttendanceStats {
   student: Student;
@@ -27,6 +34,7 @@ interface StudentAttendanceStats {
   present: number;
   late: number;
   absent: number;
+  excused: number;
   attendancePercentage: number;
   trend: 'improving' | 'declining' | 'stable';
   lastAttended: Date | null;
@@ -38,7 +46,11 @@ interface StudentAttendanceStats {
   }[];
 }
 
+// Percentage points below the policy minimum that still show as a warning rather than a shortage
+const WARNING_BAND = 15;
+
 const StudentMonitoring = () => {
+  const auth = useContext(AuthContext);
   const [students, setStudents] = useState<Student[]>([]);
   const [attendanceRecords, setAttendanceRecords] = useState<AttendanceRecord[]>([]);
   const [studentStats, setStudentStats] = useState<StudentAttendanceStats[]>([]);
@@ -46,10 +58,36 @@ const StudentMonitoring = () => {
   const [searchQuery, setSearchQuery] = useState('');
   const [filterDepartment, setFilterDepartment] = useState('All');
   const [sortBy, setSortBy] = useState<'name' | 'attendance' | 'absences'>('attendance');
+  const [auditEntries, setAuditEntries] = useState<AuditEntry[]>([]);
+  const [auditStatus, setAuditStatus] = useState<AuditChainStatus | null>(null);
+  const canViewAudit = !!auth?.can('audit.view');
+  const { policy } = useAttendancePolicy();
+  const minimum = policy.minimumPercentage;
+
+  const standings = useMemo(() => {
+    const byStudent = new Map<string, StudentStanding>();
+    students.forEach(student => {
+      byStudent.set(student.id, evaluateStudent(student, database.getSessionsForStudent(student.id), attendanceRecords, policy));
+    });
+    return byStudent;
+  }, [students, attendanceRecords, policy]);
 
   useEffect(() => {
     loadStudentData();
-  }, []);
+  }, [policy]);
+
+  useEffect(() => {
+    if (canViewAudit) {
+      database.verifyAuditLog().then(setAuditStatus);
+    }
+  }, [canViewAudit]);
+
+  useEffect(() => {
+    setAuditEntries([]);
+    if (selectedStudent && canViewAudit) {
+      database.getAuditLog({ studentId: selectedStudent.student.id }).then(entries => setAuditEntries(entries.reverse()));
+    }
+  }, [selectedStudent, canViewAudit]);
 
   const loadStudentData = () => {
     const allStudents = database.getStudents().filter(s => s.role === 'student');
@@ -67,12 +105,24 @@ const StudentMonitoring = () => {
     records: AttendanceRecord[]
   ): StudentAttendanceStats[] => {
     return students.map(student => {
-      const studentRecords = records.filter(r => r.studentId === student.id);
+      // Every held session of the student's sections is a class; sessions without a check-in are absences.
+      // Students not enrolled in any section fall back to their raw check-in records.
+      const sessions = database.getSessionsForStudent(student.id);
+      const studentRecords: Pick<AttendanceRecord, 'status' | 'timestamp'>[] = sessions.length > 0
+        ? getSessionOutcomes(student.id, sessions, records).map(outcome => ({
+            status: outcome.status,
+            timestamp: outcome.session.scheduledStart,
+          }))
+        : records.filter(r => r.studentId === student.id);
       
-      const totalClasses = studentRecords.length;
-      const present = studentRecords.filter(r => r.status === 'Present').length;
-      const late = studentRecords.filter(r => r.status === 'Late').length;
-      const absent = studentRecords.filter(r => r.status === 'Absent').length;
+      // Excused (approved leave) classes are left out of the percentages, or count as absences, per the policy
+      const excused = studentRecords.filter(r => r.status === 'Excused').length;
+      const counted = policy.excludeExcused ? studentRecords.filter(r => r.status !== 'Excused') : studentRecords;
+
+      const totalClasses = counted.length;
+      const present = counted.filter(r => r.status === 'Present').length;
+      const late = counted.filter(r => r.status === 'Late').length;
+      const absent = counted.filter(r => !isAttended(r.status)).length;
       const attended = present + late;
       
       const attendancePercentage = totalClasses > 0 
@@ -81,20 +131,20 @@ const StudentMonitoring = () => {
 
       // Calculate trend (last 7 days vs previous 7 days)
       const now = new Date();
-      const last7Days = studentRecords.filter(r => {
+      const last7Days = counted.filter(r => {
         const daysAgo = Math.floor((now.getTime() - new Date(r.timestamp).getTime()) / (1000 * 60 * 60 * 24));
         return daysAgo <= 7;
       });
-      const previous7Days = studentRecords.filter(r => {
+      const previous7Days = counted.filter(r => {
         const daysAgo = Math.floor((now.getTime() - new Date(r.timestamp).getTime()) / (1000 * 60 * 60 * 24));
         return daysAgo > 7 && daysAgo <= 14;
       });
 
       const last7Percentage = last7Days.length > 0
-        ? (last7Days.filter(r => r.status !== 'Absent').length / last7Days.length) * 100
+        ? (last7Days.filter(r => isAttended(r.status)).length / last7Days.length) * 100
         : 0;
       const previous7Percentage = previous7Days.length > 0
-        ? (previous7Days.filter(r => r.status !== 'Absent').length / previous7Days.length) * 100
+        ? (previous7Days.filter(r => isAttended(r.status)).length / previous7Days.length) * 100
         : 0;
 
       let trend: 'improving' | 'declining' | 'stable' = 'stable';
@@ -103,14 +153,14 @@ const StudentMonitoring = () => {
 
       // Last attended
       const attendedRecords = studentRecords
-        .filter(r => r.status !== 'Absent')
+        .filter(r => isAttended(r.status))
         .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
       const lastAttended = attendedRecords.length > 0 
         ? new Date(attendedRecords[0].timestamp) 
         : null;
 
-      // Consecutive absences
-      const sortedRecords = [...studentRecords].sort(
+      // Consecutive absences (excused classes neither count nor break the run)
+      const sortedRecords = studentRecords.filter(r => r.status !== 'Excused').sort(
         (a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
       );
       let consecutiveAbsences = 0;
@@ -129,7 +179,7 @@ const StudentMonitoring = () => {
           const daysAgo = Math.floor((now.getTime() - new Date(r.timestamp).getTime()) / (1000 * 60 * 60 * 24));
           return daysAgo === i;
         });
-        weeklyAttendance[6 - i] = dayRecords.filter(r => r.status !== 'Absent').length > 0 ? 1 : 0;
+        weeklyAttendance[6 - i] = dayRecords.filter(r => isAttended(r.status)).length > 0 ? 1 : 0;
       }
 
       // Monthly stats (last 3 months)
@@ -139,14 +189,14 @@ const StudentMonitoring = () => {
         monthDate.setMonth(monthDate.getMonth() - i);
         const monthName = monthDate.toLocaleDateString('en-US', { month: 'short' });
         
-        const monthRecords = studentRecords.filter(r => {
+        const monthRecords = counted.filter(r => {
           const recordDate = new Date(r.timestamp);
           return recordDate.getMonth() === monthDate.getMonth() &&
                  recordDate.getFullYear() === monthDate.getFullYear();
         });
 
         const monthPercentage = monthRecords.length > 0
-          ? (monthRecords.filter(r => r.status !== 'Absent').length / monthRecords.length) * 100
+          ? (monthRecords.filter(r => isAttended(r.status)).length / monthRecords.length) * 100
           : 0;
 
         monthlyStats.unshift({
@@ -162,6 +212,7 @@ const StudentMonitoring = () => {
         present,
         late,
         absent,
+        excused,
         attendancePercentage,
         trend,
         lastAttended,
@@ -209,16 +260,28 @@ const StudentMonitoring = () => {
   const departments = ['All', ...Array.from(new Set(students.map(s => s.department)))];
   const filteredStudents = getFilteredAndSortedStudents();
 
+  const visibleIds = new Set(filteredStudents.map(stat => stat.student.id));
+  const defaulters = findDefaulters(Array.from(standings.values())).filter(standing => visibleIds.has(standing.student.id));
+
+  const courseLabel = (courseId: string) => database.getCourse(courseId)?.code || 'Course';
+
+  const describeRecovery = (course: CourseStanding) => {
+    if (!course.canRecover) {
+      return `Cannot reach ${course.minimumPercentage}% this term (${course.remaining} classes left)`;
+    }
+    return `${course.classesNeeded} ${course.classesNeeded === 1 ? 'class' : 'classes'} in a row to reach ${course.minimumPercentage}%`;
+  };
+
   const getAttendanceColor = (percentage: number) => {
-    if (percentage >= 75) return 'text-green-400';
-    if (percentage >= 60) return 'text-yellow-400';
+    if (percentage >= minimum) return 'text-green-400';
+    if (percentage >= minimum - WARNING_BAND) return 'text-yellow-400';
     return 'text-red-400';
   };
 
-  const getAttendanceBadgeColor = (percentage: number) => {
-    if (percentage >= 75) return 'bg-green-500/20 text-green-300 border-green-500/30';
-    if (percentage >= 60) return 'bg-yellow-500/20 text-yellow-300 border-yellow-500/30';
-    return 'bg-red-500/20 text-red-300 border-red-500/30';
+  const getAttendanceBarColor = (percentage: number) => {
+    if (percentage >= minimum) return 'bg-gradient-to-r from-green-500 to-emerald-500';
+    if (percentage >= minimum - WARNING_BAND) return 'bg-gradient-to-r from-yellow-500 to-amber-500';
+    return 'bg-gradient-to-r from-red-500 to-pink-500';
   };
 
   const downloadStudentReport = (stat: StudentAttendanceStats) => {
@@ -241,6 +304,7 @@ Classes Attended: ${stat.attended}
 Present: ${stat.present}
 Late: ${stat.late}
 Absent: ${stat.absent}
+Excused: ${stat.excused}
 Attendance Percentage: ${stat.attendancePercentage.toFixed(2)}%
 
 Trend: ${stat.trend.toUpperCase()}
@@ -265,17 +329,69 @@ Generated on: ${new Date().toLocaleString()}
     URL.revokeObjectURL(url);
   };
 
+  // Full audit trail of the visible students as CSV for the exam office
+  const exportAuditLog = async () => {
+    const entries = await database.getAuditLog();
+    const rollNos = new Map(students.map(s => [s.id, s.rollNo || '']));
+    const status = await database.verifyAuditLog();
+    setAuditStatus(status);
+
+    const integrity = status.valid
+      ? `# Hash chain verified: ${status.checked} entries intact`
+      : `# WARNING: hash chain broken at entry #${status.brokenAt} (${status.reason})`;
+    const csv = `${integrity}\n${auditLogToCsv(entries, rollNos)}`;
+
+    const blob = new Blob([csv], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `attendance_audit_log_${new Date().toISOString().split('T')[0]}.csv`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
   return (
     <div className="space-y-6">
       {/* Header */}
       <div className="bg-gradient-to-r from-blue-600 to-purple-600 rounded-xl p-6 shadow-xl">
-        <h1 className="text-3xl font-bold text-white mb-2 flex items-center">
-          <Users className="w-8 h-8 mr-3" />
-          Student Monitoring & Analytics
-        </h1>
-        <p className="text-gray-200">
-          Track individual student attendance, performance, and profiles
-        </p>
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-white mb-2 flex items-center">
+              <Users className="w-8 h-8 mr-3" />
+              Student Monitoring & Analytics
+            </h1>
+            <p className="text-gray-200">
+              Track individual student attendance, performance, and profiles
+            </p>
+          </div>
+          {canViewAudit && (
+            <div className="flex flex-col items-start md:items-end gap-2">
+              {auditStatus && (
+                <span className={`flex items-center text-xs px-3 py-1 rounded-full border ${
+                  auditStatus.valid
+                    ? 'bg-green-500/20 border-green-500/30 text-green-200'
+                    : 'bg-red-500/20 border-red-500/30 text-red-200'
+                }`}>
+                  <Shield className="w-4 h-4 mr-1" />
+                  {auditStatus.valid
+                    ? `Audit log intact (${auditStatus.checked} entries)`
+                    : `Audit log tampered at entry #${auditStatus.brokenAt}`}
+                </span>
+              )}
+              {auth?.can('reports.export') && (
+                <button
+                  onClick={exportAuditLog}
+                  className="flex items-center gap-2 px-4 py-2 bg-white/20 hover:bg-white/30 text-white text-sm font-medium rounded-lg transition-all duration-300"
+                >
+                  <FileText className="w-4 h-4" />
+                  Export Audit Log
+                </button>
+              )}
+            </div>
+          )}
+        </div>
       </div>
 
       {/* Search and Filters */}
@@ -330,28 +446,93 @@ Generated on: ${new Date().toLocaleString()}
         <div className="bg-gradient-to-br from-green-500/20 to-emerald-500/20 backdrop-blur-lg rounded-xl p-4 border-2 border-green-400">
           <Award className="w-6 h-6 text-green-300 mb-2" />
           <div className="text-3xl font-bold text-white">
-            {studentStats.filter(s => s.attendancePercentage >= 75).length}
+            {studentStats.filter(s => s.attendancePercentage >= minimum).length}
           </div>
-          <div className="text-green-200 text-sm">Above 75%</div>
+          <div className="text-green-200 text-sm">{minimum}% or above</div>
         </div>
 
         <div className="bg-gradient-to-br from-yellow-500/20 to-amber-500/20 backdrop-blur-lg rounded-xl p-4 border-2 border-yellow-400">
           <AlertCircle className="w-6 h-6 text-yellow-300 mb-2" />
           <div className="text-3xl font-bold text-white">
-            {studentStats.filter(s => s.attendancePercentage >= 60 && s.attendancePercentage < 75).length}
+            {studentStats.filter(s => s.attendancePercentage >= minimum - WARNING_BAND && s.attendancePercentage < minimum).length}
           </div>
-          <div className="text-yellow-200 text-sm">60-75%</div>
+          <div className="text-yellow-200 text-sm">{minimum - WARNING_BAND}-{minimum}%</div>
         </div>
 
         <div className="bg-gradient-to-br from-red-500/20 to-pink-500/20 backdrop-blur-lg rounded-xl p-4 border-2 border-red-400">
           <XCircle className="w-6 h-6 text-red-300 mb-2" />
           <div className="text-3xl font-bold text-white">
-            {studentStats.filter(s => s.attendancePercentage < 60).length}
+            {studentStats.filter(s => s.attendancePercentage < minimum - WARNING_BAND).length}
           </div>
-          <div className="text-red-200 text-sm">Below 60%</div>
+          <div className="text-red-200 text-sm">Below {minimum - WARNING_BAND}%</div>
         </div>
       </div>
 
+      {/* Defaulters under the attendance policy */}
+      {defaulters.length > 0 && (
+        <div className="bg-red-500/10 backdrop-blur-lg rounded-xl p-6 border border-red-500/30">
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-2 mb-4">
+            <h2 className="text-xl font-bold text-white flex items-center">
+              <AlertCircle className="w-5 h-5 mr-2 text-red-400" />
+              Defaulters ({defaulters.length})
+            </h2>
+            <span className="text-sm text-gray-300">
+              Policy: at least {minimum}% per course, fewer than {policy.consecutiveAbsenceLimit} absences in a row
+            </span>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-400 border-b border-white/10">
+                  <th className="py-2 pr-4">Student</th>
+                  <th className="py-2 pr-4">Course</th>
+                  <th className="py-2 pr-4">Attendance</th>
+                  <th className="py-2">To recover</th>
+                </tr>
+              </thead>
+              <tbody>
+                {defaulters.map(standing => {
+                  const short = standing.courses.filter(course => course.shortage);
+                  const stat = studentStats.find(s => s.student.id === standing.student.id);
+                  return (
+                    <tr
+                      key={standing.student.id}
+                      onClick={() => stat && setSelectedStudent(stat)}
+                      className="border-b border-white/5 align-top cursor-pointer hover:bg-white/5"
+                    >
+                      <td className="py-2 pr-4 text-white">
+                        <div>{standing.student.name}</div>
+                        <div className="text-xs text-gray-400">{standing.student.rollNo}</div>
+                        {standing.absenceLimitReached && (
+                          <div className="text-xs text-red-300">{standing.consecutiveAbsences} consecutive absences</div>
+                        )}
+                      </td>
+                      <td className="py-2 pr-4 text-gray-300">
+                        {short.length > 0 ? short.map(course => <div key={course.courseId}>{courseLabel(course.courseId)}</div>) : '-'}
+                      </td>
+                      <td className="py-2 pr-4">
+                        {short.map(course => (
+                          <div key={course.courseId} className={getAttendanceColor(course.percentage)}>
+                            {course.percentage.toFixed(1)}% <span className="text-gray-500">/ {course.minimumPercentage}%</span>
+                          </div>
+                        ))}
+                      </td>
+                      <td className="py-2">
+                        {short.map(course => (
+                          <div key={course.courseId} className={course.canRecover ? 'text-yellow-300' : 'text-red-300'}>
+                            {describeRecovery(course)}
+                          </div>
+                        ))}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
       {/* Students Grid */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
         {filteredStudents.map(stat => (
@@ -397,13 +578,7 @@ Generated on: ${new Date().toLocaleString()}
               </div>
               <div className="w-full bg-white/20 rounded-full h-2">
                 <div
-                  className={`h-2 rounded-full transition-all duration-500 ${
-                    stat.attendancePercentage >= 75
-                      ? 'bg-gradient-to-r from-green-500 to-emerald-500'
-                      : stat.attendancePercentage >= 60
-                      ? 'bg-gradient-to-r from-yellow-500 to-amber-500'
-                      : 'bg-gradient-to-r from-red-500 to-pink-500'
-                  }`}
+                  className={`h-2 rounded-full transition-all duration-500 ${getAttendanceBarColor(stat.attendancePercentage)}`}
                   style={{ width: `${stat.attendancePercentage}%` }}
                 />
               </div>
@@ -441,12 +616,17 @@ Generated on: ${new Date().toLocaleString()}
             </div>
 
             {/* Alerts */}
-            {stat.consecutiveAbsences >= 3 && (
+            {stat.consecutiveAbsences >= policy.consecutiveAbsenceLimit && (
               <div className="bg-red-500/20 border border-red-500/30 rounded-lg px-3 py-2 text-xs text-red-300 flex items-center">
                 <AlertCircle className="w-4 h-4 mr-2" />
                 {stat.consecutiveAbsences} consecutive absences
               </div>
             )}
+            {standings.get(stat.student.id)?.courses.filter(course => course.shortage).map(course => (
+              <div key={course.courseId} className="mt-2 bg-yellow-500/20 border border-yellow-500/30 rounded-lg px-3 py-2 text-xs text-yellow-200">
+                {courseLabel(course.courseId)}: {describeRecovery(course)}
+              </div>
+            ))}
 
             {/* View Details Button */}
             <button className="w-full mt-3 px-4 py-2 bg-gradient-to-r from-purple-600 to-pink-600 hover:from-purple-700 hover:to-pink-700 text-white text-sm font-medium rounded-lg transition-all duration-300">
@@ -541,13 +721,7 @@ Generated on: ${new Date().toLocaleString()}
                   </div>
                   <div className="w-full bg-white/20 rounded-full h-4">
                     <div
-                      className={`h-4 rounded-full transition-all duration-500 ${
-                        selectedStudent.attendancePercentage >= 75
-                          ? 'bg-gradient-to-r from-green-500 to-emerald-500'
-                          : selectedStudent.attendancePercentage >= 60
-                          ? 'bg-gradient-to-r from-yellow-500 to-amber-500'
-                          : 'bg-gradient-to-r from-red-500 to-pink-500'
-                      }`}
+                      className={`h-4 rounded-full transition-all duration-500 ${getAttendanceBarColor(selectedStudent.attendancePercentage)}`}
                       style={{ width: `${selectedStudent.attendancePercentage}%` }}
                     />
                   </div>
@@ -575,8 +749,50 @@ Generated on: ${new Date().toLocaleString()}
                     <div className="text-sm text-red-300">Absent</div>
                   </div>
                 </div>
+                {selectedStudent.excused > 0 && (
+                  <p className="mt-4 text-sm text-blue-300">
+                    {selectedStudent.excused} {selectedStudent.excused === 1 ? 'class' : 'classes'} excused by approved leave
+                    {policy.excludeExcused ? ' (left out of the percentage)' : ' (counted as absences)'}
+                  </p>
+                )}
               </div>
 
+              {/* Attendance Policy */}
+              {(standings.get(selectedStudent.student.id)?.courses.length ?? 0) > 0 && (
+                <div className="bg-white/10 backdrop-blur-lg rounded-xl p-6 border border-white/20">
+                  <h3 className="text-xl font-bold text-white mb-4 flex items-center">
+                    <Award className="w-5 h-5 mr-2" />
+                    Attendance Policy
+                  </h3>
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-gray-400 border-b border-white/10">
+                        <th className="py-2 pr-4">Course</th>
+                        <th className="py-2 pr-4">Attended</th>
+                        <th className="py-2 pr-4">Minimum</th>
+                        <th className="py-2 pr-4">Classes left</th>
+                        <th className="py-2">Outlook</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {standings.get(selectedStudent.student.id)!.courses.map(course => (
+                        <tr key={course.courseId} className="border-b border-white/5">
+                          <td className="py-2 pr-4 text-white">{courseLabel(course.courseId)}</td>
+                          <td className={`py-2 pr-4 ${getAttendanceColor(course.percentage)}`}>
+                            {course.attended}/{course.held} ({course.percentage.toFixed(1)}%)
+                          </td>
+                          <td className="py-2 pr-4 text-gray-300">{course.minimumPercentage}%</td>
+                          <td className="py-2 pr-4 text-gray-300">{course.remaining}</td>
+                          <td className={`py-2 ${course.shortage ? (course.canRecover ? 'text-yellow-300' : 'text-red-300') : 'text-green-300'}`}>
+                            {course.shortage ? describeRecovery(course) : `Can miss ${course.canMiss} more`}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+
               {/* Monthly Performance */}
               <div className="bg-white/10 backdrop-blur-lg rounded-xl p-6 border border-white/20">
                 <h3 className="text-xl font-bold text-white mb-4 flex items-center">
@@ -595,9 +811,9 @@ Generated on: ${new Date().toLocaleString()}
                       <div className="w-full bg-white/20 rounded-full h-2">
                         <div
                           className={`h-2 rounded-full ${
-                            month.percentage >= 75
+                            month.percentage >= minimum
                               ? 'bg-green-500'
-                              : month.percentage >= 60
+                              : month.percentage >= minimum - WARNING_BAND
                               ? 'bg-yellow-500'
                               : 'bg-red-500'
                           }`}
@@ -635,7 +851,7 @@ Generated on: ${new Date().toLocaleString()}
                     </div>
                   )}
                   
-                  {selectedStudent.consecutiveAbsences >= 3 && (
+                  {selectedStudent.consecutiveAbsences >= policy.consecutiveAbsenceLimit && (
                     <div className="flex items-center px-4 py-2 bg-red-500/20 border border-red-500/30 rounded-lg">
                       <AlertCircle className="w-5 h-5 text-red-400 mr-2" />
                       <span className="text-red-300 font-semibold">
@@ -646,6 +862,36 @@ Generated on: ${new Date().toLocaleString()}
                 </div>
               </div>
 
+              {/* Audit Trail */}
+              {canViewAudit && (
+                <div className="bg-white/10 backdrop-blur-lg rounded-xl p-6 border border-white/20">
+                  <h3 className="text-xl font-bold text-white mb-4 flex items-center">
+                    <Shield className="w-5 h-5 mr-2" />
+                    Audit Trail
+                  </h3>
+                  {auditEntries.length === 0 ? (
+                    <p className="text-gray-400 text-sm">No attendance changes recorded for this student.</p>
+                  ) : (
+                    <div className="space-y-2 max-h-64 overflow-y-auto">
+                      {auditEntries.map(entry => (
+                        <div key={entry.id} className="bg-white/5 rounded-lg p-3 border border-white/10 text-sm">
+                          <div className="flex items-center justify-between">
+                            <span className="text-white font-medium">
+                              {entry.before ? `${entry.before} → ${entry.after}` : `Marked ${entry.after}`}
+                            </span>
+                            <span className="text-gray-400 text-xs">{new Date(entry.timestamp).toLocaleString()}</span>
+                          </div>
+                          <div className="text-gray-300 text-xs mt-1">
+                            {AUDIT_SOURCE_LABELS[entry.source]} by {entry.actorName}
+                            {entry.reason && <span className="text-gray-400"> — {entry.reason}</span>}
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+
               {/* Actions */}
               <div className="flex gap-4">
                 <button
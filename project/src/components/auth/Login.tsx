@@ -1,10 +1,13 @@
 import React, { useState, useContext, useMemo, useEffect } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
 import { AuthContext } from '../../App';
+import { AuthError } from '../../utils/auth';
 
 const Login = () => {
   const [userType, setUserType] = useState<'faculty' | 'student'>('faculty');
   const [credentials, setCredentials] = useState({ username: '', password: '' });
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
   const auth = useContext(AuthContext);
   const navigate = useNavigate();
 
@@ -26,12 +29,20 @@ const Login = () => {
     }));
   }, []);
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    // Add authentication logic here
-    if (auth) {
-      auth.login(userType, credentials);
+    if (!auth) return;
+
+    setError(null);
+    setIsLoading(true);
+    try {
+      await auth.login(userType, credentials);
       navigate('/dashboard');
+    } catch (err) {
+      console.error('Login failed:', err);
+      setError(err instanceof AuthError ? err.message : 'Login failed. Please try again.');
+    } finally {
+      setIsLoading(false);
     }
   };
 
@@ -88,6 +99,11 @@ const Login = () => {
           </div>
         </div>
         <form className="mt-8 space-y-6" onSubmit={handleSubmit}>
+          {error && (
+            <div className="bg-red-500/20 border border-red-500/40 rounded-lg px-4 py-3 text-sm text-red-300">
+              {error}
+            </div>
+          )}
           <div className="space-y-4">
             <div>
               <input
@@ -115,9 +131,10 @@ const Login = () => {
           <div>
             <button
               type="submit"
-              className="group relative w-full flex justify-center py-3 px-4 border border-transparent text-sm font-medium rounded-lg text-white bg-gradient-to-r from-purple-600 to-cyan-600 hover:from-purple-700 hover:to-cyan-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-purple-500 transition-all duration-300 transform hover:scale-105"
+              disabled={isLoading}
+              className="group relative w-full flex justify-center py-3 px-4 border border-transparent text-sm font-medium rounded-lg text-white bg-gradient-to-r from-purple-600 to-cyan-600 hover:from-purple-700 hover:to-cyan-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-purple-500 transition-all duration-300 transform hover:scale-105 disabled:opacity-50 disabled:cursor-not-allowed"
             >
-              Sign In
+              {isLoading ? 'Signing In...' : 'Sign In'}
             </button>
           </div>
         </form>
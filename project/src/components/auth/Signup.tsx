@@ -1,8 +1,9 @@
 import React, { useState, useRef, useEffect, useMemo, useContext } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
-import { database } from '../../utils/database';
 import { facialRecognition } from '../../utils/facialRecognition';
 import { AuthContext } from '../../App';
+import { database } from '../../utils/database';
+import { registerSelf, setupFirstAdmin, needsFirstAdmin, validatePassword, AuthError, MIN_PASSWORD_LENGTH } from '../../utils/auth';
 
 const Signup = () => {
   const navigate = useNavigate();
@@ -19,6 +20,7 @@ const Signup = () => {
     confirmPassword: ''
   });
   const [isLoading, setIsLoading] = useState(false);
+  const [firstAdmin, setFirstAdmin] = useState(false);
   const [faceRegistered, setFaceRegistered] = useState(false);
   const [isCameraActive, setIsCameraActive] = useState(false);
   const [photoCapturedFromCamera, setPhotoCapturedFromCamera] = useState(false);
@@ -33,6 +35,16 @@ const Signup = () => {
     }
   }, [auth?.isAuthenticated, navigate]);
 
+  // A browser-only install starts without an administrator; the first signup creates one
+  useEffect(() => {
+    database.init().then(() => {
+      if (needsFirstAdmin()) {
+        setFirstAdmin(true);
+        setFormData(prev => ({ ...prev, role: 'admin' }));
+      }
+    });
+  }, []);
+
   // Generate star positions once to prevent re-renders
   const starPositions = useMemo(() => {
     return [...Array(40)].map(() => ({
@@ -234,17 +246,24 @@ const Signup = () => {
       return;
     }
 
+    const passwordProblem = validatePassword(formData.password);
+    if (passwordProblem) {
+      alert(passwordProblem);
+      return;
+    }
+
     setIsLoading(true);
     try {
-      // Create user record based on role
-      const userData = formData.role === 'student' ? {
+      const staff = formData.role !== 'student';
+
+      // Create user record based on role; staff accounts wait for an administrator's approval
+      const profile = !staff ? {
         rollNo: formData.rollNo,
         name: formData.name,
         email: formData.email,
         imageUrl: formData.image,
         department: formData.department,
         year: formData.year,
-        role: 'student' as const,
         faceRegistered: true,
         photoCapturedFromCamera: true
       } : {
@@ -254,30 +273,28 @@ const Signup = () => {
         imageUrl: '', // Empty for faculty
         department: formData.department,
         year: formData.year, // Using year for designation
-        role: 'faculty' as const,
         faceRegistered: false,
         photoCapturedFromCamera: false
       };
 
-      await database.saveStudent(userData);
-
-      // Store user credentials
-      localStorage.setItem(`user_${formData.rollNo}`, JSON.stringify({
-        username: formData.rollNo,
-        password: formData.password,
-        type: formData.role,
-        faceRegistered: formData.role === 'student' ? true : false
-      }));
+      // Only a salted hash of the password is stored
+      if (formData.role === 'admin') {
+        await setupFirstAdmin(profile, formData.password);
+      } else {
+        await registerSelf(profile, { password: formData.password, staff });
+      }
 
-      const successMessage = formData.role === 'student'
+      const successMessage = formData.role === 'admin'
+        ? 'Administrator account created! Log in as faculty to add students, approve staff and set passwords.'
+        : !staff
         ? 'Registration successful! Your face has been registered for attendance recognition. You can now log in.'
-        : 'Registration successful! You can now log in as faculty.';
+        : 'Registration received! You can log in once an administrator has approved your staff account.';
 
       alert(successMessage);
       navigate('/login');
     } catch (error) {
       console.error('Registration failed:', error);
-      alert('Registration failed. Please try again.');
+      alert(error instanceof AuthError ? error.message : 'Registration failed. Please try again.');
     } finally {
       setIsLoading(false);
     }
@@ -311,7 +328,7 @@ const Signup = () => {
             </div>
           </div>
           <h2 className="text-4xl font-bold bg-gradient-to-r from-purple-400 to-cyan-400 bg-clip-text text-transparent">
-            {formData.role === 'student' ? 'Student Registration' : 'Faculty Registration'}
+            {formData.role === 'student' ? 'Student Registration' : formData.role === 'admin' ? 'Administrator Setup' : 'Faculty Registration'}
           </h2>
           <p className="text-gray-300 mt-2 text-lg">Create your account to access NEOATTEND</p>
         </div>
@@ -340,8 +357,19 @@ const Signup = () => {
             </div>
           )}
 
+          {/* First-run setup replaces the account type choice */}
+          {firstAdmin && (
+            <div className="bg-gradient-to-r from-cyan-500/20 to-blue-500/20 border-2 border-cyan-500/40 rounded-xl p-5 shadow-lg">
+              <h3 className="text-lg font-bold text-cyan-300">🛠️ First-time setup</h3>
+              <p className="text-gray-200 mt-1">
+                This device has no administrator yet. The account you create now will be the administrator,
+                who approves staff and creates logins for students.
+              </p>
+            </div>
+          )}
+
           {/* Account Type Selection */}
-          <div>
+          {!firstAdmin && <div>
             <h3 className="text-xl font-semibold text-white mb-4 flex items-center">
               <span className="bg-gradient-to-r from-purple-500 to-cyan-500 w-8 h-8 rounded-lg flex items-center justify-center mr-3">
                 <span className="text-white text-lg">👤</span>
@@ -395,10 +423,10 @@ const Signup = () => {
               >
                 <div className="text-3xl mb-2">👨‍🏫</div>
                 <div className="font-semibold text-white">Faculty</div>
-                <div className="text-xs text-gray-300 mt-1">Attendance manager</div>
+                <div className="text-xs text-gray-300 mt-1">Needs administrator approval</div>
               </button>
             </div>
-          </div>
+          </div>}
 
           {/* Basic Information Section */}
           <div>
@@ -504,8 +532,9 @@ const Signup = () => {
                 <input
                   type="password"
                   required
+                  minLength={MIN_PASSWORD_LENGTH}
                   className="w-full border border-white/20 rounded-lg shadow-sm py-3 px-4 bg-white/5 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent transition-all duration-300"
-                  placeholder="Enter password"
+                  placeholder={`At least ${MIN_PASSWORD_LENGTH} characters`}
                   value={formData.password}
                   onChange={(e) => setFormData(prev => ({...prev, password: e.target.value}))}
                 />
@@ -0,0 +1,28 @@
+import { useEffect, useState } from 'react';
+import { AttendancePolicy, DEFAULT_ATTENDANCE_POLICY, loadAttendancePolicy, saveAttendancePolicy } from '../utils/attendancePolicy';
+
+/**
+ * The institution's attendance policy (the default one until the settings have loaded)
+ */
+export const useAttendancePolicy = () => {
+  const [policy, setPolicy] = useState<AttendancePolicy>(DEFAULT_ATTENDANCE_POLICY);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadAttendancePolicy()
+      .then(loaded => {
+        if (!cancelled) setPolicy(loaded);
+      })
+      .catch(error => console.error('Failed to load attendance policy:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const savePolicy = async (next: AttendancePolicy) => {
+    await saveAttendancePolicy(next);
+    setPolicy(next);
+  };
+
+  return { policy, savePolicy };
+};
@@ -0,0 +1,109 @@
+import { useEffect, useRef, useState } from 'react';
+import { database } from '../utils/database';
+import { HttpAdapter } from '../utils/storage/httpAdapter';
+import { reviveDates } from '../utils/storage/storageAdapter';
+import { AttendanceRecord } from '../types';
+
+// 'live': pushed over the WebSocket; 'polling': socket down, asking the API every few seconds;
+// 'local': no API configured, only check-ins made on this device show up
+export type LiveStatus = 'live' | 'polling' | 'local';
+
+const POLL_INTERVAL_MS = 5000;
+const MAX_RECONNECT_DELAY_MS = 30000;
+
+/**
+ * Calls `onChange` whenever an attendance record of `sessionId` is created or updated - on this
+ * device, or on any other device through the API server's live feed. Reconnects with backoff and
+ * polls the API while the socket is down.
+ */
+export const useLiveAttendance = (sessionId: string | null, onChange: (record: AttendanceRecord) => void): LiveStatus => {
+  const [status, setStatus] = useState<LiveStatus>('local');
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+
+  useEffect(() => {
+    const unsubscribe = database.onAttendanceChange(record => {
+      if (!sessionId || record.sessionId === sessionId) onChangeRef.current(record);
+    });
+
+    const remote = database.getRemote();
+    if (!sessionId || !(remote instanceof HttpAdapter) || !remote.getLiveUrl()) {
+      setStatus('local');
+      return unsubscribe;
+    }
+
+    let socket: WebSocket | null = null;
+    let pollTimer: ReturnType<typeof setInterval> | null = null;
+    let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+    let reconnectDelay = 1000;
+    let stopped = false;
+
+    const poll = async () => {
+      try {
+        const records = await remote.queryAttendance({ sessionId });
+        records.forEach(record => database.applyRemoteAttendance(record));
+      } catch (error) {
+        console.warn('[Live] Polling failed:', error);
+      }
+    };
+
+    const startPolling = () => {
+      setStatus('polling');
+      if (pollTimer) return;
+      poll();
+      pollTimer = setInterval(poll, POLL_INTERVAL_MS);
+    };
+
+    const stopPolling = () => {
+      if (pollTimer) clearInterval(pollTimer);
+      pollTimer = null;
+    };
+
+    const connect = () => {
+      const url = remote.getLiveUrl();
+      if (stopped || !url) return;
+      socket = new WebSocket(url);
+
+      socket.onopen = () => {
+        reconnectDelay = 1000;
+        socket?.send(JSON.stringify({ type: 'subscribe', sessionId }));
+        stopPolling();
+        // Catch up on whatever arrived while the socket was down
+        poll();
+        setStatus('live');
+      };
+      socket.onmessage = event => {
+        try {
+          const message = JSON.parse(event.data);
+          if (message?.type === 'attendance' && message.record) {
+            database.applyRemoteAttendance(reviveDates('attendance', message.record as AttendanceRecord));
+          }
+        } catch (error) {
+          console.warn('[Live] Ignoring malformed message:', error);
+        }
+      };
+      socket.onclose = event => {
+        socket = null;
+        if (stopped) return;
+        startPolling();
+        // 4401/4403: the token was rejected, reconnecting will not help
+        if (event.code === 4401 || event.code === 4403) return;
+        reconnectTimer = setTimeout(connect, reconnectDelay);
+        reconnectDelay = Math.min(reconnectDelay * 2, MAX_RECONNECT_DELAY_MS);
+      };
+    };
+
+    startPolling();
+    connect();
+
+    return () => {
+      stopped = true;
+      unsubscribe();
+      stopPolling();
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      socket?.close();
+    };
+  }, [sessionId]);
+
+  return status;
+};
@@ -0,0 +1,27 @@
+import { useEffect, useState } from 'react';
+import { database } from '../utils/database';
+import { DEFAULT_REPORT_TEMPLATE, ReportTemplate, loadReportTemplates, templateForDepartment } from '../utils/reportTemplates';
+
+/**
+ * The institution's report templates and the one picked for the next export - by default the
+ * template assigned to the logged-in user's department.
+ */
+export const useReportTemplates = () => {
+  const [templates, setTemplates] = useState<ReportTemplate[]>([DEFAULT_REPORT_TEMPLATE]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadReportTemplates()
+      .then(loaded => {
+        if (!cancelled) setTemplates(loaded);
+      })
+      .catch(error => console.error('Failed to load report templates:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const template = templates.find(t => t.id === selectedId) ?? templateForDepartment(templates, database.getActor()?.department);
+  return { templates, template, selectTemplate: setSelectedId };
+};
@@ -0,0 +1,13 @@
+import { useEffect, useState } from 'react';
+import { settingsService, SystemSettings } from '../utils/settings';
+
+/**
+ * The effective system settings for the logged-in user, kept current as they change
+ */
+export const useSettings = (): SystemSettings => {
+  const [settings, setSettings] = useState<SystemSettings>(settingsService.get());
+
+  useEffect(() => settingsService.subscribe(setSettings), []);
+
+  return settings;
+};
@@ -8,24 +8,262 @@ export interface Student {
   department: string;
   year?: string; // Optional for faculty
   designation?: string; // For faculty
-  role: 'student' | 'faculty';
+  role: Role;
   faceRegistered?: boolean;
   photoCapturedFromCamera?: boolean;
   createdAt: Date;
 }
 
+// One enrolment photo's face descriptor. Keyed by roll number because faces are
+// registered before the Student record exists (signup); a student can have several.
+export interface FaceSample {
+  id: string;
+  rollNo: string;
+  descriptor: number[]; // Float32Array serialized for JSON/IndexedDB
+  registeredAt: Date;
+}
+
 export interface StudentFile {
   name: string;
   url: string;
   type: string;
 }
 
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+export interface AttendanceLocation extends GeoPoint {
+  address: string;
+  accuracy?: number; // Metres, as reported by the browser
+}
+
+// Campus area a check-in must fall inside: a radius around a point, or a polygon
+export type Geofence =
+  | { type: 'circle'; center: GeoPoint; radiusMeters: number }
+  | { type: 'polygon'; points: GeoPoint[] };
+
+export interface Building {
+  id: string;
+  name: string;
+  geofence: Geofence;
+  createdAt: Date;
+}
+
+export interface Room {
+  id: string;
+  name: string; // Matches TimetableSlot.room / ClassSession.room
+  buildingId: string;
+  geofence?: Geofence; // Falls back to the building's geofence
+  createdAt: Date;
+}
+
+// Outcome of comparing a check-in's location with its session's room
+export type LocationStatus =
+  | 'inside'
+  | 'outside'
+  | 'unavailable' // Device could not provide a location
+  | 'unchecked'; // No session or no geofence for its room
+
 export interface AttendanceRecord {
   id: string;
   studentId: string;
+  rollNo?: string; // Denormalized from the student at marking time
+  name?: string; // Denormalized from the student at marking time
   timestamp: Date;
-  status: 'Present' | 'Absent' | 'Late';
+  status: 'Present' | 'Absent' | 'Late' | 'Excused'; // Excused: covered by an approved leave request
   confidence?: number; // For face recognition confidence score
+  location?: AttendanceLocation;
+  subject?: string;
+  sessionId?: string; // ClassSession the check-in belongs to
+  livenessScore?: number; // Liveness check result (0-1) for webcam check-ins
+  locationStatus?: LocationStatus;
+  distanceMeters?: number; // How far outside the room geofence the check-in was
+  locationReviewedAt?: Date; // Set when faculty accept or reject a flagged location
+  locationReviewedBy?: string;
+  source?: AttendanceSource; // How the current status was set; decides sync conflicts
+  updatedAt?: Date; // Last status change
+}
+
+export interface Course {
+  id: string;
+  code: string; // e.g. CS301
+  name: string;
+  department: string;
+  createdAt: Date;
+}
+
+export interface TimetableSlot {
+  dayOfWeek: number; // 0 = Sunday ... 6 = Saturday
+  startTime: string; // HH:MM, 24h
+  endTime: string; // HH:MM, 24h
+  room: string;
+}
+
+export interface Section {
+  id: string;
+  courseId: string;
+  name: string; // e.g. Section A
+  facultyId?: string; // Owning staff member (Student record with a non-student role)
+  facultyName?: string;
+  studentIds: string[]; // Enrolled students
+  timetable: TimetableSlot[];
+  termStart: Date;
+  termEnd: Date;
+  createdAt: Date;
+}
+
+export interface ClassSession {
+  id: string;
+  sectionId: string;
+  courseId: string;
+  scheduledStart: Date;
+  scheduledEnd: Date;
+  room: string;
+  facultyId?: string;
+  status: 'scheduled' | 'cancelled';
+  attendancePurgedAt?: Date; // Its attendance expired and was purged; only records kept under a legal hold still count
+}
+
+export interface Credential {
+  id: string; // Normalized (trimmed, lower-case) username
+  username: string; // Roll number for students, employee id for faculty
+  userId: string; // Student record the account belongs to
+  role: Role;
+  salt: string; // base64
+  hash: string; // base64 PBKDF2-SHA-256 of the password
+  iterations: number;
+  createdAt: Date;
+}
+
+export interface AuthSession {
+  id: string; // Opaque session token
+  userId: string;
+  username: string;
+  role: Role;
+  createdAt: Date;
+  expiresAt: Date;
+}
+
+// How an attendance change came about
+export type AttendanceSource = 'face_recognition' | 'manual_override' | 'import' | 'leave_approval';
+
+// A student's request to be excused for a range of days; approving it marks their sessions Excused
+export interface LeaveRequest {
+  id: string;
+  studentId: string;
+  from: Date; // First day of leave
+  to: Date; // Last day of leave (inclusive)
+  reason: string;
+  document?: StudentFile; // Supporting document (e.g. medical certificate) as a data URL
+  status: 'pending' | 'approved' | 'rejected';
+  submittedAt: Date;
+  reviewedAt?: Date;
+  reviewedBy?: string; // User id of the approver
+  reviewerName?: string;
+  reviewComment?: string;
+  excusedSessions?: number; // Sessions marked Excused on approval
+}
+
+// A student's claim that an attendance record (or a session with no record) is wrong
+export interface AttendanceDispute {
+  id: string;
+  studentId: string;
+  date: Date; // When the disputed class took place
+  sessionId?: string;
+  recordId?: string; // The disputed record; absent when the student was never marked
+  currentStatus: AttendanceRecord['status'] | null; // Status at the time of the dispute
+  claimedStatus: 'Present' | 'Late';
+  reason: string;
+  evidence?: StudentFile; // Optional photo as a data URL
+  status: 'pending' | 'approved' | 'rejected';
+  submittedAt: Date;
+  reviewedAt?: Date;
+  reviewedBy?: string; // User id of the reviewer
+  reviewerName?: string;
+  reviewComment?: string;
+}
+
+export interface AuditEntry {
+  id: string;
+  sequence: number; // 1-based position in the hash chain
+  timestamp: Date;
+  action: 'attendance.create' | 'attendance.update';
+  recordId: string;
+  studentId: string;
+  sessionId?: string;
+  before: AttendanceRecord['status'] | null; // null when the record was created
+  after: AttendanceRecord['status'];
+  reason: string;
+  source: AttendanceSource;
+  actorId: string; // 'system' for startup seeding and other unattended changes
+  actorName: string;
+  actorRole: Role | 'system';
+  prevHash: string;
+  hash: string; // SHA-256 over the entry content and prevHash
+  purgedAt?: Date; // Content removed by the retention purge (it is in the purge archive); the entry keeps its links
+  contentHash?: string; // Set with purgedAt: hash of the removed fields, so the entry still verifies
+}
+
+// Attendance change made on this device that the server has not acknowledged yet
+export interface OutboxEntry {
+  id: string;
+  recordId: string;
+  action: AuditEntry['action'];
+  record: AttendanceRecord; // Full record after the change
+  queuedAt: Date;
+  attempts: number;
+  lastError?: string;
+  rejectedAt?: Date; // The server refused it (e.g. a 403 or 409); kept for review instead of being retried
+}
+
+// One run of a scheduled report job (see utils/scheduledReports.ts)
+export interface ReportJobRun {
+  id: string;
+  jobId: string;
+  jobName: string;
+  trigger: 'schedule' | 'manual';
+  startedAt: Date;
+  finishedAt: Date;
+  status: 'success' | 'failed';
+  message: string; // Where the report went, or why it failed
+}
+
+// Kinds of data the retention purge removes (see utils/retention.ts)
+export type RetentionDataClass = 'faceImages' | 'faceDescriptors' | 'attendance' | 'auditLog' | 'reports';
+
+// Keeps one student's data out of the retention purge
+export interface LegalHold {
+  studentId: string;
+  reason: string;
+  placedAt: Date;
+  placedBy: string; // User id
+}
+
+// Everything one purge removed, handed to the archiver before anything is deleted
+export interface PurgeArchive {
+  createdAt: Date;
+  cutoffs: Partial<Record<RetentionDataClass, Date>>;
+  faceImages: { studentId: string; rollNo?: string; name: string; imageUrl: string }[];
+  faceDescriptors: FaceSample[];
+  attendance: AttendanceRecord[];
+  auditLog: AuditEntry[];
+  reports: ReportJobRun[];
+}
+
+// One run of the retention purge
+export interface PurgeReport {
+  id: string;
+  trigger: 'schedule' | 'manual';
+  startedAt: Date;
+  finishedAt: Date;
+  status: 'success' | 'failed';
+  cutoffs: Partial<Record<RetentionDataClass, Date>>; // Older data was purged; classes kept forever are missing
+  purged: Record<RetentionDataClass, number>;
+  held: number; // Expired items kept because of legal holds
+  archive?: string; // Where the purged data was archived
+  message: string;
 }
 
 export interface DashboardStats {
@@ -36,4 +274,14 @@ export interface DashboardStats {
   attendanceRate: number;
 }
 
-export type UserType = 'faculty' | 'student';
\ No newline at end of file
+export interface CameraState {
+  isActive: boolean;
+  isProcessing: boolean;
+  lastCapture?: string;
+}
+
+export type UserType = 'faculty' | 'student';
+
+// Access level of an account; see ROLE_PERMISSIONS in utils/permissions.ts
+// 'pending' is a self-registered staff account an administrator has not approved yet
+export type Role = 'admin' | 'hod' | 'faculty' | 'ta' | 'student' | 'pending';
\ No newline at end of file
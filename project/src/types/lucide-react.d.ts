@@ -31,4 +31,11 @@ declare module 'lucide-react' {
   export const Edit3: any;
   export const Trash2: any;
   export const RefreshCw: any;
+  export const CloudOff: any;
+  export const AlertTriangle: any;
+  export const Activity: any;
+  export const Settings: any;
+  export const Database: any;
+  export const Bell: any;
+  export const Archive: any;
 }
\ No newline at end of file
@@ -0,0 +1,35 @@
+/**
+ * Files attached to leave requests and attendance disputes, stored inline as data URLs
+ */
+
+import { StudentFile } from '../types';
+
+export interface AttachmentRules {
+  types: string[]; // Accepted MIME types
+  typeLabel: string; // e.g. 'a PDF, JPEG or PNG document'
+  maxBytes: number;
+}
+
+export const PHOTO_ATTACHMENT: AttachmentRules = {
+  types: ['image/jpeg', 'image/png'],
+  typeLabel: 'a JPEG or PNG photo',
+  maxBytes: 2 * 1024 * 1024,
+};
+
+/**
+ * Read a file into a StudentFile; rejects files that are too large or of the wrong type
+ */
+export const readAttachment = (file: File, rules: AttachmentRules): Promise<StudentFile> => {
+  if (!rules.types.includes(file.type)) {
+    return Promise.reject(new Error(`Attach ${rules.typeLabel}`));
+  }
+  if (file.size > rules.maxBytes) {
+    return Promise.reject(new Error(`Attachments must be under ${rules.maxBytes / (1024 * 1024)} MB`));
+  }
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve({ name: file.name, url: reader.result as string, type: file.type });
+    reader.onerror = () => reject(reader.error ?? new Error(`Could not read ${file.name}`));
+    reader.readAsDataURL(file);
+  });
+};
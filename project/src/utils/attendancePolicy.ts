@@ -0,0 +1,163 @@
+/**
+ * Attendance policy: the minimum attendance a student has to keep in every course (with
+ * per-course overrides) and how many consecutive absences raise an alarm. Standings are
+ * evaluated against the timetable's sessions, so the sessions still scheduled this term tell
+ * whether a student below the minimum can recover and how many classes that takes.
+ */
+
+import { AttendanceRecord, ClassSession, Student } from '../types';
+import { database } from './database';
+import { SettingsStore } from './reportTemplates';
+import { getSessionOutcomes, isSessionHeld, summarizeOutcomes } from './timetable';
+
+export interface AttendancePolicy {
+  minimumPercentage: number; // Applies to every course without an override
+  consecutiveAbsenceLimit: number; // This many absences in a row flag the student
+  courseMinimums: Record<string, number>; // Course id -> minimum percentage
+  excludeExcused: boolean; // Sessions excused by approved leave are left out of the percentage; otherwise they count as absences
+}
+
+export const DEFAULT_ATTENDANCE_POLICY: AttendancePolicy = {
+  minimumPercentage: 75,
+  consecutiveAbsenceLimit: 3,
+  courseMinimums: {},
+  excludeExcused: true,
+};
+
+export interface CourseStanding {
+  courseId: string;
+  minimumPercentage: number;
+  held: number;
+  attended: number;
+  percentage: number;
+  remaining: number; // Sessions still scheduled this term
+  shortage: boolean; // Below the minimum right now
+  classesNeeded: number; // Classes in a row to attend to get back to the minimum; 0 when not short
+  canRecover: boolean; // Attending every remaining session ends the term at or above the minimum
+  canMiss: number; // Remaining sessions that can be skipped while still ending the term at the minimum
+}
+
+export interface StudentStanding {
+  student: Student;
+  courses: CourseStanding[];
+  consecutiveAbsences: number; // Across all of the student's courses, most recent first; excused sessions are skipped
+  absenceLimitReached: boolean;
+  defaulter: boolean; // Short in some course or over the consecutive-absence limit
+}
+
+const POLICY_SETTING = 'attendancePolicy';
+
+// Slack for floating-point error in the percentage arithmetic
+const EPSILON = 1e-9;
+
+export const minimumFor = (policy: AttendancePolicy, courseId: string): number =>
+  policy.courseMinimums[courseId] ?? policy.minimumPercentage;
+
+export const validateAttendancePolicy = (policy: AttendancePolicy): string[] => {
+  const errors: string[] = [];
+  const validPercentage = (value: number) => Number.isFinite(value) && value >= 1 && value <= 100;
+  if (!validPercentage(policy.minimumPercentage)) errors.push('Minimum attendance must be between 1 and 100% inclusive');
+  if (!Number.isInteger(policy.consecutiveAbsenceLimit) || policy.consecutiveAbsenceLimit < 1) {
+    errors.push('Consecutive absence limit must be a whole number of at least 1');
+  }
+  Object.keys(policy.courseMinimums).forEach(courseId => {
+    if (!validPercentage(policy.courseMinimums[courseId])) {
+      const course = database.getCourse(courseId);
+      errors.push(`Minimum attendance for ${course?.code || courseId} must be between 1 and 100% inclusive`);
+    }
+  });
+  return errors;
+};
+
+export const loadAttendancePolicy = async (store: SettingsStore = database): Promise<AttendancePolicy> => {
+  const stored = (await store.getSettings())[POLICY_SETTING] as Partial<AttendancePolicy> | undefined;
+  return { ...DEFAULT_ATTENDANCE_POLICY, ...stored };
+};
+
+export const saveAttendancePolicy = async (policy: AttendancePolicy, store: SettingsStore = database): Promise<void> => {
+  const errors = validateAttendancePolicy(policy);
+  if (errors.length > 0) throw new Error(errors.join('; '));
+  return store.updateSettings({ [POLICY_SETTING]: policy });
+};
+
+/**
+ * Smallest n with (attended + n) / (held + n) >= minimum. Infinite when the minimum is 100%
+ * and a class was already missed.
+ */
+export const classesNeeded = (attended: number, held: number, minimumPercentage: number): number => {
+  const minimum = minimumPercentage / 100;
+  const deficit = minimum * held - attended;
+  if (deficit <= EPSILON) return 0;
+  if (minimum >= 1) return Infinity;
+  return Math.ceil(deficit / (1 - minimum) - EPSILON);
+};
+
+const evaluateCourse = (
+  studentId: string,
+  courseId: string,
+  sessions: ClassSession[],
+  records: AttendanceRecord[],
+  policy: AttendancePolicy,
+  now: Date
+): CourseStanding => {
+  const minimumPercentage = minimumFor(policy, courseId);
+  const outcomes = getSessionOutcomes(studentId, sessions, records, now);
+  const { held, attended, percentage } = summarizeOutcomes(outcomes, policy.excludeExcused);
+  const remaining = sessions.filter(session => session.status !== 'cancelled' && !isSessionHeld(session, now)).length;
+  const shortage = held > 0 && percentage < minimumPercentage - EPSILON;
+  const needed = shortage ? classesNeeded(attended, held, minimumPercentage) : 0;
+  const termTotal = held + remaining;
+
+  return {
+    courseId,
+    minimumPercentage,
+    held,
+    attended,
+    percentage,
+    remaining,
+    shortage,
+    classesNeeded: needed,
+    canRecover: needed <= remaining,
+    canMiss: Math.max(0, Math.floor(attended + remaining - (minimumPercentage / 100) * termTotal + EPSILON)),
+  };
+};
+
+/**
+ * Standing of one student in each course they have sessions for. Students outside every
+ * section have no courses and are never defaulters.
+ */
+export const evaluateStudent = (
+  student: Student,
+  sessions: ClassSession[],
+  records: AttendanceRecord[],
+  policy: AttendancePolicy,
+  now: Date = new Date()
+): StudentStanding => {
+  const byCourse = new Map<string, ClassSession[]>();
+  sessions.forEach(session => byCourse.set(session.courseId, [...(byCourse.get(session.courseId) || []), session]));
+  const courses = Array.from(byCourse.keys()).map(courseId =>
+    evaluateCourse(student.id, courseId, byCourse.get(courseId)!, records, policy, now)
+  );
+
+  const outcomes = getSessionOutcomes(student.id, sessions, records, now).filter(outcome => outcome.status !== 'Excused');
+  let consecutiveAbsences = 0;
+  while (consecutiveAbsences < outcomes.length && outcomes[consecutiveAbsences].status === 'Absent') consecutiveAbsences++;
+  const absenceLimitReached = consecutiveAbsences >= policy.consecutiveAbsenceLimit;
+
+  return {
+    student,
+    courses,
+    consecutiveAbsences,
+    absenceLimitReached,
+    defaulter: absenceLimitReached || courses.some(course => course.shortage),
+  };
+};
+
+/**
+ * Defaulters first by how far below their minimum they are in their worst course
+ */
+export const findDefaulters = (standings: StudentStanding[]): StudentStanding[] => {
+  const worstGap = (standing: StudentStanding) =>
+    Math.max(0, ...standing.courses.filter(c => c.shortage).map(c => c.minimumPercentage - c.percentage));
+  return standings.filter(standing => standing.defaulter).sort((a, b) => worstGap(b) - worstGap(a));
+};
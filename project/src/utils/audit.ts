@@ -0,0 +1,138 @@
+/**
+ * Append-only audit trail for attendance changes.
+ * Each entry stores the SHA-256 hash of the previous entry and its own hash over its
+ * content, so editing, removing or reordering any stored entry breaks the chain.
+ * The personal fields are hashed on their own first, so an entry redacted by the retention
+ * purge keeps that hash and still verifies.
+ */
+
+import { AuditEntry } from '../types';
+
+// prevHash of the very first entry
+export const GENESIS_HASH = '0'.repeat(64);
+
+export const AUDIT_SOURCE_LABELS: Record<AuditEntry['source'], string> = {
+  face_recognition: 'Face recognition',
+  manual_override: 'Manual override',
+  import: 'Import',
+  leave_approval: 'Leave approval',
+};
+
+export interface AuditChainStatus {
+  valid: boolean;
+  checked: number;
+  brokenAt: number | null; // Sequence number of the first bad entry
+  reason: string | null;
+}
+
+const toHex = (buffer: ArrayBuffer): string =>
+  Array.from(new Uint8Array(buffer), byte => byte.toString(16).padStart(2, '0')).join('');
+
+const sha256 = async (text: string): Promise<string> =>
+  toHex(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text)));
+
+type AuditContent = Pick<AuditEntry, 'recordId' | 'studentId' | 'sessionId' | 'reason' | 'actorId' | 'actorName'>;
+
+// Hash of the fields the retention purge removes, in a fixed order
+export const computeContentHash = (entry: AuditContent): Promise<string> =>
+  sha256(
+    JSON.stringify([entry.recordId, entry.studentId, entry.sessionId ?? null, entry.reason, entry.actorId, entry.actorName])
+  );
+
+/**
+ * Hash over the kept fields, the content hash and the previous hash. A redacted entry supplies the
+ * content hash it kept; any other entry has it recomputed, so its content cannot change unnoticed.
+ */
+export const computeAuditHash = async (entry: Omit<AuditEntry, 'hash'>): Promise<string> => {
+  const contentHash = entry.purgedAt ? entry.contentHash : await computeContentHash(entry);
+  return sha256(
+    JSON.stringify([
+      entry.sequence,
+      new Date(entry.timestamp).toISOString(),
+      entry.action,
+      entry.before,
+      entry.after,
+      entry.source,
+      entry.actorRole,
+      contentHash ?? null,
+      entry.prevHash,
+    ])
+  );
+};
+
+/**
+ * What the retention purge leaves of an entry: its place in the chain, the status change and a
+ * hash of what was removed, without who or what it was about.
+ */
+export const redactAuditEntry = async (entry: AuditEntry, purgedAt: Date): Promise<AuditEntry> => ({
+  ...entry,
+  recordId: '',
+  studentId: '',
+  sessionId: undefined,
+  reason: '',
+  actorId: '',
+  actorName: '',
+  contentHash: await computeContentHash(entry),
+  purgedAt,
+});
+
+/**
+ * Walk the whole log in sequence order and check every link
+ */
+export const verifyAuditChain = async (entries: AuditEntry[]): Promise<AuditChainStatus> => {
+  const sorted = [...entries].sort((a, b) => a.sequence - b.sequence);
+  let prevHash = GENESIS_HASH;
+
+  for (let i = 0; i < sorted.length; i++) {
+    const entry = sorted[i];
+    const broken = (reason: string): AuditChainStatus => ({ valid: false, checked: i, brokenAt: entry.sequence, reason });
+
+    if (entry.sequence !== i + 1) return broken(`Expected entry #${i + 1}, found #${entry.sequence}`);
+    if (entry.prevHash !== prevHash) return broken('Does not link to the previous entry');
+
+    const { hash, ...content } = entry;
+    if (entry.purgedAt && !entry.contentHash) return broken('Redacted without a hash of its content');
+    if ((await computeAuditHash(content)) !== hash) return broken('Content does not match its hash');
+
+    prevHash = hash;
+  }
+
+  return { valid: true, checked: sorted.length, brokenAt: null, reason: null };
+};
+
+export const csvCell = (value: unknown): string => {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * CSV export for the exam office - includes the hashes so the chain can be re-verified
+ */
+export const auditLogToCsv = (entries: AuditEntry[], rollNos: Map<string, string> = new Map()): string => {
+  const header = [
+    'Sequence', 'Timestamp', 'Action', 'Student ID', 'Roll No', 'Session ID', 'Before', 'After',
+    'Reason', 'Source', 'Actor ID', 'Actor', 'Actor Role', 'Record ID', 'Previous Hash', 'Hash',
+  ];
+  const rows = [...entries]
+    .sort((a, b) => a.sequence - b.sequence)
+    .map(entry => [
+      entry.sequence,
+      new Date(entry.timestamp).toISOString(),
+      entry.action,
+      entry.studentId,
+      rollNos.get(entry.studentId) ?? '',
+      entry.sessionId ?? '',
+      entry.before ?? '',
+      entry.after,
+      entry.reason,
+      AUDIT_SOURCE_LABELS[entry.source],
+      entry.actorId,
+      entry.actorName,
+      entry.actorRole,
+      entry.recordId,
+      entry.prevHash,
+      entry.hash,
+    ]);
+
+  return [header, ...rows].map(row => row.map(csvCell).join(',')).join('\n');
+};
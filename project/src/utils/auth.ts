@@ -0,0 +1,378 @@
+/**
+ * Password authentication and login sessions.
+ * Passwords are stored as salted PBKDF2-SHA-256 hashes (WebCrypto); a successful login
+ * issues an opaque session token that expires after SESSION_TTL_MS. The browser only keeps
+ * the token - the role and user behind it are always read back from the stored session.
+ */
+
+import { Credential, AuthSession, UserType, Role, Student } from '../types';
+import { database } from './database';
+import { Permission, PermissionError, ROLE_LABELS, can, isInScope, userTypeForRole } from './permissions';
+
+export const PBKDF2_ITERATIONS = 600000;
+export const SESSION_TTL_MS = 8 * 60 * 60 * 1000; // 8 hours
+export const MIN_PASSWORD_LENGTH = 8;
+
+// Key holding the current session token (the pre-auth app stored {userType, username} here)
+export const AUTH_TOKEN_KEY = 'neoattend_auth';
+
+const SALT_BYTES = 16;
+const TOKEN_BYTES = 32;
+const HASH_BITS = 256;
+
+/**
+ * Thrown when registration or login is rejected; the message is safe to show the user
+ */
+export class AuthError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
+
+/**
+ * Persistence used by AuthService - implemented by DatabaseService
+ */
+export interface AuthStore {
+  getCredential(id: string): Promise<Credential | null>;
+  saveCredential(credential: Credential): Promise<void>;
+  getAuthSession(id: string): Promise<AuthSession | null>;
+  saveAuthSession(session: AuthSession): Promise<void>;
+  deleteAuthSession(id: string): Promise<void>;
+}
+
+export interface AuthOptions {
+  iterations?: number;
+  sessionTtlMs?: number;
+  storage?: Storage; // Where the browser keeps the session token
+}
+
+export interface RegistrationData {
+  username: string;
+  password: string;
+  role: Role;
+  userId: string;
+}
+
+const toBase64 = (bytes: Uint8Array): string => btoa(String.fromCharCode(...Array.from(bytes)));
+
+const fromBase64 = (value: string): Uint8Array => Uint8Array.from(atob(value), c => c.charCodeAt(0));
+
+const randomBytes = (length: number): Uint8Array => crypto.getRandomValues(new Uint8Array(length));
+
+export const normalizeUsername = (username: string): string => username.trim().toLowerCase();
+
+/**
+ * Returns a message describing why the password is unacceptable, or null if it is fine
+ */
+export const validatePassword = (password: string): string | null => {
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    return `Password must be at least ${MIN_PASSWORD_LENGTH} characters`;
+  }
+  return null;
+};
+
+export const hashPassword = async (password: string, salt: Uint8Array, iterations: number): Promise<string> => {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, key, HASH_BITS);
+  return toBase64(new Uint8Array(bits));
+};
+
+// Compare without bailing out at the first differing character
+const constantTimeEquals = (a: string, b: string): boolean => {
+  let diff = a.length ^ b.length;
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    diff |= (a.charCodeAt(i) || 0) ^ (b.charCodeAt(i) || 0);
+  }
+  return diff === 0;
+};
+
+export class AuthService {
+  private iterations: number;
+  private sessionTtlMs: number;
+
+  constructor(private store: AuthStore = database, private options: AuthOptions = {}) {
+    this.iterations = options.iterations ?? PBKDF2_ITERATIONS;
+    this.sessionTtlMs = options.sessionTtlMs ?? SESSION_TTL_MS;
+  }
+
+  async isRegistered(username: string): Promise<boolean> {
+    return (await this.store.getCredential(normalizeUsername(username))) !== null;
+  }
+
+  async register({ username, password, role, userId }: RegistrationData): Promise<Credential> {
+    const passwordProblem = validatePassword(password);
+    if (passwordProblem) throw new AuthError(passwordProblem);
+    return this.createCredential({ username, password, role, userId });
+  }
+
+  /**
+   * Create a login for an existing record, or replace the password of the one it already has.
+   * Callers decide who may do this (see setLoginFor).
+   */
+  async setPassword({ username, password, role, userId }: RegistrationData): Promise<Credential> {
+    const passwordProblem = validatePassword(password);
+    if (passwordProblem) throw new AuthError(passwordProblem);
+    const existing = await this.store.getCredential(normalizeUsername(username));
+    if (existing && existing.userId !== userId) {
+      throw new AuthError(`${username.trim()} is already another user's login`);
+    }
+    return this.createCredential({ username, password, role, userId }, !!existing);
+  }
+
+  /**
+   * Verify a username/password and start a new session.
+   * `expectedType` rejects accounts of the other type (the login screen asks staff or student).
+   */
+  async login(username: string, password: string, expectedType?: UserType): Promise<AuthSession> {
+    const credential = await this.store.getCredential(normalizeUsername(username));
+
+    // Hash even for unknown users so response time doesn't reveal which usernames exist
+    const salt = credential ? fromBase64(credential.salt) : randomBytes(SALT_BYTES);
+    const hash = await hashPassword(password, salt, credential?.iterations ?? this.iterations);
+    if (!credential || !constantTimeEquals(hash, credential.hash)) {
+      console.warn('[Auth] Failed login attempt for', username);
+      throw new AuthError('Invalid username or password');
+    }
+
+    if (expectedType && userTypeForRole(credential.role) !== expectedType) {
+      throw new AuthError(`This is not a ${expectedType} account`);
+    }
+    if (credential.role === 'pending') {
+      throw new AuthError('Your staff account is waiting for an administrator to approve it');
+    }
+
+    const now = new Date();
+    const session: AuthSession = {
+      id: this.generateToken(),
+      userId: credential.userId,
+      username: credential.username,
+      role: credential.role,
+      createdAt: now,
+      expiresAt: new Date(now.getTime() + this.sessionTtlMs),
+    };
+
+    await this.store.saveAuthSession(session);
+    this.getStorage()?.setItem(AUTH_TOKEN_KEY, JSON.stringify({ token: session.id }));
+    console.log(`[Auth] ${credential.username} logged in as ${credential.role}`);
+    return session;
+  }
+
+  /**
+   * Look up a session token; expired sessions are deleted and reported as missing
+   */
+  async validateSession(token: string, now: Date = new Date()): Promise<AuthSession | null> {
+    const session = await this.store.getAuthSession(token);
+    if (!session) return null;
+
+    if (new Date(session.expiresAt).getTime() <= now.getTime()) {
+      await this.store.deleteAuthSession(token);
+      return null;
+    }
+    return session;
+  }
+
+  /**
+   * Resume the session whose token the browser kept from an earlier login
+   */
+  async restoreSession(): Promise<AuthSession | null> {
+    const token = this.getStoredToken();
+    if (!token) {
+      // Also drops the unverified {userType, username} entries written before sessions existed
+      this.getStorage()?.removeItem(AUTH_TOKEN_KEY);
+      return null;
+    }
+
+    const session = await this.validateSession(token);
+    if (!session) {
+      console.log('[Auth] Stored session is missing or expired');
+      this.getStorage()?.removeItem(AUTH_TOKEN_KEY);
+    }
+    return session;
+  }
+
+  async logout(): Promise<void> {
+    const token = this.getStoredToken();
+    this.getStorage()?.removeItem(AUTH_TOKEN_KEY);
+    if (token) {
+      await this.store.deleteAuthSession(token);
+    }
+  }
+
+  /**
+   * Hash and move plaintext credentials the old signup form saved under `user_<rollNo>`.
+   * `findUserId` maps a username to its Student record id.
+   */
+  async importLegacyAccounts(findUserId: (username: string) => string | null): Promise<number> {
+    const storage = this.getStorage();
+    if (!storage) return 0;
+
+    const legacyKeys = Object.keys(storage).filter(key => key.startsWith('user_'));
+    let imported = 0;
+
+    for (const key of legacyKeys) {
+      try {
+        const legacy = JSON.parse(storage.getItem(key) || '{}');
+        const userId = typeof legacy.username === 'string' ? findUserId(legacy.username) : null;
+        if (!userId || typeof legacy.password !== 'string') {
+          console.warn(`[Auth] Skipping legacy account ${key}: no matching user`);
+          continue;
+        }
+
+        if (!(await this.isRegistered(legacy.username))) {
+          // Existing passwords are kept as-is even if they are shorter than the current minimum
+          await this.createCredential({
+            username: legacy.username,
+            password: legacy.password,
+            role: legacy.type === 'faculty' ? 'faculty' : 'student',
+            userId,
+          });
+          imported++;
+        }
+        storage.removeItem(key);
+      } catch (error) {
+        console.error(`[Auth] Failed to import legacy account ${key}:`, error);
+      }
+    }
+
+    if (imported > 0) {
+      console.log(`[Auth] Imported ${imported} legacy account(s) with hashed passwords`);
+    }
+    return imported;
+  }
+
+  private async createCredential(
+    { username, password, role, userId }: RegistrationData,
+    replace = false
+  ): Promise<Credential> {
+    const id = normalizeUsername(username);
+    if (!id) throw new AuthError('Username is required');
+    if (!replace && (await this.store.getCredential(id))) {
+      throw new AuthError(`An account for ${username.trim()} already exists`);
+    }
+
+    const salt = randomBytes(SALT_BYTES);
+    const credential: Credential = {
+      id,
+      username: username.trim(),
+      userId,
+      role,
+      salt: toBase64(salt),
+      hash: await hashPassword(password, salt, this.iterations),
+      iterations: this.iterations,
+      createdAt: new Date(),
+    };
+
+    await this.store.saveCredential(credential);
+    return credential;
+  }
+
+  private getStoredToken(): string | null {
+    const stored = this.getStorage()?.getItem(AUTH_TOKEN_KEY);
+    if (!stored) return null;
+    try {
+      const parsed = JSON.parse(stored);
+      return typeof parsed?.token === 'string' ? parsed.token : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private getStorage(): Storage | null {
+    if (this.options.storage) return this.options.storage;
+    return typeof localStorage !== 'undefined' ? localStorage : null;
+  }
+
+  private generateToken(): string {
+    return Array.from(randomBytes(TOKEN_BYTES), byte => byte.toString(16).padStart(2, '0')).join('');
+  }
+}
+
+export const authService = new AuthService();
+
+// Username a record logs in with: the roll number, or the employee id of staff without one
+export const usernameFor = (user: Pick<Student, 'rollNo' | 'employeeId'>): string =>
+  (user.rollNo || user.employeeId || '').trim();
+
+/**
+ * Save a new record and its login. A username already on a record is refused, and the record is
+ * taken back out if the login cannot be created, so a failed signup can simply be retried.
+ */
+const createAccount = async (
+  profile: Omit<Student, 'id' | 'createdAt' | 'role'>,
+  password: string,
+  role: Role,
+  service: AuthService
+): Promise<Student> => {
+  const username = usernameFor(profile);
+  if (!username) throw new AuthError('Username is required');
+  const passwordProblem = validatePassword(password);
+  if (passwordProblem) throw new AuthError(passwordProblem);
+
+  const id = normalizeUsername(username);
+  const onRecord = database
+    .runAsSystem(() => database.getStudents())
+    .some(s => [s.rollNo, s.employeeId].some(value => value && normalizeUsername(value) === id));
+  if (onRecord || (await service.isRegistered(username))) {
+    throw new AuthError(`${username} is already registered. Log in, or ask an administrator for a password.`);
+  }
+
+  // Signup happens before anyone is logged in
+  const user = database.runAsSystem(() => database.saveStudent({ ...profile, role }));
+  try {
+    await service.register({ username, password, role, userId: user.id });
+  } catch (error) {
+    database.runAsSystem(() => database.deleteStudent(user.id));
+    throw error;
+  }
+  return user;
+};
+
+/**
+ * Open signup from the registration page. Only students get a working account; a staff signup is
+ * saved with the pending role, which has no permissions and cannot log in until an administrator
+ * gives it a staff role. Roll numbers and employee ids already on a record are refused.
+ */
+export const registerSelf = (
+  profile: Omit<Student, 'id' | 'createdAt' | 'role'>,
+  { password, staff }: { password: string; staff: boolean },
+  service: AuthService = authService
+): Promise<Student> => createAccount(profile, password, staff ? 'pending' : 'student', service);
+
+/**
+ * True while a browser-only install has no administrator. With an API server the server creates
+ * the first one (ADMIN_USERNAME), so this is always false there.
+ */
+export const needsFirstAdmin = (): boolean =>
+  !import.meta.env?.VITE_API_URL && !database.runAsSystem(() => database.getStudents()).some(s => s.role === 'admin');
+
+/**
+ * First-run setup of a browser-only install: the signup page registers the first administrator,
+ * who can then approve staff and create logins for everyone else.
+ */
+export const setupFirstAdmin = (
+  profile: Omit<Student, 'id' | 'createdAt' | 'role'>,
+  password: string,
+  service: AuthService = authService
+): Promise<Student> => {
+  if (!needsFirstAdmin()) {
+    return Promise.reject(new AuthError('This install already has an administrator. Ask them for an account.'));
+  }
+  return createAccount(profile, password, 'admin', service);
+};
+
+/**
+ * Create a login for a seeded or imported record, or reset a forgotten password. Same rule as
+ * POST /api/auth/register: any staff who may add students can do it for students, only
+ * administrators for staff.
+ */
+export const setLoginFor = async (user: Student, password: string, service: AuthService = authService): Promise<Credential> => {
+  const actor = database.getActor();
+  const permission: Permission = user.role === 'student' ? 'students.create' : 'users.manageRoles';
+  if (!actor || !can(actor.role, permission) || !isInScope(actor, user)) {
+    throw new PermissionError(`${actor ? ROLE_LABELS[actor.role] : 'Anonymous'} accounts cannot set this password`);
+  }
+  const username = usernameFor(user);
+  if (!username) throw new AuthError(`${user.name} has no roll number or employee id to log in with`);
+  return service.setPassword({ username, password, role: user.role, userId: user.id });
+};
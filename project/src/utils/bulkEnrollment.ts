@@ -0,0 +1,125 @@
+/**
+ * Bulk face enrolment from a ZIP of labeled photos. Each photo is named by roll number
+ * (CS001.jpg, CS001_2.jpg, CS001 (3).png) or sits in a folder named by roll number
+ * (CS001/front.jpg); every photo becomes one more face sample for that student.
+ */
+
+import { unzipSync } from 'fflate';
+import { Student } from '../types';
+import { database } from './database';
+import { facialRecognition, MAX_SAMPLES_PER_STUDENT } from './facialRecognition';
+import { csvCell } from './audit';
+import { bytesToBase64 } from './encoding';
+
+const IMAGE_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+};
+
+export interface EnrollmentPhoto {
+  path: string;
+  imageData?: string; // Data URL; missing for entries that are not images
+}
+
+export interface EnrollmentResult {
+  path: string;
+  rollNo: string | null;
+  success: boolean;
+  message: string;
+}
+
+export interface EnrollmentReport {
+  results: EnrollmentResult[];
+  enrolled: number; // Photos enrolled
+  failed: number;
+  students: number; // Students with at least one photo enrolled
+  warnings: string[];
+}
+
+// Archive clutter from macOS/Windows zip tools, never reported
+const isIgnored = (path: string) => path.split('/').some(part => part.startsWith('.') || part === '__MACOSX' || part === 'Thumbs.db');
+
+/**
+ * Files in the archive, in path order
+ */
+export const readEnrollmentZip = (data: ArrayBuffer | Uint8Array): EnrollmentPhoto[] => {
+  const files = unzipSync(data instanceof Uint8Array ? data : new Uint8Array(data));
+  return Object.keys(files)
+    .filter(path => !path.endsWith('/') && !isIgnored(path))
+    .sort()
+    .map(path => {
+      const type = IMAGE_TYPES[path.split('.').pop()?.toLowerCase() || ''];
+      return { path, imageData: type ? `data:${type};base64,${bytesToBase64(files[path])}` : undefined };
+    });
+};
+
+/**
+ * Roll number a photo belongs to: its folder, its file name, or its file name without a
+ * sample suffix (_2, -2, " (2)") - whichever names an existing student.
+ */
+export const rollNoForPath = (path: string, rollNos: Set<string>): string | null => {
+  const parts = path.split('/');
+  const stem = parts[parts.length - 1].replace(/\.[^.]+$/, '').trim();
+  const candidates = [parts[parts.length - 2], stem, stem.replace(/(\s*\(\d+\)|[_-]\d+)$/, '')];
+  return candidates.find(candidate => candidate && rollNos.has(candidate.toUpperCase())) ?? null;
+};
+
+/**
+ * Run every photo through registerStudentFace, rejecting photos without exactly one face, and
+ * flag the enrolled students as face-registered.
+ */
+export const enrollFromZip = async (
+  data: ArrayBuffer | Uint8Array,
+  { onProgress }: { onProgress?: (done: number, total: number) => void } = {}
+): Promise<EnrollmentReport> => {
+  const photos = readEnrollmentZip(data);
+  const students = new Map<string, Student>();
+  database.getStudents().forEach(student => {
+    if (student.role === 'student' && student.rollNo) students.set(student.rollNo.toUpperCase(), student);
+  });
+  const rollNos = new Set(students.keys());
+
+  const results: EnrollmentResult[] = [];
+  const enrolledPhotos = new Map<string, number>();
+  for (let index = 0; index < photos.length; index++) {
+    const photo = photos[index];
+    const key = rollNoForPath(photo.path, rollNos)?.toUpperCase();
+    const student = key ? students.get(key) : undefined;
+
+    if (!photo.imageData) {
+      results.push({ path: photo.path, rollNo: student?.rollNo ?? null, success: false, message: 'Not a JPEG, PNG or WebP image' });
+    } else if (!student?.rollNo) {
+      results.push({ path: photo.path, rollNo: null, success: false, message: 'No student with this roll number' });
+    } else {
+      const { success, message } = await facialRecognition.registerStudentFace(student.rollNo, photo.imageData, student.name, {
+        requireSingleFace: true,
+      });
+      results.push({ path: photo.path, rollNo: student.rollNo, success, message });
+      if (success) enrolledPhotos.set(student.id, (enrolledPhotos.get(student.id) ?? 0) + 1);
+    }
+    onProgress?.(index + 1, photos.length);
+  }
+
+  const warnings: string[] = [];
+  students.forEach(student => {
+    const count = enrolledPhotos.get(student.id);
+    if (!count) return;
+    if (!student.faceRegistered) database.updateStudent({ ...student, faceRegistered: true });
+    if (count > MAX_SAMPLES_PER_STUDENT) {
+      warnings.push(`${student.rollNo}: ${count} photos enrolled, only the last ${MAX_SAMPLES_PER_STUDENT} are kept`);
+    }
+  });
+  await database.flush();
+
+  const enrolled = results.filter(r => r.success).length;
+  console.log(`[Facial Recognition] Bulk enrolment: ${enrolled} of ${results.length} photos enrolled`);
+  return { results, enrolled, failed: results.length - enrolled, students: enrolledPhotos.size, warnings };
+};
+
+export const enrollmentReportToCsv = (report: EnrollmentReport): string => {
+  const header = ['File', 'Roll No', 'Result', 'Reason'];
+  const rows = report.results.map(r => [r.path, r.rollNo ?? '', r.success ? 'Enrolled' : 'Failed', r.success ? '' : r.message]);
+  return [header, ...rows].map(row => row.map(csvCell).join(',')).join('\n');
+};
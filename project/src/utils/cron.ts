@@ -0,0 +1,93 @@
+/**
+ * Five-field cron expressions ("minute hour day-of-month month day-of-week"), evaluated in
+ * local time. Each field takes *, numbers, ranges (1-5), lists (1,3,5) and steps (*\/15, 8-18/2).
+ * Day of week runs 0-6 from Sunday; 7 is accepted for Sunday too.
+ */
+
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>; // 1-12
+  daysOfWeek: Set<number>;
+  // As in cron, when both day fields are restricted a day matching either one fires. A field starting
+  // with * (including steps such as */2) does not count as restricted.
+  restrictedDays: { ofMonth: boolean; ofWeek: boolean };
+}
+
+const FIELDS: { name: string; min: number; max: number }[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  { name: 'day of week', min: 0, max: 7 },
+];
+
+const parseField = (text: string, { name, min, max }: { name: string; min: number; max: number }): Set<number> => {
+  const values = new Set<number>();
+  text.split(',').forEach(part => {
+    const match = part.match(/^(\*|\d+)(?:-(\d+))?(?:\/(\d+))?$/);
+    if (!match) throw new Error(`Invalid ${name} "${part}"`);
+    const start = match[1] === '*' ? min : Number(match[1]);
+    const end = match[1] === '*' ? max : match[2] !== undefined ? Number(match[2]) : match[3] !== undefined ? max : start;
+    const step = match[3] !== undefined ? Number(match[3]) : 1;
+    if (start < min || end > max || start > end || step < 1) throw new Error(`Invalid ${name} "${part}" (${min}-${max})`);
+    for (let value = start; value <= end; value += step) values.add(value);
+  });
+  return values;
+};
+
+/**
+ * Throws an Error naming the bad field
+ */
+export const parseCron = (expression: string): CronSchedule => {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) throw new Error('A schedule needs 5 fields: minute hour day-of-month month day-of-week');
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, index) => parseField(field, FIELDS[index]));
+  if (daysOfWeek.has(7)) daysOfWeek.add(0);
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    restrictedDays: { ofMonth: !fields[2].startsWith('*'), ofWeek: !fields[4].startsWith('*') },
+  };
+};
+
+const matchesDay = (schedule: CronSchedule, date: Date): boolean => {
+  if (!schedule.months.has(date.getMonth() + 1)) return false;
+  const ofMonth = schedule.daysOfMonth.has(date.getDate());
+  const ofWeek = schedule.daysOfWeek.has(date.getDay());
+  const { restrictedDays } = schedule;
+  if (restrictedDays.ofMonth && restrictedDays.ofWeek) return ofMonth || ofWeek;
+  return ofMonth && ofWeek;
+};
+
+export const matchesCron = (schedule: CronSchedule, date: Date): boolean =>
+  matchesDay(schedule, date) && schedule.hours.has(date.getHours()) && schedule.minutes.has(date.getMinutes());
+
+/**
+ * First minute strictly after `after` that the schedule fires at, or null if none within a year
+ * (e.g. "0 0 31 2 *")
+ */
+export const nextCronRun = (schedule: CronSchedule, after: Date): Date | null => {
+  const candidate = new Date(after);
+  candidate.setSeconds(0, 0);
+  candidate.setMinutes(candidate.getMinutes() + 1);
+  const limit = after.getTime() + 366 * 24 * 60 * 60 * 1000;
+
+  while (candidate.getTime() <= limit) {
+    if (!matchesDay(schedule, candidate)) {
+      candidate.setDate(candidate.getDate() + 1);
+      candidate.setHours(0, 0, 0, 0);
+    } else if (!schedule.hours.has(candidate.getHours())) {
+      candidate.setHours(candidate.getHours() + 1, 0, 0, 0);
+    } else if (!schedule.minutes.has(candidate.getMinutes())) {
+      candidate.setMinutes(candidate.getMinutes() + 1, 0, 0);
+    } else {
+      return candidate;
+    }
+  }
+  return null;
+};
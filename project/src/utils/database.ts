@@ -1,68 +1,1122 @@
-import { Student, AttendanceRecord } from '../types';
+import {
+  Student,
+  AttendanceRecord,
+  Course,
+  Section,
+  ClassSession,
+  Credential,
+  AuthSession,
+  Role,
+  AuditEntry,
+  AttendanceSource,
+  FaceSample,
+  Building,
+  Room,
+  Geofence,
+  OutboxEntry,
+  ReportJobRun,
+  LeaveRequest,
+  AttendanceDispute,
+  PurgeArchive,
+  PurgeReport,
+} from '../types';
+import { StorageAdapter, AttendanceQuery, StoreName, STORE_NAMES, reviveDates } from './storage/storageAdapter';
+import { LocalStorageAdapter, LOCAL_STORAGE_KEYS } from './storage/localStorageAdapter';
+import { IndexedDBAdapter } from './storage/indexedDBAdapter';
+import { HttpAdapter } from './storage/httpAdapter';
+import {
+  runMigrations,
+  getSchemaVersion,
+  setSchemaVersion,
+  getQuarantinedRecords,
+  appendQuarantinedRecords,
+  CURRENT_SCHEMA_VERSION,
+  MigrationReport,
+  QuarantinedRecord,
+} from './migrations';
+import { generateSessions, findSessionAt, isAttended } from './timetable';
+import { Actor, Permission, PermissionError, can, isInScope, ROLE_LABELS } from './permissions';
+import { GENESIS_HASH, computeAuditHash, redactAuditEntry, verifyAuditChain, AuditChainStatus } from './audit';
+import { isLivenessPassed } from './face/liveness';
+import { checkGeofence, validateGeofence } from './geofence';
+import { isRejection, resolveConflict, SyncReport, SyncStatus } from './sync';
+import {
+  CheckInClosedError,
+  DEFAULT_LATE_RULES,
+  LATE_RULES_SETTING,
+  LateRules,
+  evaluateArrival,
+  parseLateRules,
+  validateLateRules,
+  windowsFor,
+} from './lateRules';
 
-// Database service with localStorage persistence
-class DatabaseService {
-  private studentsKey = 'neoattend_students';
-  private attendanceKey = 'neoattend_attendance';
+/**
+ * Pick the storage backend.
+ * VITE_STORAGE_BACKEND=localstorage forces the legacy backend, otherwise IndexedDB is used when available.
+ * (import.meta.env is undefined when the API server loads this module under Node.)
+ */
+export const createDefaultAdapter = (): StorageAdapter => {
+  const backend = import.meta.env?.VITE_STORAGE_BACKEND;
+  if (backend !== 'localstorage' && IndexedDBAdapter.isSupported()) {
+    return new IndexedDBAdapter();
+  }
+  return new LocalStorageAdapter();
+};
+
+/**
+ * Sync remote for sharing data between devices: VITE_API_URL points at the API server (npm run server)
+ */
+export const createApiAdapter = (): HttpAdapter | null => {
+  const url = import.meta.env?.VITE_API_URL;
+  return url ? new HttpAdapter(url) : null;
+};
+
+// Meta entry holding the app settings
+const SETTINGS_KEY = 'settings';
+
+// Meta entries holding each user's own preferences, keyed by user id
+const USER_SETTINGS_PREFIX = 'userSettings:';
+
+// Meta entry holding the scheduled report run history, newest first
+const REPORT_RUNS_KEY = 'reportRuns';
+const MAX_REPORT_RUNS = 200;
+
+// Meta entry holding the retention purge reports, newest first
+const PURGE_REPORTS_KEY = 'purgeReports';
+const MAX_PURGE_REPORTS = 100;
+
+// Survive "clear all data": accounts so a reset never locks everyone out, the audit log because it is append-only
+const PRESERVED_STORES: StoreName[] = ['credentials', 'authSessions', 'audit'];
+
+export interface AttendanceChangeOptions {
+  source?: AttendanceSource; // Defaults to face recognition
+  reason?: string; // Required for manual overrides
+  id?: string; // Keep the id a client generated offline (outbox replay through the API)
+}
+
+/**
+ * Thrown by markAttendance when the student already has a record for the session; `record` is that record
+ */
+export class DuplicateAttendanceError extends Error {
+  constructor(message: string, public record: AttendanceRecord) {
+    super(message);
+    this.name = 'DuplicateAttendanceError';
+  }
+}
+
+/**
+ * Students whose `faceRegistered` flag disagrees with the stored face samples
+ */
+export interface FaceConsistencyReport {
+  missingSamples: Student[]; // Flagged as registered but nothing stored - can never be recognized
+  unflagged: Student[]; // Samples stored but not flagged as registered
+  orphanedRollNos: string[]; // Samples for roll numbers without a student (e.g. abandoned signups)
+}
+
+// Dates in a purge report's cutoffs come back from the meta store as strings
+const reviveCutoffs = (cutoffs: PurgeReport['cutoffs']): PurgeReport['cutoffs'] =>
+  Object.keys(cutoffs).reduce<PurgeReport['cutoffs']>(
+    (revived, key) => ({ ...revived, [key]: new Date(cutoffs[key as keyof PurgeReport['cutoffs']]!) }),
+    {}
+  );
+
+// Database service backed by a pluggable StorageAdapter.
+// Reads are served from an in-memory cache loaded once by init(); writes go through to the adapter.
+// Every read and write is checked against the logged-in actor using the policy in permissions.ts.
+export class DatabaseService {
+  private students: Student[] = [];
+  private attendance: AttendanceRecord[] = [];
+  private courses: Course[] = [];
+  private sections: Section[] = [];
+  private sessions: ClassSession[] = [];
+  private buildings: Building[] = [];
+  private rooms: Room[] = [];
+  private leaveRequests: LeaveRequest[] = [];
+  private disputes: AttendanceDispute[] = [];
+  private lateRules: LateRules = DEFAULT_LATE_RULES; // Cached from the settings so check-ins can be evaluated synchronously
+  private loading: Promise<void> | null = null;
+  private migrationReport: MigrationReport | null = null;
+  private pendingWrites: Promise<void> = Promise.resolve();
+  // Writes queued by the current trackWrites() call
+  private trackedWrites: Promise<void>[] | null = null;
+  private actor: Actor | null = null;
+  private systemDepth = 0;
+  // Head of the audit hash chain. The sequence is claimed synchronously, the hash inside the write queue.
+  private auditSequence = 0;
+  private auditHash = GENESIS_HASH;
+  // Offline outbox: attendance changes not yet acknowledged by the remote backend, oldest first
+  private outbox: OutboxEntry[] = [];
+  // Changes the server refused, kept until someone has looked at them
+  private rejected: OutboxEntry[] = [];
+  private remote: StorageAdapter | null = null;
+  private syncing: Promise<SyncReport> | null = null;
+  private lastSyncError: string | null = null;
+  private syncListeners = new Set<(status: SyncStatus) => void>();
+  private onlineListenerAdded = false;
+  private attendanceListeners = new Set<(record: AttendanceRecord) => void>();
+
+  constructor(private adapter: StorageAdapter = createDefaultAdapter()) {}
+
+  // Load all data from the storage backend. Safe to call more than once.
+  init(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.load();
+    }
+    return this.loading;
+  }
+
+  // Swap the storage backend (used by tests and by the settings screen)
+  async useAdapter(adapter: StorageAdapter): Promise<void> {
+    await this.flush();
+    this.adapter.close();
+    this.adapter = adapter;
+    this.loading = null;
+    await this.init();
+  }
+
+  getStorageBackend(): string {
+    return this.adapter.name;
+  }
+
+  // Result of the schema migrations run by the last init()
+  getMigrationReport(): MigrationReport | null {
+    return this.migrationReport;
+  }
+
+  // Records that could not be upgraded to the current schema, kept for review
+  async getQuarantinedRecords(): Promise<QuarantinedRecord[]> {
+    await this.flush();
+    return getQuarantinedRecords(this.adapter);
+  }
+
+  // Set on login/logout. Without an actor nothing is readable or writable outside runAsSystem().
+  setActor(user: { userId: string; role: Role } | null): void {
+    this.actor = user
+      ? { userId: user.userId, role: user.role, department: this.students.find(s => s.id === user.userId)?.department }
+      : null;
+  }
+
+  getActor(): Actor | null {
+    return this.actor;
+  }
+
+  // Run trusted app code (startup seeding, self-registration) without permission checks
+  runAsSystem<T>(task: () => T): T {
+    this.systemDepth++;
+    try {
+      return task();
+    } finally {
+      this.systemDepth--;
+    }
+  }
+
+  // Server to replay attendance changes to. Writes always land locally first, so check-ins work offline.
+  async useRemote(remote: StorageAdapter | null): Promise<void> {
+    this.remote?.close();
+    this.remote = remote;
+    if (!remote) return;
+    await remote.open();
+    if (typeof window !== 'undefined' && !this.onlineListenerAdded) {
+      window.addEventListener('online', () => this.scheduleSync());
+      this.onlineListenerAdded = true;
+    }
+    this.scheduleSync();
+  }
+
+  getRemote(): StorageAdapter | null {
+    return this.remote;
+  }
+
+  /**
+   * Bring in what other devices wrote to the remote. The server's copy wins, except for attendance
+   * changes still waiting in the outbox; records only this device has are kept.
+   */
+  async pullFromRemote(): Promise<void> {
+    const remote = this.remote;
+    if (!remote) return;
+
+    const [students, sessions, attendance] = await Promise.all([
+      remote.getAll('students'),
+      remote.getAll('sessions'),
+      remote.getAll('attendance'),
+    ]);
+    const queued = new Set(this.outbox.map(e => e.recordId));
+    const incoming = attendance.filter(r => !queued.has(r.id));
+    const merge = <T extends { id: string }>(local: T[], pulled: T[]): T[] => {
+      const ids = new Set(pulled.map(r => r.id));
+      return [...local.filter(r => !ids.has(r.id)), ...pulled];
+    };
+
+    this.students = merge(this.students, students);
+    this.sessions = merge(this.sessions, sessions);
+    this.attendance = merge(this.attendance, incoming);
+    await this.enqueueWrite(async () => {
+      await this.adapter.putMany('students', students);
+      await this.adapter.putMany('sessions', sessions);
+      await this.adapter.putMany('attendance', incoming);
+    });
+    console.log(`[Database] Pulled ${students.length} students and ${incoming.length} attendance records from ${remote.name}`);
+  }
+
+  getSyncStatus(): SyncStatus {
+    return { pending: this.outbox.length, rejected: this.rejected.length, syncing: this.syncing !== null, lastError: this.lastSyncError };
+  }
+
+  // Changes the server refused, oldest first; lastError says why
+  getRejectedChanges(): OutboxEntry[] {
+    return [...this.rejected];
+  }
+
+  dismissRejectedChange(id: string): void {
+    this.rejected = this.rejected.filter(e => e.id !== id);
+    this.enqueueWrite(() => this.adapter.delete('outbox', id));
+    this.notifySyncStatus();
+  }
+
+  // Returns an unsubscribe function
+  onSyncStatusChange(listener: (status: SyncStatus) => void): () => void {
+    this.syncListeners.add(listener);
+    return () => {
+      this.syncListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Replay the outbox in order. Stops at the first network or server failure so later changes never
+   * overtake earlier ones; a change the server refuses is moved to the rejected list and replay goes on.
+   */
+  syncOutbox(): Promise<SyncReport> {
+    if (!this.syncing) {
+      this.syncing = this.replayOutbox().finally(() => {
+        this.syncing = null;
+        this.notifySyncStatus();
+      });
+      this.notifySyncStatus();
+    }
+    return this.syncing;
+  }
+
+  // Resolves once every queued write has been attempted. Failures reach the caller of the write that failed, not flush().
+  flush(): Promise<void> {
+    return this.pendingWrites;
+  }
+
+  /**
+   * Run `task` and collect the writes it queues synchronously. `written` settles once those writes
+   * (and nothing queued by anyone else) have been attempted, rejecting with the first that failed.
+   */
+  trackWrites<T>(task: () => T): { result: T; written: Promise<void> } {
+    const outer = this.trackedWrites;
+    const writes: Promise<void>[] = [];
+    this.trackedWrites = writes;
+    try {
+      const result = task();
+      return { result, written: Promise.all(writes).then(() => undefined) };
+    } finally {
+      this.trackedWrites = outer;
+      outer?.push(...writes);
+    }
+  }
 
   // Student management
   getStudents(): Student[] {
-    const stored = localStorage.getItem(this.studentsKey);
-    return stored ? JSON.parse(stored) : [];
+    return this.students.filter(s => this.canSeeStudent(s));
   }
 
   saveStudent(student: Omit<Student, 'id' | 'createdAt'>): Student {
-    const students = this.getStudents();
+    this.authorize('students.create', student);
+    if (student.role !== 'student') this.authorize('users.manageRoles');
+
     const newStudent: Student = {
       ...student,
       id: this.generateId(),
       createdAt: new Date(),
     };
-    
-    students.push(newStudent);
-    localStorage.setItem(this.studentsKey, JSON.stringify(students));
+
+    this.students.push(newStudent);
+    this.enqueueWrite(() => this.adapter.put('students', newStudent));
     return newStudent;
   }
 
   getStudentByRollNo(rollNo: string): Student | null {
-    const students = this.getStudents();
-    return students.find(s => s.rollNo === rollNo) || null;
+    return this.getStudents().find(s => s.rollNo === rollNo) || null;
   }
 
   // Attendance management
   getAttendanceRecords(): AttendanceRecord[] {
-    const stored = localStorage.getItem(this.attendanceKey);
-    const records = stored ? JSON.parse(stored) : [];
-    return records.map((record: Omit<AttendanceRecord, 'timestamp'> & { timestamp: string | Date }) => ({
-      ...record,
-      timestamp: new Date(record.timestamp),
-    }));
+    return this.attendance.filter(r => this.canSeeAttendance(r));
   }
 
-  markAttendance(record: Omit<AttendanceRecord, 'id'>): AttendanceRecord {
-    const records = this.getAttendanceRecords();
+  markAttendance(record: Omit<AttendanceRecord, 'id'>, options: AttendanceChangeOptions = {}): AttendanceRecord {
+    // Denormalize roll number and name so records stay readable without the student table
+    const student = this.students.find(s => s.id === record.studentId);
+    const selfCheckIn =
+      !this.isSystem() && can(this.actor?.role, 'attendance.markSelf') && !can(this.actor?.role, 'attendance.mark');
+    if (selfCheckIn) {
+      if (record.studentId !== this.actor?.userId) {
+        throw new PermissionError('Students can only mark their own attendance');
+      }
+      // Stops students checking in an absent friend with a photo
+      if (!isLivenessPassed(record.livenessScore)) {
+        throw new PermissionError('Self check-in requires a passed liveness check');
+      }
+    } else {
+      this.authorize('attendance.mark', student);
+    }
+    const source = options.source || 'face_recognition';
+    const reason = this.requireReason(source, options.reason);
+    if (options.id && this.attendance.some(r => r.id === options.id)) {
+      throw new Error(`Attendance record ${options.id} already exists`);
+    }
+
+    // Attach the check-in to the class session it falls in, unless the caller already chose one
+    const session = record.sessionId
+      ? this.getSession(record.sessionId)
+      : this.findSessionForCheckIn(record.studentId, record.timestamp);
+    const course = session ? this.getCourse(session.courseId) : null;
+
+    // Check-ins take their status from the session's late-arrival rules, whatever the caller guessed
+    let status = record.status;
+    if (source === 'face_recognition' && session && (status === 'Present' || status === 'Late')) {
+      const windows = windowsFor(this.lateRules, session.courseId);
+      const arrival = evaluateArrival(record.timestamp, session, windows);
+      if (arrival.refused) {
+        throw new CheckInClosedError(
+          `Check-in closed: ${course?.code || 'the class'} started ${arrival.minutesLate} minutes ago (limit ${windows.cutoffMinutes})`
+        );
+      }
+      status = arrival.status;
+    }
+
+    // One record per student and session; later changes go through updateAttendanceStatus. A check-in still outranks an excusal.
+    const existing = session
+      ? this.attendance.find(r => r.studentId === record.studentId && r.sessionId === session.id && !(r.status === 'Excused' && isAttended(status)))
+      : undefined;
+    if (existing) {
+      throw new DuplicateAttendanceError(
+        `${student?.name || 'The student'} is already marked ${existing.status} for ${course?.code || 'this session'}`,
+        existing
+      );
+    }
+
+    // Self check-ins must come from the session's room; a missing location is let through for review
+    const locationCheck =
+      selfCheckIn || record.location
+        ? checkGeofence(record.location, session ? this.getRoomGeofence(session.room) : null)
+        : null;
+    if (selfCheckIn && locationCheck?.status === 'outside') {
+      throw new PermissionError(`Check-in rejected: you are ${locationCheck.distanceMeters} m outside ${session?.room}`);
+    }
+
     const newRecord: AttendanceRecord = {
       ...record,
-      id: this.generateId(),
+      status,
+      rollNo: record.rollNo && record.rollNo !== 'N/A' ? record.rollNo : student?.rollNo,
+      name: record.name || student?.name,
+      sessionId: session?.id,
+      subject: course?.name || record.subject,
+      locationStatus: locationCheck?.status,
+      distanceMeters: locationCheck?.distanceMeters,
+      source,
+      updatedAt: new Date(),
+      id: options.id || this.generateId(),
     };
-    
-    records.push(newRecord);
-    localStorage.setItem(this.attendanceKey, JSON.stringify(records));
+
+    this.attendance.push(newRecord);
+    this.enqueueWrite(() => this.adapter.put('attendance', newRecord));
+    this.appendAudit('attendance.create', newRecord, null, source, reason);
+    this.queueSync('attendance.create', newRecord);
+    this.notifyAttendanceChange(newRecord);
     return newRecord;
   }
 
+  // Change the status of an existing record; every change lands in the audit log
+  updateAttendanceStatus(
+    id: string,
+    status: AttendanceRecord['status'],
+    options: AttendanceChangeOptions = {}
+  ): AttendanceRecord | null {
+    const index = this.attendance.findIndex(r => r.id === id);
+    if (index === -1) return null;
+
+    const previous = this.attendance[index];
+    this.authorize('attendance.edit', this.students.find(s => s.id === previous.studentId));
+    const source = options.source || 'manual_override';
+    const reason = this.requireReason(source, options.reason);
+    if (previous.status === status) return previous;
+
+    const updated: AttendanceRecord = { ...previous, status, source, updatedAt: new Date() };
+    this.attendance[index] = updated;
+    this.enqueueWrite(() => this.adapter.put('attendance', updated));
+    this.appendAudit('attendance.update', updated, previous.status, source, reason);
+    this.queueSync('attendance.update', updated);
+    this.notifyAttendanceChange(updated);
+    return updated;
+  }
+
+  // Accept or reject a check-in whose location was flagged; rejecting marks it Absent
+  reviewLocation(id: string, accepted: boolean, reason: string): AttendanceRecord | null {
+    const index = this.attendance.findIndex(r => r.id === id);
+    if (index === -1) return null;
+
+    this.authorize('attendance.edit', this.students.find(s => s.id === this.attendance[index].studentId));
+    if (!accepted) {
+      this.updateAttendanceStatus(id, 'Absent', { reason });
+    }
+    const reviewed: AttendanceRecord = {
+      ...this.attendance[index],
+      locationReviewedAt: new Date(),
+      locationReviewedBy: this.actor?.userId || 'system',
+    };
+    this.attendance[index] = reviewed;
+    this.enqueueWrite(() => this.adapter.put('attendance', reviewed));
+    this.queueSync('attendance.update', reviewed);
+    this.notifyAttendanceChange(reviewed);
+    return reviewed;
+  }
+
+  // Called after every attendance create/update on this instance (live boards). Returns an unsubscribe function.
+  onAttendanceChange(listener: (record: AttendanceRecord) => void): () => void {
+    this.attendanceListeners.add(listener);
+    return () => {
+      this.attendanceListeners.delete(listener);
+    };
+  }
+
+  // A record another device wrote, pushed by the live feed. Local changes still waiting to sync win.
+  applyRemoteAttendance(record: AttendanceRecord): void {
+    if (this.outbox.some(e => e.recordId === record.id)) return;
+    const current = this.attendance.find(r => r.id === record.id);
+    if (current && new Date(current.updatedAt || 0).getTime() >= new Date(record.updatedAt || 0).getTime()) return;
+    this.replaceLocalRecord(record.id, record);
+  }
+
+  // Audit trail, oldest first, without entries emptied by the retention purge. Department heads only see entries for their own students.
+  async getAuditLog(filter: { studentId?: string } = {}): Promise<AuditEntry[]> {
+    await this.flush();
+    if (!this.isSystem() && !can(this.actor?.role, 'audit.view')) return [];
+
+    const entries = await this.adapter.getAll('audit');
+    return entries
+      .filter(entry => !entry.purgedAt)
+      .filter(entry => !filter.studentId || entry.studentId === filter.studentId)
+      .filter(entry => {
+        if (this.isSystem() || this.actor?.role !== 'hod') return true;
+        const student = this.students.find(s => s.id === entry.studentId);
+        return !!student && isInScope(this.actor, student);
+      })
+      .sort((a, b) => a.sequence - b.sequence);
+  }
+
+  // Re-hash the full audit log to detect tampering
+  async verifyAuditLog(): Promise<AuditChainStatus> {
+    await this.flush();
+    return verifyAuditChain(await this.adapter.getAll('audit'));
+  }
+
+  // Leave requests, newest first - students see their own, reviewers the ones in their scope
+  getLeaveRequests(): LeaveRequest[] {
+    return this.leaveRequests
+      .filter(request => {
+        if (this.isSystem()) return true;
+        if (!this.actor) return false;
+        if (request.studentId === this.actor.userId) return true;
+        const student = this.students.find(s => s.id === request.studentId);
+        return can(this.actor.role, 'leave.review') && !!student && isInScope(this.actor, student);
+      })
+      .sort((a, b) => new Date(b.submittedAt).getTime() - new Date(a.submittedAt).getTime());
+  }
+
+  // Students ask for their own leave; reviewers may file one on a student's behalf
+  submitLeaveRequest(request: Pick<LeaveRequest, 'studentId' | 'from' | 'to' | 'reason' | 'document'>): LeaveRequest {
+    const student = this.students.find(s => s.id === request.studentId);
+    if (!this.isSystem() && request.studentId === this.actor?.userId) {
+      this.authorize('leave.request');
+    } else {
+      this.authorize('leave.review', student);
+    }
+    if (!student) throw new Error('Unknown student');
+
+    const reason = request.reason.trim();
+    if (!reason) throw new Error('A reason is required for a leave request');
+    const from = new Date(request.from);
+    from.setHours(0, 0, 0, 0);
+    const to = new Date(request.to);
+    to.setHours(0, 0, 0, 0);
+    if (from > to) throw new Error('Leave must end on or after the day it starts');
+    const overlapping = this.leaveRequests.find(
+      r => r.studentId === student.id && r.status !== 'rejected' && new Date(r.from) <= to && new Date(r.to) >= from
+    );
+    if (overlapping) {
+      throw new Error(`Overlaps the ${overlapping.status} leave from ${new Date(overlapping.from).toLocaleDateString()}`);
+    }
+
+    const newRequest: LeaveRequest = {
+      ...request,
+      from,
+      to,
+      reason,
+      id: this.generateId(),
+      status: 'pending',
+      submittedAt: new Date(),
+    };
+    this.leaveRequests.push(newRequest);
+    this.enqueueWrite(() => this.adapter.put('leaveRequests', newRequest));
+    return newRequest;
+  }
+
+  // Approving marks the student's attendance on the leave days Excused; rejecting needs a reason
+  reviewLeaveRequest(id: string, approved: boolean, comment = ''): LeaveRequest | null {
+    const index = this.leaveRequests.findIndex(r => r.id === id);
+    if (index === -1) return null;
+
+    const request = this.leaveRequests[index];
+    this.authorize('leave.review', this.students.find(s => s.id === request.studentId));
+    if (request.status !== 'pending') throw new Error(`This leave request was already ${request.status}`);
+    if (!approved && !comment.trim()) throw new Error('A reason is required to reject a leave request');
+
+    const reviewed: LeaveRequest = {
+      ...request,
+      ...this.reviewStamp(approved, comment),
+      excusedSessions: approved ? this.excuseLeave(request) : undefined,
+    };
+    this.leaveRequests[index] = reviewed;
+    this.enqueueWrite(() => this.adapter.put('leaveRequests', reviewed));
+    return reviewed;
+  }
+
+  // Attendance disputes, newest first - students see their own, reviewers the ones in their scope
+  getAttendanceDisputes(): AttendanceDispute[] {
+    return this.disputes
+      .filter(dispute => {
+        if (this.isSystem()) return true;
+        if (!this.actor) return false;
+        if (dispute.studentId === this.actor.userId) return true;
+        const student = this.students.find(s => s.id === dispute.studentId);
+        return can(this.actor.role, 'attendance.edit') && !!student && isInScope(this.actor, student);
+      })
+      .sort((a, b) => new Date(b.submittedAt).getTime() - new Date(a.submittedAt).getTime());
+  }
+
+  // Students dispute their own record for a class, or a class they were never marked for
+  submitAttendanceDispute(
+    dispute: Pick<AttendanceDispute, 'studentId' | 'date' | 'sessionId' | 'claimedStatus' | 'reason' | 'evidence'>
+  ): AttendanceDispute {
+    if (!this.isSystem()) {
+      this.authorize('attendance.dispute');
+      if (dispute.studentId !== this.actor?.userId) {
+        throw new PermissionError('Students can only dispute their own attendance');
+      }
+    }
+    const reason = dispute.reason.trim();
+    if (!reason) throw new Error('Explain what happened to dispute an attendance record');
+
+    const session = dispute.sessionId
+      ? this.getSessionsForStudent(dispute.studentId).find(s => s.id === dispute.sessionId)
+      : undefined;
+    if (dispute.sessionId && !session) throw new Error('Unknown class session');
+    const date = new Date(session ? session.scheduledStart : dispute.date);
+    if (date > new Date()) throw new Error('Only past classes can be disputed');
+
+    const current = this.findDisputedRecord(dispute.studentId, date, dispute.sessionId);
+    if (current && (current.status === dispute.claimedStatus || current.status === 'Present' || current.status === 'Excused')) {
+      throw new Error(`This class is already marked ${current.status}`);
+    }
+    const duplicate = this.disputes.find(
+      d =>
+        d.studentId === dispute.studentId &&
+        d.status === 'pending' &&
+        (dispute.sessionId ? d.sessionId === dispute.sessionId : new Date(d.date).toDateString() === date.toDateString())
+    );
+    if (duplicate) throw new Error('This class already has a dispute awaiting review');
+
+    const newDispute: AttendanceDispute = {
+      ...dispute,
+      date,
+      reason,
+      recordId: current?.id,
+      currentStatus: current?.status ?? null,
+      id: this.generateId(),
+      status: 'pending',
+      submittedAt: new Date(),
+    };
+    this.disputes.push(newDispute);
+    this.enqueueWrite(() => this.adapter.put('disputes', newDispute));
+    return newDispute;
+  }
+
+  // Approving applies the claimed status as an audited manual override; rejecting needs a reason
+  reviewAttendanceDispute(id: string, approved: boolean, comment = ''): AttendanceDispute | null {
+    const index = this.disputes.findIndex(d => d.id === id);
+    if (index === -1) return null;
+
+    const dispute = this.disputes[index];
+    this.authorize('attendance.edit', this.students.find(s => s.id === dispute.studentId));
+    if (dispute.status !== 'pending') throw new Error(`This dispute was already ${dispute.status}`);
+    if (!approved && !comment.trim()) throw new Error('A reason is required to reject a dispute');
+
+    let recordId = dispute.recordId;
+    if (approved) {
+      // Looked up again in case the record changed since the dispute was filed
+      const record = this.findDisputedRecord(dispute.studentId, new Date(dispute.date), dispute.sessionId);
+      const reason = `Dispute approved: ${dispute.reason}${comment.trim() ? ` (${comment.trim()})` : ''}`;
+      if (record) {
+        this.updateAttendanceStatus(record.id, dispute.claimedStatus, { reason });
+        recordId = record.id;
+      } else {
+        recordId = this.markAttendance(
+          { studentId: dispute.studentId, timestamp: new Date(dispute.date), status: dispute.claimedStatus, sessionId: dispute.sessionId, confidence: 1.0 },
+          { source: 'manual_override', reason }
+        ).id;
+      }
+    }
+
+    const reviewed: AttendanceDispute = { ...dispute, ...this.reviewStamp(approved, comment), recordId };
+    this.disputes[index] = reviewed;
+    this.enqueueWrite(() => this.adapter.put('disputes', reviewed));
+    return reviewed;
+  }
+
   getTodayAttendance(): AttendanceRecord[] {
-    const records = this.getAttendanceRecords();
     const today = new Date();
     today.setHours(0, 0, 0, 0);
-    
-    return records.filter(record => {
+
+    return this.getAttendanceRecords().filter(record => {
       const recordDate = new Date(record.timestamp);
       recordDate.setHours(0, 0, 0, 0);
       return recordDate.getTime() === today.getTime();
     });
   }
 
+  // Indexed lookup straight against the storage backend (by student, subject and/or date range)
+  async queryAttendance(query: AttendanceQuery): Promise<AttendanceRecord[]> {
+    await this.flush();
+    return (await this.adapter.queryAttendance(query)).filter(r => this.canSeeAttendance(r));
+  }
+
+  // Course management
+  getCourses(): Course[] {
+    return [...this.courses];
+  }
+
+  getCourse(id: string): Course | null {
+    return this.courses.find(c => c.id === id) || null;
+  }
+
+  addCourse(course: Omit<Course, 'id' | 'createdAt'>): Course {
+    this.authorize('courses.manage');
+    const newCourse: Course = {
+      ...course,
+      id: this.generateId(),
+      createdAt: new Date(),
+    };
+
+    this.courses.push(newCourse);
+    this.enqueueWrite(() => this.adapter.put('courses', newCourse));
+    return newCourse;
+  }
+
+  // Campus locations - rooms are matched to sessions by name
+  getBuildings(): Building[] {
+    return [...this.buildings];
+  }
+
+  addBuilding(building: Omit<Building, 'id' | 'createdAt'>): Building {
+    this.authorize('courses.manage');
+    this.assertValidGeofence(building.geofence);
+    const newBuilding: Building = {
+      ...building,
+      id: this.generateId(),
+      createdAt: new Date(),
+    };
+
+    this.buildings.push(newBuilding);
+    this.enqueueWrite(() => this.adapter.put('buildings', newBuilding));
+    return newBuilding;
+  }
+
+  updateBuilding(buildingData: Building): void {
+    this.authorize('courses.manage');
+    this.assertValidGeofence(buildingData.geofence);
+    const index = this.buildings.findIndex(b => b.id === buildingData.id);
+    if (index === -1) return;
+
+    this.buildings[index] = buildingData;
+    this.enqueueWrite(() => this.adapter.put('buildings', buildingData));
+  }
+
+  // Removes the building's rooms as well
+  deleteBuilding(id: string): void {
+    this.authorize('courses.manage');
+    const rooms = this.rooms.filter(r => r.buildingId === id);
+    this.buildings = this.buildings.filter(b => b.id !== id);
+    this.rooms = this.rooms.filter(r => r.buildingId !== id);
+    this.enqueueWrite(async () => {
+      await this.adapter.delete('buildings', id);
+      for (const room of rooms) {
+        await this.adapter.delete('rooms', room.id);
+      }
+    });
+  }
+
+  getRooms(): Room[] {
+    return [...this.rooms];
+  }
+
+  addRoom(room: Omit<Room, 'id' | 'createdAt'>): Room {
+    this.authorize('courses.manage');
+    if (!this.buildings.some(b => b.id === room.buildingId)) {
+      throw new Error('Unknown building');
+    }
+    if (room.geofence) this.assertValidGeofence(room.geofence);
+    const newRoom: Room = {
+      ...room,
+      id: this.generateId(),
+      createdAt: new Date(),
+    };
+
+    this.rooms.push(newRoom);
+    this.enqueueWrite(() => this.adapter.put('rooms', newRoom));
+    return newRoom;
+  }
+
+  deleteRoom(id: string): void {
+    this.authorize('courses.manage');
+    this.rooms = this.rooms.filter(r => r.id !== id);
+    this.enqueueWrite(() => this.adapter.delete('rooms', id));
+  }
+
+  // The room's own geofence, else its building's; null for rooms that are not mapped
+  getRoomGeofence(roomName: string): Geofence | null {
+    const room = this.rooms.find(r => r.name.trim().toLowerCase() === roomName.trim().toLowerCase());
+    if (!room) return null;
+    return room.geofence || this.buildings.find(b => b.id === room.buildingId)?.geofence || null;
+  }
+
+  // Section management - saving a section (re)generates its class sessions from the timetable
+  getSections(): Section[] {
+    return [...this.sections];
+  }
+
+  getSection(id: string): Section | null {
+    return this.sections.find(s => s.id === id) || null;
+  }
+
+  getSectionsForStudent(studentId: string): Section[] {
+    return this.sections.filter(s => s.studentIds.includes(studentId));
+  }
+
+  addSection(section: Omit<Section, 'id' | 'createdAt'>): Section {
+    this.authorize('courses.manage');
+    const newSection: Section = {
+      ...section,
+      id: this.generateId(),
+      createdAt: new Date(),
+    };
+
+    this.sections.push(newSection);
+    this.enqueueWrite(() => this.adapter.put('sections', newSection));
+    this.saveSessions(generateSessions(newSection));
+    return newSection;
+  }
+
+  updateSection(sectionData: Section): void {
+    this.authorize('courses.manage');
+    const index = this.sections.findIndex(s => s.id === sectionData.id);
+    if (index === -1) return;
+
+    this.sections[index] = sectionData;
+    this.enqueueWrite(() => this.adapter.put('sections', sectionData));
+
+    // Past sessions are history; only upcoming ones follow the new timetable (cancellations are kept)
+    const now = new Date();
+    const isUpcoming = (session: ClassSession) =>
+      session.sectionId === sectionData.id && new Date(session.scheduledStart) > now;
+    const cancelled = new Set(this.sessions.filter(s => isUpcoming(s) && s.status === 'cancelled').map(s => s.id));
+    this.removeSessions(s => isUpcoming(s) && !cancelled.has(s.id));
+    this.saveSessions(generateSessions(sectionData, now).filter(s => isUpcoming(s) && !cancelled.has(s.id)));
+  }
+
+  deleteSection(id: string): void {
+    this.authorize('courses.manage');
+    const now = new Date();
+    this.sections = this.sections.filter(s => s.id !== id);
+    this.enqueueWrite(() => this.adapter.delete('sections', id));
+    this.removeSessions(s => s.sectionId === id && new Date(s.scheduledStart) > now);
+  }
+
+  // Class session management
+  getSessions(filter: { sectionId?: string; from?: Date; to?: Date } = {}): ClassSession[] {
+    return this.sessions
+      .filter(session => {
+        const start = new Date(session.scheduledStart).getTime();
+        if (filter.sectionId && session.sectionId !== filter.sectionId) return false;
+        if (filter.from && start < filter.from.getTime()) return false;
+        if (filter.to && start >= filter.to.getTime()) return false;
+        return true;
+      })
+      .sort((a, b) => new Date(a.scheduledStart).getTime() - new Date(b.scheduledStart).getTime());
+  }
+
+  getSession(id: string): ClassSession | null {
+    return this.sessions.find(s => s.id === id) || null;
+  }
+
+  getTodaySessions(): ClassSession[] {
+    const start = new Date();
+    start.setHours(0, 0, 0, 0);
+    const end = new Date(start);
+    end.setDate(end.getDate() + 1);
+    return this.getSessions({ from: start, to: end });
+  }
+
+  getSessionsForStudent(studentId: string): ClassSession[] {
+    const sectionIds = new Set(this.getSectionsForStudent(studentId).map(s => s.id));
+    return this.sessions.filter(s => sectionIds.has(s.sectionId));
+  }
+
+  cancelSession(id: string): void {
+    this.authorize('courses.manage');
+    const session = this.getSession(id);
+    if (session) {
+      this.saveSessions([{ ...session, status: 'cancelled' }]);
+    }
+  }
+
+  findSessionForCheckIn(studentId: string, timestamp: Date): ClassSession | null {
+    return findSessionAt(this.getSessionsForStudent(studentId), timestamp);
+  }
+
+  /**
+   * The record a mark for `studentId` at `timestamp` would clash with: the one for the same session,
+   * or with no class running, the student's record of that day that belongs to no session.
+   */
+  findAttendanceFor(studentId: string, timestamp: Date, sessionId?: string): AttendanceRecord | null {
+    const session = sessionId ? this.getSession(sessionId) : this.findSessionForCheckIn(studentId, timestamp);
+    const day = new Date(timestamp).toDateString();
+    return (
+      this.getAttendanceRecords().find(r =>
+        r.studentId === studentId &&
+        (session ? r.sessionId === session.id : !r.sessionId && new Date(r.timestamp).toDateString() === day)
+      ) || null
+    );
+  }
+
+  // Accounts and login sessions - read straight from the backend, never cached in memory
+  async getCredential(id: string): Promise<Credential | null> {
+    await this.flush();
+    return this.adapter.get('credentials', id);
+  }
+
+  saveCredential(credential: Credential): Promise<void> {
+    return this.enqueueWrite(() => this.adapter.put('credentials', credential));
+  }
+
+  async getAuthSession(id: string): Promise<AuthSession | null> {
+    await this.flush();
+    return this.adapter.get('authSessions', id);
+  }
+
+  saveAuthSession(session: AuthSession): Promise<void> {
+    return this.enqueueWrite(() => this.adapter.put('authSessions', session));
+  }
+
+  deleteAuthSession(id: string): Promise<void> {
+    return this.enqueueWrite(() => this.adapter.delete('authSessions', id));
+  }
+
+  // App settings, shared by every device using the same backend
+  async getSettings(): Promise<Record<string, unknown>> {
+    await this.flush();
+    const entry = await this.adapter.get('meta', SETTINGS_KEY);
+    return (entry?.value as Record<string, unknown>) || {};
+  }
+
+  saveSettings(settings: Record<string, unknown>): Promise<void> {
+    this.authorize('settings.write');
+    return this.enqueueWrite(() => this.adapter.put('meta', { id: SETTINGS_KEY, value: settings }));
+  }
+
+  // Merge `changes` into the settings inside the write queue, so updates of different keys never overwrite each other
+  updateSettings(changes: Record<string, unknown>): Promise<void> {
+    this.authorize('settings.write');
+    return this.enqueueWrite(async () => {
+      const entry = await this.adapter.get('meta', SETTINGS_KEY);
+      const settings = (entry?.value as Record<string, unknown>) || {};
+      await this.adapter.put('meta', { id: SETTINGS_KEY, value: { ...settings, ...changes } });
+    });
+  }
+
+  // The logged-in user's own preferences; empty when nobody is logged in
+  async getUserSettings(): Promise<Record<string, unknown>> {
+    if (!this.actor) return {};
+    await this.flush();
+    const entry = await this.adapter.get('meta', `${USER_SETTINGS_PREFIX}${this.actor.userId}`);
+    return (entry?.value as Record<string, unknown>) || {};
+  }
+
+  // Merged like updateSettings; every logged-in user may change their own preferences
+  updateUserSettings(changes: Record<string, unknown>): Promise<void> {
+    if (!this.actor) throw new PermissionError('Log in to change your preferences');
+    const id = `${USER_SETTINGS_PREFIX}${this.actor.userId}`;
+    return this.enqueueWrite(async () => {
+      const entry = await this.adapter.get('meta', id);
+      const settings = (entry?.value as Record<string, unknown>) || {};
+      await this.adapter.put('meta', { id, value: { ...settings, ...changes } });
+    });
+  }
+
+  getLateRules(): LateRules {
+    return this.lateRules;
+  }
+
+  async saveLateRules(rules: LateRules): Promise<void> {
+    const errors = validateLateRules(rules, courseId => this.getCourse(courseId)?.code || courseId);
+    if (errors.length > 0) throw new Error(errors.join('; '));
+    await this.updateSettings({ [LATE_RULES_SETTING]: rules });
+    this.lateRules = rules;
+  }
+
+  // Scheduled report runs, newest first - written by the API server's report scheduler
+  async getReportRuns(): Promise<ReportJobRun[]> {
+    this.authorize('reports.view');
+    await this.flush();
+    const entry = await this.adapter.get('meta', REPORT_RUNS_KEY);
+    return ((entry?.value as ReportJobRun[]) || []).map(run => ({
+      ...run,
+      startedAt: new Date(run.startedAt),
+      finishedAt: new Date(run.finishedAt),
+    }));
+  }
+
+  recordReportRun(run: ReportJobRun): Promise<void> {
+    return this.enqueueWrite(async () => {
+      const entry = await this.adapter.get('meta', REPORT_RUNS_KEY);
+      const runs = (entry?.value as ReportJobRun[]) || [];
+      await this.adapter.put('meta', { id: REPORT_RUNS_KEY, value: [run, ...runs].slice(0, MAX_REPORT_RUNS) });
+    });
+  }
+
+  // Retention purge reports, newest first (see utils/retention.ts)
+  async getPurgeReports(): Promise<PurgeReport[]> {
+    this.authorize('data.manage');
+    await this.flush();
+    const entry = await this.adapter.get('meta', PURGE_REPORTS_KEY);
+    return ((entry?.value as PurgeReport[]) || []).map(report => ({
+      ...report,
+      startedAt: new Date(report.startedAt),
+      finishedAt: new Date(report.finishedAt),
+      cutoffs: reviveCutoffs(report.cutoffs),
+    }));
+  }
+
+  recordPurgeReport(report: PurgeReport): Promise<void> {
+    return this.enqueueWrite(async () => {
+      const entry = await this.adapter.get('meta', PURGE_REPORTS_KEY);
+      const reports = (entry?.value as PurgeReport[]) || [];
+      await this.adapter.put('meta', { id: PURGE_REPORTS_KEY, value: [report, ...reports].slice(0, MAX_PURGE_REPORTS) });
+    });
+  }
+
+  /**
+   * Delete what the retention purge found expired. `archive` runs first and nothing is deleted if it
+   * fails. Face images are cleared from their students, students left without face samples are
+   * flagged for re-enrolment, and purged audit entries keep their place in the hash chain.
+   * Sessions before the attendance cutoff are marked, so their purged records do not turn into absences.
+   */
+  async purgeExpiredData<T>(expired: PurgeArchive, archive: () => Promise<T>): Promise<T> {
+    this.authorize('data.manage');
+    const archived = await archive();
+
+    const purgedAt = new Date();
+    const sampleIds = new Set(expired.faceDescriptors.map(sample => sample.id));
+    const enrolled = new Set((await this.getFaceSamples()).filter(sample => !sampleIds.has(sample.id)).map(sample => sample.rollNo));
+    const unenrolled = new Set(expired.faceDescriptors.map(sample => sample.rollNo).filter(rollNo => !enrolled.has(rollNo)));
+    const imageIds = new Set(expired.faceImages.map(image => image.studentId));
+    const students = this.students
+      .filter(s => imageIds.has(s.id) || (!!s.rollNo && unenrolled.has(s.rollNo)))
+      .map(s => ({
+        ...s,
+        imageUrl: imageIds.has(s.id) ? undefined : s.imageUrl,
+        faceRegistered: !!s.rollNo && unenrolled.has(s.rollNo) ? false : s.faceRegistered,
+      }));
+    this.students = this.students.map(s => students.find(updated => updated.id === s.id) || s);
+
+    const recordIds = new Set(expired.attendance.map(record => record.id));
+    const outbox = [...this.outbox, ...this.rejected].filter(e => recordIds.has(e.recordId));
+    this.attendance = this.attendance.filter(r => !recordIds.has(r.id));
+    this.outbox = this.outbox.filter(e => !recordIds.has(e.recordId));
+    this.rejected = this.rejected.filter(e => !recordIds.has(e.recordId));
+    const runIds = new Set(expired.reports.map(run => run.id));
+    const attendanceCutoff = expired.cutoffs.attendance ? new Date(expired.cutoffs.attendance).getTime() : null;
+    const sessions = this.sessions
+      .filter(s => attendanceCutoff !== null && !s.attendancePurgedAt && new Date(s.scheduledStart).getTime() < attendanceCutoff)
+      .map(s => ({ ...s, attendancePurgedAt: purgedAt }));
+    this.sessions = this.sessions.map(s => sessions.find(updated => updated.id === s.id) || s);
+
+    const written = this.enqueueWrite(async () => {
+      await this.adapter.putMany('students', students);
+      await this.adapter.putMany('sessions', sessions);
+      for (const id of Array.from(sampleIds)) await this.adapter.delete('faceSamples', id);
+      for (const id of Array.from(recordIds)) await this.adapter.delete('attendance', id);
+      for (const entry of outbox) await this.adapter.delete('outbox', entry.id);
+      for (const entry of expired.auditLog) await this.adapter.put('audit', await redactAuditEntry(entry, purgedAt));
+      if (runIds.size > 0) {
+        const runs = ((await this.adapter.get('meta', REPORT_RUNS_KEY))?.value as ReportJobRun[]) || [];
+        await this.adapter.put('meta', { id: REPORT_RUNS_KEY, value: runs.filter(run => !runIds.has(run.id)) });
+      }
+    });
+    this.notifySyncStatus();
+    await written;
+    console.log(`[Database] Purged ${recordIds.size} attendance records and ${sampleIds.size} face samples`);
+    return archived;
+  }
+
+  // Enrolled face descriptors, oldest first - loaded by the recognizer, not cached here
+  async getFaceSamples(rollNo?: string): Promise<FaceSample[]> {
+    await this.flush();
+    return (await this.adapter.getAll('faceSamples'))
+      .filter(sample => rollNo === undefined || sample.rollNo === rollNo)
+      .sort((a, b) => new Date(a.registeredAt).getTime() - new Date(b.registeredAt).getTime());
+  }
+
+  saveFaceSample(sample: FaceSample): Promise<void> {
+    return this.enqueueWrite(() => this.adapter.put('faceSamples', sample));
+  }
+
+  deleteFaceSamples(ids: string[]): Promise<void> {
+    return this.enqueueWrite(async () => {
+      for (const id of ids) {
+        await this.adapter.delete('faceSamples', id);
+      }
+    });
+  }
+
+  // Compare every visible student's faceRegistered flag with what is actually stored
+  async checkFaceConsistency(): Promise<FaceConsistencyReport> {
+    const enrolled = new Set((await this.getFaceSamples()).map(sample => sample.rollNo));
+    const students = this.getStudents().filter(s => !!s.rollNo);
+    const knownRollNos = new Set(this.students.map(s => s.rollNo));
+
+    return {
+      missingSamples: students.filter(s => s.faceRegistered && !enrolled.has(s.rollNo!)),
+      unflagged: students.filter(s => !s.faceRegistered && enrolled.has(s.rollNo!)),
+      orphanedRollNos: Array.from(enrolled).filter(rollNo => !knownRollNos.has(rollNo)),
+    };
+  }
+
+  // Set faceRegistered to match the stored samples so flagged students get re-enrolled
+  async reconcileFaceFlags(): Promise<number> {
+    const report = await this.checkFaceConsistency();
+    const fixes = [
+      ...report.missingSamples.map(s => ({ ...s, faceRegistered: false })),
+      ...report.unflagged.map(s => ({ ...s, faceRegistered: true })),
+    ];
+    fixes.forEach(student => this.updateStudent(student));
+    return fixes.length;
+  }
+
   // Generate 10-character ID with combination of letters and numbers
   private generateId(): string {
     const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
@@ -78,25 +1132,80 @@ class DatabaseService {
     return this.saveStudent(student);
   }
 
+  /**
+   * Roster import: every student is checked before any is added, and all of them are written in
+   * one storage transaction, so a rejected import leaves nothing behind.
+   */
+  importStudents(students: Omit<Student, 'id' | 'createdAt'>[]): Student[] {
+    const rollNos = new Set(this.students.map(s => s.rollNo?.toLowerCase()).filter(Boolean));
+    students.forEach(student => {
+      this.authorize('students.create', student);
+      if (student.role !== 'student') this.authorize('users.manageRoles');
+      const rollNo = student.rollNo?.toLowerCase();
+      if (rollNo && rollNos.has(rollNo)) throw new Error(`Roll number ${student.rollNo} already exists`);
+      if (rollNo) rollNos.add(rollNo);
+    });
+
+    const created: Student[] = students.map(student => ({ ...student, id: this.generateId(), createdAt: new Date() }));
+    this.students.push(...created);
+    this.enqueueWrite(() => this.adapter.putMany('students', created));
+    console.log(`[Database] Imported ${created.length} students`);
+    return created;
+  }
+
   updateStudent(studentData: Student): void {
-    const students = this.getStudents();
-    const index = students.findIndex(s => s.id === studentData.id);
+    const index = this.students.findIndex(s => s.id === studentData.id);
     if (index !== -1) {
-      students[index] = studentData;
-      localStorage.setItem(this.studentsKey, JSON.stringify(students));
+      const previous = this.students[index];
+      this.authorize('students.edit', previous);
+      this.authorize('students.edit', studentData); // No moving students out of a department head's scope
+      if (previous.role !== studentData.role) {
+        this.authorize('users.manageRoles');
+        this.syncAccountRole(studentData.id, studentData.role);
+      }
+
+      this.students[index] = studentData;
+      this.enqueueWrite(() => this.adapter.put('students', studentData));
     }
   }
 
   deleteStudent(id: string): void {
-    const students = this.getStudents();
-    const filteredStudents = students.filter(s => s.id !== id);
-    localStorage.setItem(this.studentsKey, JSON.stringify(filteredStudents));
+    const student = this.students.find(s => s.id === id);
+    if (!student) return;
+    this.authorize('students.delete', student);
+
+    this.students = this.students.filter(s => s.id !== id);
+    this.enqueueWrite(async () => {
+      await this.adapter.delete('students', id);
+      // Biometric data goes with the student
+      const samples = await this.adapter.getAll('faceSamples');
+      for (const sample of samples.filter(sample => sample.rollNo === student.rollNo)) {
+        await this.adapter.delete('faceSamples', sample.id);
+      }
+    });
   }
 
-  // Clear all data
+  // Clear all data (accounts are kept)
   clearAllData() {
-    localStorage.removeItem(this.studentsKey);
-    localStorage.removeItem(this.attendanceKey);
+    this.authorize('data.manage');
+    this.students = [];
+    this.attendance = [];
+    this.courses = [];
+    this.sections = [];
+    this.sessions = [];
+    this.buildings = [];
+    this.rooms = [];
+    this.leaveRequests = [];
+    this.disputes = [];
+    this.outbox = [];
+    this.rejected = [];
+    this.notifySyncStatus();
+    this.enqueueWrite(async () => {
+      for (const store of STORE_NAMES.filter(store => !PRESERVED_STORES.includes(store))) {
+        await this.adapter.clear(store);
+      }
+      await setSchemaVersion(this.adapter, CURRENT_SCHEMA_VERSION);
+    });
   }
 
   // Initialize with empty data (no sample data)
@@ -104,6 +1213,378 @@ class DatabaseService {
     // No sample data - database starts empty
     // Users will add their own data through the interface
   }
+
+  private async load(): Promise<void> {
+    try {
+      await this.adapter.open();
+      if (!(this.adapter instanceof LocalStorageAdapter)) {
+        await this.importLegacyLocalStorage();
+      }
+      this.migrationReport = await runMigrations(this.adapter);
+      this.students = await this.adapter.getAll('students');
+      this.attendance = await this.adapter.getAll('attendance');
+      this.courses = await this.adapter.getAll('courses');
+      this.sections = await this.adapter.getAll('sections');
+      this.sessions = await this.adapter.getAll('sessions');
+      this.buildings = await this.adapter.getAll('buildings');
+      this.rooms = await this.adapter.getAll('rooms');
+      this.leaveRequests = await this.adapter.getAll('leaveRequests');
+      this.disputes = await this.adapter.getAll('disputes');
+      const settings = (await this.adapter.get('meta', SETTINGS_KEY))?.value as Record<string, unknown> | undefined;
+      this.lateRules = parseLateRules(settings?.[LATE_RULES_SETTING]);
+      const queued = (await this.adapter.getAll('outbox')).sort(
+        (a, b) => new Date(a.queuedAt).getTime() - new Date(b.queuedAt).getTime()
+      );
+      this.outbox = queued.filter(e => !e.rejectedAt);
+      this.rejected = queued.filter(e => e.rejectedAt);
+      const head = (await this.adapter.getAll('audit')).reduce<AuditEntry | null>(
+        (latest, entry) => (!latest || entry.sequence > latest.sequence ? entry : latest),
+        null
+      );
+      this.auditSequence = head?.sequence ?? 0;
+      this.auditHash = head?.hash ?? GENESIS_HASH;
+      console.log(`[Database] Loaded ${this.students.length} students and ${this.attendance.length} attendance records from ${this.adapter.name}`);
+    } catch (error) {
+      console.error(`[Database] Failed to load from ${this.adapter.name}:`, error);
+      this.students = [];
+      this.attendance = [];
+      this.courses = [];
+      this.sections = [];
+      this.sessions = [];
+      this.buildings = [];
+      this.rooms = [];
+      this.leaveRequests = [];
+      this.disputes = [];
+      this.lateRules = DEFAULT_LATE_RULES;
+      this.outbox = [];
+      this.rejected = [];
+    }
+    this.notifySyncStatus();
+  }
+
+  // One-time move of data written by the old localStorage-only service, freeing its quota
+  private async importLegacyLocalStorage(): Promise<void> {
+    if (typeof localStorage === 'undefined') return;
+
+    const legacy = new LocalStorageAdapter(localStorage);
+    const stores: StoreName[] = ['students', 'attendance'];
+    if (stores.every(store => localStorage.getItem(LOCAL_STORAGE_KEYS[store]) === null)) return;
+
+    // Upgrade the legacy data in place first so it arrives at the schema version we record for it
+    const legacyReport = await runMigrations(legacy);
+
+    for (const store of stores) {
+      const records = await legacy.getAll(store);
+      await this.adapter.putMany(store, records);
+      await legacy.clear(store);
+      console.log(`[Database] Imported ${records.length} ${store} records from localStorage`);
+    }
+
+    await appendQuarantinedRecords(this.adapter, await getQuarantinedRecords(legacy));
+    if ((await getSchemaVersion(this.adapter)) === null) {
+      await setSchemaVersion(this.adapter, legacyReport.toVersion);
+    }
+    await legacy.clear('meta');
+  }
+
+  // Reviewer fields shared by leave requests and disputes
+  private reviewStamp(approved: boolean, comment: string) {
+    const actor = this.isSystem() ? null : this.actor;
+    return {
+      status: approved ? ('approved' as const) : ('rejected' as const),
+      reviewedAt: new Date(),
+      reviewedBy: actor?.userId || 'system',
+      reviewerName: (actor && this.students.find(s => s.id === actor.userId)?.name) || actor?.userId || 'System',
+      reviewComment: comment.trim() || undefined,
+    };
+  }
+
+  // The student's latest record for the session (or, without one, the day) a dispute is about
+  private findDisputedRecord(studentId: string, date: Date, sessionId?: string): AttendanceRecord | undefined {
+    return this.attendance
+      .filter(r =>
+        r.studentId === studentId &&
+        (sessionId ? r.sessionId === sessionId : new Date(r.timestamp).toDateString() === date.toDateString())
+      )
+      .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())[0];
+  }
+
+  /**
+   * Mark everything the leave covers Excused through the audited attendance paths: the student's
+   * sessions on those days, or one record per day for students without a timetable. Absences are
+   * changed to Excused; check-ins stand. Returns how many sessions (or days) were excused.
+   */
+  private excuseLeave(request: LeaveRequest): number {
+    const reason = `Approved leave: ${request.reason}`;
+    const from = new Date(request.from);
+    const until = new Date(request.to);
+    until.setDate(until.getDate() + 1);
+    const records = this.attendance.filter(r => r.studentId === request.studentId);
+
+    const excuse = (existing: AttendanceRecord[], timestamp: Date, sessionId?: string): boolean => {
+      if (existing.some(r => r.status !== 'Absent')) return false;
+      if (existing.length > 0) {
+        existing.forEach(r => this.updateAttendanceStatus(r.id, 'Excused', { source: 'leave_approval', reason }));
+      } else {
+        this.markAttendance({ studentId: request.studentId, timestamp, status: 'Excused', sessionId }, { source: 'leave_approval', reason });
+      }
+      return true;
+    };
+
+    const sessions = this.getSessionsForStudent(request.studentId).filter(session => {
+      const start = new Date(session.scheduledStart);
+      return session.status !== 'cancelled' && start >= from && start < until;
+    });
+    if (sessions.length > 0 || this.getSectionsForStudent(request.studentId).length > 0) {
+      return sessions.filter(session =>
+        excuse(records.filter(r => r.sessionId === session.id), new Date(session.scheduledStart), session.id)
+      ).length;
+    }
+
+    let excused = 0;
+    for (const day = new Date(from); day < until; day.setDate(day.getDate() + 1)) {
+      const sameDay = records.filter(r => new Date(r.timestamp).toDateString() === day.toDateString());
+      if (excuse(sameDay, new Date(day))) excused++;
+    }
+    return excused;
+  }
+
+  private requireReason(source: AttendanceSource, reason: string | undefined): string {
+    const trimmed = (reason || '').trim();
+    if (source === 'manual_override' && !trimmed) {
+      throw new Error('A reason is required for manual attendance changes');
+    }
+    return trimmed;
+  }
+
+  private appendAudit(
+    action: AuditEntry['action'],
+    record: AttendanceRecord,
+    before: AttendanceRecord['status'] | null,
+    source: AttendanceSource,
+    reason: string
+  ): void {
+    const actor = this.isSystem() ? null : this.actor;
+    const sequence = ++this.auditSequence;
+    const content: Omit<AuditEntry, 'hash' | 'prevHash'> = {
+      id: String(sequence).padStart(10, '0'), // Keeps storage key order equal to chain order
+      sequence,
+      timestamp: new Date(),
+      action,
+      recordId: record.id,
+      studentId: record.studentId,
+      sessionId: record.sessionId,
+      before,
+      after: record.status,
+      reason,
+      source,
+      actorId: actor?.userId || 'system',
+      actorName: (actor && this.students.find(s => s.id === actor.userId)?.name) || actor?.userId || 'System',
+      actorRole: actor?.role || 'system',
+    };
+
+    this.enqueueWrite(async () => {
+      const entry = { ...content, prevHash: this.auditHash };
+      const hash = await computeAuditHash(entry);
+      await this.adapter.put('audit', { ...entry, hash });
+      this.auditHash = hash;
+    });
+  }
+
+  // Queue a change for the remote backend. A change to a record that is still queued replaces it.
+  private queueSync(action: OutboxEntry['action'], record: AttendanceRecord): void {
+    if (!this.remote) return;
+
+    const queued = this.outbox.find(e => e.recordId === record.id);
+    const entry: OutboxEntry = queued
+      ? { ...queued, record }
+      : { id: this.generateId(), recordId: record.id, action, record, queuedAt: new Date(), attempts: 0 };
+    this.outbox = queued ? this.outbox.map(e => (e.id === entry.id ? entry : e)) : [...this.outbox, entry];
+    this.enqueueWrite(() => this.adapter.put('outbox', entry));
+    this.notifySyncStatus();
+    this.scheduleSync();
+  }
+
+  private scheduleSync(): void {
+    if (!this.remote || this.outbox.length === 0) return;
+    if (typeof navigator !== 'undefined' && navigator.onLine === false) return;
+    void this.syncOutbox();
+  }
+
+  private async replayOutbox(): Promise<SyncReport> {
+    const report: SyncReport = { pushed: 0, conflicts: [], rejected: 0, pending: 0, error: null };
+    await this.flush();
+
+    let entry: OutboxEntry | undefined;
+    while (this.remote && (entry = this.outbox[0])) {
+      const remote = this.remote;
+      const record = reviveDates('attendance', entry.record);
+      try {
+        // The server's copy of this record, or another check-in for the same student and session
+        const counterpart =
+          (await remote.get('attendance', record.id)) ||
+          (record.sessionId
+            ? (await remote.queryAttendance({ studentId: record.studentId, sessionId: record.sessionId }))[0] || null
+            : null);
+        const resolution = counterpart ? resolveConflict(record, counterpart) : null;
+
+        if (!counterpart || resolution?.winner === 'local') {
+          // A winning duplicate check-in overwrites the server's record rather than adding a second one
+          const pushed = counterpart ? { ...record, id: counterpart.id } : record;
+          await remote.put('attendance', pushed);
+          if (pushed.id !== record.id) this.replaceLocalRecord(record.id, pushed);
+          report.pushed++;
+        } else {
+          this.acceptRemoteRecord(record, counterpart, resolution!.rule);
+        }
+        if (counterpart && resolution && (counterpart.id !== record.id || counterpart.status !== record.status)) {
+          report.conflicts.push({ ...resolution, recordId: record.id, studentId: record.studentId });
+        }
+        this.removeOutboxEntry(entry);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        if (isRejection(error)) {
+          this.rejectOutboxEntry({ ...entry, attempts: entry.attempts + 1, lastError: message, rejectedAt: new Date() });
+          report.rejected++;
+          console.warn(`[Database] ${remote.name} refused a queued change to ${record.id}:`, error);
+          continue;
+        }
+        report.error = message;
+        const failed: OutboxEntry = { ...entry, attempts: entry.attempts + 1, lastError: report.error };
+        this.outbox = this.outbox.map(e => (e.id === failed.id ? failed : e));
+        this.enqueueWrite(() => this.adapter.put('outbox', failed));
+        console.warn(`[Database] Sync to ${remote.name} failed, ${this.outbox.length} change(s) still queued:`, error);
+        break;
+      }
+    }
+
+    this.lastSyncError = report.error;
+    report.pending = this.outbox.length;
+    await this.flush();
+    return report;
+  }
+
+  // The server's version won a conflict: it replaces the local record, and the change is audited
+  private acceptRemoteRecord(local: AttendanceRecord, remote: AttendanceRecord, rule: string): void {
+    const before = this.attendance.find(r => r.id === local.id);
+    this.replaceLocalRecord(local.id, remote);
+    if (before?.status !== remote.status) {
+      this.runAsSystem(() =>
+        this.appendAudit('attendance.update', remote, before?.status || null, remote.source || 'face_recognition', `Sync conflict: ${rule}`)
+      );
+    }
+  }
+
+  private replaceLocalRecord(id: string, record: AttendanceRecord): void {
+    this.attendance = [...this.attendance.filter(r => r.id !== id && r.id !== record.id), record];
+    this.enqueueWrite(async () => {
+      if (id !== record.id) await this.adapter.delete('attendance', id);
+      await this.adapter.put('attendance', record);
+    });
+    this.notifyAttendanceChange(record);
+  }
+
+  private notifyAttendanceChange(record: AttendanceRecord): void {
+    this.attendanceListeners.forEach(listener => listener(record));
+  }
+
+  private rejectOutboxEntry(entry: OutboxEntry): void {
+    this.outbox = this.outbox.filter(e => e.id !== entry.id);
+    this.rejected = [...this.rejected, entry];
+    this.enqueueWrite(() => this.adapter.put('outbox', entry));
+    this.notifySyncStatus();
+  }
+
+  // Unless the entry was replaced by a newer change while it was being sent
+  private removeOutboxEntry(entry: OutboxEntry): void {
+    if (this.outbox.find(e => e.id === entry.id)?.record !== entry.record) return;
+    this.outbox = this.outbox.filter(e => e.id !== entry.id);
+    this.enqueueWrite(() => this.adapter.delete('outbox', entry.id));
+    this.notifySyncStatus();
+  }
+
+  private notifySyncStatus(): void {
+    const status = this.getSyncStatus();
+    this.syncListeners.forEach(listener => listener(status));
+  }
+
+  private assertValidGeofence(geofence: Geofence): void {
+    const problem = validateGeofence(geofence);
+    if (problem) throw new Error(`Invalid geofence: ${problem}`);
+  }
+
+  private isSystem(): boolean {
+    return this.systemDepth > 0;
+  }
+
+  // Throws unless the current actor holds `permission` (and, for a student record, has it in scope)
+  private authorize(permission: Permission, student?: Pick<Student, 'department'>): void {
+    if (this.isSystem()) return;
+    if (!this.actor) {
+      throw new PermissionError('You must be logged in to do that');
+    }
+    if (!can(this.actor.role, permission)) {
+      throw new PermissionError(`${ROLE_LABELS[this.actor.role]} accounts cannot perform ${permission}`);
+    }
+    if (student && !isInScope(this.actor, student)) {
+      throw new PermissionError(`Students outside the ${this.actor.department || 'unknown'} department are not accessible`);
+    }
+  }
+
+  private canSeeStudent(student: Student): boolean {
+    if (this.isSystem()) return true;
+    if (!this.actor) return false;
+    if (!can(this.actor.role, 'students.view')) return student.id === this.actor.userId;
+    return isInScope(this.actor, student);
+  }
+
+  private canSeeAttendance(record: AttendanceRecord): boolean {
+    if (this.isSystem()) return true;
+    if (!this.actor) return false;
+    if (!can(this.actor.role, 'attendance.view')) {
+      return can(this.actor.role, 'attendance.viewOwn') && record.studentId === this.actor.userId;
+    }
+    if (this.actor.role !== 'hod') return true;
+    const student = this.students.find(s => s.id === record.studentId);
+    return !!student && isInScope(this.actor, student);
+  }
+
+  // A role change applies to the login account too; existing sessions are ended so it takes effect
+  private syncAccountRole(userId: string, role: Role): void {
+    this.enqueueWrite(async () => {
+      const credentials = (await this.adapter.getAll('credentials')).filter(c => c.userId === userId);
+      await this.adapter.putMany('credentials', credentials.map(c => ({ ...c, role })));
+      const sessions = (await this.adapter.getAll('authSessions')).filter(s => s.userId === userId);
+      for (const session of sessions) {
+        await this.adapter.delete('authSessions', session.id);
+      }
+    });
+  }
+
+  private saveSessions(sessions: ClassSession[]): void {
+    if (sessions.length === 0) return;
+    const ids = new Set(sessions.map(s => s.id));
+    this.sessions = [...this.sessions.filter(s => !ids.has(s.id)), ...sessions];
+    this.enqueueWrite(() => this.adapter.putMany('sessions', sessions));
+  }
+
+  private removeSessions(predicate: (session: ClassSession) => boolean): void {
+    const removed = this.sessions.filter(predicate);
+    this.sessions = this.sessions.filter(s => !predicate(s));
+    this.enqueueWrite(async () => {
+      for (const session of removed) {
+        await this.adapter.delete('sessions', session.id);
+      }
+    });
+  }
+
+  // Resolves or rejects with this write; the queue carries on with later writes either way
+  private enqueueWrite(write: () => Promise<void>): Promise<void> {
+    const result = this.pendingWrites.then(write);
+    this.pendingWrites = result.catch(error => console.error(`[Database] Write to ${this.adapter.name} failed:`, error));
+    this.trackedWrites?.push(result);
+    return result;
+  }
 }
 
-export const database = new DatabaseService();
\ No newline at end of file
+export const database = new DatabaseService();
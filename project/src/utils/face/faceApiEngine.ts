@@ -0,0 +1,119 @@
+import { FaceEngine, EngineFace, FacePose } from './faceEngine';
+
+export type FaceApiBackend = 'cpu' | 'wasm';
+
+export interface FaceApiEngineOptions {
+  modelUrl?: string; // Where the model files are served (copied into public/models on install)
+  backend?: FaceApiBackend;
+  wasmPath?: string; // Directory serving the tfjs-backend-wasm binaries when backend is 'wasm'
+  minConfidence?: number; // Detections scoring lower are ignored
+}
+
+type FaceApi = typeof import('@vladmandic/face-api');
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+const distance = (a: Point, b: Point): number => Math.hypot(a.x - b.x, a.y - b.y);
+
+// Eye aspect ratio over the six landmarks of one eye (Soukupová & Čech, 2016)
+const eyeAspectRatio = (eye: Point[]): number =>
+  (distance(eye[1], eye[5]) + distance(eye[2], eye[4])) / (2 * distance(eye[0], eye[3]) || 1);
+
+/**
+ * Pose from the 68-point landmark layout: 0/16 jaw corners, 30 nose tip, 36-41 and 42-47 eyes
+ */
+export const poseFromLandmarks = (points: Point[]): FacePose => {
+  const jawLeft = points[0];
+  const jawRight = points[16];
+  const halfWidth = distance(jawLeft, jawRight) / 2 || 1;
+  const centreX = (jawLeft.x + jawRight.x) / 2;
+
+  return {
+    eyeOpenness: (eyeAspectRatio(points.slice(36, 42)) + eyeAspectRatio(points.slice(42, 48))) / 2,
+    yaw: (points[30].x - centreX) / halfWidth,
+  };
+};
+
+// The bundled tf namespace is only partially typed
+interface TfRuntime {
+  setBackend(name: string): Promise<boolean>;
+  ready(): Promise<void>;
+  getBackend(): string;
+  setWasmPaths?(prefix: string): void;
+}
+
+/**
+ * face-api.js (TensorFlow.js) running in the browser on the CPU or WASM backend.
+ * Uses SSD MobileNet v1 for detection, the 68-point landmark model for alignment and
+ * the ResNet-34 recognition model for descriptors. The library is loaded on first use.
+ */
+export class FaceApiEngine implements FaceEngine {
+  readonly name = 'face-api';
+  private faceapi: FaceApi | null = null;
+  private loading: Promise<void> | null = null;
+
+  constructor(private options: FaceApiEngineOptions = {}) {}
+
+  load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.loadModels().catch(error => {
+        this.loading = null; // Allow a retry, e.g. after the model files are deployed
+        throw error;
+      });
+    }
+    return this.loading;
+  }
+
+  async detectFaces(imageData: string): Promise<EngineFace[]> {
+    await this.load();
+    const faceapi = this.faceapi!;
+
+    const image = await faceapi.fetchImage(imageData);
+    const detections = await faceapi
+      .detectAllFaces(image, new faceapi.SsdMobilenetv1Options({ minConfidence: this.options.minConfidence ?? 0.5 }))
+      .withFaceLandmarks()
+      .withFaceDescriptors();
+
+    return detections
+      .map(({ detection, landmarks, descriptor }) => ({
+        box: {
+          x: Math.round(detection.box.x),
+          y: Math.round(detection.box.y),
+          width: Math.round(detection.box.width),
+          height: Math.round(detection.box.height),
+        },
+        score: detection.score,
+        descriptor,
+        pose: poseFromLandmarks(landmarks.positions),
+      }))
+      .sort((a, b) => b.score - a.score);
+  }
+
+  private async loadModels(): Promise<void> {
+    const faceapi = await import('@vladmandic/face-api');
+    const tf = faceapi.tf as unknown as TfRuntime;
+    const backend = this.options.backend ?? 'cpu';
+
+    if (backend === 'wasm' && this.options.wasmPath) {
+      tf.setWasmPaths?.(this.options.wasmPath);
+    }
+    if (!(await tf.setBackend(backend))) {
+      console.warn(`[Facial Recognition] ${backend} backend unavailable, falling back to cpu`);
+      await tf.setBackend('cpu');
+    }
+    await tf.ready();
+
+    const modelUrl = this.options.modelUrl ?? '/models';
+    await Promise.all([
+      faceapi.nets.ssdMobilenetv1.loadFromUri(modelUrl),
+      faceapi.nets.faceLandmark68Net.loadFromUri(modelUrl),
+      faceapi.nets.faceRecognitionNet.loadFromUri(modelUrl),
+    ]);
+
+    this.faceapi = faceapi;
+    console.log(`[Facial Recognition] face-api models loaded from ${modelUrl} (${tf.getBackend()} backend)`);
+  }
+}
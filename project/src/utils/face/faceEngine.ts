@@ -0,0 +1,37 @@
+export interface FaceBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Head pose measured from facial landmarks, used by the liveness check
+ */
+export interface FacePose {
+  eyeOpenness: number; // Eye aspect ratio averaged over both eyes (~0.3 open, <0.2 closed)
+  yaw: number; // Nose offset from the face centre as a fraction of half the face width (0 = facing the camera)
+}
+
+/**
+ * One face found in an image, with the descriptor used for matching
+ */
+export interface EngineFace {
+  box: FaceBox;
+  score: number; // Detection confidence (0-1)
+  descriptor: Float32Array; // 128-dimensional face embedding
+  pose?: FacePose; // When the engine computes landmarks
+}
+
+/**
+ * Face detection/recognition backend used by FacialRecognitionSystem.
+ * Implementations: FaceApiEngine (face-api.js models) and FixtureFaceEngine (deterministic, for tests).
+ */
+export interface FaceEngine {
+  readonly name: string;
+  load(): Promise<void>;
+  // Every face in the image, best detection first. Images without faces yield an empty array.
+  detectFaces(imageData: string): Promise<EngineFace[]>;
+}
+
+export const DESCRIPTOR_LENGTH = 128;
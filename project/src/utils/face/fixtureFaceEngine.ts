@@ -0,0 +1,90 @@
+import { FaceEngine, EngineFace, FaceBox, FacePose, DESCRIPTOR_LENGTH } from './faceEngine';
+
+/**
+ * A face placed in a fixture image. Faces sharing an `identity` get nearly identical
+ * descriptors; `variant` models a different photo of the same person.
+ */
+export interface FixtureFace {
+  identity: string;
+  variant?: number;
+  box?: FaceBox;
+  score?: number;
+  pose?: FacePose;
+}
+
+// Spread of descriptor values between identities, and of the noise between photos of one identity
+const IDENTITY_SPREAD = 0.1;
+const VARIANT_NOISE = 0.005;
+
+const DEFAULT_BOX: FaceBox = { x: 0, y: 0, width: 160, height: 160 };
+const DEFAULT_POSE: FacePose = { eyeOpenness: 0.3, yaw: 0 }; // Eyes open, facing the camera
+
+// FNV-1a, so equal strings always seed the same sequence
+const hashString = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// mulberry32
+const seededRandom = (seed: number): (() => number) => {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/**
+ * Deterministic descriptor for a fixture identity
+ */
+export const fixtureDescriptor = (identity: string, variant = 0): Float32Array => {
+  const base = seededRandom(hashString(identity));
+  const noise = seededRandom(hashString(`${identity}#${variant}`));
+  const descriptor = new Float32Array(DESCRIPTOR_LENGTH);
+  for (let i = 0; i < DESCRIPTOR_LENGTH; i++) {
+    descriptor[i] = (base() * 2 - 1) * IDENTITY_SPREAD + (variant === 0 ? 0 : (noise() * 2 - 1) * VARIANT_NOISE);
+  }
+  return descriptor;
+};
+
+/**
+ * Test engine - no models, no randomness.
+ * Images registered with addFixture() contain exactly the listed faces. Any other image
+ * contains one face whose identity is the image content itself, so the same photo always
+ * yields the same descriptor and different photos never match.
+ */
+export class FixtureFaceEngine implements FaceEngine {
+  readonly name = 'fixture';
+  private fixtures = new Map<string, FixtureFace[]>();
+
+  constructor(fixtures: Record<string, FixtureFace[]> = {}) {
+    Object.entries(fixtures).forEach(([imageData, faces]) => this.addFixture(imageData, faces));
+  }
+
+  addFixture(imageData: string, faces: FixtureFace[]): void {
+    this.fixtures.set(imageData, faces);
+  }
+
+  async load(): Promise<void> {
+    // Nothing to load
+  }
+
+  async detectFaces(imageData: string): Promise<EngineFace[]> {
+    const faces = this.fixtures.get(imageData) ?? [{ identity: imageData }];
+
+    return faces
+      .map((face, index) => ({
+        box: face.box ?? { ...DEFAULT_BOX, x: index * DEFAULT_BOX.width },
+        score: face.score ?? 0.99,
+        descriptor: fixtureDescriptor(face.identity, face.variant),
+        pose: face.pose ?? DEFAULT_POSE,
+      }))
+      .sort((a, b) => b.score - a.score);
+  }
+}
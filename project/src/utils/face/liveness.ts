@@ -0,0 +1,128 @@
+/**
+ * Liveness (anti-spoofing) check for webcam self check-in.
+ * The student is given a random challenge - blink, or turn the head - and a short burst of
+ * frames is analysed: the challenge must be completed, and consecutive frames must differ the
+ * way a live camera feed does (a still photo or frozen virtual camera barely changes at all).
+ */
+
+import { FacePose } from './faceEngine';
+
+export type LivenessChallenge = 'blink' | 'turn_head';
+
+export const LIVENESS_CHALLENGES: LivenessChallenge[] = ['blink', 'turn_head'];
+
+export const LIVENESS_PROMPTS: Record<LivenessChallenge, string> = {
+  blink: 'Blink slowly a couple of times',
+  turn_head: 'Turn your head slowly to one side and back',
+};
+
+export const LIVENESS_THRESHOLDS = {
+  eyesClosed: 0.2, // Eye aspect ratio below this counts as closed
+  eyesOpen: 0.25, // ... and above this as open
+  headTurned: 0.35, // |yaw| reached during a head turn
+  facingCamera: 0.15, // |yaw| counted as looking straight at the camera
+  minFrameDifference: 0.5, // Mean grey-level change between frames of a live feed (0-255)
+  maxFrameDifference: 40, // Larger jumps mean the picture was swapped between frames
+  minFaceFrames: 0.6, // Share of frames that must contain a face
+};
+
+// Records created by self check-in need at least this score
+export const LIVENESS_PASS_SCORE = 0.7;
+
+const CHALLENGE_WEIGHT = 0.6;
+const MOTION_WEIGHT = 0.4;
+
+/**
+ * One captured frame: the pose of the most prominent face (null when none was found)
+ * and a downscaled greyscale copy of the picture for the frame-difference check
+ */
+export interface LivenessFrame {
+  pose: FacePose | null;
+  pixels: Uint8ClampedArray;
+}
+
+export interface LivenessResult {
+  passed: boolean;
+  score: number; // 0-1, stored on the attendance record
+  challenge: LivenessChallenge;
+  challengeCompleted: boolean;
+  motionScore: number; // Share of frame pairs whose difference looks like a live feed
+  reason: string | null; // Why the check failed, safe to show the student
+}
+
+export const pickChallenge = (random: () => number = Math.random): LivenessChallenge =>
+  LIVENESS_CHALLENGES[Math.floor(random() * LIVENESS_CHALLENGES.length) % LIVENESS_CHALLENGES.length];
+
+/**
+ * RGBA canvas pixels to one grey level per pixel
+ */
+export const toGrayscale = (rgba: Uint8ClampedArray): Uint8ClampedArray => {
+  const grey = new Uint8ClampedArray(rgba.length / 4);
+  for (let i = 0; i < grey.length; i++) {
+    grey[i] = 0.299 * rgba[i * 4] + 0.587 * rgba[i * 4 + 1] + 0.114 * rgba[i * 4 + 2];
+  }
+  return grey;
+};
+
+/**
+ * Mean absolute grey-level difference between two frames of the same size
+ */
+export const frameDifference = (a: Uint8ClampedArray, b: Uint8ClampedArray): number => {
+  const length = Math.min(a.length, b.length);
+  if (length === 0) return 0;
+  let sum = 0;
+  for (let i = 0; i < length; i++) {
+    sum += Math.abs(a[i] - b[i]);
+  }
+  return sum / length;
+};
+
+// Eyes open, then closed, then open again
+const detectBlink = (poses: FacePose[]): boolean => {
+  let phase: 'waitOpen' | 'waitClosed' | 'waitReopen' = 'waitOpen';
+  for (const { eyeOpenness } of poses) {
+    if (phase === 'waitOpen' && eyeOpenness >= LIVENESS_THRESHOLDS.eyesOpen) phase = 'waitClosed';
+    else if (phase === 'waitClosed' && eyeOpenness < LIVENESS_THRESHOLDS.eyesClosed) phase = 'waitReopen';
+    else if (phase === 'waitReopen' && eyeOpenness >= LIVENESS_THRESHOLDS.eyesOpen) return true;
+  }
+  return false;
+};
+
+// Facing the camera, then turned to either side
+const detectHeadTurn = (poses: FacePose[]): boolean => {
+  const facing = poses.findIndex(pose => Math.abs(pose.yaw) <= LIVENESS_THRESHOLDS.facingCamera);
+  return facing !== -1 && poses.slice(facing + 1).some(pose => Math.abs(pose.yaw) >= LIVENESS_THRESHOLDS.headTurned);
+};
+
+export const evaluateLiveness = (frames: LivenessFrame[], challenge: LivenessChallenge): LivenessResult => {
+  const poses = frames.map(frame => frame.pose).filter((pose): pose is FacePose => pose !== null);
+  const fail = (reason: string, challengeCompleted = false, motionScore = 0): LivenessResult => ({
+    passed: false,
+    score: Math.round((CHALLENGE_WEIGHT * (challengeCompleted ? 1 : 0) + MOTION_WEIGHT * motionScore) * 100) / 100,
+    challenge,
+    challengeCompleted,
+    motionScore,
+    reason,
+  });
+
+  if (frames.length < 2 || poses.length < frames.length * LIVENESS_THRESHOLDS.minFaceFrames) {
+    return fail('Keep your face in the frame during the check');
+  }
+
+  const pairs = frames.slice(1).map((frame, i) => frameDifference(frames[i].pixels, frame.pixels));
+  const livePairs = pairs.filter(
+    diff => diff >= LIVENESS_THRESHOLDS.minFrameDifference && diff <= LIVENESS_THRESHOLDS.maxFrameDifference
+  );
+  const motionScore = Math.round((livePairs.length / pairs.length) * 100) / 100;
+  const challengeCompleted = challenge === 'blink' ? detectBlink(poses) : detectHeadTurn(poses);
+
+  if (!challengeCompleted) {
+    return fail(`Challenge not completed: ${LIVENESS_PROMPTS[challenge].toLowerCase()}`, false, motionScore);
+  }
+
+  const result = fail('The camera image looks like a photo or recording', true, motionScore);
+  return result.score >= LIVENESS_PASS_SCORE ? { ...result, passed: true, reason: null } : result;
+};
+
+export const isLivenessPassed = (score: number | undefined): boolean =>
+  typeof score === 'number' && score >= LIVENESS_PASS_SCORE;
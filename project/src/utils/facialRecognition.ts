@@ -1,28 +1,73 @@
 /**
- * Advanced Facial Recognition System using OpenCV.js and Face-API.js
- * This system supports multi-face detection from a single classroom image
+ * Facial recognition service used by every screen (signup, student management, attendance).
+ * Single-face mode recognizes one person at a kiosk/webcam; multi-face mode handles a whole
+ * classroom photo. Both share one registry of enrolled faces and one set of thresholds.
  */
 
-import { Student } from '../types';
+import { Student, FaceSample } from '../types';
+import { database } from './database';
+import { settingsService, maxDistanceFor } from './settings';
+import { FaceEngine, EngineFace, FaceBox } from './face/faceEngine';
+import { FaceApiEngine } from './face/faceApiEngine';
+import { FixtureFaceEngine } from './face/fixtureFaceEngine';
+import { LivenessChallenge, LivenessFrame, LivenessResult, evaluateLiveness } from './face/liveness';
 
 export interface FaceDescriptor {
+  id: string;
   rollNo: string;
   descriptor: Float32Array;
-  imageData: string;
   registeredAt: Date;
 }
 
+// Enrolment photos kept per student; registering another drops the oldest
+export const MAX_SAMPLES_PER_STUDENT = 5;
+
+/**
+ * Float32Array <-> plain number array, so descriptors survive JSON (localStorage) and structured clone alike
+ */
+export const serializeDescriptor = (descriptor: Float32Array): number[] => Array.from(descriptor);
+
+export const deserializeDescriptor = (values: number[]): Float32Array => Float32Array.from(values);
+
+const toFaceDescriptor = (sample: FaceSample): FaceDescriptor => ({
+  id: sample.id,
+  rollNo: sample.rollNo,
+  descriptor: deserializeDescriptor(sample.descriptor),
+  registeredAt: new Date(sample.registeredAt),
+});
+
 export interface DetectedFace {
   student: Student | null;
   confidence: number;
-  boundingBox: {
-    x: number;
-    y: number;
-    width: number;
-    height: number;
-  };
+  boundingBox: FaceBox;
+}
+
+/**
+ * Result of single-face recognition
+ */
+export interface FaceMatch {
+  student: Student | null;
+  confidence: number; // Similarity to the closest enrolled face, also reported when below the threshold
+  facesDetected: number;
+  boundingBox: FaceBox | null;
 }
 
+/**
+ * Matching thresholds shared by single-face and classroom recognition
+ */
+export interface RecognitionThresholds {
+  // Largest descriptor distance still treated as the same person (confidence = 1 - distance)
+  maxDistance: number;
+  // Detections the engine scores lower than this are not treated as faces
+  minDetectionScore: number;
+}
+
+// 0.6 is the distance face-api.js recommends for its 128-d descriptors
+export const DEFAULT_RECOGNITION_THRESHOLDS: RecognitionThresholds = {
+  maxDistance: 0.6,
+  minDetectionScore: 0.5,
+};
+
 export interface ClassroomAttendanceResult {
   totalDetected: number;
   recognized: DetectedFace[];
@@ -31,19 +76,35 @@ export interface ClassroomAttendanceResult {
   imageWithAnnotations?: string;
 }
 
+/**
+ * Pick the face engine.
+ * VITE_FACE_ENGINE=fixture selects the deterministic test engine, otherwise face-api.js is used
+ * with the models under VITE_FACE_MODEL_URL (default /models) on VITE_FACE_BACKEND (cpu or wasm).
+ */
+export const createDefaultFaceEngine = (): FaceEngine => {
+  const env = import.meta.env;
+  if (env.VITE_FACE_ENGINE === 'fixture') {
+    return new FixtureFaceEngine();
+  }
+  return new FaceApiEngine({
+    modelUrl: env.VITE_FACE_MODEL_URL || '/models',
+    backend: env.VITE_FACE_BACKEND === 'wasm' ? 'wasm' : 'cpu',
+    wasmPath: env.VITE_FACE_WASM_PATH,
+  });
+};
+
 /**
  * Real-time Facial Recognition Service
- * Uses face-api.js (built on TensorFlow.js) for browser-based face detection
+ * Detection and descriptor extraction are delegated to a pluggable FaceEngine
  */
 export class FacialRecognitionSystem {
   private static instance: FacialRecognitionSystem;
-  private faceDescriptors: Map<string, FaceDescriptor> = new Map();
+  // All enrolled samples per roll number, mirrored from the faceSamples store
+  private faceDescriptors: Map<string, FaceDescriptor[]> = new Map();
   private modelsLoaded: boolean = false;
-  private isInitializing: boolean = false;
-
-  // Face matching threshold (lower = stricter)
-  private readonly RECOGNITION_THRESHOLD = 0.6; // 60% similarity required
-  private readonly MIN_CONFIDENCE = 0.75; // Minimum detection confidence
+  private initializing: Promise<boolean> | null = null;
+  private engine: FaceEngine | null = null;
+  private thresholds: RecognitionThresholds = { ...DEFAULT_RECOGNITION_THRESHOLDS };
 
   static getInstance(): FacialRecognitionSystem {
     if (!FacialRecognitionSystem.instance) {
@@ -52,31 +113,45 @@ export class FacialRecognitionSystem {
     return FacialRecognitionSystem.instance;
   }
 
+  // Swap the face engine (used by tests); models are loaded again on next use
+  useEngine(engine: FaceEngine): void {
+    this.engine = engine;
+    this.modelsLoaded = false;
+    this.initializing = null;
+  }
+
+  getEngineName(): string {
+    return this.getEngine().name;
+  }
+
+  getThresholds(): RecognitionThresholds {
+    return { ...this.thresholds };
+  }
+
+  setThresholds(thresholds: Partial<RecognitionThresholds>): void {
+    this.thresholds = { ...this.thresholds, ...thresholds };
+  }
+
   /**
-   * Initialize face detection models
-   * In a real implementation, this would load face-api.js models
+   * Initialize face detection models and load the enrolled face descriptors.
+   * Concurrent callers share the same load.
    */
-  async initializeModels(): Promise<boolean> {
+  initializeModels(): Promise<boolean> {
     if (this.modelsLoaded) {
-      console.log('[Facial Recognition] Models already loaded');
-      return true;
+      return Promise.resolve(true);
     }
-
-    if (this.isInitializing) {
-      console.log('[Facial Recognition] Models are being loaded...');
-      return false;
+    if (!this.initializing) {
+      this.initializing = this.loadModels();
     }
+    return this.initializing;
+  }
 
-    this.isInitializing = true;
-    console.log('[Facial Recognition] Initializing face detection models...');
+  private async loadModels(): Promise<boolean> {
+    console.log(`[Facial Recognition] Initializing ${this.getEngine().name} face engine...`);
 
     try {
-      // Simulate model loading (In real app, load face-api.js models)
-      // await faceapi.nets.ssdMobilenetv1.loadFromUri('/models')
-      // await faceapi.nets.faceLandmark68Net.loadFromUri('/models')
-      // await faceapi.nets.faceRecognitionNet.loadFromUri('/models')
-      
-      await this.simulateProcessing(2000);
+      await this.getEngine().load();
+      await this.loadFaceDescriptors();
       
       this.modelsLoaded = true;
       console.log('[Facial Recognition] ✅ Models loaded successfully');
@@ -87,17 +162,38 @@ export class FacialRecognitionSystem {
       console.error('[Facial Recognition] Failed to load models:', error);
       return false;
     } finally {
-      this.isInitializing = false;
+      this.initializing = null;
     }
   }
 
   /**
-   * Register a student's face with feature extraction
+   * Reload enrolled descriptors from the database (also picks up changes made in another tab)
+   */
+  async loadFaceDescriptors(): Promise<number> {
+    await database.init();
+    const samples = await database.getFaceSamples();
+
+    this.faceDescriptors = new Map();
+    samples.forEach(sample => {
+      const existing = this.faceDescriptors.get(sample.rollNo) || [];
+      this.faceDescriptors.set(sample.rollNo, [...existing, toFaceDescriptor(sample)]);
+    });
+
+    console.log(`[Facial Recognition] Loaded ${samples.length} face samples for ${this.faceDescriptors.size} students`);
+    return samples.length;
+  }
+
+  /**
+   * Register a student's face with feature extraction.
+   * Each call adds another sample for the roll number; all samples are persisted.
+   * With `requireSingleFace`, photos showing more than one face are rejected instead of
+   * enrolling the most confident one (uploaded photos, where nobody checked the framing).
    */
   async registerStudentFace(
     rollNo: string,
     imageData: string,
-    studentName: string
+    studentName: string,
+    options: { requireSingleFace?: boolean } = {}
   ): Promise<{ success: boolean; message: string }> {
     console.log(`[Facial Recognition] Registering face for ${studentName} (${rollNo})`);
 
@@ -111,14 +207,21 @@ export class FacialRecognitionSystem {
     }
 
     // Ensure models are loaded
-    if (!this.modelsLoaded) {
-      await this.initializeModels();
+    if (!(await this.initializeModels())) {
+      return { success: false, message: 'Face recognition models could not be loaded' };
     }
 
     try {
       // Extract facial features (128-dimensional descriptor)
       console.log('[Facial Recognition] Extracting facial features...');
-      const descriptor = await this.extractFaceDescriptor(imageData);
+      const faces = await this.detectFaces(imageData);
+      if (options.requireSingleFace && faces.length > 1) {
+        return {
+          success: false,
+          message: `${faces.length} faces detected. The photo must show only ${studentName}.`,
+        };
+      }
+      const descriptor = faces[0]?.descriptor ?? null;
 
       if (!descriptor) {
         return { 
@@ -127,17 +230,23 @@ export class FacialRecognitionSystem {
         };
       }
 
-      // Store the face descriptor
-      const faceData: FaceDescriptor = {
+      // Persist the descriptor so the registration survives a reload
+      const sample: FaceSample = {
+        id: `${rollNo}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
         rollNo,
-        descriptor,
-        imageData,
+        descriptor: serializeDescriptor(descriptor),
         registeredAt: new Date(),
       };
+      await database.saveFaceSample(sample);
 
-      this.faceDescriptors.set(rollNo, faceData);
+      const samples = [...(this.faceDescriptors.get(rollNo) || []), toFaceDescriptor(sample)];
+      const dropped = samples.splice(0, Math.max(0, samples.length - MAX_SAMPLES_PER_STUDENT));
+      if (dropped.length > 0) {
+        await database.deleteFaceSamples(dropped.map(d => d.id));
+      }
+      this.faceDescriptors.set(rollNo, samples);
       
-      console.log(`[Facial Recognition] ✅ Face registered for ${rollNo}`);
+      console.log(`[Facial Recognition] ✅ Face registered for ${rollNo} (${samples.length} sample(s))`);
       console.log(`[Facial Recognition] Total registered: ${this.faceDescriptors.size}`);
       
       return { 
@@ -153,6 +262,59 @@ export class FacialRecognitionSystem {
     }
   }
 
+  /**
+   * Recognize the person in a single-person photo (webcam check-in).
+   * When several faces are visible the most confident detection is used.
+   */
+  async recognizeFace(imageData: string, registeredStudents: Student[]): Promise<FaceMatch> {
+    if (!imageData || !imageData.startsWith('data:image/')) {
+      console.error('[Facial Recognition] Invalid image data');
+      return { student: null, confidence: 0, facesDetected: 0, boundingBox: null };
+    }
+
+    if (!(await this.initializeModels())) {
+      throw new Error('Face recognition models could not be loaded');
+    }
+
+    const faces = await this.detectFaces(imageData);
+    if (faces.length === 0) {
+      console.log('[Facial Recognition] ❌ No face detected');
+      return { student: null, confidence: 0, facesDetected: 0, boundingBox: null };
+    }
+
+    const match = this.findBestMatch(faces[0].descriptor, registeredStudents);
+    if (match.student) {
+      console.log(`[Facial Recognition] ✅ Recognized: ${match.student.name} (${match.student.rollNo}) - ${(match.confidence * 100).toFixed(1)}%`);
+    } else {
+      console.log('[Facial Recognition] ❌ No matching face found in registered database');
+    }
+
+    return { ...match, facesDetected: faces.length, boundingBox: faces[0].box };
+  }
+
+  /**
+   * Liveness check over a burst of webcam frames taken while the student performs `challenge`.
+   * `pixels` is a downscaled greyscale copy of each frame for the frame-difference check.
+   */
+  async checkLiveness(
+    frames: Array<{ imageData: string; pixels: Uint8ClampedArray }>,
+    challenge: LivenessChallenge
+  ): Promise<LivenessResult> {
+    if (!(await this.initializeModels())) {
+      throw new Error('Face recognition models could not be loaded');
+    }
+
+    const analysed: LivenessFrame[] = [];
+    for (const frame of frames) {
+      const [face] = await this.detectFaces(frame.imageData);
+      analysed.push({ pose: face?.pose ?? null, pixels: frame.pixels });
+    }
+
+    const result = evaluateLiveness(analysed, challenge);
+    console.log(`[Facial Recognition] Liveness (${challenge}): score ${result.score}${result.passed ? '' : ` - ${result.reason}`}`);
+    return result;
+  }
+
   /**
    * Detect and recognize multiple faces from a classroom photo
    * This is the main method for bulk attendance marking
@@ -178,33 +340,26 @@ export class FacialRecognitionSystem {
     }
 
     // Ensure models are loaded
-    if (!this.modelsLoaded) {
-      await this.initializeModels();
+    if (!(await this.initializeModels())) {
+      throw new Error('Face recognition models could not be loaded');
     }
 
     try {
-      // Step 1: Detect all faces in the image
+      // Step 1: Detect all faces in the image and extract their descriptors
       console.log('[Facial Recognition] Detecting faces in classroom image...');
-      const detectedFaces = await this.detectMultipleFaces(imageData);
+      const detectedFaces = await this.detectFaces(imageData);
       console.log(`[Facial Recognition] Found ${detectedFaces.length} faces in image`);
 
-      // Step 2: Extract descriptors for each detected face
-      console.log('[Facial Recognition] Extracting facial features...');
-      const faceDescriptors = await this.extractMultipleFaceDescriptors(imageData, detectedFaces);
-
-      // Step 3: Match each face with registered students
+      // Step 2: Match each face with registered students
       console.log('[Facial Recognition] Matching faces with database...');
       const recognized: DetectedFace[] = [];
       let unrecognized = 0;
 
-      for (let i = 0; i < faceDescriptors.length; i++) {
-        const descriptor = faceDescriptors[i];
-        const boundingBox = detectedFaces[i];
-
+      for (const { descriptor, box: boundingBox } of detectedFaces) {
         // Find best match in registered faces
-        const match = await this.findBestMatch(descriptor, registeredStudents);
+        const match = this.findBestMatch(descriptor, registeredStudents);
 
-        if (match.student && match.confidence >= this.MIN_CONFIDENCE) {
+        if (match.student) {
           recognized.push({
             student: match.student,
             confidence: match.confidence,
@@ -243,101 +398,26 @@ export class FacialRecognitionSystem {
     }
   }
 
-  /**
-   * Extract face descriptor from a single image
-   * Returns 128-dimensional face descriptor
-   */
-  private async extractFaceDescriptor(imageData: string): Promise<Float32Array | null> {
-    // Simulate face detection and feature extraction
-    await this.simulateProcessing(800);
-
-    // In real implementation, use face-api.js:
-    // const img = await faceapi.fetchImage(imageData)
-    // const detection = await faceapi.detectSingleFace(img)
-    //   .withFaceLandmarks()
-    //   .withFaceDescriptor()
-    // return detection?.descriptor
-
-    // For demo: generate random 128-dimensional descriptor
-    const descriptor = new Float32Array(128);
-    for (let i = 0; i < 128; i++) {
-      descriptor[i] = Math.random() * 2 - 1; // Values between -1 and 1
-    }
-
-    return descriptor;
+  // Engine detections that pass the detection threshold, best first
+  private async detectFaces(imageData: string): Promise<EngineFace[]> {
+    const faces = await this.getEngine().detectFaces(imageData);
+    return faces.filter(face => face.score >= this.thresholds.minDetectionScore);
   }
 
-  /**
-   * Detect multiple faces in a classroom image
-   * Returns bounding boxes for all detected faces
-   */
-  private async detectMultipleFaces(imageData: string): Promise<Array<{
-    x: number;
-    y: number;
-    width: number;
-    height: number;
-  }>> {
-    // Simulate face detection processing
-    await this.simulateProcessing(1500);
-
-    // In real implementation, use face-api.js:
-    // const img = await faceapi.fetchImage(imageData)
-    // const detections = await faceapi.detectAllFaces(img)
-    // return detections.map(d => d.box)
-
-    // For demo: simulate detecting 3-8 faces in random positions
-    const numFaces = Math.floor(Math.random() * 6) + 3; // 3-8 faces
-    const faces = [];
-
-    for (let i = 0; i < numFaces; i++) {
-      faces.push({
-        x: Math.floor(Math.random() * 800),
-        y: Math.floor(Math.random() * 600),
-        width: 120 + Math.floor(Math.random() * 80),
-        height: 140 + Math.floor(Math.random() * 80),
-      });
+  private getEngine(): FaceEngine {
+    if (!this.engine) {
+      this.engine = createDefaultFaceEngine();
     }
-
-    return faces;
-  }
-
-  /**
-   * Extract descriptors for multiple detected faces
-   */
-  private async extractMultipleFaceDescriptors(
-    imageData: string,
-    boundingBoxes: Array<{ x: number; y: number; width: number; height: number }>
-  ): Promise<Float32Array[]> {
-    await this.simulateProcessing(1000);
-
-    // In real implementation:
-    // const img = await faceapi.fetchImage(imageData)
-    // const descriptors = await Promise.all(
-    //   boundingBoxes.map(box => 
-    //     faceapi.detectSingleFace(img, new faceapi.Rect(box.x, box.y, box.width, box.height))
-    //       .withFaceLandmarks()
-    //       .withFaceDescriptor()
-    //   )
-    // )
-    // return descriptors.map(d => d.descriptor)
-
-    // For demo: generate random descriptors
-    return boundingBoxes.map(() => {
-      const descriptor = new Float32Array(128);
-      for (let i = 0; i < 128; i++) {
-        descriptor[i] = Math.random() * 2 - 1;
-      }
-      return descriptor;
-    });
+    return this.engine;
   }
 
   /**
    * Find the best matching student for a face descriptor
    */
-  private async findBestMatch(
+  private findBestMatch(
     descriptor: Float32Array,
     students: Student[]
-  ): Promise<{ student: Student | null; confidence: number }> {
+  ): { student: Student | null; confidence: number } {
     let bestMatch: Student | null = null;
     let bestDistance = Infinity;
 
@@ -345,13 +425,12 @@ export class FacialRecognitionSystem {
     for (const student of students) {
       if (!student.rollNo) continue;
 
-      const registeredFace = this.faceDescriptors.get(student.rollNo);
-      if (!registeredFace) continue;
+      const registeredFaces = this.faceDescriptors.get(student.rollNo);
+      if (!registeredFaces) continue;
 
-      // Calculate Euclidean distance between descriptors
-      const distance = this.calculateEuclideanDistance(
-        descriptor,
-        registeredFace.descriptor
+      // Calculate Euclidean distance to the closest of the student's samples
+      const distance = Math.min(
+        ...registeredFaces.map(face => this.calculateEuclideanDistance(descriptor, face.descriptor))
       );
 
       if (distance < bestDistance) {
@@ -362,13 +441,11 @@ export class FacialRecognitionSystem {
 
     // Convert distance to confidence score (0-1)
     // Lower distance = higher confidence
-    const confidence = bestDistance < this.RECOGNITION_THRESHOLD
-      ? 1 - (bestDistance / this.RECOGNITION_THRESHOLD)
-      : 0;
+    const confidence = Math.round(Math.max(0, 1 - bestDistance) * 100) / 100;
 
     return {
-      student: confidence >= this.MIN_CONFIDENCE ? bestMatch : null,
-      confidence: Math.min(confidence, 1),
+      student: bestDistance <= this.thresholds.maxDistance ? bestMatch : null,
+      confidence,
     };
   }
 
@@ -399,12 +476,14 @@ export class FacialRecognitionSystem {
     return Array.from(this.faceDescriptors.keys());
   }
 
-  /**
-   * Simulate processing delay (remove in production)
-   */
-  private async simulateProcessing(duration: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, duration));
+  getSampleCount(rollNo: string): number {
+    return this.faceDescriptors.get(rollNo)?.length ?? 0;
   }
 }
 
 export const facialRecognition = FacialRecognitionSystem.getInstance();
+
+// The recognition threshold setting is the least confidence accepted as a match
+settingsService.subscribe(settings =>
+  facialRecognition.setThresholds({ maxDistance: maxDistanceFor(settings.recognitionThreshold) })
+);
@@ -0,0 +1,101 @@
+/**
+ * Geofence checks for check-ins. Distances use the haversine formula; polygons are handled
+ * on a local flat projection, which is accurate to well under a metre at campus scale.
+ */
+
+import { AttendanceLocation, GeoPoint, Geofence, LocationStatus } from '../types';
+
+const EARTH_RADIUS_METERS = 6371000;
+
+// Browsers report accuracy; anything worse than this is too vague to reject a check-in on
+export const MAX_TRUSTED_ACCURACY_METERS = 100;
+
+export interface GeofenceCheck {
+  status: LocationStatus;
+  distanceMeters?: number; // Only when outside
+}
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+export const distanceMeters = (a: GeoPoint, b: GeoPoint): number => {
+  const dLat = toRadians(b.latitude - a.latitude);
+  const dLng = toRadians(b.longitude - a.longitude);
+  const h =
+    Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.min(1, Math.sqrt(h)));
+};
+
+// Metres east/north of `origin`
+const project = (point: GeoPoint, origin: GeoPoint): { x: number; y: number } => ({
+  x: toRadians(point.longitude - origin.longitude) * EARTH_RADIUS_METERS * Math.cos(toRadians(origin.latitude)),
+  y: toRadians(point.latitude - origin.latitude) * EARTH_RADIUS_METERS,
+});
+
+const isInsidePolygon = (point: GeoPoint, polygon: GeoPoint[]): boolean => {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    const crosses =
+      a.latitude > point.latitude !== b.latitude > point.latitude &&
+      point.longitude < ((b.longitude - a.longitude) * (point.latitude - a.latitude)) / (b.latitude - a.latitude) + a.longitude;
+    if (crosses) inside = !inside;
+  }
+  return inside;
+};
+
+const distanceToSegment = (point: GeoPoint, a: GeoPoint, b: GeoPoint): number => {
+  const p = project(point, a);
+  const end = project(b, a);
+  const lengthSquared = end.x ** 2 + end.y ** 2;
+  const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, (p.x * end.x + p.y * end.y) / lengthSquared));
+  return Math.hypot(p.x - t * end.x, p.y - t * end.y);
+};
+
+/**
+ * Metres from `point` to the edge of the geofence; 0 when inside
+ */
+export const distanceToGeofence = (point: GeoPoint, geofence: Geofence): number => {
+  if (geofence.type === 'circle') {
+    return Math.max(0, distanceMeters(point, geofence.center) - geofence.radiusMeters);
+  }
+  if (geofence.points.length < 3) return Infinity; // Rejected by validateGeofence, but never "inside"
+  if (isInsidePolygon(point, geofence.points)) return 0;
+  return Math.min(
+    ...geofence.points.map((a, i) => distanceToSegment(point, a, geofence.points[(i + 1) % geofence.points.length]))
+  );
+};
+
+/**
+ * Compare a check-in location with the room's geofence. The reported accuracy is
+ * given as benefit of the doubt, up to MAX_TRUSTED_ACCURACY_METERS.
+ */
+export const checkGeofence = (location: AttendanceLocation | null | undefined, geofence: Geofence | null): GeofenceCheck => {
+  if (!location) return { status: 'unavailable' };
+  if (!geofence) return { status: 'unchecked' };
+
+  const tolerance = Math.min(location.accuracy ?? 0, MAX_TRUSTED_ACCURACY_METERS);
+  const distance = distanceToGeofence(location, geofence);
+  return distance <= tolerance ? { status: 'inside' } : { status: 'outside', distanceMeters: Math.round(distance) };
+};
+
+/**
+ * Returns a message describing what is wrong with the geofence, or null if it is usable
+ */
+export const validateGeofence = (geofence: Geofence): string | null => {
+  const validPoint = (p: GeoPoint) =>
+    Number.isFinite(p.latitude) && Number.isFinite(p.longitude) && Math.abs(p.latitude) <= 90 && Math.abs(p.longitude) <= 180;
+
+  if (geofence.type === 'circle') {
+    if (!validPoint(geofence.center)) return 'Centre must be a valid latitude/longitude';
+    if (!(geofence.radiusMeters > 0)) return 'Radius must be greater than zero';
+    return null;
+  }
+  if (geofence.points.length < 3) return 'A polygon needs at least three points';
+  if (!geofence.points.every(validPoint)) return 'Every polygon point must be a valid latitude/longitude';
+  return null;
+};
+
+// Flagged check-ins that faculty still have to accept or reject
+export const needsLocationReview = (record: { locationStatus?: LocationStatus; locationReviewedAt?: Date }): boolean =>
+  (record.locationStatus === 'outside' || record.locationStatus === 'unavailable') && !record.locationReviewedAt;
@@ -1,4 +1,5 @@
 import { database } from './database';
+import { windowsFor } from './lateRules';
 import { Student, AttendanceRecord } from '../types';
 
 /**
@@ -51,6 +52,9 @@ const loadTestStudents = () => {
     console.log(`✅ Added: ${student.name} (${student.rollNo})`);
   });
 
+  // Daily 9-10 AM class so the generated check-ins land in real sessions
+  createTestTimetable(createdStudents);
+
   // Generate attendance history for past 7 days
   generatePastWeekAttendance(createdStudents);
   
@@ -62,6 +66,52 @@ const loadTestStudents = () => {
   console.log(`📅 Total Attendance Records: ${database.getAttendanceRecords().length}`);
 };
 
+/**
+ * Create a course with one section enrolling every test student,
+ * meeting daily at 9:00 AM from two weeks ago until the end of the term
+ */
+export const createTestTimetable = (students: Student[]) => {
+  const course = database.addCourse({
+    code: 'GEN101',
+    name: 'General',
+    department: 'Computer Science',
+  });
+
+  const termStart = new Date();
+  termStart.setDate(termStart.getDate() - 14);
+  termStart.setHours(0, 0, 0, 0);
+  const termEnd = new Date();
+  termEnd.setDate(termEnd.getDate() + 90);
+
+  const section = database.addSection({
+    courseId: course.id,
+    name: 'Section A',
+    facultyName: 'Test Faculty',
+    studentIds: students.map(s => s.id),
+    timetable: [0, 1, 2, 3, 4, 5, 6].map(dayOfWeek => ({
+      dayOfWeek,
+      startTime: '09:00',
+      endTime: '10:00',
+      room: 'Main Hall',
+    })),
+    termStart,
+    termEnd,
+  });
+
+  console.log(`🗓️ Created ${course.code} ${section.name} with ${database.getSessions({ sectionId: section.id }).length} sessions`);
+};
+
+/**
+ * Minutes after the 9:00 start for a generated check-in, drawn from the test course's
+ * late-arrival windows so the rules give it the intended status
+ */
+export const testArrivalOffset = (late: boolean): number => {
+  const course = database.getCourses().find(c => c.code === 'GEN101');
+  const { graceMinutes, lateMinutes } = windowsFor(database.getLateRules(), course?.id || '');
+  const between = (min: number, max: number) => min + Math.floor(Math.random() * (Math.max(min, max) - min + 1));
+  return late ? between(graceMinutes + 1, lateMinutes) : between(0, graceMinutes);
+};
+
 /**
  * Generate attendance for past 7 days
  */
@@ -78,12 +128,7 @@ const generatePastWeekAttendance = (students: Student[]) => {
       if (Math.random() > 0.15) {
         const isLate = Math.random() > 0.85;
         const timestamp = new Date(date);
-        
-        if (isLate) {
-          timestamp.setMinutes(timestamp.getMinutes() + 15 + Math.floor(Math.random() * 30));
-        } else {
-          timestamp.setMinutes(timestamp.getMinutes() + Math.floor(Math.random() * 10));
-        }
+        timestamp.setMinutes(timestamp.getMinutes() + testArrivalOffset(isLate));
         
         database.markAttendance({
           studentId: student.id,
@@ -98,7 +143,7 @@ const generatePastWeekAttendance = (students: Student[]) => {
           status: isLate ? 'Late' : 'Present',
           confidence: 0.85 + Math.random() * 0.15,
           subject: 'General',
-        } as any);
+        });
       }
     });
   }
@@ -118,7 +163,7 @@ const generateTodayAttendance = (students: Student[]) => {
     if (index < 6) {
       // Present (first 6 students)
       const timestamp = new Date(now);
-      timestamp.setMinutes(timestamp.getMinutes() + Math.floor(Math.random() * 5));
+      timestamp.setMinutes(timestamp.getMinutes() + testArrivalOffset(false));
       
       database.markAttendance({
         studentId: student.id,
@@ -133,14 +178,14 @@ const generateTodayAttendance = (students: Student[]) => {
         status: 'Present',
         confidence: 0.90 + Math.random() * 0.10,
         subject: 'General',
-      } as any);
+      });
       
       console.log(`✅ ${student.name}: Present`);
       
     } else if (index < 8) {
       // Late (next 2 students)
       const timestamp = new Date(now);
-      timestamp.setMinutes(timestamp.getMinutes() + 20 + Math.floor(Math.random() * 20));
+      timestamp.setMinutes(timestamp.getMinutes() + testArrivalOffset(true));
       
       database.markAttendance({
         studentId: student.id,
@@ -155,7 +200,7 @@ const generateTodayAttendance = (students: Student[]) => {
         status: 'Late',
         confidence: 0.88 + Math.random() * 0.10,
         subject: 'General',
-      } as any);
+      });
       
       console.log(`⏰ ${student.name}: Late`);
       
@@ -0,0 +1,85 @@
+/**
+ * Late-arrival rules: a check-in's status follows from how long after the session's scheduled
+ * start it happened. Arrivals within the grace window are Present, within the late window Late,
+ * after that Absent, and past the cutoff the check-in is refused. Courses can override the
+ * institution-wide windows. DatabaseService.markAttendance applies these to every check-in.
+ */
+
+import { AttendanceRecord, ClassSession } from '../types';
+
+// Minutes after the scheduled start
+export interface LateWindows {
+  graceMinutes: number; // Up to here: Present
+  lateMinutes: number; // Up to here: Late; later arrivals are recorded Absent
+  cutoffMinutes: number; // Check-ins after this are refused
+}
+
+export interface LateRules extends LateWindows {
+  courseOverrides: Record<string, LateWindows>; // Course id -> windows replacing the defaults
+}
+
+export const DEFAULT_LATE_RULES: LateRules = {
+  graceMinutes: 15,
+  lateMinutes: 45,
+  cutoffMinutes: 60,
+  courseOverrides: {},
+};
+
+// Settings key holding the rules
+export const LATE_RULES_SETTING = 'lateRules';
+
+export interface ArrivalOutcome {
+  status: Extract<AttendanceRecord['status'], 'Present' | 'Late' | 'Absent'>;
+  minutesLate: number; // 0 for arrivals before the start
+  refused: boolean; // Past the cutoff
+}
+
+// Thrown for check-ins after the cutoff
+export class CheckInClosedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CheckInClosedError';
+  }
+}
+
+export const windowsFor = (rules: LateRules, courseId: string): LateWindows => {
+  const { graceMinutes, lateMinutes, cutoffMinutes } = rules.courseOverrides[courseId] ?? rules;
+  return { graceMinutes, lateMinutes, cutoffMinutes };
+};
+
+const windowErrors = (windows: LateWindows, label: string): string[] => {
+  const values = [windows.graceMinutes, windows.lateMinutes, windows.cutoffMinutes];
+  if (!values.every(value => Number.isInteger(value) && value >= 0)) {
+    return [`${label}: windows must be whole numbers of minutes`];
+  }
+  if (windows.graceMinutes > windows.lateMinutes || windows.lateMinutes > windows.cutoffMinutes) {
+    return [`${label}: the grace window must end before the late window, and the late window before the cutoff`];
+  }
+  return [];
+};
+
+/**
+ * `courseLabel` names a course in the messages (its code, where known)
+ */
+export const validateLateRules = (rules: LateRules, courseLabel: (courseId: string) => string = id => id): string[] => [
+  ...windowErrors(rules, 'Default rules'),
+  ...Object.keys(rules.courseOverrides).reduce<string[]>(
+    (errors, courseId) => [...errors, ...windowErrors(rules.courseOverrides[courseId], courseLabel(courseId))],
+    []
+  ),
+];
+
+// Stored rules merged over the defaults, so rules saved before a field existed stay usable
+export const parseLateRules = (stored: unknown): LateRules => ({
+  ...DEFAULT_LATE_RULES,
+  ...(stored && typeof stored === 'object' ? (stored as Partial<LateRules>) : {}),
+});
+
+export const evaluateArrival = (timestamp: Date, session: ClassSession, windows: LateWindows): ArrivalOutcome => {
+  const minutesLate = Math.max(0, (new Date(timestamp).getTime() - new Date(session.scheduledStart).getTime()) / 60000);
+  return {
+    status: minutesLate <= windows.graceMinutes ? 'Present' : minutesLate <= windows.lateMinutes ? 'Late' : 'Absent',
+    minutesLate: Math.floor(minutesLate),
+    refused: minutesLate > windows.cutoffMinutes,
+  };
+};
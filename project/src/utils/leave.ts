@@ -0,0 +1,20 @@
+/**
+ * Helpers for leave requests (see DatabaseService.submitLeaveRequest / reviewLeaveRequest)
+ */
+
+import { LeaveRequest, StudentFile } from '../types';
+import { AttachmentRules, readAttachment } from './attachments';
+
+export const LEAVE_DOCUMENT: AttachmentRules = {
+  types: ['application/pdf', 'image/jpeg', 'image/png'],
+  typeLabel: 'a PDF, JPEG or PNG document',
+  maxBytes: 2 * 1024 * 1024,
+};
+
+export const formatLeaveDates = (request: Pick<LeaveRequest, 'from' | 'to'>): string => {
+  const from = new Date(request.from).toLocaleDateString();
+  const to = new Date(request.to).toLocaleDateString();
+  return from === to ? from : `${from} - ${to}`;
+};
+
+export const readLeaveDocument = (file: File): Promise<StudentFile> => readAttachment(file, LEAVE_DOCUMENT);
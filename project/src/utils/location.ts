@@ -1,62 +1,53 @@
-export interface LocationData {
-  latitude: number;
-  longitude: number;
-  address: string;
-}
+import { AttendanceLocation } from '../types';
+import { settingsService } from './settings';
 
-export const getCurrentLocation = (): Promise<LocationData> => {
-  return new Promise((resolve, reject) => {
-    if (!navigator.geolocation) {
-      reject(new Error('Geolocation is not supported by this browser.'));
+export type LocationData = AttendanceLocation;
+
+/**
+ * Either a position from the device, or an explicit "unavailable" with the reason -
+ * callers must not substitute a made-up position
+ */
+export type LocationResult =
+  | { available: true; location: LocationData }
+  | { available: false; reason: string };
+
+const GEOLOCATION_TIMEOUT_MS = 10000;
+
+const GEOLOCATION_ERRORS: Record<number, string> = {
+  1: 'Location permission denied',
+  2: 'Position unavailable',
+  3: 'Timed out waiting for a position',
+};
+
+export const getCurrentLocation = (): Promise<LocationResult> => {
+  return new Promise(resolve => {
+    if (!settingsService.get().locationTracking) {
+      resolve({ available: false, reason: 'Location tracking is turned off' });
+      return;
+    }
+    if (typeof navigator === 'undefined' || !navigator.geolocation) {
+      resolve({ available: false, reason: 'Geolocation is not supported by this browser' });
       return;
     }
 
     navigator.geolocation.getCurrentPosition(
-      async (position) => {
-        const { latitude, longitude } = position.coords;
-        
-        try {
-          // In a real implementation, you would use a reverse geocoding service
-          // For demo purposes, we'll use a mock address
-          const address = await getMockAddress();
-          
-          resolve({
-            latitude,
-            longitude,
-            address,
-          });
-        } catch {
-          resolve({
+      (position) => {
+        const { latitude, longitude, accuracy } = position.coords;
+        resolve({
+          available: true,
+          location: {
             latitude,
             longitude,
-            address: 'Campus Location',
-          });
-        }
-      },
-      () => {
-        // Fallback to campus coordinates
-        resolve({
-          latitude: 40.7128,
-          longitude: -74.0060,
-          address: 'Campus - Main Building',
+            accuracy,
+            address: `${latitude.toFixed(5)}, ${longitude.toFixed(5)}`,
+          },
         });
-      }
+      },
+      (error) => {
+        console.warn('[Location] Unable to get position:', error.message);
+        resolve({ available: false, reason: GEOLOCATION_ERRORS[error.code] || 'Location unavailable' });
+      },
+      { enableHighAccuracy: true, timeout: GEOLOCATION_TIMEOUT_MS, maximumAge: 30000 }
     );
   });
 };
-
-const getMockAddress = async (): Promise<string> => {
-  // Simulate reverse geocoding delay
-  await new Promise(resolve => setTimeout(resolve, 500));
-  
-  // Mock addresses based on common campus locations
-  const mockAddresses = [
-    'Computer Science Building, Room 101',
-    'Engineering Block, Lecture Hall A',
-    'Main Campus Library',
-    'Administration Building',
-    'Student Center, Room 205',
-  ];
-  
-  return mockAddresses[Math.floor(Math.random() * mockAddresses.length)];
-};
\ No newline at end of file
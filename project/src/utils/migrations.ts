@@ -0,0 +1,261 @@
+/**
+ * Versioned schema migrations for persisted students and attendance.
+ * The schema version lives in the `meta` store; on startup every migration newer than
+ * the stored version runs in order. Records a migration cannot upgrade are moved to a
+ * quarantine list (kept in `meta`) and reported instead of being dropped.
+ */
+
+import { Student, AttendanceRecord } from '../types';
+import { StorageAdapter } from './storage/storageAdapter';
+
+export const SCHEMA_VERSION_KEY = 'schemaVersion';
+export const QUARANTINE_KEY = 'migrationQuarantine';
+
+export type RawRecord = Record<string, unknown>;
+
+/**
+ * Thrown by a migration step when a single record cannot be upgraded
+ */
+export class MigrationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MigrationError';
+  }
+}
+
+export interface MigrationContext {
+  // Students as already upgraded by this migration, for backfilling attendance
+  studentsById: Map<string, RawRecord>;
+  studentsByRollNo: Map<string, RawRecord>;
+}
+
+export interface Migration {
+  version: number; // Schema version reached once this migration has run
+  description: string;
+  migrateStudent?: (student: RawRecord, context: MigrationContext) => RawRecord;
+  migrateAttendance?: (record: RawRecord, context: MigrationContext) => RawRecord;
+}
+
+export interface QuarantinedRecord {
+  store: 'students' | 'attendance';
+  recordId: string | null;
+  reason: string;
+  fromVersion: number;
+  targetVersion: number;
+  record: RawRecord;
+  quarantinedAt: string;
+}
+
+export interface MigrationReport {
+  fromVersion: number;
+  toVersion: number;
+  applied: string[];
+  migrated: { students: number; attendance: number };
+  failures: QuarantinedRecord[];
+}
+
+export const ATTENDANCE_STATUSES: AttendanceRecord['status'][] = ['Present', 'Late', 'Absent', 'Excused'];
+
+const asDate = (value: unknown): Date | null => {
+  if (!(value instanceof Date) && typeof value !== 'string' && typeof value !== 'number') return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+const asNonEmptyString = (value: unknown): string | null =>
+  typeof value === 'string' && value.trim() !== '' ? value : null;
+
+/**
+ * v1 - unify the two historical AttendanceRecord shapes.
+ * Older records carry only studentId/timestamp/status; records from the test data loaders
+ * also carry rollNo/name/location/subject (with rollNo sometimes 'N/A').
+ */
+const unifyAttendanceShape: Migration = {
+  version: 1,
+  description: 'Unify attendance record shape and backfill rollNo/name from students',
+
+  migrateStudent(student) {
+    const id = asNonEmptyString(student.id);
+    if (!id) throw new MigrationError('Student has no id');
+    if (!asNonEmptyString(student.name)) throw new MigrationError(`Student ${id} has no name`);
+
+    const rollNo = asNonEmptyString(student.rollNo);
+    return {
+      ...student,
+      role: student.role === 'faculty' || student.role === 'student' ? student.role : (rollNo ? 'student' : 'faculty'),
+      createdAt: asDate(student.createdAt) || new Date(),
+    };
+  },
+
+  migrateAttendance(record, { studentsById, studentsByRollNo }) {
+    const id = asNonEmptyString(record.id);
+    if (!id) throw new MigrationError('Attendance record has no id');
+
+    const studentId = asNonEmptyString(record.studentId);
+    const rollNo = asNonEmptyString(record.rollNo);
+    const student = (studentId && studentsById.get(studentId))
+      || (rollNo && rollNo !== 'N/A' && studentsByRollNo.get(rollNo))
+      || null;
+    if (!student) {
+      throw new MigrationError(`No student matches studentId "${studentId ?? ''}" or rollNo "${rollNo ?? ''}"`);
+    }
+
+    const timestamp = asDate(record.timestamp);
+    if (!timestamp) throw new MigrationError(`Invalid timestamp "${String(record.timestamp)}"`);
+
+    const status = ATTENDANCE_STATUSES.find(
+      s => typeof record.status === 'string' && s.toLowerCase() === record.status.trim().toLowerCase()
+    );
+    if (!status) throw new MigrationError(`Unknown status "${String(record.status)}"`);
+
+    const migrated: RawRecord = {
+      ...record,
+      studentId: student.id,
+      rollNo: asNonEmptyString(student.rollNo) || (rollNo !== 'N/A' ? rollNo : null) || undefined,
+      name: student.name,
+      timestamp,
+      status,
+    };
+
+    const confidence = Number(record.confidence);
+    if (record.confidence === undefined || record.confidence === null || isNaN(confidence)) {
+      delete migrated.confidence;
+    } else {
+      migrated.confidence = confidence;
+    }
+
+    const location = record.location as RawRecord | undefined;
+    if (location && (typeof location.latitude !== 'number' || typeof location.longitude !== 'number')) {
+      delete migrated.location;
+    }
+
+    return migrated;
+  },
+};
+
+export const MIGRATIONS: Migration[] = [unifyAttendanceShape];
+
+export const CURRENT_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+export const getSchemaVersion = async (adapter: StorageAdapter): Promise<number | null> => {
+  const entry = await adapter.get('meta', SCHEMA_VERSION_KEY);
+  return typeof entry?.value === 'number' ? entry.value : null;
+};
+
+export const setSchemaVersion = async (adapter: StorageAdapter, version: number): Promise<void> => {
+  await adapter.put('meta', { id: SCHEMA_VERSION_KEY, value: version });
+};
+
+export const getQuarantinedRecords = async (adapter: StorageAdapter): Promise<QuarantinedRecord[]> => {
+  const entry = await adapter.get('meta', QUARANTINE_KEY);
+  return Array.isArray(entry?.value) ? (entry!.value as QuarantinedRecord[]) : [];
+};
+
+export const appendQuarantinedRecords = async (
+  adapter: StorageAdapter,
+  records: QuarantinedRecord[]
+): Promise<void> => {
+  if (records.length === 0) return;
+  const existing = await getQuarantinedRecords(adapter);
+  await adapter.put('meta', { id: QUARANTINE_KEY, value: [...existing, ...records] });
+};
+
+/**
+ * Bring the data behind `adapter` up to the latest schema version
+ */
+export const runMigrations = async (
+  adapter: StorageAdapter,
+  migrations: Migration[] = MIGRATIONS
+): Promise<MigrationReport> => {
+  const targetVersion = migrations.length > 0 ? migrations[migrations.length - 1].version : 0;
+  let students = (await adapter.getAll('students')) as unknown as RawRecord[];
+  let attendance = (await adapter.getAll('attendance')) as unknown as RawRecord[];
+
+  // A database that never stored a version is either brand new or written before versioning existed
+  const storedVersion = await getSchemaVersion(adapter);
+  const fromVersion = storedVersion ?? (students.length === 0 && attendance.length === 0 ? targetVersion : 0);
+
+  const report: MigrationReport = {
+    fromVersion,
+    toVersion: fromVersion,
+    applied: [],
+    migrated: { students: 0, attendance: 0 },
+    failures: [],
+  };
+
+  const pending = migrations
+    .filter(migration => migration.version > fromVersion)
+    .sort((a, b) => a.version - b.version);
+
+  if (pending.length === 0) {
+    if (storedVersion === null) await setSchemaVersion(adapter, fromVersion);
+    return report;
+  }
+
+  const quarantine = (store: QuarantinedRecord['store'], record: RawRecord, reason: string, version: number) => {
+    report.failures.push({
+      store,
+      recordId: asNonEmptyString(record.id),
+      reason,
+      fromVersion: report.toVersion,
+      targetVersion: version,
+      record,
+      quarantinedAt: new Date().toISOString(),
+    });
+  };
+
+  const applyStep = (
+    store: QuarantinedRecord['store'],
+    records: RawRecord[],
+    step: ((record: RawRecord, context: MigrationContext) => RawRecord) | undefined,
+    context: MigrationContext,
+    version: number
+  ): RawRecord[] => {
+    if (!step) return records;
+    const upgraded: RawRecord[] = [];
+    records.forEach(record => {
+      try {
+        upgraded.push(step(record, context));
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        quarantine(store, record, reason, version);
+      }
+    });
+    return upgraded;
+  };
+
+  for (const migration of pending) {
+    console.log(`[Migrations] Applying v${migration.version}: ${migration.description}`);
+
+    const emptyContext: MigrationContext = { studentsById: new Map(), studentsByRollNo: new Map() };
+    students = applyStep('students', students, migration.migrateStudent, emptyContext, migration.version);
+
+    const context: MigrationContext = {
+      studentsById: new Map(students.map(s => [String(s.id), s])),
+      studentsByRollNo: new Map(
+        students.filter(s => asNonEmptyString(s.rollNo)).map(s => [String(s.rollNo), s])
+      ),
+    };
+    attendance = applyStep('attendance', attendance, migration.migrateAttendance, context, migration.version);
+
+    report.applied.push(`v${migration.version}: ${migration.description}`);
+    report.toVersion = migration.version;
+  }
+
+  report.migrated = { students: students.length, attendance: attendance.length };
+
+  // Quarantine first so a failure part-way through never loses the rejected records
+  await appendQuarantinedRecords(adapter, report.failures);
+  await adapter.clear('students');
+  await adapter.putMany('students', students as unknown as Student[]);
+  await adapter.clear('attendance');
+  await adapter.putMany('attendance', attendance as unknown as AttendanceRecord[]);
+  await setSchemaVersion(adapter, report.toVersion);
+
+  if (report.failures.length > 0) {
+    console.warn(`[Migrations] ${report.failures.length} record(s) could not be migrated and were quarantined`, report.failures);
+  }
+  console.log(`[Migrations] Schema upgraded from v${report.fromVersion} to v${report.toVersion}`);
+
+  return report;
+};
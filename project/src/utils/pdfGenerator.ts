@@ -1,9 +1,16 @@
 /**
  * PDF Report Generator for Attendance Records
- * Generates professional PDF reports with student attendance data
+ * Builds real PDF documents in the browser with jsPDF - paginated tables with repeated headers,
+ * institution header, signature block and page numbers. Layout text and columns come from a
+ * report template (see reportTemplates.ts), which the CSV and HTML exports render from as well. The DejaVu Sans fonts are embedded so
+ * every name renders the same on any machine; they are served from public/fonts (copied there
+ * on `npm install`), so no network access is needed.
  */
 
-import { Student, AttendanceRecord } from '../types';
+import type { jsPDF } from 'jspdf';
+import { AttendanceRecord, Student } from '../types';
+import { bytesToBase64 } from './encoding';
+import { DEFAULT_REPORT_TEMPLATE, RenderedReport, ReportTemplate, renderReport, reportToCsv, reportToHtml } from './reportTemplates';
 
 export interface AttendanceReportData {
   date: Date;
@@ -12,21 +19,78 @@ export interface AttendanceReportData {
   faculty: string;
   students: Array<{
     student: Student;
-    status: 'Present' | 'Absent' | 'Late';
+    status: AttendanceRecord['status'];
     markedAt?: Date;
     confidence?: number;
+    remarks?: string;
   }>;
   statistics: {
     totalStudents: number;
     present: number;
     absent: number;
     late: number;
+    excused?: number; // Excused by approved leave; left out of the percentage when the attendance policy says so
     attendancePercentage: number;
   };
+  // Per-day (weekly report) or per-week (monthly report) totals, printed above the student list
+  breakdown?: {
+    title: string;
+    rows: ReportBreakdownRow[];
+  };
+}
+
+export interface ReportBreakdownRow {
+  label: string;
+  detail?: string;
+  present: number;
+  late: number;
+  percentage: number;
 }
 
+export interface ReportBranding {
+  institutionName: string;
+  tagline?: string;
+  logo?: string; // PNG or JPEG data URL; the institution's initials are drawn when missing
+}
+
+export const DEFAULT_BRANDING: ReportBranding = {
+  institutionName: 'NEOATTEND',
+  tagline: 'Face Recognition Attendance System',
+};
+
+// Fetches a font file by name; replaced in tests, where there is no web server
+export type FontLoader = (file: string) => Promise<ArrayBuffer>;
+
+const FONT_NAME = 'DejaVuSans';
+const FONT_FILES = { normal: 'DejaVuSans.ttf', bold: 'DejaVuSans-Bold.ttf' } as const;
+
+const fetchFont: FontLoader = async file => {
+  const response = await fetch(`${import.meta.env?.VITE_REPORT_FONT_URL || '/fonts'}/${file}`);
+  if (!response.ok) throw new Error(`Report font ${file} could not be loaded (${response.status})`);
+  return response.arrayBuffer();
+};
+
+// A4 portrait, millimetres
+const PAGE_MARGIN = 15;
+const HEADER_HEIGHT = 30; // Institution header on every page
+const FOOTER_HEIGHT = 12;
+const SIGNATURE_BLOCK_HEIGHT = 30;
+
+type RGB = [number, number, number];
+const INDIGO: RGB = [79, 70, 229];
+const GRAY: RGB = [107, 114, 128];
+const STATUS_COLORS: Record<AttendanceRecord['status'], RGB> = {
+  Present: [4, 120, 87],
+  Late: [217, 119, 6],
+  Absent: [220, 38, 38],
+  Excused: [37, 99, 235],
+};
+
 export class AttendanceReportGenerator {
   private static instance: AttendanceReportGenerator;
+  private branding: ReportBranding = { ...DEFAULT_BRANDING };
+  private fontLoader: FontLoader = fetchFont;
+  private fonts: Promise<Record<keyof typeof FONT_FILES, string>> | null = null;
 
   static getInstance(): AttendanceReportGenerator {
     if (!AttendanceReportGenerator.instance) {
@@ -35,404 +99,298 @@ export class AttendanceReportGenerator {
     return AttendanceReportGenerator.instance;
   }
 
+  getBranding(): ReportBranding {
+    return { ...this.branding };
+  }
+
+  setBranding(branding: Partial<ReportBranding>): void {
+    this.branding = { ...this.branding, ...branding };
+  }
+
+  // Swap how fonts are loaded (used by tests); fonts are loaded again on next use
+  useFontLoader(loader: FontLoader): void {
+    this.fontLoader = loader;
+    this.fonts = null;
+  }
+
   /**
-   * Generate PDF report from attendance data
-   * In production, use jsPDF library
+   * Fill in a template with attendance data and the current branding
    */
-  async generatePDFReport(data: AttendanceReportData): Promise<Blob> {
-    console.log('[PDF Generator] Generating attendance report...');
+  render(data: AttendanceReportData, template: ReportTemplate = DEFAULT_REPORT_TEMPLATE): RenderedReport {
+    return renderReport(template, data, {
+      institution: this.branding.institutionName,
+      tagline: this.branding.tagline || '',
+      generatedAt: new Date(),
+    });
+  }
+
+  /**
+   * Generate the PDF report from attendance data
+   */
+  async generatePDFReport(data: AttendanceReportData, template: ReportTemplate = DEFAULT_REPORT_TEMPLATE): Promise<Blob> {
+    console.log(`[PDF Generator] Generating attendance report (${template.name} template)...`);
     console.log('[PDF Generator] Date:', data.date.toLocaleDateString());
     console.log('[PDF Generator] Students:', data.students.length);
 
-    // In real implementation, use jsPDF:
-    // import jsPDF from 'jspdf';
-    // import 'jspdf-autotable';
-    
-    const html = this.generateHTMLReport(data);
-    
-    // Convert HTML to PDF (simulation)
-    // In production: const doc = new jsPDF();
-    // doc.html(html, { callback: (doc) => doc.save('attendance.pdf') });
-    
-    const blob = new Blob([html], { type: 'text/html' });
-    console.log('[PDF Generator] ✅ Report generated successfully');
-    
+    const doc = await this.buildDocument(this.render(data, template));
+    const blob = doc.output('blob');
+    console.log(`[PDF Generator] ✅ Report generated successfully (${doc.getNumberOfPages()} pages)`);
+
     return blob;
   }
 
-  /**
-   * Generate HTML version of the report
-   */
-  generateHTMLReport(data: AttendanceReportData): string {
-    const { date, className, subject, faculty, students, statistics } = data;
-
-    return `
-<!DOCTYPE html>
-<html>
-<head>
-  <meta charset="UTF-8">
-  <title>Attendance Report - ${date.toLocaleDateString()}</title>
-  <style>
-    * {
-      margin: 0;
-      padding: 0;
-      box-sizing: border-box;
-    }
-    
-    body {
-      font-family: 'Arial', sans-serif;
-      padding: 40px;
-      background: #f5f5f5;
-    }
-    
-    .report-container {
-      max-width: 900px;
-      margin: 0 auto;
-      background: white;
-      padding: 40px;
-      box-shadow: 0 0 20px rgba(0,0,0,0.1);
-    }
-    
-    .header {
-      text-align: center;
-      border-bottom: 3px solid #4F46E5;
-      padding-bottom: 20px;
-      margin-bottom: 30px;
-    }
-    
-    .header h1 {
-      color: #4F46E5;
-      font-size: 28px;
-      margin-bottom: 10px;
-    }
-    
-    .header .subtitle {
-      color: #666;
-      font-size: 16px;
-    }
-    
-    .info-section {
-      display: grid;
-      grid-template-columns: 1fr 1fr;
-      gap: 20px;
-      margin-bottom: 30px;
-      padding: 20px;
-      background: #f9fafb;
-      border-radius: 8px;
-    }
-    
-    .info-item {
-      display: flex;
-      align-items: center;
-    }
-    
-    .info-label {
-      font-weight: bold;
-      color: #374151;
-      margin-right: 10px;
-    }
-    
-    .info-value {
-      color: #6B7280;
-    }
-    
-    .statistics {
-      display: grid;
-      grid-template-columns: repeat(4, 1fr);
-      gap: 15px;
-      margin-bottom: 30px;
-    }
-    
-    .stat-card {
-      padding: 20px;
-      border-radius: 8px;
-      text-align: center;
-    }
-    
-    .stat-card.present {
-      background: #DEF7EC;
-      border: 2px solid #10B981;
-    }
-    
-    .stat-card.absent {
-      background: #FEE2E2;
-      border: 2px solid #EF4444;
-    }
-    
-    .stat-card.late {
-      background: #FEF3C7;
-      border: 2px solid #F59E0B;
-    }
-    
-    .stat-card.total {
-      background: #E0E7FF;
-      border: 2px solid #4F46E5;
-    }
-    
-    .stat-number {
-      font-size: 32px;
-      font-weight: bold;
-      margin-bottom: 5px;
-    }
-    
-    .stat-label {
-      font-size: 14px;
-      color: #6B7280;
-      text-transform: uppercase;
-    }
-    
-    .attendance-table {
-      width: 100%;
-      border-collapse: collapse;
-      margin-bottom: 30px;
-    }
-    
-    .attendance-table thead {
-      background: #4F46E5;
-      color: white;
-    }
-    
-    .attendance-table th {
-      padding: 12px;
-      text-align: left;
-      font-weight: 600;
-    }
-    
-    .attendance-table td {
-      padding: 12px;
-      border-bottom: 1px solid #E5E7EB;
-    }
-    
-    .attendance-table tbody tr:hover {
-      background: #F9FAFB;
-    }
-    
-    .status-badge {
-      padding: 4px 12px;
-      border-radius: 12px;
-      font-size: 12px;
-      font-weight: 600;
-      text-transform: uppercase;
-    }
-    
-    .status-badge.present {
-      background: #DEF7EC;
-      color: #047857;
-    }
-    
-    .status-badge.absent {
-      background: #FEE2E2;
-      color: #DC2626;
-    }
-    
-    .status-badge.late {
-      background: #FEF3C7;
-      color: #D97706;
-    }
-    
-    .footer {
-      margin-top: 40px;
-      padding-top: 20px;
-      border-top: 2px solid #E5E7EB;
-      text-align: center;
-      color: #6B7280;
-      font-size: 12px;
-    }
-    
-    .percentage-bar {
-      width: 100%;
-      height: 30px;
-      background: #E5E7EB;
-      border-radius: 15px;
-      overflow: hidden;
-      margin-top: 20px;
+  private async buildDocument(report: RenderedReport): Promise<jsPDF> {
+    const [{ jsPDF }, { autoTable }, fonts] = await Promise.all([import('jspdf'), import('jspdf-autotable'), this.loadFonts()]);
+    const doc = new jsPDF({ unit: 'mm', format: 'a4', compress: true });
+    doc.addFileToVFS(FONT_FILES.normal, fonts.normal);
+    doc.addFileToVFS(FONT_FILES.bold, fonts.bold);
+    doc.addFont(FONT_FILES.normal, FONT_NAME, 'normal');
+    doc.addFont(FONT_FILES.bold, FONT_NAME, 'bold');
+    doc.setFont(FONT_NAME, 'normal');
+
+    const pageWidth = doc.internal.pageSize.getWidth();
+    const pageHeight = doc.internal.pageSize.getHeight();
+    const contentWidth = pageWidth - 2 * PAGE_MARGIN;
+    const tableMargin = { top: PAGE_MARGIN + HEADER_HEIGHT, bottom: PAGE_MARGIN + FOOTER_HEIGHT, left: PAGE_MARGIN, right: PAGE_MARGIN };
+    const tableStyles = { font: FONT_NAME, fontSize: 9, cellPadding: 2 };
+    const finalY = () => (doc as jsPDF & { lastAutoTable?: { finalY: number } }).lastAutoTable?.finalY ?? tableMargin.top;
+    let y = tableMargin.top;
+
+    // Title and class details
+    doc.setFont(FONT_NAME, 'bold');
+    doc.setFontSize(16);
+    doc.setTextColor(...INDIGO);
+    doc.text(report.title, PAGE_MARGIN, y);
+    y += 8;
+
+    doc.setFontSize(10);
+    report.details.forEach(({ label, value }, index) => {
+      const x = PAGE_MARGIN + (index % 2) * (contentWidth / 2);
+      const rowY = y + Math.floor(index / 2) * 6;
+      const labelWidth = label ? Math.max(20, doc.getTextWidth(`${label}: `) + 2) : 0;
+      if (label) {
+        doc.setFont(FONT_NAME, 'bold');
+        doc.setTextColor(55, 65, 81);
+        doc.text(`${label}:`, x, rowY);
+      }
+      doc.setFont(FONT_NAME, 'normal');
+      doc.setTextColor(...GRAY);
+      doc.text(value, x + labelWidth, rowY, { maxWidth: contentWidth / 2 - labelWidth - 2 });
+    });
+    y += Math.ceil(report.details.length / 2) * 6 + 4;
+
+    // Statistics
+    autoTable(doc, {
+      startY: y,
+      margin: tableMargin,
+      theme: 'grid',
+      styles: { ...tableStyles, halign: 'center', fontSize: 10 },
+      headStyles: { fillColor: INDIGO, fontStyle: 'bold' },
+      head: [report.statistics.map(stat => stat.label)],
+      body: [report.statistics.map(stat => stat.value)],
+    });
+    y = finalY() + 8;
+
+    const { breakdown } = report;
+    if (breakdown) {
+      doc.setFont(FONT_NAME, 'bold');
+      doc.setFontSize(12);
+      doc.setTextColor(...INDIGO);
+      doc.text(breakdown.title, PAGE_MARGIN, y);
+      autoTable(doc, {
+        startY: y + 3,
+        margin: tableMargin,
+        showHead: 'everyPage',
+        styles: tableStyles,
+        headStyles: { fillColor: INDIGO, fontStyle: 'bold' },
+        head: [breakdown.head],
+        body: breakdown.rows,
+      });
+      y = finalY() + 8;
     }
-    
-    .percentage-fill {
-      height: 100%;
-      background: linear-gradient(90deg, #10B981, #059669);
-      display: flex;
-      align-items: center;
-      justify-content: center;
-      color: white;
-      font-weight: bold;
+
+    // Student list; the column header repeats on every page
+    doc.setFont(FONT_NAME, 'bold');
+    doc.setFontSize(12);
+    doc.setTextColor(...INDIGO);
+    doc.text('Students', PAGE_MARGIN, y);
+    autoTable(doc, {
+      startY: y + 3,
+      margin: tableMargin,
+      showHead: 'everyPage',
+      styles: tableStyles,
+      headStyles: { fillColor: INDIGO, fontStyle: 'bold' },
+      alternateRowStyles: { fillColor: [249, 250, 251] },
+      head: [report.columns],
+      body: report.rows,
+      didParseCell: cell => {
+        if (cell.section === 'body' && cell.column.index === report.statusColumn) {
+          const status = report.statuses[cell.row.index];
+          if (status) {
+            cell.cell.styles.textColor = STATUS_COLORS[status];
+            cell.cell.styles.fontStyle = 'bold';
+          }
+        }
+      },
+    });
+    y = finalY() + 8;
+
+    if (report.footnotes.length > 0) {
+      doc.setFont(FONT_NAME, 'normal');
+      doc.setFontSize(8);
+      doc.setTextColor(...GRAY);
+      report.footnotes.forEach(note => {
+        const lines = doc.splitTextToSize(note, contentWidth) as string[];
+        if (y + lines.length * 4 > pageHeight - tableMargin.bottom) {
+          doc.addPage();
+          y = tableMargin.top;
+        }
+        doc.text(lines, PAGE_MARGIN, y);
+        y += lines.length * 4 + 1;
+      });
+    }
+    y += 12;
+
+    // Signature block, kept together on one page
+    if (y + SIGNATURE_BLOCK_HEIGHT > pageHeight - tableMargin.bottom) {
+      doc.addPage();
+      y = tableMargin.top + 20;
+    }
+    const { signatories, faculty } = report;
+    const slotWidth = contentWidth / Math.max(1, signatories.length);
+    signatories.forEach((label, index) => {
+      const x = PAGE_MARGIN + index * slotWidth;
+      doc.setDrawColor(...GRAY);
+      doc.line(x + 5, y, x + slotWidth - 5, y);
+      doc.setFont(FONT_NAME, 'bold');
+      doc.setFontSize(9);
+      doc.setTextColor(55, 65, 81);
+      doc.text(label, x + 5, y + 5);
+      doc.setFont(FONT_NAME, 'normal');
+      doc.setTextColor(...GRAY);
+      doc.text(index === 0 ? faculty : 'Name & Date', x + 5, y + 10);
+    });
+
+    // Header and footer on every page, now that the page count is known
+    const generatedAt = report.generatedAt.toLocaleString();
+    const pageCount = doc.getNumberOfPages();
+    for (let page = 1; page <= pageCount; page++) {
+      doc.setPage(page);
+      this.drawPageHeader(doc, pageWidth, report);
+      doc.setDrawColor(229, 231, 235);
+      doc.line(PAGE_MARGIN, pageHeight - PAGE_MARGIN - 6, pageWidth - PAGE_MARGIN, pageHeight - PAGE_MARGIN - 6);
+      doc.setFont(FONT_NAME, 'normal');
+      doc.setFontSize(8);
+      doc.setTextColor(...GRAY);
+      doc.text(`Generated by NEOATTEND on ${generatedAt}`, PAGE_MARGIN, pageHeight - PAGE_MARGIN);
+      doc.text(`Page ${page} of ${pageCount}`, pageWidth - PAGE_MARGIN, pageHeight - PAGE_MARGIN, { align: 'right' });
     }
-    
-    @media print {
-      body {
-        padding: 0;
-        background: white;
-      }
-      
-      .report-container {
-        box-shadow: none;
-        padding: 20px;
-      }
+
+    return doc;
+  }
+
+  private drawPageHeader(doc: jsPDF, pageWidth: number, report: RenderedReport): void {
+    const { header: institutionName, tagline } = report;
+    const { logo } = this.branding;
+    const logoSize = 18;
+    const top = PAGE_MARGIN;
+
+    if (logo) {
+      doc.addImage(logo, PAGE_MARGIN, top, logoSize, logoSize);
+    } else {
+      const initials = (institutionName || this.branding.institutionName).split(/\s+/).map(word => word[0]).join('').slice(0, 3).toUpperCase();
+      doc.setFillColor(...INDIGO);
+      doc.roundedRect(PAGE_MARGIN, top, logoSize, logoSize, 3, 3, 'F');
+      doc.setFont(FONT_NAME, 'bold');
+      doc.setFontSize(initials.length > 2 ? 9 : 12);
+      doc.setTextColor(255, 255, 255);
+      doc.text(initials, PAGE_MARGIN + logoSize / 2, top + logoSize / 2, { align: 'center', baseline: 'middle' });
     }
-  </style>
-</head>
-<body>
-  <div class="report-container">
-    <!-- Header -->
-    <div class="header">
-      <h1>📊 Attendance Report</h1>
-      <p class="subtitle">Automated Face Recognition Attendance System</p>
-    </div>
-    
-    <!-- Class Information -->
-    <div class="info-section">
-      <div class="info-item">
-        <span class="info-label">📅 Date:</span>
-        <span class="info-value">${date.toLocaleDateString('en-US', { 
-          weekday: 'long', 
-          year: 'numeric', 
-          month: 'long', 
-          day: 'numeric' 
-        })}</span>
-      </div>
-      <div class="info-item">
-        <span class="info-label">🏫 Class:</span>
-        <span class="info-value">${className}</span>
-      </div>
-      ${subject ? `
-      <div class="info-item">
-        <span class="info-label">📚 Subject:</span>
-        <span class="info-value">${subject}</span>
-      </div>
-      ` : ''}
-      <div class="info-item">
-        <span class="info-label">👨‍🏫 Faculty:</span>
-        <span class="info-value">${faculty}</span>
-      </div>
-    </div>
-    
-    <!-- Statistics Cards -->
-    <div class="statistics">
-      <div class="stat-card total">
-        <div class="stat-number">${statistics.totalStudents}</div>
-        <div class="stat-label">Total Students</div>
-      </div>
-      <div class="stat-card present">
-        <div class="stat-number" style="color: #10B981">${statistics.present}</div>
-        <div class="stat-label">Present</div>
-      </div>
-      <div class="stat-card late">
-        <div class="stat-number" style="color: #F59E0B">${statistics.late}</div>
-        <div class="stat-label">Late</div>
-      </div>
-      <div class="stat-card absent">
-        <div class="stat-number" style="color: #EF4444">${statistics.absent}</div>
-        <div class="stat-label">Absent</div>
-      </div>
-    </div>
-    
-    <!-- Attendance Percentage -->
-    <div class="percentage-bar">
-      <div class="percentage-fill" style="width: ${statistics.attendancePercentage}%">
-        ${statistics.attendancePercentage.toFixed(1)}% Attendance
-      </div>
-    </div>
-    
-    <!-- Student Attendance Table -->
-    <table class="attendance-table">
-      <thead>
-        <tr>
-          <th>S.No</th>
-          <th>Roll Number</th>
-          <th>Student Name</th>
-          <th>Department</th>
-          <th>Status</th>
-          <th>Time</th>
-          ${students.some(s => s.confidence) ? '<th>Confidence</th>' : ''}
-        </tr>
-      </thead>
-      <tbody>
-        ${students.map((item, index) => `
-          <tr>
-            <td>${index + 1}</td>
-            <td>${item.student.rollNo || '-'}</td>
-            <td>${item.student.name}</td>
-            <td>${item.student.department}</td>
-            <td>
-              <span class="status-badge ${item.status.toLowerCase()}">
-                ${item.status}
-              </span>
-            </td>
-            <td>${item.markedAt ? item.markedAt.toLocaleTimeString() : '-'}</td>
-            ${item.confidence ? `<td>${(item.confidence * 100).toFixed(1)}%</td>` : ''}
-          </tr>
-        `).join('')}
-      </tbody>
-    </table>
-    
-    <!-- Footer -->
-    <div class="footer">
-      <p>Generated by NEOATTEND - Face Detection Attendance System</p>
-      <p>Report generated on ${new Date().toLocaleString()}</p>
-      <p style="margin-top: 10px; font-style: italic;">
-        This is an automated report generated using AI-powered facial recognition technology
-      </p>
-    </div>
-  </div>
-</body>
-</html>
-    `;
+
+    const textX = PAGE_MARGIN + logoSize + 5;
+    doc.setFont(FONT_NAME, 'bold');
+    doc.setFontSize(15);
+    doc.setTextColor(17, 24, 39);
+    doc.text(institutionName, textX, top + 7);
+    if (tagline) {
+      doc.setFont(FONT_NAME, 'normal');
+      doc.setFontSize(9);
+      doc.setTextColor(...GRAY);
+      doc.text(tagline, textX, top + 13);
+    }
+    doc.setDrawColor(...INDIGO);
+    doc.setLineWidth(0.6);
+    doc.line(PAGE_MARGIN, top + logoSize + 4, pageWidth - PAGE_MARGIN, top + logoSize + 4);
+    doc.setLineWidth(0.2);
+  }
+
+  // Embedded fonts as base64, loaded once
+  private loadFonts(): Promise<Record<keyof typeof FONT_FILES, string>> {
+    if (!this.fonts) {
+      this.fonts = Promise.all([this.fontLoader(FONT_FILES.normal), this.fontLoader(FONT_FILES.bold)])
+        .then(([normal, bold]) => ({
+          normal: bytesToBase64(new Uint8Array(normal)),
+          bold: bytesToBase64(new Uint8Array(bold)),
+        }))
+        .catch(error => {
+          this.fonts = null; // Let the next report try again
+          throw error;
+        });
+    }
+    return this.fonts;
   }
 
   /**
    * Download report as PDF
    */
-  async downloadReport(data: AttendanceReportData, filename?: string): Promise<void> {
-    const blob = await this.generatePDFReport(data);
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = filename || `attendance_${data.date.toISOString().split('T')[0]}.html`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    URL.revokeObjectURL(url);
-    
-    console.log('[PDF Generator] Report downloaded:', link.download);
+  async downloadReport(data: AttendanceReportData, filename?: string, template?: ReportTemplate): Promise<void> {
+    const blob = await this.generatePDFReport(data, template);
+    const name = filename || `attendance_${data.date.toISOString().split('T')[0]}.pdf`;
+    this.saveBlob(blob, name);
+    console.log('[PDF Generator] Report downloaded:', name);
   }
 
   /**
    * Generate CSV format for Excel export
    */
-  generateCSV(data: AttendanceReportData): string {
-    const headers = ['S.No', 'Roll Number', 'Name', 'Department', 'Status', 'Time', 'Confidence'];
-    const rows = data.students.map((item, index) => [
-      index + 1,
-      item.student.rollNo || '-',
-      item.student.name,
-      item.student.department,
-      item.status,
-      item.markedAt ? item.markedAt.toLocaleTimeString() : '-',
-      item.confidence ? `${(item.confidence * 100).toFixed(1)}%` : '-',
-    ]);
-
-    return [
-      headers.join(','),
-      ...rows.map(row => row.join(',')),
-    ].join('\n');
+  generateCSV(data: AttendanceReportData, template: ReportTemplate = DEFAULT_REPORT_TEMPLATE): string {
+    return reportToCsv(this.render(data, template));
   }
 
   /**
    * Download CSV report
    */
-  downloadCSV(data: AttendanceReportData, filename?: string): void {
-    const csv = this.generateCSV(data);
-    const blob = new Blob([csv], { type: 'text/csv' });
+  downloadCSV(data: AttendanceReportData, filename?: string, template?: ReportTemplate): void {
+    const name = filename || `attendance_${data.date.toISOString().split('T')[0]}.csv`;
+    this.saveBlob(new Blob([this.generateCSV(data, template)], { type: 'text/csv' }), name);
+    console.log('[CSV Generator] Report downloaded:', name);
+  }
+
+  /**
+   * Generate a standalone HTML page (for printing or mailing)
+   */
+  generateHTMLReport(data: AttendanceReportData, template: ReportTemplate = DEFAULT_REPORT_TEMPLATE): string {
+    return reportToHtml(this.render(data, template), this.branding.logo);
+  }
+
+  /**
+   * Download HTML report
+   */
+  downloadHTML(data: AttendanceReportData, filename?: string, template?: ReportTemplate): void {
+    const name = filename || `attendance_${data.date.toISOString().split('T')[0]}.html`;
+    this.saveBlob(new Blob([this.generateHTMLReport(data, template)], { type: 'text/html' }), name);
+    console.log('[HTML Generator] Report downloaded:', name);
+  }
+
+  private saveBlob(blob: Blob, filename: string): void {
     const url = URL.createObjectURL(blob);
     const link = document.createElement('a');
     link.href = url;
-    link.download = filename || `attendance_${data.date.toISOString().split('T')[0]}.csv`;
+    link.download = filename;
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
     URL.revokeObjectURL(url);
-    
-    console.log('[CSV Generator] Report downloaded:', link.download);
   }
 }
 
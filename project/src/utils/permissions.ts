@@ -0,0 +1,105 @@
+/**
+ * Role-based access control - the single policy table used by routes, navigation tabs
+ * and the DatabaseService methods. Department heads are additionally scoped to the
+ * students of their own department.
+ */
+
+import { Role, Student, UserType } from '../types';
+
+export const ROLES: Role[] = ['admin', 'hod', 'faculty', 'ta', 'student', 'pending'];
+
+export const ROLE_LABELS: Record<Role, string> = {
+  admin: 'Administrator',
+  hod: 'Head of Department',
+  faculty: 'Faculty',
+  ta: 'Teaching Assistant',
+  student: 'Student',
+  pending: 'Awaiting approval',
+};
+
+export type Permission =
+  | 'attendance.view' // Everyone's attendance
+  | 'attendance.viewOwn'
+  | 'attendance.mark' // Mark any student
+  | 'attendance.markSelf'
+  | 'attendance.edit' // Change or correct existing records
+  | 'students.view'
+  | 'students.create'
+  | 'students.edit'
+  | 'students.delete'
+  | 'users.manageRoles'
+  | 'audit.view'
+  | 'courses.manage'
+  | 'reports.view'
+  | 'reports.export'
+  | 'settings.write'
+  | 'leave.request' // Ask for own leave
+  | 'leave.review' // Approve or reject leave requests
+  | 'attendance.dispute' // Dispute own attendance records (reviewed with attendance.edit)
+  | 'data.manage'; // Load test data, reset the database
+
+const STAFF_PERMISSIONS: Permission[] = [
+  'attendance.view',
+  'attendance.mark',
+  'attendance.edit',
+  'audit.view',
+  'students.view',
+  'students.create',
+  'students.edit',
+  'courses.manage',
+  'reports.view',
+  'reports.export',
+  'leave.review',
+];
+
+export const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  admin: [
+    ...STAFF_PERMISSIONS,
+    'students.delete',
+    'users.manageRoles',
+    'settings.write',
+    'data.manage',
+  ],
+  hod: [...STAFF_PERMISSIONS, 'students.delete'],
+  faculty: STAFF_PERMISSIONS,
+  ta: ['attendance.view', 'attendance.mark', 'students.view', 'reports.view'],
+  student: ['attendance.viewOwn', 'attendance.markSelf', 'leave.request', 'attendance.dispute'],
+  pending: [],
+};
+
+/**
+ * Who is acting - the logged-in user as seen by the policy
+ */
+export interface Actor {
+  userId: string;
+  role: Role;
+  department?: string; // Required to scope a head of department
+}
+
+/**
+ * Thrown by DatabaseService when the current actor is not allowed to do something
+ */
+export class PermissionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PermissionError';
+  }
+}
+
+export const isRole = (value: unknown): value is Role => ROLES.includes(value as Role);
+
+export const can = (role: Role | null | undefined, permission: Permission): boolean =>
+  !!role && ROLE_PERMISSIONS[role].includes(permission);
+
+/**
+ * Login screens and layouts only distinguish staff from students
+ */
+export const userTypeForRole = (role: Role): UserType => (role === 'student' ? 'student' : 'faculty');
+
+/**
+ * Whether `actor` may see or change `student` at all (department heads only see their department)
+ */
+export const isInScope = (actor: Actor, student: Pick<Student, 'department'>): boolean => {
+  if (actor.role === 'hod') return !!actor.department && student.department === actor.department;
+  return true;
+};
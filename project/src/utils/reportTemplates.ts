@@ -0,0 +1,287 @@
+/**
+ * Report templates: named layouts (header, detail lines, columns, footnotes, signature lines)
+ * kept in the settings store. A template plus AttendanceReportData renders to one
+ * RenderedReport, which the CSV, HTML and PDF exporters all draw from.
+ */
+
+import { database, DatabaseService } from './database';
+import { csvCell } from './audit';
+import type { AttendanceReportData } from './pdfGenerator';
+
+export type ReportColumnKey = 'serial' | 'rollNo' | 'name' | 'department' | 'status' | 'time' | 'confidence' | 'remarks';
+
+export interface ReportColumn {
+  key: ReportColumnKey;
+  label: string;
+}
+
+export interface ReportTemplate {
+  id: string;
+  name: string;
+  department?: string; // Used by default for this department's staff
+  header: string; // Institution line at the top of every page
+  tagline: string;
+  title: string;
+  details: string[]; // "Label: value" lines under the title
+  columns: ReportColumn[];
+  footnotes: string[];
+  signatories: string[]; // One signature line each
+}
+
+type ReportStudent = AttendanceReportData['students'][number];
+
+export const REPORT_COLUMNS: Record<ReportColumnKey, { label: string; value: (item: ReportStudent, index: number) => string }> = {
+  serial: { label: 'S.No', value: (_item, index) => String(index + 1) },
+  rollNo: { label: 'Roll Number', value: item => item.student.rollNo || '-' },
+  name: { label: 'Student Name', value: item => item.student.name },
+  department: { label: 'Department', value: item => item.student.department },
+  status: { label: 'Status', value: item => item.status },
+  time: { label: 'Time', value: item => (item.markedAt ? item.markedAt.toLocaleTimeString() : '-') },
+  confidence: { label: 'Confidence', value: item => (item.confidence ? `${(item.confidence * 100).toFixed(1)}%` : '-') },
+  remarks: { label: 'Remarks', value: item => item.remarks || '' },
+};
+
+// Values for {{placeholder}} in any template text
+export const REPORT_PLACEHOLDERS: Record<string, { description: string; value: (data: AttendanceReportData, context: PlaceholderContext) => string }> = {
+  institution: { description: 'Institution name', value: (_data, context) => context.institution },
+  tagline: { description: 'Institution tagline', value: (_data, context) => context.tagline },
+  date: {
+    description: 'Report date',
+    value: data => data.date.toLocaleDateString('en-US', { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' }),
+  },
+  className: { description: 'Class or section', value: data => data.className },
+  subject: { description: 'Subject or report type', value: data => data.subject || '' },
+  faculty: { description: 'Faculty name', value: data => data.faculty },
+  totalStudents: { description: 'Students on the roster', value: data => String(data.statistics.totalStudents) },
+  present: { description: 'Present count', value: data => String(data.statistics.present) },
+  late: { description: 'Late count', value: data => String(data.statistics.late) },
+  absent: { description: 'Absent count', value: data => String(data.statistics.absent) },
+  excused: { description: 'Excused count', value: data => String(data.statistics.excused ?? 0) },
+  attendancePercentage: { description: 'Attendance %', value: data => `${data.statistics.attendancePercentage.toFixed(1)}%` },
+  generatedAt: { description: 'When the report was generated', value: (_data, context) => context.generatedAt.toLocaleString() },
+};
+
+export interface PlaceholderContext {
+  institution: string;
+  tagline: string;
+  generatedAt: Date;
+}
+
+const PLACEHOLDER_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+export const DEFAULT_REPORT_TEMPLATE: ReportTemplate = {
+  id: 'standard',
+  name: 'Standard',
+  header: '{{institution}}',
+  tagline: '{{tagline}}',
+  title: 'Attendance Report',
+  details: ['Date: {{date}}', 'Class: {{className}}', 'Subject: {{subject}}', 'Faculty: {{faculty}}'],
+  columns: (['serial', 'rollNo', 'name', 'department', 'status', 'time', 'confidence'] as ReportColumnKey[]).map(key => ({
+    key,
+    label: REPORT_COLUMNS[key].label,
+  })),
+  footnotes: ['This is an automated report generated using facial recognition technology.'],
+  signatories: ['Faculty', 'Head of Department'],
+};
+
+/**
+ * Everything an exporter needs, with placeholders filled in
+ */
+export interface RenderedReport {
+  header: string;
+  tagline: string;
+  title: string;
+  details: { label: string; value: string }[];
+  statistics: { label: string; value: string }[];
+  breakdown?: { title: string; head: string[]; rows: string[][] };
+  columns: string[];
+  rows: string[][];
+  statuses: ReportStudent['status'][]; // Per row, for colouring
+  statusColumn: number; // -1 when the template has no status column
+  footnotes: string[];
+  signatories: string[];
+  faculty: string;
+  generatedAt: Date;
+}
+
+export const fillPlaceholders = (text: string, data: AttendanceReportData, context: PlaceholderContext): string =>
+  text.replace(PLACEHOLDER_PATTERN, (match, name: string) => REPORT_PLACEHOLDERS[name]?.value(data, context) ?? match);
+
+// Placeholders a template uses that do not exist, for the editor to point out
+export const findUnknownPlaceholders = (template: ReportTemplate): string[] => {
+  const texts = [template.header, template.tagline, template.title, ...template.details, ...template.footnotes, ...template.signatories];
+  const unknown = new Set<string>();
+  texts.forEach(text => {
+    Array.from(text.matchAll(PLACEHOLDER_PATTERN)).forEach(match => {
+      if (!REPORT_PLACEHOLDERS[match[1]]) unknown.add(match[1]);
+    });
+  });
+  return Array.from(unknown);
+};
+
+export const renderReport = (
+  template: ReportTemplate,
+  data: AttendanceReportData,
+  context: PlaceholderContext
+): RenderedReport => {
+  const fill = (text: string) => fillPlaceholders(text, data, context);
+  const { statistics, breakdown } = data;
+
+  return {
+    header: fill(template.header),
+    tagline: fill(template.tagline),
+    title: fill(template.title),
+    details: template.details
+      .map(line => {
+        const separator = line.indexOf(':');
+        return separator === -1
+          ? { label: '', value: fill(line).trim() }
+          : { label: line.slice(0, separator).trim(), value: fill(line.slice(separator + 1)).trim() };
+      })
+      .filter(detail => detail.value !== ''), // e.g. "Subject: {{subject}}" for a report without one
+    statistics: [
+      { label: 'Total Students', value: String(statistics.totalStudents) },
+      { label: 'Present', value: String(statistics.present) },
+      { label: 'Late', value: String(statistics.late) },
+      { label: 'Absent', value: String(statistics.absent) },
+      ...(statistics.excused !== undefined ? [{ label: 'Excused', value: String(statistics.excused) }] : []),
+      { label: 'Attendance', value: `${statistics.attendancePercentage.toFixed(1)}%` },
+    ],
+    breakdown:
+      breakdown && breakdown.rows.length > 0
+        ? {
+            title: breakdown.title,
+            head: ['Period', 'Dates', 'Present', 'Late', 'Attendance'],
+            rows: breakdown.rows.map(row => [row.label, row.detail || '-', String(row.present), String(row.late), `${row.percentage.toFixed(1)}%`]),
+          }
+        : undefined,
+    columns: template.columns.map(column => column.label || REPORT_COLUMNS[column.key].label),
+    rows: data.students.map((item, index) => template.columns.map(column => REPORT_COLUMNS[column.key].value(item, index))),
+    statuses: data.students.map(item => item.status),
+    statusColumn: template.columns.findIndex(column => column.key === 'status'),
+    footnotes: template.footnotes.map(fill).filter(Boolean),
+    signatories: template.signatories.map(fill).filter(Boolean),
+    faculty: data.faculty,
+    generatedAt: context.generatedAt,
+  };
+};
+
+export const reportToCsv = (report: RenderedReport): string =>
+  [report.columns, ...report.rows].map(row => row.map(csvCell).join(',')).join('\n');
+
+const escapeHtml = (text: string): string =>
+  text.replace(/[&<>"']/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[char] as string);
+
+const STATUS_HTML_COLORS: Record<ReportStudent['status'], string> = {
+  Present: '#047857',
+  Late: '#D97706',
+  Absent: '#DC2626',
+  Excused: '#2563EB',
+};
+
+/**
+ * Standalone HTML page (download and the editor's preview pane)
+ */
+export const reportToHtml = (report: RenderedReport, logo?: string): string => {
+  const table = (head: string[], rows: string[][], cellStyle?: (row: number, column: number) => string) => `
+    <table>
+      <thead><tr>${head.map(cell => `<th>${escapeHtml(cell)}</th>`).join('')}</tr></thead>
+      <tbody>${rows
+        .map((row, r) => `<tr>${row.map((cell, c) => `<td style="${cellStyle?.(r, c) ?? ''}">${escapeHtml(cell)}</td>`).join('')}</tr>`)
+        .join('')}</tbody>
+    </table>`;
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="UTF-8">
+  <title>${escapeHtml(report.title)}</title>
+  <style>
+    body { font-family: 'DejaVu Sans', Arial, sans-serif; color: #111827; margin: 32px; font-size: 13px; }
+    header { display: flex; align-items: center; gap: 12px; border-bottom: 2px solid #4F46E5; padding-bottom: 10px; margin-bottom: 20px; }
+    header img { width: 56px; height: 56px; object-fit: contain; }
+    header h1 { margin: 0; font-size: 20px; }
+    header p { margin: 2px 0 0; color: #6B7280; font-size: 12px; }
+    h2 { color: #4F46E5; margin: 0 0 10px; }
+    h3 { color: #4F46E5; margin: 20px 0 6px; font-size: 15px; }
+    .details { display: grid; grid-template-columns: 1fr 1fr; gap: 4px 24px; margin-bottom: 16px; }
+    .details b { color: #374151; }
+    table { width: 100%; border-collapse: collapse; margin-bottom: 12px; }
+    th { background: #4F46E5; color: white; text-align: left; padding: 6px 8px; }
+    td { padding: 6px 8px; border-bottom: 1px solid #E5E7EB; }
+    thead { display: table-header-group; }
+    .footnotes { color: #6B7280; font-size: 11px; margin-top: 16px; }
+    .signatures { display: flex; gap: 32px; margin-top: 56px; }
+    .signatures div { flex: 1; border-top: 1px solid #6B7280; padding-top: 4px; font-size: 12px; }
+    footer { margin-top: 32px; color: #6B7280; font-size: 11px; }
+  </style>
+</head>
+<body>
+  <header>
+    ${logo ? `<img src="${escapeHtml(logo)}" alt="">` : ''}
+    <div>
+      <h1>${escapeHtml(report.header)}</h1>
+      ${report.tagline ? `<p>${escapeHtml(report.tagline)}</p>` : ''}
+    </div>
+  </header>
+  <h2>${escapeHtml(report.title)}</h2>
+  <div class="details">
+    ${report.details.map(d => `<div>${d.label ? `<b>${escapeHtml(d.label)}:</b> ` : ''}${escapeHtml(d.value)}</div>`).join('')}
+  </div>
+  ${table(report.statistics.map(s => s.label), [report.statistics.map(s => s.value)])}
+  ${report.breakdown ? `<h3>${escapeHtml(report.breakdown.title)}</h3>${table(report.breakdown.head, report.breakdown.rows)}` : ''}
+  <h3>Students</h3>
+  ${table(report.columns, report.rows, (row, column) =>
+    column === report.statusColumn ? `color: ${STATUS_HTML_COLORS[report.statuses[row]]}; font-weight: bold` : ''
+  )}
+  ${report.footnotes.length > 0 ? `<div class="footnotes">${report.footnotes.map(note => `<p>${escapeHtml(note)}</p>`).join('')}</div>` : ''}
+  <div class="signatures">
+    ${report.signatories.map((label, index) => `<div><b>${escapeHtml(label)}</b><br>${index === 0 ? escapeHtml(report.faculty) : 'Name &amp; Date'}</div>`).join('')}
+  </div>
+  <footer>Generated by NEOATTEND on ${escapeHtml(report.generatedAt.toLocaleString())}</footer>
+</body>
+</html>`;
+};
+
+// Where settings are read from and written to: the app's database, or the API server's
+export type SettingsStore = Pick<DatabaseService, 'getSettings' | 'updateSettings'>;
+
+// Settings key holding the institution's templates
+const TEMPLATES_SETTING = 'reportTemplates';
+
+const isTemplate = (value: unknown): value is ReportTemplate => {
+  const template = value as ReportTemplate;
+  return (
+    !!template &&
+    typeof template.id === 'string' &&
+    typeof template.name === 'string' &&
+    Array.isArray(template.columns) &&
+    template.columns.every(column => column && column.key in REPORT_COLUMNS)
+  );
+};
+
+/**
+ * Saved templates, or just the standard one when none are saved yet
+ */
+export const loadReportTemplates = async (store: SettingsStore = database): Promise<ReportTemplate[]> => {
+  const stored = (await store.getSettings())[TEMPLATES_SETTING];
+  const templates = Array.isArray(stored) ? stored.filter(isTemplate) : [];
+  // Templates saved before a field existed get its default
+  return templates.length > 0 ? templates.map(template => ({ ...DEFAULT_REPORT_TEMPLATE, ...template })) : [DEFAULT_REPORT_TEMPLATE];
+};
+
+export const saveReportTemplates = async (templates: ReportTemplate[], store: SettingsStore = database): Promise<void> => {
+  if (templates.length === 0) throw new Error('Keep at least one report template');
+  const names = new Set<string>();
+  templates.forEach(template => {
+    if (!template.name.trim()) throw new Error('Every template needs a name');
+    if (names.has(template.name.trim().toLowerCase())) throw new Error(`Two templates are named ${template.name}`);
+    names.add(template.name.trim().toLowerCase());
+    if (template.columns.length === 0) throw new Error(`${template.name} has no columns`);
+  });
+  return store.updateSettings({ [TEMPLATES_SETTING]: templates });
+};
+
+// The template a member of `department` gets unless they pick another
+export const templateForDepartment = (templates: ReportTemplate[], department?: string): ReportTemplate =>
+  templates.find(t => department && t.department === department) ?? templates.find(t => !t.department) ?? templates[0] ?? DEFAULT_REPORT_TEMPLATE;
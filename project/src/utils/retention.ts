@@ -0,0 +1,250 @@
+/**
+ * Data retention: how long each class of data is kept, and the purge that removes what has
+ * expired. A class keeps data for its own number of days or follows the institution's
+ * dataRetention setting (see settings.ts). The purge hands everything it is about to remove to an
+ * archiver and deletes only once that succeeded; students under a legal hold are skipped. Every
+ * run, successful or not, leaves a PurgeReport.
+ */
+
+import { LegalHold, PurgeArchive, PurgeReport, RetentionDataClass } from '../types';
+import { database, DatabaseService } from './database';
+import { SettingsStore } from './reportTemplates';
+
+export type PurgeSchedule = 'daily' | 'weekly' | 'monthly' | 'manual';
+
+export interface RetentionConfig {
+  policies: Record<RetentionDataClass, number | null>; // Days kept; null follows the dataRetention setting, -1 keeps forever
+  schedule: PurgeSchedule;
+  legalHolds: LegalHold[];
+}
+
+export const RETENTION_DATA_CLASSES: Record<RetentionDataClass, { label: string; description: string }> = {
+  faceImages: { label: 'Face images', description: 'Student photos, counted from when the student was added' },
+  faceDescriptors: { label: 'Face descriptors', description: 'Enrolled face samples; students without any left must enrol again' },
+  attendance: { label: 'Attendance records', description: 'Check-ins and manual entries, counted from the class' },
+  auditLog: { label: 'Audit log', description: 'Entry details are removed; the hash chain stays verifiable' },
+  reports: { label: 'Report history', description: 'Runs of scheduled report jobs' },
+};
+
+export const DEFAULT_RETENTION_CONFIG: RetentionConfig = {
+  policies: { faceImages: null, faceDescriptors: null, attendance: null, auditLog: null, reports: null },
+  schedule: 'daily',
+  legalHolds: [],
+};
+
+// Days between scheduled purges
+export const SCHEDULE_DAYS: Record<Exclude<PurgeSchedule, 'manual'>, number> = { daily: 1, weekly: 7, monthly: 30 };
+
+// Settings key holding the retention config
+const RETENTION_SETTING = 'retention';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+const DATA_CLASSES = Object.keys(RETENTION_DATA_CLASSES) as RetentionDataClass[];
+
+/**
+ * Problems that keep the config from being saved; empty when it is valid
+ */
+export const validateRetentionConfig = (config: RetentionConfig): string[] => {
+  const errors: string[] = [];
+  DATA_CLASSES.forEach(dataClass => {
+    const days = config.policies[dataClass];
+    if (days !== null && days !== -1 && !(Number.isInteger(days) && days > 0)) {
+      errors.push(`${RETENTION_DATA_CLASSES[dataClass].label}: keep data for a whole number of days, or forever`);
+    }
+  });
+  if (config.schedule !== 'manual' && !(config.schedule in SCHEDULE_DAYS)) errors.push('Unknown purge schedule');
+
+  const held = new Set<string>();
+  config.legalHolds.forEach(hold => {
+    if (!hold.reason.trim()) errors.push('Every legal hold needs a reason');
+    if (held.has(hold.studentId)) errors.push('A student can only be under one legal hold');
+    held.add(hold.studentId);
+  });
+  return errors;
+};
+
+// Configs saved before a data class existed keep its default
+export const loadRetentionConfig = async (store: SettingsStore = database): Promise<RetentionConfig> => {
+  const stored = (await store.getSettings())[RETENTION_SETTING] as Partial<RetentionConfig> | undefined;
+  return {
+    ...DEFAULT_RETENTION_CONFIG,
+    ...stored,
+    policies: { ...DEFAULT_RETENTION_CONFIG.policies, ...stored?.policies },
+    legalHolds: (stored?.legalHolds || []).map(hold => ({ ...hold, placedAt: new Date(hold.placedAt) })),
+  };
+};
+
+export const saveRetentionConfig = async (config: RetentionConfig, store: SettingsStore = database): Promise<void> => {
+  const errors = validateRetentionConfig(config);
+  if (errors.length > 0) throw new Error(errors.join('; '));
+  return store.updateSettings({ [RETENTION_SETTING]: config });
+};
+
+// Days each class is kept, with the dataRetention setting filled in for classes that follow it
+export const retentionDays = (config: RetentionConfig, dataRetention: number): Record<RetentionDataClass, number> =>
+  DATA_CLASSES.reduce(
+    (days, dataClass) => ({ ...days, [dataClass]: config.policies[dataClass] ?? dataRetention }),
+    {} as Record<RetentionDataClass, number>
+  );
+
+// Data of each class dated before its cutoff has expired; classes kept forever have none
+export const retentionCutoffs = (config: RetentionConfig, dataRetention: number, now: Date = new Date()): PurgeArchive['cutoffs'] => {
+  const days = retentionDays(config, dataRetention);
+  return DATA_CLASSES.reduce<PurgeArchive['cutoffs']>(
+    (cutoffs, dataClass) => (days[dataClass] < 0 ? cutoffs : { ...cutoffs, [dataClass]: new Date(now.getTime() - days[dataClass] * DAY_MS) }),
+    {}
+  );
+};
+
+export interface PurgePlan {
+  expired: PurgeArchive;
+  held: number; // Expired items kept because of legal holds
+}
+
+/**
+ * Everything that has expired at `now`, without touching it. Also used to preview a purge.
+ */
+export const planPurge = async (
+  db: DatabaseService,
+  config: RetentionConfig,
+  dataRetention: number,
+  now: Date = new Date()
+): Promise<PurgePlan> => {
+  const cutoffs = retentionCutoffs(config, dataRetention, now);
+  const heldIds = new Set(config.legalHolds.map(hold => hold.studentId));
+  const students = db.getStudents();
+  const heldRollNos = new Set(students.filter(s => heldIds.has(s.id) && s.rollNo).map(s => s.rollNo));
+  let held = 0;
+
+  // Items dated before the cutoff, less those of held students
+  const expire = <T>(items: T[], cutoff: Date | undefined, date: (item: T) => Date, isHeld: (item: T) => boolean): T[] =>
+    items.filter(item => {
+      if (!cutoff || new Date(date(item)).getTime() >= cutoff.getTime()) return false;
+      if (isHeld(item)) held++;
+      return !isHeld(item);
+    });
+
+  const expired: PurgeArchive = {
+    createdAt: now,
+    cutoffs,
+    faceImages: expire(students.filter(s => s.imageUrl), cutoffs.faceImages, s => s.createdAt, s => heldIds.has(s.id)).map(s => ({
+      studentId: s.id,
+      rollNo: s.rollNo,
+      name: s.name,
+      imageUrl: s.imageUrl!,
+    })),
+    faceDescriptors: expire(await db.getFaceSamples(), cutoffs.faceDescriptors, s => s.registeredAt, s => heldRollNos.has(s.rollNo)),
+    attendance: expire(db.getAttendanceRecords(), cutoffs.attendance, r => r.timestamp, r => heldIds.has(r.studentId)),
+    auditLog: expire(await db.getAuditLog(), cutoffs.auditLog, e => e.timestamp, e => heldIds.has(e.studentId)),
+    reports: expire(await db.getReportRuns(), cutoffs.reports, run => run.startedAt, () => false),
+  };
+  return { expired, held };
+};
+
+export const countExpired = (expired: PurgeArchive): Record<RetentionDataClass, number> =>
+  DATA_CLASSES.reduce((counts, dataClass) => ({ ...counts, [dataClass]: expired[dataClass].length }), {} as Record<RetentionDataClass, number>);
+
+// Keeps what a purge is about to delete; resolves to where it went (a file name or path)
+export type PurgeArchiver = (expired: PurgeArchive, filename: string) => Promise<string>;
+
+export interface PurgeOptions {
+  trigger: PurgeReport['trigger'];
+  dataRetention: number; // The institution's dataRetention setting
+  archiver: PurgeArchiver;
+  now?: Date;
+}
+
+export const runRetentionPurge = async (
+  db: DatabaseService,
+  { trigger, dataRetention, archiver, now = new Date() }: PurgeOptions
+): Promise<PurgeReport> => {
+  const startedAt = new Date();
+  const report: PurgeReport = {
+    id: `purge-${startedAt.getTime()}`,
+    trigger,
+    startedAt,
+    finishedAt: startedAt,
+    status: 'success',
+    cutoffs: {},
+    purged: { faceImages: 0, faceDescriptors: 0, attendance: 0, auditLog: 0, reports: 0 },
+    held: 0,
+    message: '',
+  };
+
+  try {
+    const { expired, held } = await planPurge(db, await loadRetentionConfig(db), dataRetention, now);
+    const counts = countExpired(expired);
+    const total = DATA_CLASSES.reduce((sum, dataClass) => sum + counts[dataClass], 0);
+    report.cutoffs = expired.cutoffs;
+    report.held = held;
+
+    if (total > 0) {
+      const filename = `neoattend-purge-${startedAt.toISOString().replace(/[:.]/g, '-')}.json`;
+      report.archive = await db.purgeExpiredData(expired, () => archiver(expired, filename));
+      report.purged = counts;
+      report.message = `Purged ${total} item(s), archived to ${report.archive}`;
+    } else {
+      report.message = 'Nothing has expired';
+    }
+    if (held > 0) report.message += `; ${held} kept under legal hold`;
+  } catch (error) {
+    report.status = 'failed';
+    report.message = error instanceof Error ? error.message : String(error);
+    console.error('[Retention] Purge failed:', error);
+  }
+
+  report.finishedAt = new Date();
+  await db.recordPurgeReport(report);
+  return report;
+};
+
+// Due when the schedule's interval has passed since the last successful purge
+export const isPurgeDue = (config: RetentionConfig, reports: PurgeReport[], now: Date = new Date()): boolean => {
+  if (config.schedule === 'manual') return false;
+  const last = reports.find(report => report.status === 'success');
+  return !last || now.getTime() - new Date(last.finishedAt).getTime() >= SCHEDULE_DAYS[config.schedule] * DAY_MS;
+};
+
+// Browser archiver: saves the purged data as a JSON download
+export const downloadPurgeArchive: PurgeArchiver = async (expired, filename) => {
+  const blob = new Blob([JSON.stringify(expired, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+  return filename;
+};
+
+/**
+ * Run the purge whenever it is due, checking now and then hourly, until the returned function is
+ * called. The web app runs this while an administrator is logged in.
+ */
+export const startRetentionSchedule = (
+  db: DatabaseService,
+  { dataRetention, archiver, onPurged }: { dataRetention: () => number; archiver: PurgeArchiver; onPurged?: (report: PurgeReport) => void }
+): (() => void) => {
+  let running = false;
+
+  const check = async () => {
+    if (running) return;
+    running = true;
+    try {
+      if (isPurgeDue(await loadRetentionConfig(db), await db.getPurgeReports())) {
+        const report = await runRetentionPurge(db, { trigger: 'schedule', dataRetention: dataRetention(), archiver });
+        onPurged?.(report);
+      }
+    } catch (error) {
+      console.error('[Retention] Scheduled purge check failed:', error);
+    } finally {
+      running = false;
+    }
+  };
+
+  void check();
+  const timer = setInterval(check, CHECK_INTERVAL_MS);
+  return () => clearInterval(timer);
+};
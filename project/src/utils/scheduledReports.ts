@@ -0,0 +1,339 @@
+/**
+ * Scheduled report jobs: what to report on, when (a cron expression, see cron.ts), in which
+ * format and where to deliver it. Jobs are kept in the API server's settings and run by its
+ * report scheduler (server/reportScheduler.ts); this module builds and renders the reports.
+ */
+
+import { ClassSession, Student } from '../types';
+import { DatabaseService } from './database';
+import { AttendancePolicy, evaluateStudent, findDefaulters } from './attendancePolicy';
+import { AttendanceReportData, AttendanceReportGenerator, ReportBreakdownRow } from './pdfGenerator';
+import { DEFAULT_REPORT_TEMPLATE, ReportTemplate, SettingsStore } from './reportTemplates';
+import { parseCron } from './cron';
+import { formatSessionTime, getSessionOutcomes, isSessionHeld, summarizeOutcomes, summarizeSessions } from './timetable';
+
+export type ScheduledReportType = 'daily-summary' | 'weekly-defaulters' | 'monthly-department';
+
+export type ReportFormat = 'pdf' | 'csv' | 'html';
+
+export type ReportDelivery =
+  | { type: 'folder'; folder: string } // Relative to the server's report output directory
+  | { type: 'email'; to: string[] };
+
+export interface ReportJob {
+  id: string;
+  name: string;
+  reportType: ScheduledReportType;
+  schedule: string; // Cron expression, server local time
+  format: ReportFormat;
+  department?: string; // Only this department's students; everyone when missing
+  template?: ReportTemplate; // Copy of the template picked when the job was saved
+  delivery: ReportDelivery;
+  enabled: boolean;
+}
+
+export const REPORT_TYPES: Record<ScheduledReportType, { label: string; description: string; schedule: string }> = {
+  'daily-summary': {
+    label: 'Daily session summary',
+    description: "Every student's status for the day, with a row per class session",
+    schedule: '0 18 * * *',
+  },
+  'weekly-defaulters': {
+    label: 'Weekly defaulter list',
+    description: 'Students the attendance policy flags as defaulters over the last 7 days',
+    schedule: '0 16 * * 5',
+  },
+  'monthly-department': {
+    label: 'Monthly department summary',
+    description: 'Attendance per student and per department for the month (the previous month when run on the 1st)',
+    schedule: '0 7 1 * *',
+  },
+};
+
+// Used when a period report's job has no template: per-student attendance instead of check-in details
+export const PERIOD_REPORT_TEMPLATE: ReportTemplate = {
+  ...DEFAULT_REPORT_TEMPLATE,
+  id: 'period-summary',
+  name: 'Period summary',
+  details: ['Period: {{subject}}', 'Scope: {{className}}', 'Generated: {{generatedAt}}'],
+  columns: [
+    { key: 'serial', label: 'S.No' },
+    { key: 'rollNo', label: 'Roll Number' },
+    { key: 'name', label: 'Student Name' },
+    { key: 'department', label: 'Department' },
+    { key: 'remarks', label: 'Attendance' },
+    { key: 'status', label: 'Last Session' },
+  ],
+  footnotes: ['Present, Late and Absent above count class sessions, not students.'],
+  signatories: ['Head of Department'],
+};
+
+// Settings key holding the jobs
+const JOBS_SETTING = 'reportJobs';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Problems that keep a job from being saved; empty when it is valid
+ */
+export const validateReportJob = (job: ReportJob): string[] => {
+  const errors: string[] = [];
+  if (!job.name?.trim()) errors.push('Name is required');
+  if (!REPORT_TYPES[job.reportType]) errors.push(`Unknown report type ${job.reportType}`);
+  if (!['pdf', 'csv', 'html'].includes(job.format)) errors.push(`Unknown format ${job.format}`);
+  try {
+    parseCron(job.schedule || '');
+  } catch (error) {
+    errors.push(`Schedule: ${error instanceof Error ? error.message : error}`);
+  }
+  if (job.delivery?.type === 'folder') {
+    const parts = job.delivery.folder.split(/[\\/]/);
+    if (job.delivery.folder.startsWith('/') || /^[a-zA-Z]:/.test(job.delivery.folder) || parts.includes('..')) {
+      errors.push('Folder must be a path inside the report output directory');
+    }
+  } else if (job.delivery?.type === 'email') {
+    if (job.delivery.to.length === 0) errors.push('Add at least one email recipient');
+    job.delivery.to.filter(address => !EMAIL_PATTERN.test(address)).forEach(address => errors.push(`Invalid email ${address}`));
+  } else {
+    errors.push('Choose where the report is delivered');
+  }
+  return errors;
+};
+
+export const loadReportJobs = async (store: SettingsStore): Promise<ReportJob[]> => {
+  const stored = (await store.getSettings())[JOBS_SETTING];
+  return Array.isArray(stored) ? (stored as ReportJob[]) : [];
+};
+
+export const saveReportJobs = async (jobs: ReportJob[], store: SettingsStore): Promise<void> => {
+  const names = new Set<string>();
+  jobs.forEach(job => {
+    const errors = validateReportJob(job);
+    if (errors.length > 0) throw new Error(`${job.name || 'Unnamed job'}: ${errors.join('; ')}`);
+    if (names.has(job.name.trim().toLowerCase())) throw new Error(`Two jobs are named ${job.name}`);
+    names.add(job.name.trim().toLowerCase());
+  });
+  return store.updateSettings({ [JOBS_SETTING]: jobs });
+};
+
+const startOfDay = (date: Date) => {
+  const day = new Date(date);
+  day.setHours(0, 0, 0, 0);
+  return day;
+};
+
+const addDays = (date: Date, days: number) => {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+};
+
+const formatDay = (date: Date) => date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+/**
+ * The period a report run at `now` covers: the day so far, the last 7 days, or the month of yesterday
+ */
+export const reportPeriod = (reportType: ScheduledReportType, now: Date): { from: Date; to: Date; label: string } => {
+  if (reportType === 'daily-summary') {
+    return { from: startOfDay(now), to: now, label: formatDay(now) };
+  }
+  if (reportType === 'weekly-defaulters') {
+    const from = startOfDay(addDays(now, -6));
+    return { from, to: now, label: `${formatDay(from)} - ${formatDay(now)}` };
+  }
+  const yesterday = addDays(now, -1);
+  const from = new Date(yesterday.getFullYear(), yesterday.getMonth(), 1);
+  const end = new Date(yesterday.getFullYear(), yesterday.getMonth() + 1, 1);
+  return {
+    from,
+    to: end < now ? end : now,
+    label: from.toLocaleDateString('en-US', { month: 'long', year: 'numeric' }),
+  };
+};
+
+const percentage = (part: number, whole: number) => (whole > 0 ? (part / whole) * 100 : 0);
+
+/**
+ * Report data for one run of `job` at `now`. Reads whatever `database` lets the current actor
+ * see, so the scheduler calls it as the system. Defaulters are judged by `policy` (see
+ * attendancePolicy.ts).
+ */
+export const buildScheduledReport = (
+  database: DatabaseService,
+  job: ReportJob,
+  policy: AttendancePolicy,
+  now: Date = new Date()
+): AttendanceReportData => {
+  const period = reportPeriod(job.reportType, now);
+  const students = database
+    .getStudents()
+    .filter(s => s.role === 'student' && (!job.department || s.department === job.department))
+    .sort((a, b) => a.department.localeCompare(b.department) || (a.rollNo || '').localeCompare(b.rollNo || ''));
+  const studentIds = new Set(students.map(s => s.id));
+  const records = database
+    .getAttendanceRecords()
+    .filter(r => studentIds.has(r.studentId) && r.timestamp >= period.from && r.timestamp <= period.to);
+  const sections = database.getSections();
+  const sessions = database
+    .getSessions({ from: period.from, to: period.to })
+    .filter(session => isSessionHeld(session, now))
+    .filter(session => !job.department || database.getCourse(session.courseId)?.department === job.department);
+  const scope = job.department || 'All departments';
+
+  if (job.reportType === 'daily-summary') {
+    const latest = new Map([...records].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime()).map(r => [r.studentId, r]));
+    const rows = students.map(student => {
+      const record = latest.get(student.id);
+      return {
+        student,
+        status: record?.status ?? ('Absent' as const),
+        markedAt: record?.timestamp,
+        confidence: record?.confidence,
+        remarks: record?.source === 'manual_override' ? 'Marked manually' : undefined,
+      };
+    });
+    const present = rows.filter(r => r.status === 'Present').length;
+    const late = rows.filter(r => r.status === 'Late').length;
+    const excused = rows.filter(r => r.status === 'Excused').length;
+    const expected = policy.excludeExcused ? rows.length - excused : rows.length;
+
+    return {
+      date: now,
+      className: scope,
+      subject: REPORT_TYPES[job.reportType].label,
+      faculty: job.name,
+      students: rows,
+      statistics: {
+        totalStudents: rows.length,
+        present,
+        late,
+        excused,
+        absent: expected - present - late,
+        attendancePercentage: percentage(present + late, expected),
+      },
+      breakdown: {
+        title: 'Sessions',
+        rows: sessions.map(session => {
+          const summary = summarizeSessions([session], sections, records, now, policy.excludeExcused);
+          return {
+            label: database.getCourse(session.courseId)?.name || 'Class',
+            detail: `${database.getSection(session.sectionId)?.name || 'Section'}, ${formatSessionTime(session)}`,
+            present: summary.present,
+            late: summary.late,
+            percentage: summary.percentage,
+          };
+        }),
+      },
+    };
+  }
+
+  // Weekly and monthly: attendance over the sessions each student was enrolled in
+  const sessionsFor = (student: Student): ClassSession[] => {
+    const sectionIds = new Set(sections.filter(section => section.studentIds.includes(student.id)).map(section => section.id));
+    return sessions.filter(session => sectionIds.has(session.sectionId));
+  };
+  const assessed = students
+    .map(student => {
+      const studentSessions = sessionsFor(student);
+      const outcomes = getSessionOutcomes(student.id, studentSessions, records, now);
+      return { student, outcomes, summary: summarizeOutcomes(outcomes, policy.excludeExcused), standing: evaluateStudent(student, studentSessions, records, policy, now) };
+    })
+    .filter(({ summary }) => summary.held > 0);
+  const listed =
+    job.reportType === 'weekly-defaulters'
+      ? findDefaulters(assessed.map(({ standing }) => standing)).map(standing => assessed.find(a => a.standing === standing)!)
+      : assessed;
+
+  const total = assessed.reduce(
+    (sum, { summary }) => ({
+      held: sum.held + summary.held,
+      present: sum.present + summary.present,
+      late: sum.late + summary.late,
+      excused: sum.excused + summary.excused,
+    }),
+    { held: 0, present: 0, late: 0, excused: 0 }
+  );
+
+  let breakdown: AttendanceReportData['breakdown'];
+  if (job.reportType === 'monthly-department') {
+    const departments = new Map<string, ReportBreakdownRow & { held: number; students: number }>();
+    assessed.forEach(({ student, summary }) => {
+      const row = departments.get(student.department) ?? { label: student.department, present: 0, late: 0, percentage: 0, held: 0, students: 0 };
+      row.present += summary.present;
+      row.late += summary.late;
+      row.held += summary.held;
+      row.students += 1;
+      departments.set(student.department, row);
+    });
+    breakdown = {
+      title: 'Departments',
+      rows: Array.from(departments.values()).map(row => ({
+        label: row.label,
+        detail: `${row.students} students, ${row.held} session check-ins expected`,
+        present: row.present,
+        late: row.late,
+        percentage: percentage(row.present + row.late, row.held),
+      })),
+    };
+  }
+
+  return {
+    date: now,
+    className:
+      job.reportType === 'weekly-defaulters'
+        ? `${scope} - ${listed.length} of ${assessed.length} students are defaulters (minimum ${policy.minimumPercentage}%)`
+        : `${scope} - ${assessed.length} students`,
+    subject: period.label,
+    faculty: job.name,
+    students: listed.map(({ student, outcomes, summary }) => ({
+      student,
+      status: outcomes[0].status,
+      markedAt: outcomes[0].record?.timestamp,
+      remarks: `${summary.attended} of ${summary.held} sessions (${summary.percentage.toFixed(1)}%)`,
+    })),
+    statistics: {
+      totalStudents: assessed.length,
+      present: total.present,
+      late: total.late,
+      excused: total.excused,
+      absent: total.held - total.present - total.late,
+      attendancePercentage: percentage(total.present + total.late, total.held),
+    },
+    breakdown,
+  };
+};
+
+export interface RenderedReportFile {
+  filename: string;
+  mimeType: string;
+  content: Uint8Array;
+}
+
+const MIME_TYPES: Record<ReportFormat, string> = {
+  pdf: 'application/pdf',
+  csv: 'text/csv',
+  html: 'text/html',
+};
+
+export const reportFilename = (job: ReportJob, now: Date): string => {
+  const slug = job.name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '') || 'report';
+  const stamp = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+  return `${slug}_${stamp}.${job.format}`;
+};
+
+/**
+ * The report file in the job's format, rendered from the job's template
+ */
+export const renderScheduledReport = async (
+  generator: AttendanceReportGenerator,
+  job: ReportJob,
+  data: AttendanceReportData,
+  now: Date = new Date()
+): Promise<RenderedReportFile> => {
+  const template = job.template ?? (job.reportType === 'daily-summary' ? DEFAULT_REPORT_TEMPLATE : PERIOD_REPORT_TEMPLATE);
+  const content =
+    job.format === 'pdf'
+      ? new Uint8Array(await (await generator.generatePDFReport(data, template)).arrayBuffer())
+      : new TextEncoder().encode(job.format === 'csv' ? generator.generateCSV(data, template) : generator.generateHTMLReport(data, template));
+  return { filename: reportFilename(job, now), mimeType: MIME_TYPES[job.format], content };
+};
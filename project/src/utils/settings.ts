@@ -0,0 +1,177 @@
+/**
+ * System settings. Institution-wide values are stored with the app settings and changed by
+ * administrators; the settings in USER_SCOPED_SETTINGS can also be overridden by each user for
+ * themselves. Subscribers hear about every change, so face matching, the camera and geolocation
+ * follow the settings without a reload.
+ */
+
+import { database, DatabaseService } from './database';
+
+export type CameraQuality = 'low' | 'medium' | 'high';
+export type BackupFrequency = 'hourly' | 'daily' | 'weekly' | 'monthly';
+export type SettingsScope = 'institution' | 'user';
+
+export interface SystemSettings {
+  recognitionThreshold: number; // Least match confidence accepted, in percent (confidence = 1 - descriptor distance)
+  autoMarkAttendance: boolean; // Off: a recognized face is only marked after someone confirms it
+  locationTracking: boolean; // Off: check-ins are made without a position
+  notificationsEnabled: boolean;
+  cameraQuality: CameraQuality;
+  dataRetention: number; // Days data is kept; -1 keeps it forever
+  backupFrequency: BackupFrequency;
+}
+
+export const DEFAULT_SETTINGS: SystemSettings = {
+  recognitionThreshold: 40, // Descriptor distance 0.6, the distance face-api.js recommends
+  autoMarkAttendance: true,
+  locationTracking: true,
+  notificationsEnabled: true,
+  cameraQuality: 'high',
+  dataRetention: 365,
+  backupFrequency: 'daily',
+};
+
+// Settings each user may override for themselves; the rest are institution policy
+export const USER_SCOPED_SETTINGS: (keyof SystemSettings)[] = ['cameraQuality', 'notificationsEnabled'];
+
+export const RECOGNITION_THRESHOLD_RANGE = { min: 20, max: 90 };
+
+export const CAMERA_RESOLUTIONS: Record<CameraQuality, { width: number; height: number }> = {
+  low: { width: 640, height: 480 },
+  medium: { width: 1280, height: 720 },
+  high: { width: 1920, height: 1080 },
+};
+
+const CAMERA_QUALITIES = Object.keys(CAMERA_RESOLUTIONS);
+const BACKUP_FREQUENCIES: BackupFrequency[] = ['hourly', 'daily', 'weekly', 'monthly'];
+
+// Settings key holding the institution-wide values
+export const SYSTEM_SETTING = 'system';
+
+const settingError = (key: string, value: unknown): string | null => {
+  switch (key) {
+    case 'recognitionThreshold':
+      return typeof value === 'number' &&
+        Number.isInteger(value) &&
+        value >= RECOGNITION_THRESHOLD_RANGE.min &&
+        value <= RECOGNITION_THRESHOLD_RANGE.max
+        ? null
+        : `Recognition threshold must be a whole percentage from ${RECOGNITION_THRESHOLD_RANGE.min} to ${RECOGNITION_THRESHOLD_RANGE.max}`;
+    case 'autoMarkAttendance':
+    case 'locationTracking':
+    case 'notificationsEnabled':
+      return typeof value === 'boolean' ? null : `${key} must be on or off`;
+    case 'cameraQuality':
+      return CAMERA_QUALITIES.indexOf(value as string) >= 0 ? null : `Camera quality must be one of ${CAMERA_QUALITIES.join(', ')}`;
+    case 'dataRetention':
+      return value === -1 || (typeof value === 'number' && Number.isInteger(value) && value > 0)
+        ? null
+        : 'Data retention must be a whole number of days, or -1 to keep data forever';
+    case 'backupFrequency':
+      return BACKUP_FREQUENCIES.indexOf(value as BackupFrequency) >= 0
+        ? null
+        : `Backup frequency must be one of ${BACKUP_FREQUENCIES.join(', ')}`;
+    default:
+      return `Unknown setting: ${key}`;
+  }
+};
+
+export const validateSettings = (changes: Partial<SystemSettings>, scope: SettingsScope = 'institution'): string[] =>
+  Object.keys(changes).reduce<string[]>((errors, key) => {
+    const error =
+      scope === 'user' && USER_SCOPED_SETTINGS.indexOf(key as keyof SystemSettings) < 0
+        ? `${key} can only be set for the whole institution`
+        : settingError(key, changes[key as keyof SystemSettings]);
+    return error ? [...errors, error] : errors;
+  }, []);
+
+// The valid values of a stored settings object; anything else falls back to the defaults
+const parseStored = (stored: unknown, keys: (keyof SystemSettings)[]): Partial<SystemSettings> => {
+  if (!stored || typeof stored !== 'object') return {};
+  const values = stored as Record<string, unknown>;
+  return keys.reduce<Partial<SystemSettings>>(
+    (parsed, key) => (key in values && !settingError(key, values[key]) ? { ...parsed, [key]: values[key] } : parsed),
+    {}
+  );
+};
+
+// Largest descriptor distance accepted at a recognition threshold
+export const maxDistanceFor = (recognitionThreshold: number): number =>
+  Math.round((1 - recognitionThreshold / 100) * 100) / 100;
+
+export const cameraConstraints = (quality: CameraQuality, facingMode?: string): MediaTrackConstraints => ({
+  width: { ideal: CAMERA_RESOLUTIONS[quality].width },
+  height: { ideal: CAMERA_RESOLUTIONS[quality].height },
+  ...(facingMode ? { facingMode } : {}),
+});
+
+export type SettingsBackend = Pick<DatabaseService, 'getSettings' | 'updateSettings' | 'getUserSettings' | 'updateUserSettings'>;
+
+export class SettingsService {
+  private institution: Partial<SystemSettings> = {};
+  private user: Partial<SystemSettings> = {};
+  private listeners = new Set<(settings: SystemSettings) => void>();
+
+  constructor(private backend: SettingsBackend = database) {}
+
+  // Reads both scopes again - on start-up, and after login or logout changes whose preferences apply
+  async load(): Promise<SystemSettings> {
+    const settings = await this.backend.getSettings();
+    this.institution = parseStored(settings[SYSTEM_SETTING], Object.keys(DEFAULT_SETTINGS) as (keyof SystemSettings)[]);
+    this.user = parseStored(await this.backend.getUserSettings(), USER_SCOPED_SETTINGS);
+    this.notify();
+    return this.get();
+  }
+
+  // Effective settings: defaults, then institution values, then the user's own
+  get(): SystemSettings {
+    return { ...DEFAULT_SETTINGS, ...this.institution, ...this.user };
+  }
+
+  getScope(scope: SettingsScope): Partial<SystemSettings> {
+    return { ...(scope === 'institution' ? this.institution : this.user) };
+  }
+
+  async update(changes: Partial<SystemSettings>, scope: SettingsScope = 'institution'): Promise<SystemSettings> {
+    const errors = validateSettings(changes, scope);
+    if (errors.length > 0) throw new Error(errors.join('; '));
+
+    if (scope === 'institution') {
+      const institution = { ...this.institution, ...changes };
+      await this.backend.updateSettings({ [SYSTEM_SETTING]: institution });
+      this.institution = institution;
+    } else {
+      await this.backend.updateUserSettings(changes);
+      this.user = { ...this.user, ...changes };
+    }
+    this.notify();
+    return this.get();
+  }
+
+  // Drops the user's overrides of `keys`, so the institution values apply again
+  async resetUserSettings(keys: (keyof SystemSettings)[]): Promise<SystemSettings> {
+    const user = { ...this.user };
+    keys.forEach(key => delete user[key]);
+    const cleared = keys.reduce<Record<string, unknown>>((values, key) => ({ ...values, [key]: undefined }), {});
+    await this.backend.updateUserSettings(cleared);
+    this.user = user;
+    this.notify();
+    return this.get();
+  }
+
+  // The listener is called with the current settings straight away and after every change. Returns an unsubscribe function.
+  subscribe(listener: (settings: SystemSettings) => void): () => void {
+    this.listeners.add(listener);
+    listener(this.get());
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify(): void {
+    const settings = this.get();
+    this.listeners.forEach(listener => listener(settings));
+  }
+}
+
+export const settingsService = new SettingsService();
@@ -0,0 +1,187 @@
+import { AttendanceRecord, ReportJobRun, Student } from '../../types';
+import type { ReportJob } from '../scheduledReports';
+import { StorageAdapter, StoreName, StoreRecordMap, AttendanceQuery, reviveDates } from './storageAdapter';
+
+// Key holding the API bearer token (separate from the local session in AUTH_TOKEN_KEY)
+export const API_TOKEN_KEY = 'neoattend_api_token';
+
+// Audit reason the server records for changes replayed from a device's outbox
+export const SYNC_REASON = 'Offline change synced from another device';
+
+// Stores the API serves; everything else (accounts, audit log, face samples, ...) stays on the device
+const API_PATHS: Partial<Record<StoreName, string>> = {
+  students: 'students',
+  attendance: 'attendance',
+  sessions: 'sessions',
+};
+
+/**
+ * Error response from the API; `status` is the HTTP status
+ */
+export class ApiError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+export interface HttpAdapterOptions {
+  fetch?: typeof fetch;
+  storage?: Storage; // Where the bearer token is kept
+}
+
+/**
+ * Client for the REST API in server/ - used as the DatabaseService sync remote (see useRemote),
+ * so check-ins are replayed to the shared server and other devices' records are pulled in.
+ * Only students, attendance and sessions are served; other stores throw.
+ */
+export class HttpAdapter implements StorageAdapter {
+  readonly name = 'api';
+
+  constructor(private baseUrl: string, private options: HttpAdapterOptions = {}) {}
+
+  async open(): Promise<void> {
+    // Stateless - every call is its own request
+  }
+
+  async login(username: string, password: string): Promise<void> {
+    const { token } = await this.request<{ token: string }>('POST', 'auth/login', { username, password });
+    this.getStorage()?.setItem(API_TOKEN_KEY, token);
+  }
+
+  async logout(): Promise<void> {
+    if (!this.isAuthenticated()) return;
+    try {
+      await this.request('POST', 'auth/logout');
+    } finally {
+      this.getStorage()?.removeItem(API_TOKEN_KEY);
+    }
+  }
+
+  isAuthenticated(): boolean {
+    return !!this.getStorage()?.getItem(API_TOKEN_KEY);
+  }
+
+  // WebSocket URL of the server's live attendance feed (server/live.ts), or null before login
+  getLiveUrl(): string | null {
+    const token = this.getStorage()?.getItem(API_TOKEN_KEY);
+    if (!token) return null;
+    const url = new URL(`${this.baseUrl.replace(/\/$/, '')}/api/live`);
+    url.protocol = url.protocol === 'https:' ? 'wss:' : 'ws:';
+    url.searchParams.set('token', token);
+    return url.toString();
+  }
+
+  async getAll<K extends StoreName>(store: K): Promise<StoreRecordMap[K][]> {
+    const records = await this.request<StoreRecordMap[K][]>('GET', this.path(store));
+    return records.map(record => reviveDates(store, record));
+  }
+
+  async get<K extends StoreName>(store: K, id: string): Promise<StoreRecordMap[K] | null> {
+    try {
+      return reviveDates(store, await this.request<StoreRecordMap[K]>('GET', `${this.path(store)}/${encodeURIComponent(id)}`));
+    } catch (error) {
+      if (error instanceof ApiError && error.status === 404) return null;
+      throw error;
+    }
+  }
+
+  async put<K extends StoreName>(store: K, record: StoreRecordMap[K]): Promise<void> {
+    const path = `${this.path(store)}/${encodeURIComponent(record.id)}`;
+    if (store === 'attendance') {
+      await this.request('PUT', path, { record: record as AttendanceRecord, reason: SYNC_REASON });
+    } else if (store === 'students') {
+      await this.request('PUT', path, record as Student);
+    } else {
+      throw new Error(`The API does not accept writes to ${store}`);
+    }
+  }
+
+  async putMany<K extends StoreName>(store: K, records: StoreRecordMap[K][]): Promise<void> {
+    for (const record of records) {
+      await this.put(store, record);
+    }
+  }
+
+  async delete(store: StoreName, id: string): Promise<void> {
+    if (store !== 'students') throw new Error(`The API does not delete from ${store}`);
+    await this.request('DELETE', `${this.path(store)}/${encodeURIComponent(id)}`);
+  }
+
+  async clear(store: StoreName): Promise<void> {
+    throw new Error(`The API does not clear ${store}`);
+  }
+
+  async queryAttendance(query: AttendanceQuery): Promise<AttendanceRecord[]> {
+    const params = new URLSearchParams();
+    if (query.studentId !== undefined) params.set('studentId', query.studentId);
+    if (query.sessionId !== undefined) params.set('sessionId', query.sessionId);
+    if (query.subject !== undefined) params.set('subject', query.subject);
+    if (query.from) params.set('from', query.from.toISOString());
+    if (query.to) params.set('to', query.to.toISOString());
+    const records = await this.request<AttendanceRecord[]>('GET', `attendance?${params}`);
+    return records.map(record => reviveDates('attendance', record));
+  }
+
+  async getSettings(): Promise<Record<string, unknown>> {
+    return this.request('GET', 'settings');
+  }
+
+  async saveSettings(settings: Record<string, unknown>): Promise<void> {
+    await this.request('PUT', 'settings', settings);
+  }
+
+  // Scheduled reports run on the server (server/reportScheduler.ts)
+  async getReportJobs(): Promise<ReportJob[]> {
+    return this.request('GET', 'report-jobs');
+  }
+
+  async saveReportJobs(jobs: ReportJob[]): Promise<void> {
+    await this.request('PUT', 'report-jobs', jobs);
+  }
+
+  async getReportRuns(): Promise<ReportJobRun[]> {
+    const runs = await this.request<ReportJobRun[]>('GET', 'report-jobs/runs');
+    return runs.map(run => ({ ...run, startedAt: new Date(run.startedAt), finishedAt: new Date(run.finishedAt) }));
+  }
+
+  async runReportJob(id: string): Promise<ReportJobRun> {
+    const run = await this.request<ReportJobRun>('POST', `report-jobs/${encodeURIComponent(id)}/run`);
+    return { ...run, startedAt: new Date(run.startedAt), finishedAt: new Date(run.finishedAt) };
+  }
+
+  close(): void {
+    // Nothing to close
+  }
+
+  private path(store: StoreName): string {
+    const path = API_PATHS[store];
+    if (!path) throw new Error(`The API does not serve ${store}`);
+    return path;
+  }
+
+  private async request<T = unknown>(method: string, path: string, body?: unknown): Promise<T> {
+    const token = this.getStorage()?.getItem(API_TOKEN_KEY);
+    const doFetch = this.options.fetch ?? fetch;
+    const response = await doFetch(`${this.baseUrl.replace(/\/$/, '')}/api/${path}`, {
+      method,
+      headers: {
+        ...(body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      },
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+    });
+
+    if (response.status === 204) return undefined as T;
+    const payload = await response.json().catch(() => null);
+    if (!response.ok) {
+      throw new ApiError(response.status, payload?.error || `${method} ${path} failed with ${response.status}`);
+    }
+    return payload as T;
+  }
+
+  private getStorage(): Storage | null {
+    if (this.options.storage) return this.options.storage;
+    return typeof localStorage !== 'undefined' ? localStorage : null;
+  }
+}
@@ -0,0 +1,173 @@
+import { AttendanceRecord } from '../../types';
+import {
+  StorageAdapter,
+  StoreName,
+  StoreRecordMap,
+  AttendanceQuery,
+  STORE_NAMES,
+  reviveDates,
+  matchesAttendanceQuery,
+} from './storageAdapter';
+
+export const INDEXED_DB_NAME = 'neoattend';
+
+// Bump whenever STORE_INDEXES changes so onupgradeneeded creates the new stores/indexes
+export const INDEXED_DB_VERSION = 10;
+
+/**
+ * Secondary indexes per store (object stores are always keyed by `id`)
+ */
+export const STORE_INDEXES: { [K in StoreName]: string[] } = {
+  students: ['rollNo'],
+  attendance: ['studentId', 'timestamp', 'subject', 'sessionId'],
+  courses: ['code'],
+  sections: ['courseId', 'facultyId'],
+  sessions: ['sectionId', 'scheduledStart'],
+  credentials: ['userId'],
+  authSessions: ['userId', 'expiresAt'],
+  audit: ['studentId', 'recordId'],
+  faceSamples: ['rollNo'],
+  buildings: [],
+  rooms: ['name', 'buildingId'],
+  outbox: [],
+  leaveRequests: ['studentId', 'status'],
+  disputes: ['studentId', 'status'],
+  meta: [],
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+/**
+ * IndexedDB backend - one object store per StoreName with indexes on
+ * studentId, timestamp and subject so attendance lookups don't load every record
+ */
+export class IndexedDBAdapter implements StorageAdapter {
+  readonly name = 'indexedDB';
+  private db: IDBDatabase | null = null;
+
+  constructor(
+    private dbName: string = INDEXED_DB_NAME,
+    private factory: IDBFactory = globalThis.indexedDB
+  ) {}
+
+  static isSupported(): boolean {
+    return typeof globalThis !== 'undefined' && !!globalThis.indexedDB;
+  }
+
+  async open(): Promise<void> {
+    if (this.db) return;
+
+    const request = this.factory.open(this.dbName, INDEXED_DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      const transaction = request.transaction!;
+
+      STORE_NAMES.forEach(storeName => {
+        const store = db.objectStoreNames.contains(storeName)
+          ? transaction.objectStore(storeName)
+          : db.createObjectStore(storeName, { keyPath: 'id' });
+
+        STORE_INDEXES[storeName].forEach(indexName => {
+          if (!store.indexNames.contains(indexName)) {
+            store.createIndex(indexName, indexName, { unique: false });
+          }
+        });
+      });
+    };
+
+    this.db = await requestToPromise(request);
+  }
+
+  async getAll<K extends StoreName>(store: K): Promise<StoreRecordMap[K][]> {
+    const objectStore = this.objectStore(store, 'readonly');
+    return requestToPromise(objectStore.getAll());
+  }
+
+  async get<K extends StoreName>(store: K, id: string): Promise<StoreRecordMap[K] | null> {
+    const objectStore = this.objectStore(store, 'readonly');
+    const record = await requestToPromise(objectStore.get(id));
+    return record || null;
+  }
+
+  async put<K extends StoreName>(store: K, record: StoreRecordMap[K]): Promise<void> {
+    await this.putMany(store, [record]);
+  }
+
+  async putMany<K extends StoreName>(store: K, records: StoreRecordMap[K][]): Promise<void> {
+    const transaction = this.connection().transaction(store, 'readwrite');
+    const objectStore = transaction.objectStore(store);
+    // Indexed date fields must be real Dates or the timestamp index ignores the record
+    records.forEach(record => objectStore.put(reviveDates(store, record)));
+    await transactionDone(transaction);
+  }
+
+  async delete(store: StoreName, id: string): Promise<void> {
+    const transaction = this.connection().transaction(store, 'readwrite');
+    transaction.objectStore(store).delete(id);
+    await transactionDone(transaction);
+  }
+
+  async clear(store: StoreName): Promise<void> {
+    const transaction = this.connection().transaction(store, 'readwrite');
+    transaction.objectStore(store).clear();
+    await transactionDone(transaction);
+  }
+
+  async queryAttendance(query: AttendanceQuery): Promise<AttendanceRecord[]> {
+    const objectStore = this.objectStore('attendance', 'readonly');
+    let candidates: AttendanceRecord[];
+
+    // Narrow with the most selective index available, then apply the remaining filters
+    if (query.sessionId !== undefined) {
+      candidates = await requestToPromise(objectStore.index('sessionId').getAll(query.sessionId));
+    } else if (query.studentId !== undefined) {
+      candidates = await requestToPromise(objectStore.index('studentId').getAll(query.studentId));
+    } else if (query.from || query.to) {
+      candidates = await requestToPromise(
+        objectStore.index('timestamp').getAll(this.timestampRange(query))
+      );
+    } else if (query.subject !== undefined) {
+      candidates = await requestToPromise(objectStore.index('subject').getAll(query.subject));
+    } else {
+      candidates = await requestToPromise(objectStore.getAll());
+    }
+
+    return candidates.filter(record => matchesAttendanceQuery(record, query));
+  }
+
+  close(): void {
+    this.db?.close();
+    this.db = null;
+  }
+
+  private timestampRange(query: AttendanceQuery): IDBKeyRange {
+    if (query.from && query.to) {
+      return IDBKeyRange.bound(query.from, query.to, false, true);
+    }
+    return query.from
+      ? IDBKeyRange.lowerBound(query.from)
+      : IDBKeyRange.upperBound(query.to!, true);
+  }
+
+  private objectStore(store: StoreName, mode: IDBTransactionMode): IDBObjectStore {
+    return this.connection().transaction(store, mode).objectStore(store);
+  }
+
+  private connection(): IDBDatabase {
+    if (!this.db) {
+      throw new Error('IndexedDB adapter used before open()');
+    }
+    return this.db;
+  }
+}
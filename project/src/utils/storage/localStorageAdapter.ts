@@ -0,0 +1,94 @@
+import { AttendanceRecord } from '../../types';
+import {
+  StorageAdapter,
+  StoreName,
+  StoreRecordMap,
+  AttendanceQuery,
+  reviveDates,
+  matchesAttendanceQuery,
+} from './storageAdapter';
+
+// Keys kept identical to the original DatabaseService so existing data is still readable
+export const LOCAL_STORAGE_KEYS: { [K in StoreName]: string } = {
+  students: 'neoattend_students',
+  attendance: 'neoattend_attendance',
+  courses: 'neoattend_courses',
+  sections: 'neoattend_sections',
+  sessions: 'neoattend_sessions',
+  credentials: 'neoattend_credentials',
+  authSessions: 'neoattend_auth_sessions',
+  audit: 'neoattend_audit',
+  faceSamples: 'neoattend_face_samples',
+  buildings: 'neoattend_buildings',
+  rooms: 'neoattend_rooms',
+  outbox: 'neoattend_outbox',
+  leaveRequests: 'neoattend_leave_requests',
+  disputes: 'neoattend_disputes',
+  meta: 'neoattend_meta',
+};
+
+/**
+ * localStorage backend - each store is one JSON array under a single key.
+ * Simple and synchronous underneath, but every read parses the whole array.
+ */
+export class LocalStorageAdapter implements StorageAdapter {
+  readonly name = 'localStorage';
+
+  constructor(private storage: Storage = globalThis.localStorage) {}
+
+  async open(): Promise<void> {
+    // Nothing to open - localStorage is always available
+  }
+
+  async getAll<K extends StoreName>(store: K): Promise<StoreRecordMap[K][]> {
+    return this.read(store);
+  }
+
+  async get<K extends StoreName>(store: K, id: string): Promise<StoreRecordMap[K] | null> {
+    return this.read(store).find(record => record.id === id) || null;
+  }
+
+  async put<K extends StoreName>(store: K, record: StoreRecordMap[K]): Promise<void> {
+    await this.putMany(store, [record]);
+  }
+
+  async putMany<K extends StoreName>(store: K, records: StoreRecordMap[K][]): Promise<void> {
+    const existing = this.read(store);
+    records.forEach(record => {
+      const index = existing.findIndex(r => r.id === record.id);
+      if (index !== -1) {
+        existing[index] = record;
+      } else {
+        existing.push(record);
+      }
+    });
+    this.write(store, existing);
+  }
+
+  async delete(store: StoreName, id: string): Promise<void> {
+    const records = this.read(store) as Array<{ id: string }>;
+    this.storage.setItem(LOCAL_STORAGE_KEYS[store], JSON.stringify(records.filter(r => r.id !== id)));
+  }
+
+  async clear(store: StoreName): Promise<void> {
+    this.storage.removeItem(LOCAL_STORAGE_KEYS[store]);
+  }
+
+  async queryAttendance(query: AttendanceQuery): Promise<AttendanceRecord[]> {
+    return this.read('attendance').filter(record => matchesAttendanceQuery(record, query));
+  }
+
+  close(): void {
+    // Nothing to close
+  }
+
+  private read<K extends StoreName>(store: K): StoreRecordMap[K][] {
+    const stored = this.storage.getItem(LOCAL_STORAGE_KEYS[store]);
+    const records: StoreRecordMap[K][] = stored ? JSON.parse(stored) : [];
+    return records.map(record => reviveDates(store, record));
+  }
+
+  private write<K extends StoreName>(store: K, records: StoreRecordMap[K][]): void {
+    this.storage.setItem(LOCAL_STORAGE_KEYS[store], JSON.stringify(records));
+  }
+}
@@ -0,0 +1,143 @@
+import {
+  Student,
+  AttendanceRecord,
+  Course,
+  Section,
+  ClassSession,
+  Credential,
+  AuthSession,
+  AuditEntry,
+  FaceSample,
+  Building,
+  Room,
+  OutboxEntry,
+  LeaveRequest,
+  AttendanceDispute,
+} from '../../types';
+
+/**
+ * Key/value bookkeeping entry (schema version, migration quarantine, ...)
+ */
+export interface MetaEntry {
+  id: string;
+  value: unknown;
+}
+
+/**
+ * Records persisted by each store, keyed by the store name
+ */
+export interface StoreRecordMap {
+  students: Student;
+  attendance: AttendanceRecord;
+  courses: Course;
+  sections: Section;
+  sessions: ClassSession;
+  credentials: Credential;
+  authSessions: AuthSession;
+  audit: AuditEntry;
+  faceSamples: FaceSample;
+  buildings: Building;
+  rooms: Room;
+  outbox: OutboxEntry;
+  leaveRequests: LeaveRequest;
+  disputes: AttendanceDispute;
+  meta: MetaEntry;
+}
+
+export type StoreName = keyof StoreRecordMap;
+
+export const STORE_NAMES: StoreName[] = [
+  'students',
+  'attendance',
+  'courses',
+  'sections',
+  'sessions',
+  'credentials',
+  'authSessions',
+  'audit',
+  'faceSamples',
+  'buildings',
+  'rooms',
+  'outbox',
+  'leaveRequests',
+  'disputes',
+  'meta',
+];
+
+/**
+ * Fields that hold dates for each store.
+ * Backends that serialize to JSON use this to revive them on read.
+ */
+export const DATE_FIELDS: { [K in StoreName]: string[] } = {
+  students: ['createdAt'],
+  attendance: ['timestamp', 'updatedAt', 'locationReviewedAt'],
+  courses: ['createdAt'],
+  sections: ['termStart', 'termEnd', 'createdAt'],
+  sessions: ['scheduledStart', 'scheduledEnd', 'attendancePurgedAt'],
+  credentials: ['createdAt'],
+  authSessions: ['createdAt', 'expiresAt'],
+  audit: ['timestamp', 'purgedAt'],
+  faceSamples: ['registeredAt'],
+  buildings: ['createdAt'],
+  rooms: ['createdAt'],
+  outbox: ['queuedAt', 'rejectedAt'],
+  leaveRequests: ['from', 'to', 'submittedAt', 'reviewedAt'],
+  disputes: ['date', 'submittedAt', 'reviewedAt'],
+  meta: [],
+};
+
+/**
+ * Filters for attendance lookups.
+ * Backends with indexes (IndexedDB) answer these without scanning every record.
+ */
+export interface AttendanceQuery {
+  studentId?: string;
+  sessionId?: string;
+  subject?: string;
+  from?: Date; // inclusive
+  to?: Date; // exclusive
+}
+
+/**
+ * Storage backend used by DatabaseService.
+ * Every adapter must pass the contract suite in src/__tests__/storageAdapter.test.ts
+ */
+export interface StorageAdapter {
+  readonly name: string;
+  open(): Promise<void>;
+  getAll<K extends StoreName>(store: K): Promise<StoreRecordMap[K][]>;
+  get<K extends StoreName>(store: K, id: string): Promise<StoreRecordMap[K] | null>;
+  put<K extends StoreName>(store: K, record: StoreRecordMap[K]): Promise<void>;
+  putMany<K extends StoreName>(store: K, records: StoreRecordMap[K][]): Promise<void>;
+  delete(store: StoreName, id: string): Promise<void>;
+  clear(store: StoreName): Promise<void>;
+  queryAttendance(query: AttendanceQuery): Promise<AttendanceRecord[]>;
+  close(): void;
+}
+
+/**
+ * Shared filter so every backend applies AttendanceQuery the same way
+ */
+export const matchesAttendanceQuery = (record: AttendanceRecord, query: AttendanceQuery): boolean => {
+  const time = new Date(record.timestamp).getTime();
+  if (query.studentId !== undefined && record.studentId !== query.studentId) return false;
+  if (query.sessionId !== undefined && record.sessionId !== query.sessionId) return false;
+  if (query.subject !== undefined && record.subject !== query.subject) return false;
+  if (query.from && time < query.from.getTime()) return false;
+  if (query.to && time >= query.to.getTime()) return false;
+  return true;
+};
+
+/**
+ * Turn serialized date fields (ISO strings or epoch numbers) back into Date objects
+ */
+export const reviveDates = <T extends object>(store: StoreName, record: T): T => {
+  const revived = { ...record } as Record<string, unknown>;
+  DATE_FIELDS[store].forEach(field => {
+    const value = revived[field];
+    if (typeof value === 'string' || typeof value === 'number') {
+      revived[field] = new Date(value);
+    }
+  });
+  return revived as unknown as T;
+};
@@ -0,0 +1,190 @@
+/**
+ * Bulk student import from CSV/XLSX rosters: parse the sheet, map its columns to Student fields,
+ * then validate every row before anything is saved (see DatabaseService.importStudents).
+ */
+
+import { Student } from '../types';
+
+export const DEPARTMENTS = ['Computer Science', 'Information Technology', 'Electronics', 'Mechanical', 'Civil', 'Electrical'];
+
+export const YEARS = ['1st Year', '2nd Year', '3rd Year', '4th Year'];
+
+export type ImportField = 'rollNo' | 'name' | 'email' | 'department' | 'year';
+
+export const IMPORT_FIELDS: { field: ImportField; label: string; required: boolean }[] = [
+  { field: 'rollNo', label: 'Roll No', required: true },
+  { field: 'name', label: 'Name', required: true },
+  { field: 'email', label: 'Email', required: true },
+  { field: 'department', label: 'Department', required: true },
+  { field: 'year', label: 'Year', required: false },
+];
+
+// Field -> column index in the sheet
+export type ColumnMapping = Partial<Record<ImportField, number>>;
+
+export interface ImportRow {
+  line: number; // 1-based line in the file, header included, so errors point at what the user sees
+  student: Omit<Student, 'id' | 'createdAt'>;
+  errors: string[];
+}
+
+// Header spellings seen in real rosters, compared lowercase without spaces/punctuation
+const HEADER_ALIASES: Record<ImportField, string[]> = {
+  rollNo: ['rollno', 'rollnumber', 'roll', 'registrationno', 'regno', 'enrollmentno', 'studentid'],
+  name: ['name', 'studentname', 'fullname'],
+  email: ['email', 'emailaddress', 'emailid', 'mail'],
+  department: ['department', 'dept', 'branch', 'programme', 'program'],
+  year: ['year', 'yearofstudy', 'class', 'studyyear'],
+};
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * RFC 4180 CSV: quoted fields may contain commas, newlines and doubled quotes. Blank lines are dropped.
+ */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  row.push(field);
+  rows.push(row);
+
+  return rows.filter(r => r.some(cell => cell.trim() !== ''));
+};
+
+// First sheet of an .xlsx workbook, every cell as displayed text
+export const parseWorkbook = async (data: ArrayBuffer): Promise<string[][]> => {
+  const { Workbook } = await import('exceljs');
+  const workbook = new Workbook();
+  await workbook.xlsx.load(data);
+  const sheet = workbook.worksheets[0];
+  if (!sheet) return [];
+  const rows: string[][] = [];
+  for (let r = 1; r <= sheet.rowCount; r++) {
+    const row = sheet.getRow(r);
+    rows.push(Array.from({ length: sheet.columnCount }, (_, c) => row.getCell(c + 1).text));
+  }
+  return rows.filter(r => r.some(cell => cell.trim() !== ''));
+};
+
+export const readRosterFile = async (file: File): Promise<string[][]> => {
+  const extension = file.name.split('.').pop()?.toLowerCase();
+  if (extension === 'csv') return parseCsv(await file.text());
+  if (extension === 'xlsx') return parseWorkbook(await file.arrayBuffer());
+  throw new Error('Unsupported file type: use a .csv or .xlsx roster');
+};
+
+export const guessColumnMapping = (headers: string[]): ColumnMapping => {
+  const mapping: ColumnMapping = {};
+  const normalized = headers.map(normalizeHeader);
+  IMPORT_FIELDS.forEach(({ field }) => {
+    const index = normalized.findIndex(h => HEADER_ALIASES[field].includes(h));
+    if (index !== -1) mapping[field] = index;
+  });
+  return mapping;
+};
+
+// '2', '2nd', 'II', 'second year' -> '2nd Year'
+const normalizeYear = (value: string): string | null => {
+  const key = value.toLowerCase().replace(/year/g, '').trim();
+  const index = [
+    ['1', '1st', 'i', 'first'],
+    ['2', '2nd', 'ii', 'second'],
+    ['3', '3rd', 'iii', 'third'],
+    ['4', '4th', 'iv', 'fourth'],
+  ].findIndex(spellings => spellings.includes(key));
+  return index === -1 ? null : YEARS[index];
+};
+
+/**
+ * Dry run of an import: one entry per data row with the Student it would create and what is
+ * wrong with it. Departments are matched case-insensitively against `departments`, and roll
+ * numbers must be unique within the file and against `existing`.
+ */
+export const validateImportRows = (
+  rows: string[][],
+  mapping: ColumnMapping,
+  { existing, departments }: { existing: Student[]; departments: string[] }
+): ImportRow[] => {
+  const takenRollNos = new Set(existing.map(s => s.rollNo?.toLowerCase()).filter(Boolean));
+  const seenRollNos = new Map<string, number>();
+  const cell = (row: string[], field: ImportField) => {
+    const index = mapping[field];
+    return index === undefined ? '' : (row[index] ?? '').trim();
+  };
+
+  return rows.slice(1).map((row, i) => {
+    const line = i + 2;
+    const errors: string[] = [];
+    const rollNo = cell(row, 'rollNo');
+    const name = cell(row, 'name');
+    const email = cell(row, 'email');
+    const rawDepartment = cell(row, 'department');
+    const rawYear = cell(row, 'year');
+
+    IMPORT_FIELDS.filter(f => f.required).forEach(({ field, label }) => {
+      if (!cell(row, field)) errors.push(`${label} is missing`);
+    });
+
+    if (rollNo) {
+      const key = rollNo.toLowerCase();
+      if (takenRollNos.has(key)) {
+        errors.push(`Roll No ${rollNo} already exists`);
+      } else if (seenRollNos.has(key)) {
+        errors.push(`Roll No ${rollNo} is repeated (line ${seenRollNos.get(key)})`);
+      } else {
+        seenRollNos.set(key, line);
+      }
+    }
+    if (email && !EMAIL_PATTERN.test(email)) errors.push(`Invalid email: ${email}`);
+
+    const department = departments.find(d => d.toLowerCase() === rawDepartment.toLowerCase());
+    if (rawDepartment && !department) errors.push(`Unknown department: ${rawDepartment}`);
+
+    const year = rawYear ? normalizeYear(rawYear) : null;
+    if (rawYear && !year) errors.push(`Unknown year: ${rawYear}`);
+
+    return {
+      line,
+      student: {
+        rollNo,
+        name,
+        email,
+        department: department || rawDepartment,
+        ...(year ? { year } : {}),
+        role: 'student',
+      },
+      errors,
+    };
+  });
+};
@@ -0,0 +1,81 @@
+/**
+ * Conflict rules for replaying queued (offline) attendance changes against the server.
+ * Kept free of storage concerns so the rules can be tested on their own.
+ */
+
+import { AttendanceRecord, AttendanceSource } from '../types';
+import { ApiError } from './storage/httpAdapter';
+
+// A person's decision (an override or an approved leave) outranks an automatic one, whichever happened first
+export const SOURCE_PRECEDENCE: Record<AttendanceSource, number> = {
+  face_recognition: 0,
+  import: 1,
+  manual_override: 2,
+  leave_approval: 2,
+};
+
+export interface ConflictResolution {
+  winner: 'local' | 'remote';
+  rule: string; // Human-readable rule that decided it, recorded in the audit log
+}
+
+export interface SyncConflict extends ConflictResolution {
+  recordId: string;
+  studentId: string;
+}
+
+export interface SyncReport {
+  pushed: number; // Changes the server accepted
+  conflicts: SyncConflict[];
+  rejected: number; // Changes the server refused; moved to the rejected list
+  pending: number; // Still queued, e.g. because the server went away mid-sync
+  error: string | null;
+}
+
+export interface SyncStatus {
+  pending: number;
+  rejected: number;
+  syncing: boolean;
+  lastError: string | null;
+}
+
+// Client errors that can still succeed later: logged out, timed out, rate limited
+const RETRYABLE_STATUSES = [401, 408, 429];
+
+/**
+ * True when the server refused a change outright (invalid, not allowed, duplicate), so sending it
+ * again would fail the same way. Network failures and 5xx responses are worth retrying.
+ */
+export const isRejection = (error: unknown): boolean =>
+  error instanceof ApiError && error.status >= 400 && error.status < 500 && !RETRYABLE_STATUSES.includes(error.status);
+
+const time = (date: Date | string | undefined) => (date ? new Date(date).getTime() : 0);
+
+/**
+ * Decide between a queued local change and the server's version of the same attendance.
+ * `remote` is either the same record, or another record for the same student and session
+ * (two devices checked the student in while offline).
+ *
+ * 1. The change from the higher-precedence source wins (manual override or leave approval > import > face recognition).
+ * 2. For the same record, the most recent change wins.
+ * 3. For duplicate check-ins, the earliest one wins - it is when the student arrived.
+ */
+export const resolveConflict = (local: AttendanceRecord, remote: AttendanceRecord): ConflictResolution => {
+  const localRank = SOURCE_PRECEDENCE[local.source || 'face_recognition'];
+  const remoteRank = SOURCE_PRECEDENCE[remote.source || 'face_recognition'];
+  if (localRank !== remoteRank) {
+    const [winner, loser] = localRank > remoteRank ? [local, remote] : [remote, local];
+    return {
+      winner: winner === local ? 'local' : 'remote',
+      rule: `${winner.source} outranks ${loser.source || 'face_recognition'}`,
+    };
+  }
+
+  if (local.id === remote.id) {
+    const localWins = time(local.updatedAt || local.timestamp) >= time(remote.updatedAt || remote.timestamp);
+    return { winner: localWins ? 'local' : 'remote', rule: 'most recent change wins' };
+  }
+
+  const localWins = time(local.timestamp) <= time(remote.timestamp);
+  return { winner: localWins ? 'local' : 'remote', rule: 'earliest check-in wins' };
+};
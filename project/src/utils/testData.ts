@@ -1,4 +1,5 @@
 import { database } from './database';
+import { createTestTimetable, testArrivalOffset } from './initializeTestData';
 import { Student, AttendanceRecord } from '../types';
 
 /**
@@ -114,6 +115,9 @@ export const loadTestData = () => {
     console.log(`✅ Added student: ${student.name} (${student.rollNo})`);
   });
 
+  // Daily 9-10 AM class so the generated check-ins land in real sessions
+  createTestTimetable(addedStudents);
+
   // Generate attendance records for the past 7 days
   generateAttendanceHistory(addedStudents);
 
@@ -159,10 +163,8 @@ function generateAttendanceHistory(students: Student[]) {
       
       if (random > 0.15) { // 85% present
         const isLate = random > 0.75; // 10% late (from the 85% present)
-        const timeOffset = isLate ? 15 + Math.floor(Math.random() * 30) : 0; // 15-45 min late
-        
         const timestamp = new Date(date);
-        timestamp.setMinutes(timestamp.getMinutes() + timeOffset);
+        timestamp.setMinutes(timestamp.getMinutes() + testArrivalOffset(isLate));
         
         const record: Omit<AttendanceRecord, 'id'> = {
           studentId: student.id,
@@ -211,7 +213,7 @@ function generateTodayAttendance(students: Student[]) {
       // Present - arrived on time
       status = 'Present';
       timestamp = new Date(classStartTime);
-      timestamp.setMinutes(timestamp.getMinutes() + Math.floor(Math.random() * 5)); // 0-5 min after start
+      timestamp.setMinutes(timestamp.getMinutes() + testArrivalOffset(false)); // Within the grace window
       confidence = 0.90 + Math.random() * 0.10; // 90-100%
       
       database.markAttendance({
@@ -227,15 +229,15 @@ function generateTodayAttendance(students: Student[]) {
         status,
         confidence,
         subject: 'Computer Science',
-      } as any);
+      });
       
       console.log(`✅ ${student.name}: Present (${(confidence * 100).toFixed(1)}%)`);
       
     } else if (index < 8) {
-      // Late - arrived 15-30 min late
+      // Late - arrived inside the late window
       status = 'Late';
       timestamp = new Date(classStartTime);
-      timestamp.setMinutes(timestamp.getMinutes() + 15 + Math.floor(Math.random() * 15));
+      timestamp.setMinutes(timestamp.getMinutes() + testArrivalOffset(true));
       confidence = 0.88 + Math.random() * 0.10; // 88-98%
       
       database.markAttendance({
@@ -251,7 +253,7 @@ function generateTodayAttendance(students: Student[]) {
         status,
         confidence,
         subject: 'Computer Science',
-      } as any);
+      });
       
       console.log(`⏰ ${student.name}: Late (${(confidence * 100).toFixed(1)}%)`);
       
@@ -269,8 +271,7 @@ function generateTodayAttendance(students: Student[]) {
  */
 export const clearTestData = () => {
   console.log('🗑️ Clearing test data...');
-  localStorage.removeItem('students');
-  localStorage.removeItem('attendance');
+  database.clearAllData();
   console.log('✅ Test data cleared');
 };
 
@@ -0,0 +1,201 @@
+/**
+ * Timetable helpers - turn a section's weekly timetable into dated class sessions
+ * and compute attendance against the sessions that actually took place
+ */
+
+import { Section, ClassSession, AttendanceRecord } from '../types';
+
+export const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// Check-ins this many minutes before a session starts still count towards it
+export const EARLY_CHECK_IN_MINUTES = 15;
+
+export type SessionAttendanceStatus = AttendanceRecord['status'];
+
+export interface SessionOutcome {
+  session: ClassSession;
+  record: AttendanceRecord | null;
+  status: SessionAttendanceStatus;
+}
+
+export interface SessionAttendanceSummary {
+  held: number; // Sessions counted towards the percentage
+  present: number;
+  late: number;
+  absent: number;
+  excused: number;
+  attended: number;
+  percentage: number;
+}
+
+export const isAttended = (status: SessionAttendanceStatus): boolean => status === 'Present' || status === 'Late';
+
+/**
+ * Parse "HH:MM" into minutes after midnight
+ */
+export const parseTime = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + (minutes || 0);
+};
+
+const atMinutes = (day: Date, minutes: number): Date => {
+  const date = new Date(day);
+  date.setHours(Math.floor(minutes / 60), minutes % 60, 0, 0);
+  return date;
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/**
+ * Stable id so regenerating a timetable never duplicates a session
+ */
+export const sessionIdFor = (sectionId: string, start: Date): string =>
+  `${sectionId}_${start.getFullYear()}${pad(start.getMonth() + 1)}${pad(start.getDate())}_${pad(start.getHours())}${pad(start.getMinutes())}`;
+
+/**
+ * Expand a section's weekly timetable into sessions between `from` and `to` (inclusive days),
+ * clipped to the section's term
+ */
+export const generateSessions = (section: Section, from: Date = section.termStart, to: Date = section.termEnd): ClassSession[] => {
+  const start = new Date(Math.max(new Date(from).getTime(), new Date(section.termStart).getTime()));
+  const end = new Date(Math.min(new Date(to).getTime(), new Date(section.termEnd).getTime()));
+  start.setHours(0, 0, 0, 0);
+
+  const sessions: ClassSession[] = [];
+  for (const day = new Date(start); day <= end; day.setDate(day.getDate() + 1)) {
+    section.timetable
+      .filter(slot => slot.dayOfWeek === day.getDay())
+      .forEach(slot => {
+        const scheduledStart = atMinutes(day, parseTime(slot.startTime));
+        sessions.push({
+          id: sessionIdFor(section.id, scheduledStart),
+          sectionId: section.id,
+          courseId: section.courseId,
+          scheduledStart,
+          scheduledEnd: atMinutes(day, parseTime(slot.endTime)),
+          room: slot.room,
+          facultyId: section.facultyId,
+          status: 'scheduled',
+        });
+      });
+  }
+
+  return sessions.sort((a, b) => a.scheduledStart.getTime() - b.scheduledStart.getTime());
+};
+
+/**
+ * A session "happened" once it has started and was not cancelled
+ */
+export const isSessionHeld = (session: ClassSession, now: Date = new Date()): boolean =>
+  session.status !== 'cancelled' && new Date(session.scheduledStart).getTime() <= now.getTime();
+
+/**
+ * Find the session a check-in at `timestamp` belongs to
+ */
+export const findSessionAt = (sessions: ClassSession[], timestamp: Date): ClassSession | null => {
+  const time = new Date(timestamp).getTime();
+  return sessions.find(session => {
+    if (session.status === 'cancelled') return false;
+    const opens = new Date(session.scheduledStart).getTime() - EARLY_CHECK_IN_MINUTES * 60 * 1000;
+    return time >= opens && time <= new Date(session.scheduledEnd).getTime();
+  }) || null;
+};
+
+/**
+ * Pair every held session with the student's attendance record for it (if any).
+ * Sessions without a record count as absences, except sessions whose attendance was purged; a check-in
+ * outranks an excusal for the same session. Newest first.
+ */
+export const getSessionOutcomes = (
+  studentId: string,
+  sessions: ClassSession[],
+  records: AttendanceRecord[],
+  now: Date = new Date()
+): SessionOutcome[] => {
+  const recordsBySession = new Map<string, AttendanceRecord>();
+  records
+    .filter(record => record.studentId === studentId && record.sessionId)
+    .forEach(record => {
+      const current = recordsBySession.get(record.sessionId!);
+      if (current && isAttended(current.status) && record.status === 'Excused') return;
+      recordsBySession.set(record.sessionId!, record);
+    });
+
+  return sessions
+    .filter(session => isSessionHeld(session, now) && (!session.attendancePurgedAt || recordsBySession.has(session.id)))
+    .sort((a, b) => new Date(b.scheduledStart).getTime() - new Date(a.scheduledStart).getTime())
+    .map(session => {
+      const record = recordsBySession.get(session.id) || null;
+      return {
+        session,
+        record,
+        status: record ? record.status : 'Absent',
+      };
+    });
+};
+
+/**
+ * With `excludeExcused` (the attendance policy default) excused sessions drop out of the
+ * percentage; otherwise they count as absences
+ */
+export const summarizeOutcomes = (outcomes: SessionOutcome[], excludeExcused = true): SessionAttendanceSummary => {
+  const present = outcomes.filter(o => o.status === 'Present').length;
+  const late = outcomes.filter(o => o.status === 'Late').length;
+  const excused = outcomes.filter(o => o.status === 'Excused').length;
+  const held = excludeExcused ? outcomes.length - excused : outcomes.length;
+  const attended = present + late;
+
+  return {
+    held,
+    present,
+    late,
+    absent: held - attended,
+    excused,
+    attended,
+    percentage: held > 0 ? (attended / held) * 100 : 0,
+  };
+};
+
+/**
+ * Expected vs. actual check-ins across a set of sessions (for class-wide percentages)
+ */
+export const summarizeSessions = (
+  sessions: ClassSession[],
+  sections: Section[],
+  records: AttendanceRecord[],
+  now: Date = new Date(),
+  excludeExcused = true
+): { held: number; expected: number; present: number; late: number; excused: number; percentage: number } => {
+  const held = sessions.filter(session => isSessionHeld(session, now));
+  const heldIds = new Set(held.map(session => session.id));
+  const enrolment = new Map(sections.map(section => [section.id, section.studentIds.length]));
+
+  const sessionRecords = records.filter(record => record.sessionId && heldIds.has(record.sessionId));
+  // Once a session's attendance is purged only the students whose records were kept are expected
+  const enrolled = held.reduce(
+    (sum, session) =>
+      sum +
+      (session.attendancePurgedAt
+        ? new Set(sessionRecords.filter(record => record.sessionId === session.id).map(record => record.studentId)).size
+        : enrolment.get(session.sectionId) || 0),
+    0
+  );
+  const present = sessionRecords.filter(record => record.status === 'Present').length;
+  const late = sessionRecords.filter(record => record.status === 'Late').length;
+  const excused = sessionRecords.filter(record => record.status === 'Excused').length;
+  const expected = excludeExcused ? enrolled - excused : enrolled;
+
+  return {
+    held: held.length,
+    expected,
+    present,
+    late,
+    excused,
+    percentage: expected > 0 ? ((present + late) / expected) * 100 : 0,
+  };
+};
+
+export const formatSessionTime = (session: ClassSession): string => {
+  const format = (date: Date) => new Date(date).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' });
+  return `${format(session.scheduledStart)} - ${format(session.scheduledEnd)}`;
+};